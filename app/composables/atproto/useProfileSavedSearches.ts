@@ -0,0 +1,10 @@
+import type { SavedSearch } from '#shared/types/social'
+
+export function useProfileSavedSearches(handle: MaybeRefOrGetter<string>) {
+  const asyncData = useLazyFetch<SavedSearch[]>(
+    () => `/api/social/profile/${toValue(handle)}/saved-searches`,
+    { default: () => [] },
+  )
+
+  return asyncData
+}
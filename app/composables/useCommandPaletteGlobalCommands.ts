@@ -277,6 +277,16 @@ export function useCommandPaletteGlobalCommands() {
         activeLabel: activeLabel(route.name === 'compare', t('command_palette.here')),
         to: { name: 'compare' },
       },
+      {
+        id: 'audit',
+        group: 'navigation',
+        label: t('audit.title'),
+        keywords: ['lockfile', 'package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'],
+        iconClass: 'i-lucide:file-lock',
+        active: route.name === 'audit',
+        activeLabel: activeLabel(route.name === 'audit', t('command_palette.here')),
+        to: { name: 'audit' },
+      },
       {
         id: 'settings',
         group: 'navigation',
@@ -117,6 +117,16 @@ export function useCommandPalettePackageCommands(
           activeLabel: activeLabel(route.name === 'stats', t('command_palette.here')),
           to: packageStatsRoute(resolvedContext.packageName, resolvedContext.resolvedVersion),
         },
+        {
+          id: 'package-deps',
+          group: 'package',
+          label: t('command_palette.package.deps'),
+          keywords: [resolvedContext.packageName, t('shortcuts.open_deps')],
+          iconClass: 'i-lucide:list-tree',
+          active: route.name === 'deps',
+          activeLabel: activeLabel(route.name === 'deps', t('command_palette.here')),
+          to: packageDepsRoute(resolvedContext.packageName, resolvedContext.resolvedVersion),
+        },
       ]
 
       const uChangelog = changelog.value
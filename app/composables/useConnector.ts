@@ -1,4 +1,15 @@
-import type { PendingOperation, OperationStatus, OperationType } from '#cli/types'
+import type {
+  AuditLogEntry,
+  BrowserSession,
+  BrowserSessionInfo,
+  DryRunResult,
+  PendingOperation,
+  OperationStatus,
+  OperationType,
+  PublishPreviewData,
+  SessionScope,
+  TrustedPublisher,
+} from '#cli/types'
 import { $fetch } from 'ofetch'
 
 export interface NewOperation {
@@ -8,6 +19,8 @@ export interface NewOperation {
   command: string
   /** ID of operation this depends on (must complete successfully first) */
   dependsOn?: string
+  /** Index of an earlier operation in the same batch this depends on (`addOperations` only) */
+  dependsOnIndex?: number
 }
 
 interface ApiResponse<T = unknown> {
@@ -33,12 +46,23 @@ export interface ConnectorState {
   lastExecutionTime: number | null
 }
 
+/** Persisted connection config. `token` is the session token returned by /connect */
+interface ConnectorConfig {
+  token: string
+  port: number
+  sessionId?: string
+  scope?: SessionScope
+  expiresAt?: number
+}
+
 interface ConnectResponse {
   success: boolean
   data?: {
     npmUser: string | null
     avatar: string | null
     connectedAt: number
+    sessionToken: string
+    session: BrowserSession
   }
   error?: string
 }
@@ -56,12 +80,18 @@ interface StateResponse {
 const STORAGE_KEY = 'npmx-connector'
 const DEFAULT_PORT = 31415
 const CONNECT_TIMEOUT_MS = 30000
+const SESSION_ENDED_ERROR =
+  'Session expired or revoked. Reconnect with the token from your terminal.'
+
+function isUnauthorized(err: unknown): boolean {
+  return (err as { statusCode?: number } | null)?.statusCode === 401
+}
 
 export const useConnector = createSharedComposable(function useConnector() {
   const { settings } = useSettings()
 
   // Persisted connection config
-  const config = useState<{ token: string; port: number } | null>('connector-config', () => null)
+  const config = useState<ConnectorConfig | null>('connector-config', () => null)
 
   // Connection state
   const state = useState<ConnectorState>('connector-state', () => ({
@@ -108,19 +138,34 @@ export const useConnector = createSharedComposable(function useConnector() {
     }
   })
 
-  async function connect(token: string, port: number = DEFAULT_PORT): Promise<boolean> {
+  /**
+   * Pairs with the connector using the token shown in the terminal, creating a browser session.
+   * @param scope `read` sessions cannot queue or execute operations
+   */
+  async function connect(
+    token: string,
+    port: number = DEFAULT_PORT,
+    scope: SessionScope = 'write',
+  ): Promise<boolean> {
     state.value.connecting = true
     state.value.error = null
 
     try {
       const response = await $fetch<ConnectResponse>(`http://127.0.0.1:${port}/connect`, {
         method: 'POST',
-        body: { token },
+        body: { token, scope },
         timeout: CONNECT_TIMEOUT_MS,
       })
 
       if (response.success && response.data) {
-        config.value = { token, port }
+        const { sessionToken, session } = response.data
+        config.value = {
+          token: sessionToken,
+          port,
+          sessionId: session.id,
+          scope: session.scope,
+          expiresAt: session.expiresAt,
+        }
         localStorage.setItem(STORAGE_KEY, JSON.stringify(config.value))
 
         state.value.connected = true
@@ -154,12 +199,43 @@ export const useConnector = createSharedComposable(function useConnector() {
     }
   }
 
+  /** Resumes the stored session, if it has not expired */
   async function reconnect(): Promise<boolean> {
     if (!config.value) return false
-    return connect(config.value.token, config.value.port)
+    if (config.value.expiresAt !== undefined && config.value.expiresAt <= Date.now()) {
+      endSession()
+      return false
+    }
+
+    state.value.connecting = true
+    try {
+      await refreshState()
+      return state.value.connected
+    } finally {
+      state.value.connecting = false
+    }
   }
 
   function disconnect() {
+    // Revoke the session so the token stops working, even if it was copied
+    if (config.value?.sessionId) {
+      $fetch(`${baseUrl.value}/sessions`, {
+        method: 'DELETE',
+        query: { id: config.value.sessionId },
+        headers: { Authorization: `Bearer ${config.value.token}` },
+        timeout: CONNECT_TIMEOUT_MS,
+      }).catch(() => {})
+    }
+    clearConnection()
+  }
+
+  /** Clears the connection after the connector rejected the session */
+  function endSession() {
+    clearConnection()
+    state.value.error = SESSION_ENDED_ERROR
+  }
+
+  function clearConnection() {
     config.value = null
     localStorage.removeItem(STORAGE_KEY)
     state.value = {
@@ -190,7 +266,11 @@ export const useConnector = createSharedComposable(function useConnector() {
         state.value.operations = response.data.operations
         state.value.connected = true
       }
-    } catch {
+    } catch (err) {
+      if (isUnauthorized(err)) {
+        endSession()
+        return
+      }
       // Connection lost
       state.value.connected = false
       state.value.error = 'Connection lost'
@@ -214,6 +294,10 @@ export const useConnector = createSharedComposable(function useConnector() {
       })
       return response as T
     } catch (err) {
+      if (isUnauthorized(err)) {
+        endSession()
+        return null
+      }
       state.value.error = err instanceof Error ? err.message : 'Request failed'
       return null
     }
@@ -300,6 +384,23 @@ export const useConnector = createSharedComposable(function useConnector() {
     return 0
   }
 
+  /** Validates pending and approved operations without running them */
+  async function dryRunOperations(): Promise<DryRunResult[] | null> {
+    const response = await connectorFetch<ApiResponse<{ results: DryRunResult[] }>>('/dry-run', {
+      method: 'POST',
+    })
+    return response?.success ? (response.data?.results ?? null) : null
+  }
+
+  /** Lists what publishing the package in a local directory would upload */
+  async function previewPublish(dir: string): Promise<PublishPreviewData | null> {
+    const response = await connectorFetch<ApiResponse<PublishPreviewData>>('/publish/preview', {
+      method: 'POST',
+      body: { dir },
+    })
+    return response?.success ? (response.data ?? null) : null
+  }
+
   async function executeOperations(
     otp?: string,
   ): Promise<{ success: boolean; otpRequired?: boolean }> {
@@ -327,6 +428,31 @@ export const useConnector = createSharedComposable(function useConnector() {
 
   // Data fetching functions
 
+  // Browser sessions
+
+  async function listSessions(): Promise<BrowserSessionInfo[] | null> {
+    const response = await connectorFetch<ApiResponse<BrowserSessionInfo[]>>('/sessions')
+    return response?.success ? (response.data ?? null) : null
+  }
+
+  async function revokeSession(id: string): Promise<boolean> {
+    if (id === config.value?.sessionId) {
+      disconnect()
+      return true
+    }
+    const response = await connectorFetch<ApiResponse>(`/sessions?id=${id}`, {
+      method: 'DELETE',
+    })
+    return !!response?.success
+  }
+
+  async function listHistory(limit?: number): Promise<AuditLogEntry[] | null> {
+    const response = await connectorFetch<ApiResponse<AuditLogEntry[]>>(
+      limit ? `/history?limit=${limit}` : '/history',
+    )
+    return response?.success ? (response.data ?? null) : null
+  }
+
   async function listOrgUsers(
     org: string,
   ): Promise<Record<string, 'developer' | 'admin' | 'owner'> | null> {
@@ -359,6 +485,20 @@ export const useConnector = createSharedComposable(function useConnector() {
     return response?.success ? (response.data ?? null) : null
   }
 
+  async function listPackageDistTags(pkg: string): Promise<Record<string, string> | null> {
+    const response = await connectorFetch<ApiResponse<Record<string, string>>>(
+      `/package/${encodeURIComponent(pkg)}/dist-tags`,
+    )
+    return response?.success ? (response.data ?? null) : null
+  }
+
+  async function listPackageTrustedPublishers(pkg: string): Promise<TrustedPublisher[] | null> {
+    const response = await connectorFetch<ApiResponse<TrustedPublisher[]>>(
+      `/package/${encodeURIComponent(pkg)}/trusted-publishers`,
+    )
+    return response?.success ? (response.data ?? null) : null
+  }
+
   async function listUserPackages(): Promise<Record<string, 'read-write' | 'read-only'> | null> {
     const response =
       await connectorFetch<ApiResponse<Record<string, 'read-write' | 'read-only'>>>(
@@ -411,6 +551,11 @@ export const useConnector = createSharedComposable(function useConnector() {
     // Computed - connection
     isConnected: computed(() => state.value.connected),
     isConnecting: computed(() => state.value.connecting),
+    /** Scope of the current session */
+    sessionScope: computed(() => config.value?.scope ?? null),
+    /** When the current session expires */
+    sessionExpiresAt: computed(() => config.value?.expiresAt ?? null),
+    isReadOnly: computed(() => config.value?.scope === 'read'),
     npmUser: computed(() => state.value.npmUser),
     avatar: computed(() => state.value.avatar),
     error: computed(() => state.value.error),
@@ -435,6 +580,8 @@ export const useConnector = createSharedComposable(function useConnector() {
     disconnect,
     refreshState,
     connectorFetch,
+    listSessions,
+    revokeSession,
 
     // Actions - operations
     addOperation,
@@ -444,13 +591,18 @@ export const useConnector = createSharedComposable(function useConnector() {
     approveOperation,
     retryOperation,
     approveAll,
+    dryRunOperations,
+    previewPublish,
     executeOperations,
 
     // Actions - data fetching
+    listHistory,
     listOrgUsers,
     listOrgTeams,
     listTeamUsers,
     listPackageCollaborators,
+    listPackageDistTags,
+    listPackageTrustedPublishers,
     listUserPackages,
     listUserOrgs,
   }
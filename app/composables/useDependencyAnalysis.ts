@@ -1,3 +1,5 @@
+import type { TargetPlatform } from '#shared/utils/target-platform'
+
 /**
  * Shared composable for dependency analysis data (vulnerabilities, deprecated packages).
  * Fetches once and caches the result so multiple components can use it.
@@ -6,9 +8,13 @@
 export function useDependencyAnalysis(
   packageName: MaybeRefOrGetter<string>,
   version: MaybeRefOrGetter<string>,
+  platform: MaybeRefOrGetter<TargetPlatform> = DEFAULT_TARGET_PLATFORM,
 ) {
   return useFetch(
     () =>
       `/api/registry/vulnerabilities/${encodePackageName(toValue(packageName))}/v/${toValue(version)}`,
+    {
+      query: computed(() => getTargetPlatformQuery(toValue(platform))),
+    },
   )
 }
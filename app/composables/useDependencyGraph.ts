@@ -0,0 +1,20 @@
+import type { TargetPlatform } from '#shared/utils/target-platform'
+
+/**
+ * Resolved dependency graph for a package version.
+ * Resolution walks the whole tree, so it only runs on the client.
+ */
+export function useDependencyGraph(
+  packageName: MaybeRefOrGetter<string>,
+  version: MaybeRefOrGetter<string>,
+  platform: MaybeRefOrGetter<TargetPlatform> = DEFAULT_TARGET_PLATFORM,
+) {
+  return useLazyFetch<DependencyGraphResult>(
+    () =>
+      `/api/registry/dependency-graph/${encodePackageName(toValue(packageName))}/v/${toValue(version)}`,
+    {
+      query: computed(() => getTargetPlatformQuery(toValue(platform))),
+      server: false,
+    },
+  )
+}
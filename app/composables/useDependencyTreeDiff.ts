@@ -0,0 +1,21 @@
+import type { TargetPlatform } from '#shared/utils/target-platform'
+
+/**
+ * Transitive dependency changes between two versions of a package.
+ * Both trees are resolved and scanned for vulnerabilities, so it only runs on the client.
+ */
+export function useDependencyTreeDiff(
+  packageName: MaybeRefOrGetter<string>,
+  fromVersion: MaybeRefOrGetter<string>,
+  toVersion: MaybeRefOrGetter<string>,
+  platform: MaybeRefOrGetter<TargetPlatform> = DEFAULT_TARGET_PLATFORM,
+) {
+  return useLazyFetch<DependencyTreeDiffResponse>(
+    () =>
+      `/api/registry/compare-deps/${encodePackageName(toValue(packageName))}/v/${toValue(fromVersion)}...${toValue(toVersion)}`,
+    {
+      query: computed(() => getTargetPlatformQuery(toValue(platform))),
+      server: false,
+    },
+  )
+}
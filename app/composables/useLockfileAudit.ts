@@ -0,0 +1,68 @@
+import type { LockfileAuditResult } from '#shared/types/dependency-analysis'
+import type { ParsedLockfile } from '#shared/utils/lockfile'
+import { LOCKFILE_AUDIT_MAX_PACKAGES } from '#shared/schemas/package'
+
+type LockfileAuditError = 'unsupported' | 'empty' | 'too_many' | 'request_failed'
+
+/**
+ * Parse a lockfile in the browser and audit the resulting package list on the server.
+ * Only the flat `name@version` list leaves the browser, never the lockfile itself.
+ */
+export function useLockfileAudit() {
+  const fileName = shallowRef<string | null>(null)
+  const lockfile = shallowRef<ParsedLockfile | null>(null)
+  const result = shallowRef<LockfileAuditResult | null>(null)
+  const status = shallowRef<'idle' | 'pending' | 'success' | 'error'>('idle')
+  const error = shallowRef<LockfileAuditError | null>(null)
+
+  function fail(reason: LockfileAuditError) {
+    error.value = reason
+    status.value = 'error'
+  }
+
+  async function auditContent(content: string, name?: string) {
+    fileName.value = name ?? null
+    result.value = null
+    error.value = null
+
+    const parsed = parseLockfile(content, name)
+    lockfile.value = parsed
+    if (!parsed) return fail('unsupported')
+    if (parsed.packages.length === 0) return fail('empty')
+    if (parsed.packages.length > LOCKFILE_AUDIT_MAX_PACKAGES) return fail('too_many')
+
+    status.value = 'pending'
+    try {
+      result.value = await $fetch<LockfileAuditResult>('/api/registry/lockfile-audit', {
+        method: 'POST',
+        body: { packages: parsed.packages },
+      })
+      status.value = 'success'
+    } catch {
+      fail('request_failed')
+    }
+  }
+
+  async function auditFile(file: File) {
+    await auditContent(await file.text(), file.name)
+  }
+
+  function reset() {
+    fileName.value = null
+    lockfile.value = null
+    result.value = null
+    error.value = null
+    status.value = 'idle'
+  }
+
+  return {
+    fileName,
+    lockfile,
+    result,
+    status,
+    error,
+    auditContent,
+    auditFile,
+    reset,
+  }
+}
@@ -0,0 +1,30 @@
+import type { PendingOperation } from '#cli/types'
+import { buildOperationPlan, type OperationPlan } from '~/utils/npm/operation-plans'
+
+/**
+ * Composable for operation plans: named operation queues stored in localStorage,
+ * so they can be reloaded into the connector queue and executed later.
+ */
+export const useOperationPlans = createSharedComposable(function useOperationPlans() {
+  const plans = useLocalStorage<OperationPlan[]>('npmx-operation-plans', [])
+  const { addOperations } = useConnector()
+
+  /** Saves the operations as a plan, replacing any plan with the same name */
+  function savePlan(name: string, operations: PendingOperation[]) {
+    const plan = buildOperationPlan(name, operations)
+    plans.value = [plan, ...plans.value.filter(p => p.name !== name)]
+  }
+
+  function deletePlan(name: string) {
+    plans.value = plans.value.filter(p => p.name !== name)
+  }
+
+  /** Adds the operations of a plan to the connector queue, pending approval */
+  async function loadPlan(name: string): Promise<PendingOperation[]> {
+    const plan = plans.value.find(p => p.name === name)
+    if (!plan) return []
+    return addOperations(plan.operations)
+  }
+
+  return { plans, savePlan, deletePlan, loadPlan }
+})
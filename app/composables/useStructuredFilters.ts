@@ -11,12 +11,19 @@ import type {
   StructuredFilters,
   UpdatedWithin,
 } from '#shared/types/preferences'
+import type {
+  SearchExpressionError,
+  SearchExpressionField,
+  SearchExpressionNode,
+  SearchExpressionRangeField,
+} from '#shared/utils/search-query'
+import { DEFAULT_FILTERS, parseSortOption } from '#shared/types/preferences'
 import {
-  DEFAULT_FILTERS,
-  DOWNLOAD_RANGES,
-  parseSortOption,
-  UPDATED_WITHIN_OPTIONS,
-} from '#shared/types/preferences'
+  parseSearchExpression,
+  removeSearchExpressionNodes,
+  stringifySearchExpressionNode,
+} from '#shared/utils/search-query'
+import { createStructuredFiltersPredicate } from '#shared/utils/structured-filters'
 
 /**
  * Parsed search operators from text input
@@ -25,54 +32,43 @@ export interface ParsedSearchOperators {
   name?: string[]
   description?: string[]
   keywords?: string[]
-  text?: string // Remaining text without operators
+  author?: string[]
+  maintainer?: string[]
+  license?: string[]
+  excludedKeywords?: string[]
+  text?: string // Remaining text, including terms without a list above (ranges, OR groups, negations)
+  errors?: SearchExpressionError[]
 }
 
 /**
  * Parse search operators from text input.
- * Supports: name:, desc:/description:, kw:/keyword:
+ * Supports: name:, desc:/description:, kw:/keyword:, author:, maintainer:, license:, -kw:
  * Multiple values can be comma-separated: kw:foo,bar
- * Remaining text is treated as a general search term.
+ * Remaining terms are kept as text, see `parseSearchExpression` for the full query syntax.
  *
  * Example: "name:react kw:typescript,hooks some text"
  * Returns: { name: ['react'], keywords: ['typescript', 'hooks'], text: 'some text' }
  */
 export function parseSearchOperators(input: string): ParsedSearchOperators {
   const result: ParsedSearchOperators = {}
-
-  // Regex to match operators: name:value, desc:value, description:value, kw:value, keyword:value
-  // Value continues until whitespace or next operator
-  const operatorRegex = /\b(name|desc|description|kw|keyword):(\S+)/gi
-
-  let remaining = input
-  let match
-
-  while ((match = operatorRegex.exec(input)) !== null) {
-    const [fullMatch, operator, value] = match
-    if (!operator || !value) continue
-
-    const values = value
-      .split(',')
-      .map(v => v.trim())
-      .filter(Boolean)
-
-    const normalizedOp = operator.toLowerCase()
-    if (normalizedOp === 'name') {
-      result.name = [...(result.name ?? []), ...values]
-    } else if (normalizedOp === 'desc' || normalizedOp === 'description') {
-      result.description = [...(result.description ?? []), ...values]
-    } else if (normalizedOp === 'kw' || normalizedOp === 'keyword') {
-      result.keywords = [...(result.keywords ?? []), ...values]
+  const { nodes, errors } = parseSearchExpression(input)
+  const remaining: string[] = []
+
+  for (const node of nodes) {
+    if (node.type === 'field' && node.field === 'keywords' && node.negated) {
+      result.excludedKeywords = [...(result.excludedKeywords ?? []), ...node.values]
+    } else if (node.type === 'field' && !node.negated) {
+      result[node.field] = [...(result[node.field] ?? []), ...node.values]
+    } else {
+      remaining.push(stringifySearchExpressionNode(node))
     }
-
-    // Remove matched operator from remaining text
-    remaining = remaining.replace(fullMatch, '')
   }
 
-  // Clean up remaining text
-  const cleanedText = remaining.trim().replace(/\s+/g, ' ')
-  if (cleanedText) {
-    result.text = cleanedText
+  if (remaining.length > 0) {
+    result.text = remaining.join(' ')
+  }
+  if (errors.length > 0) {
+    result.errors = errors
   }
 
   // Deduplicate keywords (case-insensitive)
@@ -93,7 +89,15 @@ export function parseSearchOperators(input: string): ParsedSearchOperators {
  * Check if parsed operators has any content
  */
 export function hasSearchOperators(parsed: ParsedSearchOperators): boolean {
-  return !!(parsed.name?.length || parsed.description?.length || parsed.keywords?.length)
+  return !!(
+    parsed.name?.length ||
+    parsed.description?.length ||
+    parsed.keywords?.length ||
+    parsed.author?.length ||
+    parsed.maintainer?.length ||
+    parsed.license?.length ||
+    parsed.excludedKeywords?.length
+  )
 }
 
 /**
@@ -131,20 +135,15 @@ interface UseStructuredFiltersOptions {
   initialSort?: SortOption
 }
 
-// Pure filter predicates (no closure dependencies)
-function matchesKeywords(pkg: NpmSearchResult, keywords: string[]): boolean {
-  if (keywords.length === 0) return true
-  const pkgKeywords = new Set((pkg.package.keywords ?? []).map(k => k.toLowerCase()))
-  // AND logic: package must have ALL selected keywords (case-insensitive)
-  return keywords.every(k => pkgKeywords.has(k.toLowerCase()))
+// Query term helpers (no closure dependencies)
+/** Keyword terms in the query are applied as keyword filters instead of text */
+function isKeywordFilterNode(node: SearchExpressionNode): boolean {
+  return node.type === 'field' && node.field === 'keywords' && !node.negated
 }
 
-function matchesSecurity(pkg: NpmSearchResult, security: SecurityFilter): boolean {
-  if (security === 'all') return true
-  const hasWarnings = (pkg.flags?.insecure ?? 0) > 0
-  if (security === 'secure') return !hasWarnings
-  if (security === 'warnings') return hasWarnings
-  return true
+/** Plain words and phrases, shown together as the search chip */
+function isPlainTextNode(node: SearchExpressionNode): boolean {
+  return node.type === 'text' && !node.negated
 }
 
 /**
@@ -178,8 +177,10 @@ export function useStructuredFilters(options: UseStructuredFiltersOptions) {
       // When URL changes (e.g. from search input or navigation),
       // we need to update our local filter state to match
       const parsed = parseSearchOperators(value)
+      const { nodes } = parseSearchExpression(value)
 
-      filters.value.text = parsed.text ?? ''
+      // Keep the other terms as typed, so they can be edited and serialized back to the URL
+      filters.value.text = removeSearchExpressionNodes(value, nodes.filter(isKeywordFilterNode))
       // Deduplicate keywords (in case of both kw: and keyword: for same value)
       filters.value.keywords = parsed.keywords ?? []
 
@@ -207,108 +208,18 @@ export function useStructuredFilters(options: UseStructuredFiltersOptions) {
       .map(([keyword]) => keyword)
   })
 
-  // Filter predicates
-  function matchesTextFilter(pkg: NpmSearchResult, text: string, scope: SearchScope): boolean {
-    if (!text) return true
-
-    const pkgName = pkg.package.name.toLowerCase()
-    const pkgDescription = (pkg.package.description ?? '').toLowerCase()
-    const pkgKeywords = (pkg.package.keywords ?? []).map(k => k.toLowerCase())
-
-    // When scope is 'all', parse and handle operators
-    if (scope === 'all') {
-      const parsed = parseSearchOperators(text)
-
-      // If operators are present, use structured matching
-      if (hasSearchOperators(parsed)) {
-        // All specified operators must match (AND logic between operator types)
-        // Within each operator, any value can match (OR logic within operator)
-
-        if (parsed.name?.length) {
-          const nameMatches = parsed.name.some(n => pkgName.includes(n.toLowerCase()))
-          if (!nameMatches) return false
-        }
-
-        if (parsed.description?.length) {
-          const descMatches = parsed.description.some(d => pkgDescription.includes(d.toLowerCase()))
-          if (!descMatches) return false
-        }
-
-        if (parsed.keywords?.length) {
-          const kwMatches = parsed.keywords.some(kw =>
-            pkgKeywords.some(pk => pk.includes(kw.toLowerCase())),
-          )
-          if (!kwMatches) return false
-        }
-
-        // If there's remaining text, it must match somewhere
-        if (parsed.text) {
-          const textLower = parsed.text.toLowerCase()
-          const textMatches =
-            pkgName.includes(textLower) ||
-            pkgDescription.includes(textLower) ||
-            pkgKeywords.some(k => k.includes(textLower))
-          if (!textMatches) return false
-        }
-
-        return true
-      }
-
-      // No operators - fall through to standard 'all' search
-      const lower = text.toLowerCase()
-      return (
-        pkgName.includes(lower) ||
-        pkgDescription.includes(lower) ||
-        pkgKeywords.some(k => k.includes(lower))
-      )
-    }
-
-    // Non-'all' scopes - simple matching
-    const lower = text.toLowerCase()
-    switch (scope) {
-      case 'name':
-        return pkgName.includes(lower)
-      case 'description':
-        return pkgDescription.includes(lower)
-      case 'keywords':
-        return pkgKeywords.some(k => k.includes(lower))
-      default:
-        return pkgName.includes(lower)
-    }
-  }
-
-  function matchesDownloadRange(pkg: NpmSearchResult, range: DownloadRange): boolean {
-    if (range === 'any') return true
-    const downloads = pkg.downloads?.weekly ?? 0
-    const config = DOWNLOAD_RANGES.find(r => r.value === range)
-    if (!config) return true
-    if (config.min !== undefined && downloads < config.min) return false
-    if (config.max !== undefined && downloads >= config.max) return false
-    return true
-  }
-
-  function matchesUpdatedWithin(pkg: NpmSearchResult, within: UpdatedWithin): boolean {
-    if (within === 'any') return true
-    const config = UPDATED_WITHIN_OPTIONS.find(o => o.value === within)
-    if (!config?.days) return true
+  // Parsed text filter, for the chips and errors when scope is 'all'
+  const textExpression = computed(() => parseSearchExpression(filters.value.text))
 
-    const updatedDate = new Date(pkg.package.date)
-    const cutoff = new Date()
-    cutoff.setDate(cutoff.getDate() - config.days)
-    return updatedDate >= cutoff
-  }
+  // Problems in the text filter query, shown with the filter chips
+  const queryErrors = computed<SearchExpressionError[]>(() =>
+    filters.value.searchScope === 'all' ? textExpression.value.errors : [],
+  )
 
   // Apply all filters
-  const filteredPackages = computed(() => {
-    return packages.value.filter(pkg => {
-      if (!matchesTextFilter(pkg, filters.value.text, filters.value.searchScope)) return false
-      if (!matchesDownloadRange(pkg, filters.value.downloadRange)) return false
-      if (!matchesKeywords(pkg, filters.value.keywords)) return false
-      if (!matchesSecurity(pkg, filters.value.security)) return false
-      if (!matchesUpdatedWithin(pkg, filters.value.updatedWithin)) return false
-      return true
-    })
-  })
+  const filteredPackages = computed(() =>
+    packages.value.filter(createStructuredFiltersPredicate(filters.value)),
+  )
 
   // Sort comparators
   function comparePackages(a: NpmSearchResult, b: NpmSearchResult, option: SortOption): number {
@@ -372,11 +283,86 @@ export function useStructuredFilters(options: UseStructuredFiltersOptions) {
     year: t('filters.updated.year'),
   }))
 
+  const queryTermLabels = computed<
+    Record<SearchExpressionField | SearchExpressionRangeField, string>
+  >(() => ({
+    name: t('filters.chips.name'),
+    description: t('filters.chips.description'),
+    keywords: t('filters.chips.keyword'),
+    author: t('filters.chips.author'),
+    maintainer: t('filters.chips.maintainer'),
+    license: t('filters.chips.license'),
+    downloads: t('filters.chips.downloads'),
+    updated: t('filters.chips.updated'),
+  }))
+
+  // Chip for a structured term of the text filter query
+  function getQueryTermChip(node: SearchExpressionNode, index: number): FilterChip {
+    let label: string
+    let value: string | string[]
+    switch (node.type) {
+      case 'field':
+        label = queryTermLabels.value[node.field]
+        value = node.values
+        break
+      case 'range':
+        label = queryTermLabels.value[node.field]
+        value = node.raw
+        break
+      case 'text':
+        label = t('filters.chips.search')
+        value = stringifySearchExpressionNode({ ...node, negated: false })
+        break
+      case 'group':
+        label = node.operator === 'or' ? t('filters.chips.any_of') : t('filters.chips.all_of')
+        value = node.nodes
+          .map(child => stringifySearchExpressionNode(child, true))
+          .join(node.operator === 'or' ? ' OR ' : ' ')
+        break
+      case 'invalid':
+        return {
+          id: `term-${index}`,
+          type: 'text',
+          label: t('filters.chips.invalid'),
+          value: node.raw,
+          term: index,
+        }
+    }
+
+    return {
+      id: `term-${index}`,
+      type: 'text',
+      label: node.negated ? t('filters.chips.excluded', { label }) : label,
+      value,
+      term: index,
+    }
+  }
+
   // Active filter chips for display
   const activeFilters = computed<FilterChip[]>(() => {
     const chips: FilterChip[] = []
 
-    if (filters.value.text) {
+    if (filters.value.text && filters.value.searchScope === 'all') {
+      // Plain words share a chip, structured terms get their own
+      const { nodes } = textExpression.value
+      const text = nodes
+        .filter(isPlainTextNode)
+        .map(node => stringifySearchExpressionNode(node))
+        .join(' ')
+      if (text) {
+        chips.push({
+          id: 'text',
+          type: 'text',
+          label: t('filters.chips.search'),
+          value: text,
+        })
+      }
+      nodes.forEach((node, index) => {
+        if (!isPlainTextNode(node)) {
+          chips.push(getQueryTermChip(node, index))
+        }
+      })
+    } else if (filters.value.text) {
       chips.push({
         id: 'text',
         type: 'text',
@@ -486,9 +472,17 @@ export function useStructuredFilters(options: UseStructuredFiltersOptions) {
 
   function clearFilter(chip: FilterChip) {
     switch (chip.type) {
-      case 'text':
-        filters.value.text = ''
+      case 'text': {
+        if (filters.value.searchScope !== 'all') {
+          filters.value.text = ''
+          break
+        }
+        const { nodes } = textExpression.value
+        const removed =
+          chip.term !== undefined ? [nodes[chip.term]!] : nodes.filter(isPlainTextNode)
+        filters.value.text = removeSearchExpressionNodes(filters.value.text, removed)
         break
+      }
       case 'downloadRange':
         filters.value.downloadRange = 'any'
         break
@@ -523,6 +517,7 @@ export function useStructuredFilters(options: UseStructuredFiltersOptions) {
     availableKeywords,
     activeFilters,
     hasActiveFilters,
+    queryErrors,
 
     // Filter setters
     setTextFilter,
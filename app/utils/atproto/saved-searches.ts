@@ -0,0 +1,47 @@
+import { FetchError } from 'ofetch'
+import { handleAuthError } from '~/utils/atproto/helpers'
+import type { SavedSearch } from '#shared/types/social'
+
+type SavedSearchResult = { success: true; data: SavedSearch } | { success: false; error: Error }
+type DeleteSavedSearchResult = { success: true } | { success: false; error: Error }
+
+/**
+ * Save a search to the profile of the logged in user via the API
+ */
+export async function saveSearch(
+  savedSearch: Omit<SavedSearch, 'rkey' | 'createdAt'>,
+  userHandle?: string | null,
+): Promise<SavedSearchResult> {
+  try {
+    const result = await $fetch<SavedSearch>('/api/social/saved-search', {
+      method: 'POST',
+      body: savedSearch,
+    })
+    return { success: true, data: result }
+  } catch (e) {
+    if (e instanceof FetchError) {
+      await handleAuthError(e, userHandle)
+    }
+    return { success: false, error: e as Error }
+  }
+}
+
+/**
+ * Delete a saved search of the logged in user via the API
+ */
+export async function deleteSavedSearch(
+  rkey: string,
+  userHandle?: string | null,
+): Promise<DeleteSavedSearchResult> {
+  try {
+    await $fetch(`/api/social/saved-search/${encodeURIComponent(rkey)}`, {
+      method: 'DELETE',
+    })
+    return { success: true }
+  } catch (e) {
+    if (e instanceof FetchError) {
+      await handleAuthError(e, userHandle)
+    }
+    return { success: false, error: e as Error }
+  }
+}
@@ -0,0 +1,88 @@
+import type { AccessPermission } from '#cli/types'
+import type { NewOperation } from '~/composables/useConnector'
+import { buildScopeTeam } from './common'
+
+/** Access of every org team to one package */
+export interface AccessMatrixRow {
+  pkg: string
+  /** Team name (without the org scope) -> permission, or `null` when the team has no access */
+  access: Record<string, AccessPermission | null>
+  /** Whether at least one team with members has read-write access */
+  publishable: boolean
+}
+
+/** A bulk change applied to every selected package for one team */
+export type AccessMatrixAction = AccessPermission | 'revoke'
+
+/**
+ * Extracts the team name from a collaborator key (`org:team` or `@org:team`).
+ * Returns `null` for collaborators that are users or teams of another org.
+ */
+export function getCollaboratorTeam(org: string, collaborator: string): string | null {
+  const [scope, team] = collaborator.replace(/^@/, '').split(':')
+  if (!team || scope?.toLowerCase() !== org.replace(/^@/, '').toLowerCase()) return null
+  return team
+}
+
+/**
+ * Builds one matrix row per package, listing the access of every team.
+ * Teams missing from `teamMembers` are assumed to have members, so a package is
+ * only reported as unpublishable once the team memberships are known to be empty.
+ */
+export function buildAccessMatrix(
+  org: string,
+  packages: string[],
+  teams: string[],
+  collaborators: Record<string, Record<string, AccessPermission>>,
+  teamMembers: Record<string, string[]> = {},
+): AccessMatrixRow[] {
+  return packages.map(pkg => {
+    const access: Record<string, AccessPermission | null> = Object.fromEntries(
+      teams.map(team => [team, null]),
+    )
+    for (const [collaborator, permission] of Object.entries(collaborators[pkg] ?? {})) {
+      const team = getCollaboratorTeam(org, collaborator)
+      if (team && team in access) {
+        access[team] = permission
+      }
+    }
+
+    const publishable = teams.some(
+      team => access[team] === 'read-write' && (teamMembers[team]?.length ?? 1) > 0,
+    )
+
+    return { pkg, access, publishable }
+  })
+}
+
+/**
+ * Builds the `access:grant` / `access:revoke` operations for applying an action
+ * to one team on every selected package. Packages already in the requested state are skipped.
+ */
+export function buildAccessMatrixOperations(
+  org: string,
+  team: string,
+  action: AccessMatrixAction,
+  rows: AccessMatrixRow[],
+): NewOperation[] {
+  const scopeTeam = buildScopeTeam(org, team)
+
+  return rows
+    .filter(row => (action === 'revoke' ? row.access[team] != null : row.access[team] !== action))
+    .map(
+      (row): NewOperation =>
+        action === 'revoke'
+          ? {
+              type: 'access:revoke',
+              params: { scopeTeam, pkg: row.pkg },
+              description: `Revoke ${scopeTeam} access to ${row.pkg}`,
+              command: `npm access revoke ${scopeTeam} ${row.pkg}`,
+            }
+          : {
+              type: 'access:grant',
+              params: { permission: action, scopeTeam, pkg: row.pkg },
+              description: `Grant ${action} access to ${scopeTeam} for ${row.pkg}`,
+              command: `npm access grant ${action} ${scopeTeam} ${row.pkg}`,
+            },
+    )
+}
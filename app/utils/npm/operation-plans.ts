@@ -0,0 +1,38 @@
+import type { PendingOperation } from '#cli/types'
+import type { NewOperation } from '~/composables/useConnector'
+
+/** A named queue of operations, saved to be reviewed and executed later */
+export interface OperationPlan {
+  name: string
+  /** Unix timestamp in milliseconds */
+  createdAt: number
+  operations: NewOperation[]
+}
+
+/**
+ * Builds a plan from queued operations.
+ * Dependencies between the operations are kept as batch indices, since operation IDs
+ * change when the plan is queued again. Dependencies on operations outside the plan are dropped.
+ */
+export function buildOperationPlan(
+  name: string,
+  operations: PendingOperation[],
+  createdAt = Date.now(),
+): OperationPlan {
+  const indexById = new Map(operations.map((op, index) => [op.id, index]))
+
+  return {
+    name,
+    createdAt,
+    operations: operations.map(op => {
+      const dependsOnIndex = op.dependsOn ? indexById.get(op.dependsOn) : undefined
+      return {
+        type: op.type,
+        params: op.params,
+        description: op.description,
+        command: op.command,
+        ...(dependsOnIndex !== undefined && { dependsOnIndex }),
+      }
+    }),
+  }
+}
@@ -0,0 +1,262 @@
+import type { OrgRole } from '#cli/types'
+import type { NewOperation } from '~/composables/useConnector'
+import { buildScopeTeam } from './common'
+
+/** One org member in an exported or imported roster */
+export interface OrgRosterEntry {
+  user: string
+  role: OrgRole
+  /** Team names without the org scope (e.g. `developers`) */
+  teams: string[]
+}
+
+export type OrgRosterChange =
+  | { type: 'add'; user: string; role: OrgRole }
+  | { type: 'remove'; user: string }
+  | { type: 'set-role'; user: string; from: OrgRole; to: OrgRole }
+  | { type: 'add-to-team'; user: string; team: string }
+
+export interface ParsedOrgRoster {
+  entries: OrgRosterEntry[]
+  /** Problems with individual rows, which are skipped */
+  errors: string[]
+}
+
+const ORG_ROLES: ReadonlySet<OrgRole> = new Set(['developer', 'admin', 'owner'])
+const USERNAME_PATTERN = /^[a-z0-9][\w.-]*$/i
+const CSV_HEADER = ['user', 'role', 'teams']
+
+/**
+ * Builds roster entries from the data returned by the connector,
+ * sorted by username so exports diff cleanly between runs.
+ */
+export function buildOrgRoster(
+  members: Record<string, OrgRole>,
+  teamMembers: Record<string, string[]>,
+): OrgRosterEntry[] {
+  return Object.entries(members)
+    .map(([user, role]) => ({
+      user,
+      role,
+      teams: Object.keys(teamMembers)
+        .filter(team => teamMembers[team]?.includes(user))
+        .sort(),
+    }))
+    .sort((a, b) => a.user.localeCompare(b.user))
+}
+
+export function serializeOrgRosterJson(entries: OrgRosterEntry[]): string {
+  return `${JSON.stringify(entries, null, 2)}\n`
+}
+
+/** CSV with a `user,role,teams` header; teams are separated by `;` */
+export function serializeOrgRosterCsv(entries: OrgRosterEntry[]): string {
+  const rows = entries.map(entry => [entry.user, entry.role, entry.teams.join(';')].join(','))
+  return `${[CSV_HEADER.join(','), ...rows].join('\n')}\n`
+}
+
+/** Splits a CSV line, honouring double-quoted fields (as written by spreadsheet apps) */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map(value => value.trim())
+}
+
+function validateRosterEntry(
+  raw: { user?: unknown; role?: unknown; teams?: unknown },
+  label: string,
+): OrgRosterEntry | string {
+  const user = typeof raw.user === 'string' ? raw.user.trim().replace(/^[@~]/, '') : ''
+  if (!USERNAME_PATTERN.test(user)) {
+    return `${label}: invalid username "${String(raw.user ?? '')}"`
+  }
+
+  const role = typeof raw.role === 'string' ? raw.role.trim().toLowerCase() : 'developer'
+  if (!ORG_ROLES.has(role as OrgRole)) {
+    return `${label}: invalid role "${role}" for ${user}`
+  }
+
+  const teams = Array.isArray(raw.teams)
+    ? raw.teams.filter((team): team is string => typeof team === 'string')
+    : typeof raw.teams === 'string'
+      ? raw.teams.split(';')
+      : []
+
+  return {
+    user,
+    role: role as OrgRole,
+    teams: [...new Set(teams.map(team => team.trim()).filter(Boolean))],
+  }
+}
+
+/**
+ * Parses a roster exported by `serializeOrgRosterJson` or `serializeOrgRosterCsv`.
+ * The format is detected from the content. Rows without a role default to `developer`.
+ */
+export function parseOrgRoster(text: string): ParsedOrgRoster {
+  const entries: OrgRosterEntry[] = []
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  function addEntry(result: OrgRosterEntry | string, label: string) {
+    if (typeof result === 'string') {
+      errors.push(result)
+    } else if (seen.has(result.user.toLowerCase())) {
+      errors.push(`${label}: duplicate entry for ${result.user}`)
+    } else {
+      seen.add(result.user.toLowerCase())
+      entries.push(result)
+    }
+  }
+
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[')) {
+    let data: unknown
+    try {
+      data = JSON.parse(trimmed)
+    } catch {
+      return { entries, errors: ['Invalid JSON'] }
+    }
+    if (!Array.isArray(data)) {
+      return { entries, errors: ['Expected a JSON array of members'] }
+    }
+    data.forEach((item, index) => {
+      const label = `Entry ${index + 1}`
+      addEntry(
+        item && typeof item === 'object'
+          ? validateRosterEntry(item, label)
+          : `${label}: not an object`,
+        label,
+      )
+    })
+    return { entries, errors }
+  }
+
+  const lines = trimmed.split(/\r?\n/)
+  const header = splitCsvLine(lines[0] ?? '').map(column => column.toLowerCase())
+  const hasHeader = header.includes('user')
+  const columns = hasHeader ? header : CSV_HEADER
+
+  lines.slice(hasHeader ? 1 : 0).forEach((line, index) => {
+    if (!line.trim()) return
+    const label = `Line ${index + (hasHeader ? 2 : 1)}`
+    const fields = splitCsvLine(line)
+    const row = Object.fromEntries(columns.map((column, i) => [column, fields[i] || undefined]))
+    addEntry(validateRosterEntry(row, label), label)
+  })
+
+  return { entries, errors }
+}
+
+/**
+ * Lists the changes needed to turn the current membership into the desired roster.
+ * Team membership is additive: members are added to teams listed in the roster but not removed from others.
+ */
+export function diffOrgRoster(
+  current: OrgRosterEntry[],
+  desired: OrgRosterEntry[],
+  options: { removeMissing?: boolean } = {},
+): OrgRosterChange[] {
+  const currentByUser = new Map(current.map(entry => [entry.user.toLowerCase(), entry]))
+  const desiredUsers = new Set(desired.map(entry => entry.user.toLowerCase()))
+  const changes: OrgRosterChange[] = []
+
+  for (const entry of desired) {
+    const existing = currentByUser.get(entry.user.toLowerCase())
+    if (!existing) {
+      changes.push({ type: 'add', user: entry.user, role: entry.role })
+    } else if (existing.role !== entry.role) {
+      changes.push({ type: 'set-role', user: existing.user, from: existing.role, to: entry.role })
+    }
+
+    for (const team of entry.teams) {
+      if (!existing?.teams.includes(team)) {
+        changes.push({ type: 'add-to-team', user: existing?.user ?? entry.user, team })
+      }
+    }
+  }
+
+  if (options.removeMissing) {
+    for (const entry of current) {
+      if (!desiredUsers.has(entry.user.toLowerCase())) {
+        changes.push({ type: 'remove', user: entry.user })
+      }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Builds the operations for a roster diff, as one batch for `POST /operations/batch`.
+ * Team additions for new members depend on the member being added to the org first.
+ */
+export function buildOrgRosterOperations(org: string, changes: OrgRosterChange[]): NewOperation[] {
+  const operations: NewOperation[] = []
+  const addOperationIndex = new Map<string, number>()
+
+  for (const change of changes) {
+    switch (change.type) {
+      case 'add':
+        addOperationIndex.set(change.user, operations.length)
+        operations.push({
+          type: 'org:add-user',
+          params: { org, user: change.user, role: change.role },
+          description: `Add @${change.user} to @${org} as ${change.role}`,
+          command: `npm org set ${org} ${change.user} ${change.role}`,
+        })
+        break
+      case 'set-role':
+        operations.push({
+          type: 'org:set-role',
+          params: { org, user: change.user, role: change.to },
+          description: `Change @${change.user} role to ${change.to} in @${org}`,
+          command: `npm org set ${org} ${change.user} ${change.to}`,
+        })
+        break
+      case 'remove':
+        operations.push({
+          type: 'org:rm-user',
+          params: { org, user: change.user },
+          description: `Remove @${change.user} from @${org}`,
+          command: `npm org rm ${org} ${change.user}`,
+        })
+        break
+      case 'add-to-team': {
+        const scopeTeam = buildScopeTeam(org, change.team)
+        operations.push({
+          type: 'team:add-user',
+          params: { scopeTeam, user: change.user },
+          description: `Add @${change.user} to team ${change.team}`,
+          command: `npm team add ${scopeTeam} ${change.user}`,
+          dependsOnIndex: addOperationIndex.get(change.user),
+        })
+        break
+      }
+    }
+  }
+
+  return operations
+}
@@ -0,0 +1,119 @@
+import type { PackFile, PublishPreviewData } from '#cli/types'
+import type { PackageFileTree } from '#shared/types/npm-registry'
+import type { NewOperation } from '~/composables/useConnector'
+import {
+  analyzePackage,
+  type ExtendedPackageJson,
+  type PackageExports,
+} from '#shared/utils/package-analysis'
+
+export type PublishWarning =
+  /** npm refuses to publish packages marked `private` */
+  | 'private'
+  /** Without `files`, everything not ignored by .npmignore or .gitignore is published */
+  | 'no-files'
+  /** Without `exports`, every file in the package can be imported */
+  | 'no-exports'
+  /** Neither declared nor implicit types next to the entry points */
+  | 'no-types'
+
+export interface PublishOptions {
+  /** Dist-tag to publish to, `latest` when empty */
+  tag?: string
+  provenance?: boolean
+}
+
+/**
+ * Builds a file tree from the files `npm pack` would include.
+ * Directory sizes are the total of their files.
+ */
+export function buildPackFileTree(files: PackFile[]): PackageFileTree[] {
+  const root: PackageFileTree[] = []
+
+  for (const file of files) {
+    const segments = file.path.split('/')
+    let nodes = root
+    let path = ''
+
+    for (const [i, name] of segments.entries()) {
+      path = path ? `${path}/${name}` : name
+
+      if (i === segments.length - 1) {
+        nodes.push({ name, path, type: 'file', size: file.size })
+        break
+      }
+
+      let dir = nodes.find(node => node.type === 'directory' && node.name === name)
+      if (!dir) {
+        dir = { name, path, type: 'directory', size: 0, children: [] }
+        nodes.push(dir)
+      }
+      dir.size = (dir.size ?? 0) + file.size
+      nodes = dir.children!
+    }
+  }
+
+  return sortFileTree(root)
+}
+
+/** Directories first, then files, alphabetically within each group */
+function sortFileTree(nodes: PackageFileTree[]): PackageFileTree[] {
+  for (const node of nodes) {
+    if (node.children) sortFileTree(node.children)
+  }
+  return nodes.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'directory' ? -1 : 1
+    }
+    return a.name.localeCompare(b.name)
+  })
+}
+
+/** Checks the package.json and packed files for common publishing mistakes */
+export function getPublishWarnings(preview: PublishPreviewData): PublishWarning[] {
+  const { packageJson } = preview
+  const warnings: PublishWarning[] = []
+
+  if (packageJson.private) {
+    warnings.push('private')
+  }
+  if (!packageJson.files) {
+    warnings.push('no-files')
+  }
+  if (packageJson.exports == null) {
+    warnings.push('no-exports')
+  }
+
+  const pkg: ExtendedPackageJson = {
+    ...packageJson,
+    exports: packageJson.exports as PackageExports | undefined,
+  }
+  const analysis = analyzePackage(pkg, { files: new Set(preview.files.map(file => file.path)) })
+  if (analysis.types.kind === 'none') {
+    warnings.push('no-types')
+  }
+
+  return warnings
+}
+
+export function buildPublishOperation(
+  preview: PublishPreviewData,
+  options: PublishOptions = {},
+): NewOperation {
+  const { name, version } = preview.packageJson
+  const tag = options.tag?.trim()
+  const flags = [tag && `--tag ${tag}`, options.provenance && '--provenance'].filter(Boolean)
+
+  return {
+    type: 'package:publish',
+    params: {
+      dir: preview.dir,
+      name,
+      version,
+      ...(tag && { tag }),
+      ...(options.provenance && { provenance: 'true' }),
+    },
+    description: tag ? `Publish ${name}@${version} with tag ${tag}` : `Publish ${name}@${version}`,
+    command: `npm publish${flags.map(flag => ` ${flag}`).join('')} (in ${preview.dir})`,
+  }
+}
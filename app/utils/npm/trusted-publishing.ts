@@ -0,0 +1,66 @@
+import type { TrustedPublisher } from '#cli/types'
+import type { NewOperation } from '~/composables/useConnector'
+import type { TimelineVersion } from '~~/server/api/registry/timeline/[...pkg].get'
+
+export type TrustedPublishingWarning =
+  /** Recent versions have provenance, but publishing still relies on tokens */
+  | { type: 'no-trusted-publisher' }
+  /** A trusted publisher is configured, but these recent versions were published without attestations */
+  | { type: 'missing-attestations'; versions: string[] }
+
+/**
+ * Compares the trusted publishers of a package with how its recent versions were published.
+ * @param recentVersions Most recently published versions, newest first
+ */
+export function getTrustedPublishingWarnings(
+  publishers: TrustedPublisher[],
+  recentVersions: Pick<TimelineVersion, 'version' | 'hasProvenance'>[],
+): TrustedPublishingWarning[] {
+  if (publishers.length === 0) {
+    return recentVersions.some(version => version.hasProvenance)
+      ? [{ type: 'no-trusted-publisher' }]
+      : []
+  }
+
+  const missing = recentVersions.filter(version => !version.hasProvenance)
+  return missing.length > 0
+    ? [{ type: 'missing-attestations', versions: missing.map(version => version.version) }]
+    : []
+}
+
+/** Human-readable name of the workflow a trusted publisher allows */
+export function formatTrustedPublisher(publisher: TrustedPublisher): string {
+  const target = `${publisher.repository}/${publisher.file}`
+  return publisher.environment ? `${target} (${publisher.environment})` : target
+}
+
+export function buildTrustAddOperation(
+  pkg: string,
+  publisher: Omit<TrustedPublisher, 'id'>,
+): NewOperation {
+  const { provider, repository, file, environment } = publisher
+  const repositoryFlag = provider === 'github' ? '--repository' : '--project'
+  const environmentFlag = environment ? ` --environment ${environment}` : ''
+
+  return {
+    type: 'trust:add',
+    params: {
+      pkg,
+      provider,
+      repository,
+      file,
+      ...(environment && { environment }),
+    },
+    description: `Trust ${provider === 'github' ? 'GitHub' : 'GitLab'} workflow ${repository}/${file} to publish ${pkg}`,
+    command: `npm trust ${provider} ${pkg} --file ${file} ${repositoryFlag} ${repository}${environmentFlag} --allow-publish --yes`,
+  }
+}
+
+export function buildTrustRevokeOperation(pkg: string, publisher: TrustedPublisher): NewOperation {
+  return {
+    type: 'trust:revoke',
+    params: { pkg, id: publisher.id },
+    description: `Revoke trusted publisher ${formatTrustedPublisher(publisher)} for ${pkg}`,
+    command: `npm trust revoke ${pkg} --id ${publisher.id}`,
+  }
+}
@@ -112,3 +112,17 @@ export function packageStatsRoute(
     },
   }
 }
+
+/** Dependency graph explorer (`/package-deps/.../v/:version`) */
+export function packageDepsRoute(packageName: string, version: string): RouteLocationRaw {
+  const { org, name } = splitPackageName(packageName)
+
+  return {
+    name: 'deps',
+    params: {
+      org: org || undefined,
+      name,
+      version: version.replace(/\s+/g, ''),
+    },
+  }
+}
@@ -298,3 +298,21 @@ export function filterVersions(versions: string[], range: string): Set<string> {
   }
   return matched
 }
+
+/**
+ * Badge classes for a semver diff type (major, minor, patch, prerelease)
+ */
+export function getSemverBadgeClass(semverDiff: string | null | undefined): string {
+  switch (semverDiff) {
+    case 'major':
+      return 'bg-red-500/10 text-red-700 dark:text-red-400'
+    case 'minor':
+      return 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400'
+    case 'patch':
+      return 'bg-green-500/10 text-green-700 dark:text-green-400'
+    case 'prerelease':
+      return 'bg-purple-500/10 text-purple-700 dark:text-purple-400'
+    default:
+      return 'bg-bg-muted text-fg-subtle'
+  }
+}
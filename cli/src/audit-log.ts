@@ -0,0 +1,56 @@
+/**
+ * Append-only audit log of approved and executed operations.
+ * Stored as JSON Lines so entries can be appended without rewriting the file,
+ * and so the log stays readable with standard tools.
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import process from 'node:process'
+import type { AuditLogEntry } from './types.ts'
+
+/**
+ * Default location of the audit log (`~/.npmx-connector/history.jsonl`).
+ * Can be overridden with the `NPMX_CONNECTOR_HISTORY_FILE` environment variable.
+ */
+export function getDefaultAuditLogPath(): string {
+  return (
+    process.env.NPMX_CONNECTOR_HISTORY_FILE || join(homedir(), '.npmx-connector', 'history.jsonl')
+  )
+}
+
+/**
+ * Appends an entry to the audit log, creating the file (readable by the current user only) if needed.
+ */
+export async function appendAuditLogEntry(file: string, entry: AuditLogEntry): Promise<void> {
+  await mkdir(dirname(file), { recursive: true, mode: 0o700 })
+  await appendFile(file, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 })
+}
+
+/**
+ * Reads the most recent audit log entries, newest first.
+ * Lines that cannot be parsed (e.g. a write cut short by a crash) are skipped.
+ */
+export async function readAuditLog(file: string, limit: number): Promise<AuditLogEntry[]> {
+  let content: string
+  try {
+    content = await readFile(file, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+
+  const entries: AuditLogEntry[] = []
+  const lines = content.split('\n')
+  for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+    const line = lines[i]?.trim()
+    if (!line) continue
+    try {
+      entries.push(JSON.parse(line) as AuditLogEntry)
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return entries
+}
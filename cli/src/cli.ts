@@ -5,8 +5,14 @@ import { styleText } from 'node:util'
 import * as p from '@clack/prompts'
 import { defineCommand, runMain } from 'citty'
 import { serve } from 'srvx'
-import { createConnectorApp, generateToken, CONNECTOR_VERSION } from './server.ts'
-import { getNpmUser, NPM_REGISTRY_URL } from './npm-client.ts'
+import {
+  createConnectorApp,
+  generateToken,
+  CONNECTOR_VERSION,
+  DEFAULT_SESSION_TTL_MS,
+} from './server.ts'
+import { getNpmUser, NPM_REGISTRY_URL, setScopeRegistries } from './npm-client.ts'
+import { loadScopeRegistries } from './registries.ts'
 import { initLogger, showToken, logInfo, logWarning, logError } from './logger.ts'
 import { resolveNpmProcessCommand } from './npm-process.ts'
 
@@ -43,9 +49,26 @@ const main = defineCommand({
       description: 'Port to listen on',
       default: String(DEFAULT_PORT),
     },
+    ttl: {
+      type: 'string',
+      description: 'Hours a browser session stays valid after connecting',
+      default: String(DEFAULT_SESSION_TTL_MS / 3_600_000),
+    },
+    readOnly: {
+      type: 'boolean',
+      description: 'Only allow read-only browser sessions',
+      default: false,
+    },
+    allowNoOrigin: {
+      type: 'boolean',
+      description: 'Allow pairing from clients that send no Origin header, e.g. scripts',
+      default: false,
+    },
   },
   async run({ args }) {
     const port = Number.parseInt(args.port as string, 10) || DEFAULT_PORT
+    const sessionTtlHours = Number.parseFloat(args.ttl as string)
+    const sessionTtlMs = sessionTtlHours > 0 ? sessionTtlHours * 3_600_000 : DEFAULT_SESSION_TTL_MS
     const frontendUrl =
       process.env.NPMX_CLI_DEV === 'true' ? DEV_FRONTEND_URL : DEFAULT_FRONTEND_URL
 
@@ -94,10 +117,21 @@ const main = defineCommand({
 
     logInfo(`Authenticated as: ${npmUser}`)
 
+    // Scoped packages, orgs and teams can live on other registries (e.g. Verdaccio or GitHub Packages)
+    const scopeRegistries = await loadScopeRegistries()
+    setScopeRegistries(scopeRegistries)
+    for (const [scope, registry] of Object.entries(scopeRegistries)) {
+      logInfo(`Using ${registry} for @${scope}`)
+    }
+
     const token = generateToken()
     showToken(token, port, frontendUrl)
 
-    const app = createConnectorApp(token)
+    const app = createConnectorApp(token, {
+      sessionTtlMs,
+      maxScope: args.readOnly ? 'read' : 'write',
+      allowMissingOrigin: args.allowNoOrigin,
+    })
 
     const server = serve({
       port,
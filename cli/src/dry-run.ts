@@ -0,0 +1,460 @@
+/**
+ * Dry-run validation of queued operations.
+ * Checks each operation against the current org, team and package data without running npm
+ * commands that change anything, and describes what it would change. Earlier operations in
+ * the queue are simulated, so e.g. adding a user to a team after adding them to the org passes.
+ */
+
+import * as v from 'valibot'
+import type {
+  AccessPermission,
+  DryRunCheck,
+  DryRunResult,
+  OrgRole,
+  PendingOperation,
+} from './types.ts'
+import {
+  AccessGrantParamsSchema,
+  AccessRevokeParamsSchema,
+  DeprecateParamsSchema,
+  DistTagAddParamsSchema,
+  DistTagRemoveParamsSchema,
+  OrgAddUserParamsSchema,
+  OrgRemoveUserParamsSchema,
+  OwnerAddParamsSchema,
+  OwnerRemoveParamsSchema,
+  PackagePublishParamsSchema,
+  TeamAddUserParamsSchema,
+  TeamCreateParamsSchema,
+  TeamDestroyParamsSchema,
+  TeamRemoveUserParamsSchema,
+  TrustAddParamsSchema,
+  TrustRevokeParamsSchema,
+  UndeprecateParamsSchema,
+} from './schemas.ts'
+
+/** Read access to npm data needed by the dry run (backed by npm commands or mock state) */
+export interface DryRunReader {
+  /** npm user the operations would run as */
+  npmUser: string | null
+  getOrgUsers: (org: string) => Promise<Record<string, OrgRole> | null>
+  /** Team names without the org scope */
+  getOrgTeams: (org: string) => Promise<string[] | null>
+  getTeamUsers: (org: string, team: string) => Promise<string[] | null>
+  getPackageCollaborators: (pkg: string) => Promise<Record<string, AccessPermission> | null>
+  /** Resolves to `null` when existence cannot be determined */
+  userExists: (user: string) => Promise<boolean | null>
+}
+
+const ORG_MANAGER_ROLES: readonly OrgRole[] = ['admin', 'owner']
+
+/** Params schemas of the operations that are only checked for write access to `pkg` */
+const PACKAGE_WRITE_PARAMS_SCHEMAS = {
+  'dist-tag:add': DistTagAddParamsSchema,
+  'dist-tag:rm': DistTagRemoveParamsSchema,
+  'package:deprecate': DeprecateParamsSchema,
+  'package:undeprecate': UndeprecateParamsSchema,
+  'trust:add': TrustAddParamsSchema,
+  'trust:revoke': TrustRevokeParamsSchema,
+} as const
+
+function parseScopeTeam(scopeTeam: string): { org: string; team: string } {
+  const [scope = '', team = ''] = scopeTeam.split(':')
+  return { org: scope.replace(/^@/, ''), team }
+}
+
+function pass(message: string): DryRunCheck {
+  return { status: 'pass', message }
+}
+
+function fail(message: string): DryRunCheck {
+  return { status: 'fail', message }
+}
+
+function unknown(message: string): DryRunCheck {
+  return { status: 'unknown', message }
+}
+
+/**
+ * Caches the data read for the dry run, and applies the effects of operations
+ * that would succeed so later operations are checked against the simulated state.
+ */
+class DryRunState {
+  private orgUsers = new Map<string, Record<string, OrgRole> | null>()
+  private orgTeams = new Map<string, Set<string> | null>()
+  private teamUsers = new Map<string, Set<string> | null>()
+  private collaborators = new Map<string, Record<string, AccessPermission> | null>()
+
+  private reader: DryRunReader
+
+  constructor(reader: DryRunReader) {
+    this.reader = reader
+  }
+
+  get npmUser(): string | null {
+    return this.reader.npmUser
+  }
+
+  async getOrgUsers(org: string): Promise<Record<string, OrgRole> | null> {
+    if (!this.orgUsers.has(org)) {
+      const users = await this.reader.getOrgUsers(org)
+      this.orgUsers.set(org, users ? { ...users } : null)
+    }
+    return this.orgUsers.get(org) ?? null
+  }
+
+  async getOrgTeams(org: string): Promise<Set<string> | null> {
+    if (!this.orgTeams.has(org)) {
+      const teams = await this.reader.getOrgTeams(org)
+      this.orgTeams.set(org, teams ? new Set(teams) : null)
+    }
+    return this.orgTeams.get(org) ?? null
+  }
+
+  async getTeamUsers(org: string, team: string): Promise<Set<string> | null> {
+    const key = `${org}:${team}`
+    if (!this.teamUsers.has(key)) {
+      const users = await this.reader.getTeamUsers(org, team)
+      this.teamUsers.set(key, users ? new Set(users) : null)
+    }
+    return this.teamUsers.get(key) ?? null
+  }
+
+  async getCollaborators(pkg: string): Promise<Record<string, AccessPermission> | null> {
+    if (!this.collaborators.has(pkg)) {
+      const collaborators = await this.reader.getPackageCollaborators(pkg)
+      this.collaborators.set(pkg, collaborators ? { ...collaborators } : null)
+    }
+    return this.collaborators.get(pkg) ?? null
+  }
+
+  userExists(user: string): Promise<boolean | null> {
+    return this.reader.userExists(user)
+  }
+
+  /**
+   * Applies the effect of an operation that would succeed
+   * @throws ValiError if the params don't match the operation type
+   */
+  apply(op: PendingOperation): void {
+    const { params } = op
+    switch (op.type) {
+      case 'org:add-user':
+      case 'org:set-role': {
+        const { org, user, role } = v.parse(OrgAddUserParamsSchema, params)
+        const users = this.orgUsers.get(org)
+        if (users) users[user] = role
+        break
+      }
+      case 'org:rm-user': {
+        const { org, user } = v.parse(OrgRemoveUserParamsSchema, params)
+        const users = this.orgUsers.get(org)
+        if (users) delete users[user]
+        break
+      }
+      case 'team:create': {
+        const { org, team } = parseScopeTeam(v.parse(TeamCreateParamsSchema, params).scopeTeam)
+        this.orgTeams.get(org)?.add(team)
+        this.teamUsers.set(`${org}:${team}`, new Set())
+        break
+      }
+      case 'team:destroy': {
+        const { org, team } = parseScopeTeam(v.parse(TeamDestroyParamsSchema, params).scopeTeam)
+        this.orgTeams.get(org)?.delete(team)
+        this.teamUsers.set(`${org}:${team}`, null)
+        break
+      }
+      case 'team:add-user': {
+        const { scopeTeam, user } = v.parse(TeamAddUserParamsSchema, params)
+        const { org, team } = parseScopeTeam(scopeTeam)
+        this.teamUsers.get(`${org}:${team}`)?.add(user)
+        break
+      }
+      case 'team:rm-user': {
+        const { scopeTeam, user } = v.parse(TeamRemoveUserParamsSchema, params)
+        const { org, team } = parseScopeTeam(scopeTeam)
+        this.teamUsers.get(`${org}:${team}`)?.delete(user)
+        break
+      }
+      case 'access:grant': {
+        const { scopeTeam, pkg, permission } = v.parse(AccessGrantParamsSchema, params)
+        const collaborators = this.collaborators.get(pkg)
+        const { org, team } = parseScopeTeam(scopeTeam)
+        if (collaborators) collaborators[`${org}:${team}`] = permission
+        break
+      }
+      case 'access:revoke': {
+        const { scopeTeam, pkg } = v.parse(AccessRevokeParamsSchema, params)
+        const collaborators = this.collaborators.get(pkg)
+        const { org, team } = parseScopeTeam(scopeTeam)
+        if (collaborators) delete collaborators[`${org}:${team}`]
+        break
+      }
+    }
+  }
+}
+
+async function checkOrgRole(
+  state: DryRunState,
+  org: string,
+  roles: readonly OrgRole[] = ORG_MANAGER_ROLES,
+): Promise<DryRunCheck> {
+  const users = await state.getOrgUsers(org)
+  if (!users || !state.npmUser) {
+    return unknown(`Could not read your role in @${org}`)
+  }
+  const role = users[state.npmUser]
+  if (role && roles.includes(role)) {
+    return pass(`You are ${role === 'admin' ? 'an' : 'a'} ${role} of @${org}`)
+  }
+  return fail(`You must be ${roles.join(' or ')} of @${org}`)
+}
+
+async function checkTeamExists(
+  state: DryRunState,
+  org: string,
+  team: string,
+  shouldExist = true,
+): Promise<DryRunCheck> {
+  const teams = await state.getOrgTeams(org)
+  if (!teams) {
+    return unknown(`Could not read the teams of @${org}`)
+  }
+  if (teams.has(team) === shouldExist) {
+    return pass(shouldExist ? `Team @${org}:${team} exists` : `Team @${org}:${team} is available`)
+  }
+  return fail(
+    shouldExist ? `Team @${org}:${team} does not exist` : `Team @${org}:${team} already exists`,
+  )
+}
+
+async function checkUserExists(state: DryRunState, user: string): Promise<DryRunCheck> {
+  const exists = await state.userExists(user)
+  if (exists === null) return unknown(`Could not check whether ~${user} exists`)
+  return exists ? pass(`User ~${user} exists`) : fail(`User ~${user} does not exist`)
+}
+
+async function checkPackageWrite(state: DryRunState, pkg: string): Promise<DryRunCheck> {
+  const collaborators = await state.getCollaborators(pkg)
+  if (!collaborators || !state.npmUser) {
+    return unknown(`Could not read the collaborators of ${pkg}`)
+  }
+  return collaborators[state.npmUser] === 'read-write'
+    ? pass(`You can publish ${pkg}`)
+    : fail(`You do not have write access to ${pkg}`)
+}
+
+interface OperationCheck {
+  checks: DryRunCheck[]
+  /** What the operation would change, or why it would change nothing */
+  change: string
+  willChange: boolean
+}
+
+/**
+ * Checks an operation against the simulated state
+ * @throws ValiError if the params don't match the operation type
+ */
+async function checkOperation(op: PendingOperation, state: DryRunState): Promise<OperationCheck> {
+  const { params } = op
+
+  switch (op.type) {
+    case 'org:add-user':
+    case 'org:set-role': {
+      const { org, user, role } = v.parse(OrgAddUserParamsSchema, params)
+      // Only owners can make other members owners
+      const checks = [
+        await checkOrgRole(state, org, role === 'owner' ? ['owner'] : ORG_MANAGER_ROLES),
+        await checkUserExists(state, user),
+      ]
+      const current = (await state.getOrgUsers(org))?.[user]
+      if (current === role) {
+        return { checks, change: `~${user} is already ${role} of @${org}`, willChange: false }
+      }
+      return {
+        checks,
+        change: current
+          ? `Change ~${user} from ${current} to ${role} in @${org}`
+          : `Add ~${user} to @${org} as ${role}`,
+        willChange: true,
+      }
+    }
+
+    case 'org:rm-user': {
+      const { org, user } = v.parse(OrgRemoveUserParamsSchema, params)
+      const checks = [await checkOrgRole(state, org)]
+      const users = await state.getOrgUsers(org)
+      if (users && !users[user]) {
+        checks.push(fail(`~${user} is not a member of @${org}`))
+      }
+      return { checks, change: `Remove ~${user} from @${org}`, willChange: true }
+    }
+
+    case 'team:create':
+    case 'team:destroy': {
+      const create = op.type === 'team:create'
+      const { scopeTeam } = v.parse(
+        create ? TeamCreateParamsSchema : TeamDestroyParamsSchema,
+        params,
+      )
+      const { org, team } = parseScopeTeam(scopeTeam)
+      const checks = [
+        await checkOrgRole(state, org),
+        await checkTeamExists(state, org, team, !create),
+      ]
+      if (create) {
+        return { checks, change: `Create team @${org}:${team}`, willChange: true }
+      }
+      const members = await state.getTeamUsers(org, team)
+      return {
+        checks,
+        change: members
+          ? `Delete team @${org}:${team} and its ${members.size} member(s)`
+          : `Delete team @${org}:${team}`,
+        willChange: true,
+      }
+    }
+
+    case 'team:add-user':
+    case 'team:rm-user': {
+      const add = op.type === 'team:add-user'
+      const { scopeTeam, user } = v.parse(
+        add ? TeamAddUserParamsSchema : TeamRemoveUserParamsSchema,
+        params,
+      )
+      const { org, team } = parseScopeTeam(scopeTeam)
+      const checks = [await checkOrgRole(state, org), await checkTeamExists(state, org, team)]
+      if (add) {
+        const users = await state.getOrgUsers(org)
+        if (users && !users[user]) {
+          checks.push(fail(`~${user} must be a member of @${org} first`))
+        }
+      }
+      const members = await state.getTeamUsers(org, team)
+      if (members && members.has(user) === add) {
+        return {
+          checks,
+          change: add
+            ? `~${user} is already in @${org}:${team}`
+            : `~${user} is not in @${org}:${team}`,
+          willChange: false,
+        }
+      }
+      return {
+        checks,
+        change: add ? `Add ~${user} to @${org}:${team}` : `Remove ~${user} from @${org}:${team}`,
+        willChange: true,
+      }
+    }
+
+    case 'access:grant':
+    case 'access:revoke': {
+      const { scopeTeam, pkg } = v.parse(AccessRevokeParamsSchema, params)
+      const { org, team } = parseScopeTeam(scopeTeam)
+      const checks = [await checkOrgRole(state, org), await checkTeamExists(state, org, team)]
+      const current = (await state.getCollaborators(pkg))?.[`${org}:${team}`]
+      if (op.type === 'access:revoke') {
+        return current === undefined
+          ? { checks, change: `@${org}:${team} has no access to ${pkg}`, willChange: false }
+          : { checks, change: `Revoke @${org}:${team} access to ${pkg}`, willChange: true }
+      }
+      const { permission } = v.parse(AccessGrantParamsSchema, params)
+      if (current === permission) {
+        return {
+          checks,
+          change: `@${org}:${team} already has ${permission} access to ${pkg}`,
+          willChange: false,
+        }
+      }
+      return {
+        checks,
+        change: current
+          ? `Change @${org}:${team} access to ${pkg} from ${current} to ${permission}`
+          : `Grant @${org}:${team} ${permission} access to ${pkg}`,
+        willChange: true,
+      }
+    }
+
+    case 'owner:add':
+    case 'owner:rm': {
+      const { user, pkg } = v.parse(
+        op.type === 'owner:add' ? OwnerAddParamsSchema : OwnerRemoveParamsSchema,
+        params,
+      )
+      const checks = [await checkPackageWrite(state, pkg)]
+      if (op.type === 'owner:add') {
+        checks.push(await checkUserExists(state, user))
+      }
+      return { checks, change: op.description, willChange: true }
+    }
+
+    case 'package:publish':
+      return {
+        checks: [await checkPackageWrite(state, v.parse(PackagePublishParamsSchema, params).name)],
+        change: op.description,
+        willChange: true,
+      }
+
+    case 'dist-tag:add':
+    case 'dist-tag:rm':
+    case 'package:deprecate':
+    case 'package:undeprecate':
+    case 'trust:add':
+    case 'trust:revoke':
+      return {
+        checks: [
+          await checkPackageWrite(
+            state,
+            v.parse(PACKAGE_WRITE_PARAMS_SCHEMAS[op.type], params).pkg,
+          ),
+        ],
+        change: op.description,
+        willChange: true,
+      }
+
+    default:
+      return { checks: [], change: op.description, willChange: true }
+  }
+}
+
+/**
+ * Validates operations in queue order without running them.
+ * Operations depending on one that would fail are reported as failing too.
+ */
+export async function dryRunOperations(
+  operations: PendingOperation[],
+  reader: DryRunReader,
+): Promise<DryRunResult[]> {
+  const state = new DryRunState(reader)
+  const failedIds = new Set<string>()
+  const results: DryRunResult[] = []
+
+  for (const op of operations) {
+    let operationCheck: OperationCheck
+    try {
+      operationCheck = await checkOperation(op, state)
+    } catch (err) {
+      if (!(err instanceof v.ValiError)) throw err
+      operationCheck = {
+        checks: [fail(`Invalid params: ${err.issues[0]?.message}`)],
+        change: op.description,
+        willChange: false,
+      }
+    }
+    const { checks, change, willChange } = operationCheck
+    if (op.dependsOn && failedIds.has(op.dependsOn)) {
+      checks.push(fail('Depends on an operation that would fail'))
+    }
+
+    const ok = checks.every(check => check.status !== 'fail')
+    if (ok) {
+      state.apply(op)
+    } else {
+      failedIds.add(op.id)
+    }
+
+    results.push({ id: op.id, ok, checks, change, willChange })
+  }
+
+  return results
+}
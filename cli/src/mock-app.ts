@@ -8,6 +8,9 @@ import type { CorsOptions } from 'h3-next'
 import { serve, type Server } from 'srvx'
 import type {
   OperationType,
+  BrowserSession,
+  SessionScope,
+  PublishPreviewData,
   ApiResponse,
   ConnectorEndpoints,
   AssertEndpointsImplemented,
@@ -26,13 +29,20 @@ const _endpointCheck: AssertEndpointsImplemented<
   | 'POST /approve'
   | 'POST /approve-all'
   | 'POST /retry'
+  | 'POST /dry-run'
+  | 'POST /publish/preview'
   | 'POST /execute'
   | 'GET /org/:org/users'
   | 'GET /org/:org/teams'
   | 'GET /team/:scopeTeam/users'
   | 'GET /package/:pkg/collaborators'
+  | 'GET /package/:pkg/dist-tags'
+  | 'GET /package/:pkg/trusted-publishers'
   | 'GET /user/packages'
   | 'GET /user/orgs'
+  | 'GET /history'
+  | 'GET /sessions'
+  | 'DELETE /sessions'
 > = true
 void _endpointCheck
 
@@ -52,23 +62,34 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
     }
   })
 
-  function requireAuth(event: H3Event): void {
+  function requireAuth(event: H3Event): BrowserSession {
     const authHeader = event.req.headers.get('authorization')
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       throw new HTTPError({ statusCode: 401, message: 'Authorization required' })
     }
-    const token = authHeader.slice(7)
-    if (token !== stateManager.token) {
+    const session = stateManager.getSession(authHeader.slice(7))
+    if (!session) {
       throw new HTTPError({ statusCode: 401, message: 'Invalid token' })
     }
     if (!stateManager.isConnected()) {
       throw new HTTPError({ statusCode: 401, message: 'Not connected' })
     }
+
+    // Read-only sessions can dry-run and revoke themselves, but not change anything else
+    const { pathname, searchParams } = new URL(event.req.url)
+    const isAllowed =
+      event.req.method === 'GET' ||
+      pathname === '/dry-run' ||
+      (pathname === '/sessions' && searchParams.get('id') === session.id)
+    if (session.scope === 'read' && !isAllowed) {
+      throw new HTTPError({ statusCode: 403, message: 'This session is read-only' })
+    }
+    return session
   }
 
   // POST /connect
   app.post('/connect', async (event: H3Event) => {
-    const body = (await event.req.json()) as { token?: string }
+    const body = (await event.req.json()) as { token?: string; scope?: SessionScope }
     const token = body?.token
 
     if (!token || token !== stateManager.token) {
@@ -76,6 +97,11 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
     }
 
     stateManager.connect(token)
+    const { sessionToken, session } = stateManager.createSession(
+      body.scope ?? 'write',
+      event.req.headers.get('origin'),
+      event.req.headers.get('user-agent'),
+    )
 
     return {
       success: true,
@@ -83,6 +109,8 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
         npmUser: stateManager.config.npmUser,
         avatar: stateManager.config.avatar ?? null,
         connectedAt: stateManager.state.connectedAt ?? Date.now(),
+        sessionToken,
+        session,
       },
     } satisfies ApiResponse<ConnectorEndpoints['POST /connect']['data']>
   })
@@ -225,6 +253,38 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
     } satisfies ApiResponse<ConnectorEndpoints['POST /retry']['data']>
   })
 
+  // POST /dry-run
+  app.post('/dry-run', async (event: H3Event) => {
+    requireAuth(event)
+
+    const results = await stateManager.dryRun()
+    return {
+      success: true,
+      data: { results },
+    } satisfies ApiResponse<ConnectorEndpoints['POST /dry-run']['data']>
+  })
+
+  // POST /publish/preview
+  app.post('/publish/preview', async (event: H3Event) => {
+    requireAuth(event)
+
+    const body = (await event.req.json()) as { dir?: string }
+    if (!body?.dir) {
+      throw new HTTPError({ statusCode: 400, message: 'Missing dir' })
+    }
+
+    const preview = stateManager.getPublishPreview(body.dir)
+    if (!preview) {
+      throw new HTTPError({
+        statusCode: 400,
+        message: `No valid package.json found in ${body.dir}`,
+      })
+    }
+    return { success: true, data: preview } satisfies ApiResponse<
+      ConnectorEndpoints['POST /publish/preview']['data']
+    >
+  })
+
   // POST /execute
   app.post('/execute', async (event: H3Event) => {
     requireAuth(event)
@@ -328,6 +388,36 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
     >
   })
 
+  // GET /package/:pkg/dist-tags
+  app.get('/package/:pkg/dist-tags', (event: H3Event) => {
+    requireAuth(event)
+
+    const pkg = event.context.params?.pkg
+    if (!pkg) {
+      throw new HTTPError({ statusCode: 400, message: 'Missing package parameter' })
+    }
+
+    const distTags = stateManager.getPackageDistTags(decodeURIComponent(pkg))
+    return { success: true, data: distTags ?? {} } satisfies ApiResponse<
+      ConnectorEndpoints['GET /package/:pkg/dist-tags']['data']
+    >
+  })
+
+  // GET /package/:pkg/trusted-publishers
+  app.get('/package/:pkg/trusted-publishers', (event: H3Event) => {
+    requireAuth(event)
+
+    const pkg = event.context.params?.pkg
+    if (!pkg) {
+      throw new HTTPError({ statusCode: 400, message: 'Missing package parameter' })
+    }
+
+    const publishers = stateManager.getPackageTrustedPublishers(decodeURIComponent(pkg))
+    return { success: true, data: publishers ?? [] } satisfies ApiResponse<
+      ConnectorEndpoints['GET /package/:pkg/trusted-publishers']['data']
+    >
+  })
+
   // GET /user/packages
   app.get('/user/packages', (event: H3Event) => {
     requireAuth(event)
@@ -348,6 +438,42 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
     >
   })
 
+  // GET /history
+  app.get('/history', (event: H3Event) => {
+    requireAuth(event)
+
+    const limitRaw = new URL(event.req.url).searchParams.get('limit')
+    const limit = limitRaw ? Number.parseInt(limitRaw, 10) : undefined
+    if (limit !== undefined && !(limit >= 1 && limit <= 1000)) {
+      throw new HTTPError({ statusCode: 400, message: 'Invalid limit' })
+    }
+
+    return { success: true, data: stateManager.getHistory(limit) } satisfies ApiResponse<
+      ConnectorEndpoints['GET /history']['data']
+    >
+  })
+
+  // GET /sessions
+  app.get('/sessions', (event: H3Event) => {
+    const session = requireAuth(event)
+
+    return { success: true, data: stateManager.listSessions(session.id) } satisfies ApiResponse<
+      ConnectorEndpoints['GET /sessions']['data']
+    >
+  })
+
+  // DELETE /sessions?id=<id>
+  app.delete('/sessions', (event: H3Event) => {
+    requireAuth(event)
+
+    const id = new URL(event.req.url).searchParams.get('id')
+    if (!id || !stateManager.revokeSession(id)) {
+      throw new HTTPError({ statusCode: 404, message: 'Session not found' })
+    }
+
+    return { success: true } satisfies ApiResponse<ConnectorEndpoints['DELETE /sessions']['data']>
+  })
+
   // -- Test-only endpoints --
 
   // POST /__test__/reset
@@ -406,6 +532,7 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
     const body = (await event.req.json()) as {
       package?: string
       collaborators?: Record<string, 'read-only' | 'read-write'>
+      distTags?: Record<string, string>
     }
     if (!body?.package) {
       throw new HTTPError({ statusCode: 400, message: 'Missing package parameter' })
@@ -413,11 +540,28 @@ function createMockConnectorApp(stateManager: MockConnectorStateManager) {
 
     stateManager.setPackageData(body.package, {
       collaborators: body.collaborators ?? {},
+      distTags: body.distTags,
     })
 
     return { success: true }
   })
 
+  // POST /__test__/local-package
+  app.post('/__test__/local-package', async (event: H3Event) => {
+    const body = (await event.req.json()) as Partial<PublishPreviewData>
+    if (!body?.dir || !body.packageJson) {
+      throw new HTTPError({ statusCode: 400, message: 'Missing dir or packageJson parameter' })
+    }
+
+    stateManager.setLocalPackage(body.dir, {
+      packageJson: body.packageJson,
+      files: body.files ?? [],
+      size: body.size ?? 0,
+      unpackedSize: body.unpackedSize ?? 0,
+    })
+    return { success: true }
+  })
+
   return app
 }
 
@@ -9,13 +9,24 @@ import type {
   OperationResult,
   OrgRole,
   AccessPermission,
+  AuditLogEntry,
+  TrustedPublisher,
+  DryRunResult,
+  BrowserSession,
+  BrowserSessionInfo,
+  SessionScope,
+  PublishPreviewData,
 } from './types.ts'
+import { dryRunOperations } from './dry-run.ts'
+import { getOperationRegistry, type ScopeRegistries } from './registries.ts'
 
 export interface MockConnectorConfig {
   token: string
   npmUser: string
   avatar?: string | null
   port?: number
+  /** Per-scope registries, as read from .npmrc by the real connector */
+  scopeRegistries?: ScopeRegistries
 }
 
 export interface MockOrgData {
@@ -27,6 +38,11 @@ export interface MockOrgData {
 
 export interface MockPackageData {
   collaborators: Record<string, AccessPermission>
+  /** tag name -> version */
+  distTags?: Record<string, string>
+  /** Deprecated version range -> deprecation message */
+  deprecations?: Record<string, string>
+  trustedPublishers?: TrustedPublisher[]
 }
 
 export interface MockConnectorStateData {
@@ -37,16 +53,30 @@ export interface MockConnectorStateData {
   packages: Record<string, MockPackageData>
   userPackages: Record<string, AccessPermission>
   userOrgs: string[]
+  /** Local package directory -> what publishing it would upload */
+  localPackages: Record<string, Omit<PublishPreviewData, 'dir'>>
   operations: PendingOperation[]
   operationIdCounter: number
+  /** Audit log entries, oldest first (the real connector keeps these on disk) */
+  history: AuditLogEntry[]
+  sessions: MockSession[]
+  sessionIdCounter: number
 }
 
+export interface MockSession extends BrowserSession {
+  token: string
+}
+
+const MOCK_SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
 export interface NewOperationInput {
   type: OperationType
   params: Record<string, string>
   description: string
   command: string
   dependsOn?: string
+  /** Index of an earlier operation in the same `addOperations` batch */
+  dependsOnIndex?: number
 }
 
 export interface ExecuteOptions {
@@ -75,8 +105,12 @@ export function createMockConnectorState(config: MockConnectorConfig): MockConne
     packages: {},
     userPackages: {},
     userOrgs: [],
+    localPackages: {},
     operations: [],
     operationIdCounter: 0,
+    history: [],
+    sessions: [],
+    sessionIdCounter: 0,
   }
 }
 
@@ -119,12 +153,60 @@ export class MockConnectorStateManager {
     this.state.connected = false
     this.state.connectedAt = null
     this.state.operations = []
+    this.state.sessions = []
   }
 
   isConnected(): boolean {
     return this.state.connected
   }
 
+  // -- Browser sessions --
+
+  createSession(
+    scope: SessionScope = 'write',
+    origin: string | null = null,
+    userAgent: string | null = null,
+  ): { sessionToken: string; session: BrowserSession } {
+    const n = ++this.state.sessionIdCounter
+    const now = Date.now()
+    const session: BrowserSession = {
+      id: n.toString(16).padStart(16, '0'),
+      scope,
+      origin,
+      userAgent,
+      createdAt: now,
+      expiresAt: now + MOCK_SESSION_TTL_MS,
+      lastUsedAt: now,
+    }
+    const sessionToken = `session-${n}`
+    this.state.sessions.push({ ...session, token: sessionToken })
+    return { sessionToken, session }
+  }
+
+  /** Returns the unexpired session for a token */
+  getSession(token: string): BrowserSession | null {
+    const session = this.state.sessions.find(s => s.token === token && s.expiresAt > Date.now())
+    if (!session) return null
+    const { token: _, ...info } = session
+    return info
+  }
+
+  listSessions(currentId: string): BrowserSessionInfo[] {
+    const now = Date.now()
+    return this.state.sessions
+      .filter(s => s.expiresAt > now)
+      .map(s => {
+        const { token: _, ...session } = s
+        return Object.assign(session, { current: session.id === currentId })
+      })
+  }
+
+  revokeSession(id: string): boolean {
+    const before = this.state.sessions.length
+    this.state.sessions = this.state.sessions.filter(s => s.id !== id)
+    return this.state.sessions.length < before
+  }
+
   // -- Org data --
 
   setOrgData(org: string, data: Partial<MockOrgData>): void {
@@ -163,6 +245,29 @@ export class MockConnectorStateManager {
     return this.state.packages[pkg]?.collaborators ?? null
   }
 
+  getPackageDistTags(pkg: string): Record<string, string> | null {
+    return this.state.packages[pkg]?.distTags ?? null
+  }
+
+  getPackageDeprecations(pkg: string): Record<string, string> | null {
+    return this.state.packages[pkg]?.deprecations ?? null
+  }
+
+  getPackageTrustedPublishers(pkg: string): TrustedPublisher[] | null {
+    return this.state.packages[pkg]?.trustedPublishers ?? null
+  }
+
+  // -- Local packages --
+
+  setLocalPackage(dir: string, data: Omit<PublishPreviewData, 'dir'>): void {
+    this.state.localPackages[dir] = data
+  }
+
+  getPublishPreview(dir: string): PublishPreviewData | null {
+    const data = this.state.localPackages[dir]
+    return data ? { dir, ...data } : null
+  }
+
   // -- User data --
 
   setUserPackages(packages: Record<string, AccessPermission>): void {
@@ -194,13 +299,23 @@ export class MockConnectorStateManager {
       status: 'pending',
       createdAt: Date.now(),
       dependsOn: operation.dependsOn,
+      registry: getOperationRegistry(this.state.config.scopeRegistries ?? {}, operation.params),
     }
     this.state.operations.push(newOp)
     return newOp
   }
 
   addOperations(operations: NewOperationInput[]): PendingOperation[] {
-    return operations.map(op => this.addOperation(op))
+    const created: PendingOperation[] = []
+    for (const { dependsOnIndex, ...op } of operations) {
+      created.push(
+        this.addOperation({
+          ...op,
+          dependsOn: dependsOnIndex !== undefined ? created[dependsOnIndex]?.id : op.dependsOn,
+        }),
+      )
+    }
+    return created
   }
 
   getOperation(id: string): PendingOperation | undefined {
@@ -211,6 +326,43 @@ export class MockConnectorStateManager {
     return this.state.operations
   }
 
+  /** Validates pending and approved operations against the mock data without running them */
+  dryRun(): Promise<DryRunResult[]> {
+    const queued = this.state.operations.filter(
+      op => op.status === 'pending' || op.status === 'approved',
+    )
+    return dryRunOperations(queued, {
+      npmUser: this.state.config.npmUser,
+      getOrgUsers: async org => this.getOrgUsers(org),
+      getOrgTeams: async org => this.getOrgTeams(org),
+      getTeamUsers: async (org, team) => this.getTeamUsers(org, team),
+      getPackageCollaborators: async pkg => {
+        const collaborators = this.getPackageCollaborators(pkg)
+        // Normalize team keys to the "org:team" format npm uses
+        return collaborators
+          ? Object.fromEntries(
+              Object.entries(collaborators).map(([name, permission]) => [
+                name.replace(/^@/, ''),
+                permission,
+              ]),
+            )
+          : null
+      },
+      userExists: async user => this.isKnownUser(user),
+    })
+  }
+
+  /** Users are known if they appear anywhere in the mock data */
+  private isKnownUser(user: string): boolean {
+    if (user === this.state.config.npmUser) return true
+    const orgs = Object.values(this.state.orgs)
+    return (
+      orgs.some(org => user in org.users) ||
+      orgs.some(org => Object.values(org.teamMembers).some(members => members.includes(user))) ||
+      Object.values(this.state.packages).some(pkg => user in pkg.collaborators)
+    )
+  }
+
   removeOperation(id: string): boolean {
     const index = this.state.operations.findIndex(op => op.id === id)
     if (index === -1) return false
@@ -232,6 +384,7 @@ export class MockConnectorStateManager {
     const operation = this.state.operations.find(op => op.id === id)
     if (!operation || operation.status !== 'pending') return null
     operation.status = 'approved'
+    this.recordHistory(operation, { event: 'approved' })
     return operation
   }
 
@@ -240,6 +393,7 @@ export class MockConnectorStateManager {
     for (const op of this.state.operations) {
       if (op.status === 'pending') {
         op.status = 'approved'
+        this.recordHistory(op, { event: 'approved' })
         count++
       }
     }
@@ -251,6 +405,7 @@ export class MockConnectorStateManager {
     if (!operation || operation.status !== 'failed') return null
     operation.status = 'approved'
     operation.result = undefined
+    this.recordHistory(operation, { event: 'approved' })
     return operation
   }
 
@@ -287,6 +442,7 @@ export class MockConnectorStateManager {
         }
         op.result = result
         op.status = result.exitCode === 0 ? 'completed' : 'failed'
+        this.recordExecution(op, result)
         results.push({ id: op.id, result })
 
         if (result.requiresOtp && !options?.otp) {
@@ -301,6 +457,7 @@ export class MockConnectorStateManager {
         }
         op.result = result
         op.status = 'completed'
+        this.recordExecution(op, result)
         results.push({ id: op.id, result })
 
         // Apply the operation's effects to mock state
@@ -319,6 +476,39 @@ export class MockConnectorStateManager {
     }
   }
 
+  // -- Audit log --
+
+  /** Audit log entries, newest first */
+  getHistory(limit = 100): AuditLogEntry[] {
+    return this.state.history.slice(-limit).toReversed()
+  }
+
+  private recordHistory(
+    op: PendingOperation,
+    entry: Pick<AuditLogEntry, 'event'> & Partial<AuditLogEntry>,
+  ): void {
+    this.state.history.push({
+      operationId: op.id,
+      type: op.type,
+      params: op.params,
+      description: op.description,
+      command: op.command,
+      npmUser: this.state.config.npmUser,
+      timestamp: Date.now(),
+      ...entry,
+    })
+  }
+
+  private recordExecution(op: PendingOperation, result: OperationResult): void {
+    const now = Date.now()
+    this.recordHistory(op, {
+      event: 'executed',
+      exitCode: result.exitCode,
+      startedAt: now,
+      finishedAt: now,
+    })
+  }
+
   /** Apply side effects of a completed operation. Param keys match schemas.ts. */
   private applyOperationEffect(op: PendingOperation): void {
     const { type, params } = op
@@ -489,6 +679,112 @@ export class MockConnectorStateManager {
         }
         break
       }
+      case 'package:publish': {
+        // Params: { dir, name, version, tag?, provenance? } — PackagePublishParamsSchema
+        const name = params['name']
+        const version = params['version']
+        if (name && version) {
+          const existing = this.state.packages[name]
+          this.state.packages[name] = {
+            ...existing,
+            collaborators: existing?.collaborators ?? {
+              [this.state.config.npmUser]: 'read-write',
+            },
+            distTags: { ...existing?.distTags, [params['tag'] ?? 'latest']: version },
+          }
+          this.state.userPackages[name] ??= 'read-write'
+        }
+        break
+      }
+      case 'dist-tag:add': {
+        // Params: { pkg, version, tag } — DistTagAddParamsSchema
+        const pkg = params['pkg']
+        const version = params['version']
+        const tag = params['tag']
+        if (pkg && version && tag) {
+          if (!this.state.packages[pkg]) {
+            this.state.packages[pkg] = { collaborators: {} }
+          }
+          this.state.packages[pkg].distTags = {
+            ...this.state.packages[pkg].distTags,
+            [tag]: version,
+          }
+        }
+        break
+      }
+      case 'dist-tag:rm': {
+        // Params: { pkg, tag } — DistTagRemoveParamsSchema
+        const pkg = params['pkg']
+        const tag = params['tag']
+        const distTags = pkg ? this.state.packages[pkg]?.distTags : undefined
+        if (distTags && tag) {
+          delete distTags[tag]
+        }
+        break
+      }
+      case 'package:deprecate': {
+        // Params: { pkg, range, message } — DeprecateParamsSchema
+        const pkg = params['pkg']
+        const range = params['range']
+        const message = params['message']
+        if (pkg && range && message) {
+          if (!this.state.packages[pkg]) {
+            this.state.packages[pkg] = { collaborators: {} }
+          }
+          this.state.packages[pkg].deprecations = {
+            ...this.state.packages[pkg].deprecations,
+            [range]: message,
+          }
+        }
+        break
+      }
+      case 'package:undeprecate': {
+        // Params: { pkg, range } — UndeprecateParamsSchema
+        const pkg = params['pkg']
+        const range = params['range']
+        const deprecations = pkg ? this.state.packages[pkg]?.deprecations : undefined
+        if (deprecations && range) {
+          delete deprecations[range]
+        }
+        break
+      }
+      case 'trust:add': {
+        // Params: { pkg, provider, repository, file, environment? } — TrustAddParamsSchema
+        const pkg = params['pkg']
+        const provider = params['provider']
+        const repository = params['repository']
+        const file = params['file']
+        const environment = params['environment']
+        if (pkg && (provider === 'github' || provider === 'gitlab') && repository && file) {
+          if (!this.state.packages[pkg]) {
+            this.state.packages[pkg] = { collaborators: {} }
+          }
+          const publishers = this.state.packages[pkg].trustedPublishers ?? []
+          this.state.packages[pkg].trustedPublishers = [
+            ...publishers,
+            {
+              id: `trust-${publishers.length + 1}`,
+              provider,
+              repository,
+              file,
+              ...(environment && { environment }),
+            },
+          ]
+        }
+        break
+      }
+      case 'trust:revoke': {
+        // Params: { pkg, id } — TrustRevokeParamsSchema
+        const pkg = params['pkg']
+        const id = params['id']
+        const packageData = pkg ? this.state.packages[pkg] : undefined
+        if (packageData?.trustedPublishers && id) {
+          packageData.trustedPublishers = packageData.trustedPublishers.filter(
+            publisher => publisher.id !== id,
+          )
+        }
+        break
+      }
     }
   }
 
@@ -523,8 +819,12 @@ export class MockConnectorStateManager {
     this.state.packages = {}
     this.state.userPackages = {}
     this.state.userOrgs = []
+    this.state.localPackages = {}
     this.state.operations = []
     this.state.operationIdCounter = 0
+    this.state.history = []
+    this.state.sessions = []
+    this.state.sessionIdCounter = 0
   }
 }
 
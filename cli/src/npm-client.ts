@@ -2,23 +2,70 @@ import crypto from 'node:crypto'
 import process from 'node:process'
 import { execFile } from 'node:child_process'
 import { promisify } from 'node:util'
-import { mkdtempDisposable, writeFile } from 'node:fs/promises'
+import { mkdtempDisposable, readFile, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import * as v from 'valibot'
-import { PackageNameSchema, UsernameSchema, OrgNameSchema, ScopeTeamSchema } from './schemas.ts'
+import {
+  PackageNameSchema,
+  UsernameSchema,
+  OrgNameSchema,
+  ScopeTeamSchema,
+  DistTagSchema,
+  VersionSchema,
+  VersionRangeSchema,
+  DeprecationMessageSchema,
+  TrustRepositorySchema,
+  TrustWorkflowFileSchema,
+  TrustEnvironmentSchema,
+  TrustIdSchema,
+  PackageDirSchema,
+} from './schemas.ts'
+import type {
+  PackFile,
+  PublishPackageJson,
+  TrustedPublisher,
+  TrustedPublisherProvider,
+} from './types.ts'
 import { logCommand, logSuccess, logError, logDebug } from './logger.ts'
 import { resolveNpmProcessCommand } from './npm-process.ts'
+import {
+  getScope,
+  getScopeRegistry,
+  listRegistries,
+  NPM_REGISTRY_URL,
+  type ScopeRegistries,
+} from './registries.ts'
+
+export { NPM_REGISTRY_URL }
 
 const execFileAsync = promisify(execFile)
-export const NPM_REGISTRY_URL = 'https://registry.npmjs.org/'
 
-function createNpmEnv(overrides: Record<string, string> = {}): Record<string, string> {
+let scopeRegistries: ScopeRegistries = {}
+
+/**
+ * Sets the per-scope registries npm commands run against (see `loadScopeRegistries`)
+ */
+export function setScopeRegistries(registries: ScopeRegistries): void {
+  scopeRegistries = { ...registries }
+}
+
+export function getScopeRegistries(): ScopeRegistries {
+  return scopeRegistries
+}
+
+/**
+ * Registry for an org, `@scope:team` or package name
+ */
+function registryFor(name: string, kind: 'org' | 'scopeTeam' | 'pkg'): string {
+  return getScopeRegistry(scopeRegistries, getScope(name, kind))
+}
+
+function createNpmEnv(registry: string = NPM_REGISTRY_URL): Record<string, string> {
   return {
     ...process.env,
-    ...overrides,
     FORCE_COLOR: '0',
-    npm_config_registry: NPM_REGISTRY_URL,
+    npm_config_registry: registry,
   }
 }
 
@@ -71,6 +118,99 @@ export function validateScopeTeam(scopeTeam: string): void {
   }
 }
 
+/**
+ * Validates a dist-tag name
+ * @throws Error if the tag is invalid
+ * @internal
+ */
+export function validateDistTag(tag: string): void {
+  const result = v.safeParse(DistTagSchema, tag)
+  if (!result.success) {
+    throw new Error(`Invalid dist-tag: ${tag}`)
+  }
+}
+
+/**
+ * Validates an exact semver version
+ * @throws Error if the version is invalid
+ * @internal
+ */
+export function validateVersion(version: string): void {
+  const result = v.safeParse(VersionSchema, version)
+  if (!result.success) {
+    throw new Error(`Invalid version: ${version}`)
+  }
+}
+
+/**
+ * Validates a semver range
+ * @throws Error if the range is invalid
+ * @internal
+ */
+export function validateVersionRange(range: string): void {
+  const result = v.safeParse(VersionRangeSchema, range)
+  if (!result.success) {
+    throw new Error(`Invalid version range: ${range}`)
+  }
+}
+
+/**
+ * Validates a deprecation message
+ * @throws Error if the message is invalid
+ * @internal
+ */
+export function validateDeprecationMessage(message: string): void {
+  const result = v.safeParse(DeprecationMessageSchema, message)
+  if (!result.success) {
+    throw new Error(`Invalid deprecation message: ${result.issues[0].message}`)
+  }
+}
+
+/**
+ * Validates a trusted publisher repository, workflow file and optional environment
+ * @throws Error if any of them is invalid
+ * @internal
+ */
+export function validateTrustedPublisherConfig(
+  repository: string,
+  file: string,
+  environment?: string,
+): void {
+  if (!v.safeParse(TrustRepositorySchema, repository).success) {
+    throw new Error(`Invalid repository: ${repository}`)
+  }
+  if (!v.safeParse(TrustWorkflowFileSchema, file).success) {
+    throw new Error(`Invalid workflow file: ${file}`)
+  }
+  if (environment !== undefined && !v.safeParse(TrustEnvironmentSchema, environment).success) {
+    throw new Error(`Invalid environment: ${environment}`)
+  }
+}
+
+/**
+ * Validates a trusted publisher ID
+ * @throws Error if the ID is invalid
+ * @internal
+ */
+export function validateTrustId(id: string): void {
+  const result = v.safeParse(TrustIdSchema, id)
+  if (!result.success) {
+    throw new Error(`Invalid trusted publisher ID: ${id}`)
+  }
+}
+
+/**
+ * Validates a local package directory
+ * @throws Error if the directory is not an absolute path
+ * @internal
+ */
+export function validatePackageDir(dir: string): void {
+  const result = v.safeParse(PackageDirSchema, dir)
+  if (!result.success) {
+    throw new Error(`Invalid package directory: ${result.issues[0].message}`)
+  }
+}
+
 export interface NpmExecResult {
   stdout: string
   stderr: string
@@ -168,6 +308,8 @@ export interface ExecNpmOptions {
   /** Called when an auth URL is detected in the pty output, while npm is still running (polling doneUrl). Lets the caller expose the URL to the frontend via /state before the execute response comes back.
    *  Only relevant when `interactive` is true. */
   onAuthUrl?: (url: string) => void
+  /** Registry the command runs against (defaults to the public npm registry) */
+  registry?: string
 }
 
 /**
@@ -204,7 +346,7 @@ async function execNpmInteractive(
   let authUrlTimeout: ReturnType<typeof setTimeout> | null = null
   let authUrlTimedOut = false
 
-  const env = createNpmEnv()
+  const env = createNpmEnv(options.registry)
 
   // When openUrls is false, tell npm not to open the browser.
   // npm still prints the auth URL and polls doneUrl
@@ -341,7 +483,7 @@ async function execNpm(args: string[], options: ExecNpmOptions = {}): Promise<Np
     const { stdout, stderr } = await execFileAsync(command, processArgs, {
       timeout: 60000,
       cwd: options.cwd,
-      env: createNpmEnv(),
+      env: createNpmEnv(options.registry),
     })
 
     logDebug('Command succeeded:', { stdout, stderr })
@@ -436,7 +578,7 @@ export async function orgAddUser(
 ): Promise<NpmExecResult> {
   validateOrgName(org)
   validateUsername(user)
-  return execNpm(['org', 'set', org, user, role], options)
+  return execNpm(['org', 'set', org, user, role], { ...options, registry: registryFor(org, 'org') })
 }
 
 export async function orgRemoveUser(
@@ -446,7 +588,7 @@ export async function orgRemoveUser(
 ): Promise<NpmExecResult> {
   validateOrgName(org)
   validateUsername(user)
-  return execNpm(['org', 'rm', org, user], options)
+  return execNpm(['org', 'rm', org, user], { ...options, registry: registryFor(org, 'org') })
 }
 
 export async function teamCreate(
@@ -454,7 +596,10 @@ export async function teamCreate(
   options?: ExecNpmOptions,
 ): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
-  return execNpm(['team', 'create', scopeTeam], options)
+  return execNpm(['team', 'create', scopeTeam], {
+    ...options,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function teamDestroy(
@@ -462,7 +607,10 @@ export async function teamDestroy(
   options?: ExecNpmOptions,
 ): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
-  return execNpm(['team', 'destroy', scopeTeam], options)
+  return execNpm(['team', 'destroy', scopeTeam], {
+    ...options,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function teamAddUser(
@@ -472,7 +620,10 @@ export async function teamAddUser(
 ): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
   validateUsername(user)
-  return execNpm(['team', 'add', scopeTeam, user], options)
+  return execNpm(['team', 'add', scopeTeam, user], {
+    ...options,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function teamRemoveUser(
@@ -482,7 +633,10 @@ export async function teamRemoveUser(
 ): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
   validateUsername(user)
-  return execNpm(['team', 'rm', scopeTeam, user], options)
+  return execNpm(['team', 'rm', scopeTeam, user], {
+    ...options,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function accessGrant(
@@ -493,7 +647,10 @@ export async function accessGrant(
 ): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
   validatePackageName(pkg)
-  return execNpm(['access', 'grant', permission, scopeTeam, pkg], options)
+  return execNpm(['access', 'grant', permission, scopeTeam, pkg], {
+    ...options,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function accessRevoke(
@@ -503,7 +660,10 @@ export async function accessRevoke(
 ): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
   validatePackageName(pkg)
-  return execNpm(['access', 'revoke', scopeTeam, pkg], options)
+  return execNpm(['access', 'revoke', scopeTeam, pkg], {
+    ...options,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function ownerAdd(
@@ -513,7 +673,7 @@ export async function ownerAdd(
 ): Promise<NpmExecResult> {
   validateUsername(user)
   validatePackageName(pkg)
-  return execNpm(['owner', 'add', user, pkg], options)
+  return execNpm(['owner', 'add', user, pkg], { ...options, registry: registryFor(pkg, 'pkg') })
 }
 
 export async function ownerRemove(
@@ -523,29 +683,244 @@ export async function ownerRemove(
 ): Promise<NpmExecResult> {
   validateUsername(user)
   validatePackageName(pkg)
-  return execNpm(['owner', 'rm', user, pkg], options)
+  return execNpm(['owner', 'rm', user, pkg], { ...options, registry: registryFor(pkg, 'pkg') })
+}
+
+export async function distTagAdd(
+  pkg: string,
+  version: string,
+  tag: string,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  validateVersion(version)
+  validateDistTag(tag)
+  return execNpm(['dist-tag', 'add', `${pkg}@${version}`, tag], {
+    ...options,
+    registry: registryFor(pkg, 'pkg'),
+  })
+}
+
+export async function distTagRemove(
+  pkg: string,
+  tag: string,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  validateDistTag(tag)
+  return execNpm(['dist-tag', 'rm', pkg, tag], { ...options, registry: registryFor(pkg, 'pkg') })
+}
+
+export async function packageDeprecate(
+  pkg: string,
+  range: string,
+  message: string,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  validateVersionRange(range)
+  validateDeprecationMessage(message)
+  return execNpm(['deprecate', `${pkg}@${range}`, message], {
+    ...options,
+    registry: registryFor(pkg, 'pkg'),
+  })
+}
+
+/**
+ * Removes the deprecation from matching versions.
+ * npm treats an empty message as "undeprecate".
+ */
+export async function packageUndeprecate(
+  pkg: string,
+  range: string,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  validateVersionRange(range)
+  return execNpm(['deprecate', `${pkg}@${range}`, ''], {
+    ...options,
+    registry: registryFor(pkg, 'pkg'),
+  })
+}
+
+/**
+ * Adds a trusted publisher, allowing the given CI workflow to publish the package via OIDC.
+ * GitHub workflows are identified by repository, GitLab pipelines by project.
+ */
+export async function trustAdd(
+  pkg: string,
+  provider: TrustedPublisherProvider,
+  repository: string,
+  file: string,
+  environment?: string,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  validateTrustedPublisherConfig(repository, file, environment)
+  const args = [
+    'trust',
+    provider,
+    pkg,
+    '--file',
+    file,
+    provider === 'github' ? '--repository' : '--project',
+    repository,
+  ]
+  if (environment) {
+    args.push('--environment', environment)
+  }
+  // npm refuses to create a trust configuration without a permission flag
+  args.push('--allow-publish')
+  // Skip npm's confirmation prompt; the operation was already approved in the connector
+  args.push('--yes')
+  return execNpm(args, { ...options, registry: registryFor(pkg, 'pkg') })
+}
+
+export async function trustRevoke(
+  pkg: string,
+  id: string,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  validateTrustId(id)
+  return execNpm(['trust', 'revoke', pkg, '--id', id], {
+    ...options,
+    registry: registryFor(pkg, 'pkg'),
+  })
 }
 
 // List functions (for reading data) - silent since they're not user-triggered operations
 
 export async function orgListUsers(org: string): Promise<NpmExecResult> {
   validateOrgName(org)
-  return execNpm(['org', 'ls', org, '--json'], { silent: true })
+  return execNpm(['org', 'ls', org, '--json'], { silent: true, registry: registryFor(org, 'org') })
 }
 
 export async function teamListTeams(org: string): Promise<NpmExecResult> {
   validateOrgName(org)
-  return execNpm(['team', 'ls', org, '--json'], { silent: true })
+  return execNpm(['team', 'ls', org, '--json'], { silent: true, registry: registryFor(org, 'org') })
 }
 
 export async function teamListUsers(scopeTeam: string): Promise<NpmExecResult> {
   validateScopeTeam(scopeTeam)
-  return execNpm(['team', 'ls', scopeTeam, '--json'], { silent: true })
+  return execNpm(['team', 'ls', scopeTeam, '--json'], {
+    silent: true,
+    registry: registryFor(scopeTeam, 'scopeTeam'),
+  })
 }
 
 export async function accessListCollaborators(pkg: string): Promise<NpmExecResult> {
   validatePackageName(pkg)
-  return execNpm(['access', 'list', 'collaborators', pkg, '--json'], { silent: true })
+  return execNpm(['access', 'list', 'collaborators', pkg, '--json'], {
+    silent: true,
+    registry: registryFor(pkg, 'pkg'),
+  })
+}
+
+/**
+ * Lists the dist-tags of a package.
+ * `npm dist-tag ls` has no JSON output, so parse its output with `parseDistTagList`.
+ */
+export async function distTagList(pkg: string): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  return execNpm(['dist-tag', 'ls', pkg], { silent: true, registry: registryFor(pkg, 'pkg') })
+}
+
+/**
+ * Parses `npm dist-tag ls` output (one `tag: version` per line) into a tag -> version map
+ */
+export function parseDistTagList(stdout: string): Record<string, string> {
+  const tags: Record<string, string> = {}
+  for (const line of stdout.split('\n')) {
+    const match = line.trim().match(/^([^:\s]+):\s*(\S+)$/)
+    if (match?.[1] && match[2]) {
+      tags[match[1]] = match[2]
+    }
+  }
+  return tags
+}
+
+export async function trustList(pkg: string): Promise<NpmExecResult> {
+  validatePackageName(pkg)
+  return execNpm(['trust', 'list', pkg, '--json'], {
+    silent: true,
+    registry: registryFor(pkg, 'pkg'),
+  })
+}
+
+/** One trust configuration as printed by `npm trust list --json` */
+interface NpmTrustListItem {
+  id?: unknown
+  type?: unknown
+  file?: unknown
+  /** GitHub repository */
+  repository?: unknown
+  /** GitLab project path */
+  project?: unknown
+  environment?: unknown
+}
+
+/**
+ * Parses output made of JSON documents printed one after another,
+ * as npm does for commands that log one object per item.
+ */
+function parseConcatenatedJson(stdout: string): unknown[] {
+  const values: unknown[] = []
+  let depth = 0
+  let start = 0
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < stdout.length; i++) {
+    const char = stdout[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      if (depth++ === 0) start = i
+    } else if ((char === '}' || char === ']') && --depth === 0) {
+      values.push(JSON.parse(stdout.slice(start, i + 1)))
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parses `npm trust list --json` output into trusted publishers.
+ * npm prints one flat object per configuration rather than an array.
+ * Entries for unsupported providers or with missing fields are skipped.
+ */
+export function parseTrustList(stdout: string): TrustedPublisher[] {
+  const items = parseConcatenatedJson(stdout).flat() as NpmTrustListItem[]
+  const publishers: TrustedPublisher[] = []
+
+  for (const item of items) {
+    const provider = item?.type
+    const repository = provider === 'gitlab' ? item.project : item?.repository
+    if (
+      (provider !== 'github' && provider !== 'gitlab') ||
+      typeof item.id !== 'string' ||
+      typeof repository !== 'string' ||
+      typeof item.file !== 'string'
+    ) {
+      continue
+    }
+
+    publishers.push({
+      id: item.id,
+      provider,
+      repository,
+      file: item.file,
+      ...(typeof item.environment === 'string' &&
+        item.environment && { environment: item.environment }),
+    })
+  }
+
+  return publishers
 }
 
 /**
@@ -553,9 +928,47 @@ export async function accessListCollaborators(pkg: string): Promise<NpmExecResul
  * Uses `npm access list packages @{user} --json`
  * Returns a map of package name to permission level
  */
-export async function listUserPackages(user: string): Promise<NpmExecResult> {
+export async function listUserPackages(
+  user: string,
+  registry: string = NPM_REGISTRY_URL,
+): Promise<NpmExecResult> {
   validateUsername(user)
-  return execNpm(['access', 'list', 'packages', `@${user}`, '--json'], { silent: true })
+  return execNpm(['access', 'list', 'packages', `@${user}`, '--json'], { silent: true, registry })
+}
+
+/**
+ * Lists the packages a user has access to on the public registry and every scope registry.
+ * Only packages whose scope maps to a registry are taken from it, and scope registries that
+ * fail are skipped, since many private registries do not implement this endpoint.
+ * Returns the merged `{ packageName: permission }` JSON as stdout.
+ */
+export async function listUserPackagesAcrossRegistries(user: string): Promise<NpmExecResult> {
+  const registries = listRegistries(scopeRegistries)
+  const results = await Promise.all(registries.map(registry => listUserPackages(user, registry)))
+
+  const [publicResult] = results
+  if (!publicResult || publicResult.exitCode !== 0) {
+    return publicResult ?? { stdout: '', stderr: 'Failed to list user packages', exitCode: 1 }
+  }
+
+  const packages: Record<string, string> = {}
+  for (const [i, result] of results.entries()) {
+    if (result.exitCode !== 0) continue
+    let parsed: Record<string, string>
+    try {
+      parsed = JSON.parse(result.stdout || '{}') as Record<string, string>
+    } catch {
+      if (i === 0) return { ...result, stderr: 'Failed to parse user packages', exitCode: 1 }
+      continue
+    }
+    for (const [pkg, permission] of Object.entries(parsed)) {
+      if (registryFor(pkg, 'pkg') === registries[i]) {
+        packages[pkg] = permission
+      }
+    }
+  }
+
+  return { stdout: JSON.stringify(packages), stderr: '', exitCode: 0 }
 }
 
 /**
@@ -609,7 +1022,12 @@ export async function packageInit(
     : ['npm', ...args].join(' ')
   logCommand(`${displayCmd} (in temp dir for ${name})`)
 
-  const result = await execNpm(args, { ...options, cwd: tempDir.path, silent: true })
+  const result = await execNpm(args, {
+    ...options,
+    cwd: tempDir.path,
+    silent: true,
+    registry: registryFor(name, 'pkg'),
+  })
 
   if (result.exitCode === 0) {
     logSuccess(`Published ${name}@0.0.0`)
@@ -623,3 +1041,126 @@ export async function packageInit(
 
   return result
 }
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Reads the package.json fields checked before publishing.
+ * @throws Error if package.json is missing, invalid, or has no name or version
+ */
+export async function readPublishPackageJson(dir: string): Promise<PublishPackageJson> {
+  validatePackageDir(dir)
+  let pkg: Record<string, unknown>
+  try {
+    pkg = JSON.parse(await readFile(join(dir, 'package.json'), 'utf8'))
+  } catch {
+    throw new Error(`No valid package.json found in ${dir}`)
+  }
+  if (typeof pkg.name !== 'string' || typeof pkg.version !== 'string') {
+    throw new Error('package.json must have a name and a version')
+  }
+
+  return {
+    name: pkg.name,
+    version: pkg.version,
+    private: pkg.private === true || undefined,
+    type: pkg.type === 'module' || pkg.type === 'commonjs' ? pkg.type : undefined,
+    main: optionalString(pkg.main),
+    module: optionalString(pkg.module),
+    types: optionalString(pkg.types),
+    typings: optionalString(pkg.typings),
+    exports: pkg.exports,
+    files: Array.isArray(pkg.files)
+      ? pkg.files.filter((file): file is string => typeof file === 'string')
+      : undefined,
+  }
+}
+
+/**
+ * Lists what `npm publish` would upload from a directory.
+ * Scripts are skipped so previewing never runs code from the package; parse the output with `parsePackDryRun`.
+ */
+export async function packDryRun(dir: string, name: string): Promise<NpmExecResult> {
+  validatePackageDir(dir)
+  validatePackageName(name)
+  return execNpm(['pack', '--dry-run', '--json', '--ignore-scripts'], {
+    silent: true,
+    cwd: dir,
+    registry: registryFor(name, 'pkg'),
+  })
+}
+
+interface NpmPackResult {
+  size?: unknown
+  unpackedSize?: unknown
+  files?: Array<{ path?: unknown; size?: unknown }>
+}
+
+/**
+ * Parses `npm pack --dry-run --json` output into the packed files and sizes
+ */
+export function parsePackDryRun(stdout: string): {
+  files: PackFile[]
+  size: number
+  unpackedSize: number
+} {
+  const data = JSON.parse(stdout) as unknown
+  const result = (Array.isArray(data) ? data[0] : data) as NpmPackResult | undefined
+  const files: PackFile[] = []
+  for (const file of result?.files ?? []) {
+    if (typeof file?.path === 'string') {
+      files.push({ path: file.path, size: typeof file.size === 'number' ? file.size : 0 })
+    }
+  }
+  return {
+    files,
+    size: typeof result?.size === 'number' ? result.size : 0,
+    unpackedSize: typeof result?.unpackedSize === 'number' ? result.unpackedSize : 0,
+  }
+}
+
+/**
+ * Publishes the package in a local directory.
+ * Fails without publishing if package.json no longer has the name and version that were approved.
+ */
+export async function packagePublish(
+  dir: string,
+  name: string,
+  version: string,
+  tag?: string,
+  provenance?: boolean,
+  options?: ExecNpmOptions,
+): Promise<NpmExecResult> {
+  validatePackageDir(dir)
+  validatePackageName(name)
+  validateVersion(version)
+  if (tag !== undefined) {
+    validateDistTag(tag)
+  }
+
+  let pkg: PublishPackageJson
+  try {
+    pkg = await readPublishPackageJson(dir)
+  } catch (err) {
+    // The directory may have changed since it was previewed; fail the operation rather than throwing
+    return { stdout: '', stderr: err instanceof Error ? err.message : String(err), exitCode: 1 }
+  }
+  if (pkg.name !== name || pkg.version !== version) {
+    return {
+      stdout: '',
+      stderr: `package.json in ${dir} is now ${pkg.name}@${pkg.version}, expected ${name}@${version}. Preview the package again before publishing.`,
+      exitCode: 1,
+    }
+  }
+
+  const args = ['publish']
+  if (tag) {
+    args.push('--tag', tag)
+  }
+  if (provenance) {
+    args.push('--provenance')
+  }
+  return execNpm(args, { ...options, cwd: dir, registry: registryFor(name, 'pkg') })
+}
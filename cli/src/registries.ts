@@ -0,0 +1,128 @@
+/**
+ * Per-scope registries, read from .npmrc `@scope:registry=<url>` entries.
+ * Unscoped names and scopes without an entry always use the public npm registry,
+ * since that is the registry npmx.dev shows.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import process from 'node:process'
+
+export const NPM_REGISTRY_URL = 'https://registry.npmjs.org/'
+
+/** Scope name (without `@`, lowercase) -> registry URL */
+export type ScopeRegistries = Record<string, string>
+
+const SCOPE_REGISTRY_KEY_RE = /^@([^:]+):registry$/
+
+function normalizeRegistryUrl(value: string): string | null {
+  try {
+    const url = new URL(value)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+    return url.href.endsWith('/') ? url.href : `${url.href}/`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parses the scope registries of an .npmrc file.
+ * `${VAR}` references are expanded like npm does; entries with invalid URLs are skipped.
+ */
+export function parseNpmrcScopeRegistries(
+  content: string,
+  env: Record<string, string | undefined> = process.env,
+): ScopeRegistries {
+  const registries: ScopeRegistries = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue
+
+    const separator = line.indexOf('=')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim()
+    const scope = key.match(SCOPE_REGISTRY_KEY_RE)?.[1]
+    if (!scope) continue
+
+    const value = line
+      .slice(separator + 1)
+      .trim()
+      .replace(/^(["'])(.*)\1$/, '$2')
+      .replace(/\$\{([^}]+)\}/g, (_, name: string) => env[name] ?? '')
+    const url = normalizeRegistryUrl(value)
+    if (url) {
+      registries[scope.toLowerCase()] = url
+    }
+  }
+
+  return registries
+}
+
+/**
+ * Reads scope registries from the user .npmrc and the .npmrc of the working directory.
+ * Like npm, entries in the project .npmrc take precedence.
+ */
+export async function loadScopeRegistries(cwd: string = process.cwd()): Promise<ScopeRegistries> {
+  const userConfig = process.env.npm_config_userconfig || join(homedir(), '.npmrc')
+  const files = [userConfig, join(cwd, '.npmrc')]
+
+  const registries: ScopeRegistries = {}
+  for (const file of new Set(files)) {
+    let content: string
+    try {
+      content = await readFile(file, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') continue
+      throw err
+    }
+    Object.assign(registries, parseNpmrcScopeRegistries(content))
+  }
+  return registries
+}
+
+/**
+ * Extracts the scope of an org name, `@scope:team` or package name.
+ * Returns null for unscoped package names.
+ */
+export function getScope(name: string, kind: 'org' | 'scopeTeam' | 'pkg'): string | null {
+  switch (kind) {
+    case 'org':
+      return name.replace(/^@/, '').toLowerCase()
+    case 'scopeTeam':
+      return name.replace(/^@/, '').split(':')[0]?.toLowerCase() || null
+    case 'pkg':
+      return name.match(/^@([^/]+)\//)?.[1]?.toLowerCase() ?? null
+  }
+}
+
+/** Registry used for a scope (or unscoped names when `scope` is null) */
+export function getScopeRegistry(registries: ScopeRegistries, scope: string | null): string {
+  return (scope && registries[scope]) || NPM_REGISTRY_URL
+}
+
+/** All registries in use: the public registry followed by each distinct scope registry */
+export function listRegistries(registries: ScopeRegistries): string[] {
+  return [...new Set([NPM_REGISTRY_URL, ...Object.values(registries)])]
+}
+
+/**
+ * Registry an operation runs against.
+ * Org and team operations use the registry of the org, package operations that of the package.
+ */
+export function getOperationRegistry(
+  registries: ScopeRegistries,
+  params: Record<string, string>,
+): string {
+  let scope: string | null = null
+  if (params.org) {
+    scope = getScope(params.org, 'org')
+  } else if (params.scopeTeam) {
+    scope = getScope(params.scopeTeam, 'scopeTeam')
+  } else if (params.pkg || params.name) {
+    scope = getScope(params.pkg || params.name || '', 'pkg')
+  }
+  return getScopeRegistry(registries, scope)
+}
@@ -75,6 +75,119 @@ export const ScopeTeamSchema = v.pipe(
   }, 'Invalid scope:team format. Expected @scope:team'),
 )
 
+/**
+ * Validates a dist-tag name (e.g., next, beta, canary)
+ * npm rejects tags that parse as semver ranges, so names must start with a letter and can't look like `v1` or `x`
+ */
+export const DistTagSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Tag is required'),
+  v.maxLength(50, 'Tag is too long'),
+  v.regex(/^[a-z][\w.-]*$/i, 'Invalid tag format'),
+  v.check(input => !/^(?:v\d|x$)/i.test(input), 'Tag must not look like a version or range'),
+)
+
+/**
+ * Validates an exact semver version (e.g., 1.2.3, 2.0.0-beta.1)
+ */
+export const VersionSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Version is required'),
+  v.maxLength(256, 'Version is too long'),
+  v.regex(
+    /^\d+\.\d+\.\d+(?:-[0-9a-z-]+(?:\.[0-9a-z-]+)*)?(?:\+[0-9a-z-]+(?:\.[0-9a-z-]+)*)?$/i,
+    'Invalid version format',
+  ),
+)
+
+/**
+ * Validates a semver range (e.g., <2.0.0, ^1.2.3, 1.x || 2.x)
+ * Only characters that can appear in a range are allowed
+ */
+export const VersionRangeSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Version range is required'),
+  v.maxLength(256, 'Version range is too long'),
+  v.regex(/^[\w.*+~^<>=| -]+$/, 'Invalid version range format'),
+)
+
+/**
+ * Validates a deprecation message
+ * @internal
+ */
+export const DeprecationMessageSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Deprecation message is required'),
+  v.maxLength(1024, 'Deprecation message is too long'),
+  // eslint-disable-next-line no-control-regex
+  v.regex(/^[^\x00-\x1F\x7F]+$/, 'Deprecation message must be a single line'),
+  // npm would parse a leading dash as an option, e.g. `--registry=…`
+  v.check(input => !input.startsWith('-'), 'Deprecation message must not start with "-"'),
+)
+
+/**
+ * Validates a trusted publisher provider
+ * @internal
+ */
+export const TrustProviderSchema = v.picklist(
+  ['github', 'gitlab'],
+  'Invalid provider. Must be github or gitlab',
+)
+
+/**
+ * Validates a repository path (e.g., owner/repo, group/subgroup/project)
+ */
+export const TrustRepositorySchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Repository is required'),
+  v.maxLength(255, 'Repository is too long'),
+  v.regex(/^[\w.-]+(?:\/[\w.-]+)+$/, 'Invalid repository format. Expected owner/repo'),
+  v.check(input => !input.split('/').includes('..'), 'Invalid repository format'),
+)
+
+/**
+ * Validates a CI workflow file (e.g., release.yml, ci/.gitlab-ci.yml)
+ */
+export const TrustWorkflowFileSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Workflow file is required'),
+  v.maxLength(255, 'Workflow file is too long'),
+  v.regex(/^[\w.-]+(?:\/[\w.-]+)*\.ya?ml$/, 'Workflow file must be a .yml or .yaml file'),
+  v.check(input => !input.split('/').includes('..'), 'Invalid workflow file path'),
+)
+
+/**
+ * Validates a CI deployment environment name
+ */
+export const TrustEnvironmentSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Environment is required'),
+  v.maxLength(255, 'Environment is too long'),
+  v.regex(/^[\w.-]+$/, 'Invalid environment name'),
+)
+
+/**
+ * Validates a trusted publisher ID as returned by `npm trust list`
+ */
+export const TrustIdSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Trusted publisher ID is required'),
+  v.maxLength(100, 'Trusted publisher ID is too long'),
+  v.regex(/^[\w-]+$/, 'Invalid trusted publisher ID'),
+)
+
+/**
+ * Validates a local package directory (absolute path, e.g. /home/me/my-pkg or C:\code\my-pkg)
+ */
+export const PackageDirSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Directory is required'),
+  v.maxLength(4096, 'Directory path is too long'),
+  v.regex(/^(?:\/|[a-z]:[\\/])/i, 'Directory must be an absolute path'),
+  // eslint-disable-next-line no-control-regex
+  v.regex(/^[^\x00-\x1F\x7F]+$/, 'Invalid directory path'),
+)
+
 /**
  * Validates org roles
  * @internal
@@ -109,6 +222,13 @@ export const OperationTypeSchema = v.picklist([
   'owner:add',
   'owner:rm',
   'package:init',
+  'package:publish',
+  'dist-tag:add',
+  'dist-tag:rm',
+  'package:deprecate',
+  'package:undeprecate',
+  'trust:add',
+  'trust:revoke',
 ])
 
 /**
@@ -138,15 +258,31 @@ export const OperationIdSchema = v.pipe(
   v.regex(/^[a-f0-9]{16}$/i, 'Invalid operation ID format'),
 )
 
+/**
+ * Validates browser session ID (16-char hex)
+ */
+export const SessionIdSchema = v.pipe(
+  v.string(),
+  v.nonEmpty('Session ID is required'),
+  v.regex(/^[a-f0-9]{16}$/i, 'Invalid session ID format'),
+)
+
+/**
+ * Validates a browser session scope
+ */
+export const SessionScopeSchema = v.picklist(['read', 'write'], 'Invalid session scope')
+
 // ============================================================================
 // Request Body Schemas
 // ============================================================================
 
 /**
- * Schema for /connect request body
+ * Schema for /connect request body.
+ * - `scope`: session scope, defaults to `write` (capped by the connector's `--read-only` flag)
  */
 export const ConnectBodySchema = v.object({
   token: HexTokenSchema,
+  scope: v.optional(SessionScopeSchema),
 })
 
 /**
@@ -161,6 +297,13 @@ export const ExecuteBodySchema = v.object({
   openUrls: v.optional(v.boolean()),
 })
 
+/**
+ * Schema for /publish/preview request body
+ */
+export const PublishPreviewBodySchema = v.object({
+  dir: PackageDirSchema,
+})
+
 /**
  * Schema for operation params based on type
  * Validates the params object for each operation type
@@ -175,6 +318,8 @@ export const CreateOperationBodySchema = v.object({
   params: OperationParamsSchema,
   description: v.pipe(v.string(), v.nonEmpty('Description is required'), v.maxLength(500)),
   command: v.pipe(v.string(), v.nonEmpty('Command is required'), v.maxLength(1000)),
+  dependsOn: v.optional(OperationIdSchema),
+  dependsOnIndex: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
 })
 
 /**
@@ -193,25 +338,30 @@ export const OrgAddUserParamsSchema = v.object({
   role: OrgRoleSchema,
 })
 
-const OrgRemoveUserParamsSchema = v.object({
+/** @internal */
+export const OrgRemoveUserParamsSchema = v.object({
   org: OrgNameSchema,
   user: UsernameSchema,
 })
 
-const TeamCreateParamsSchema = v.object({
+/** @internal */
+export const TeamCreateParamsSchema = v.object({
   scopeTeam: ScopeTeamSchema,
 })
 
-const TeamDestroyParamsSchema = v.object({
+/** @internal */
+export const TeamDestroyParamsSchema = v.object({
   scopeTeam: ScopeTeamSchema,
 })
 
-const TeamAddUserParamsSchema = v.object({
+/** @internal */
+export const TeamAddUserParamsSchema = v.object({
   scopeTeam: ScopeTeamSchema,
   user: UsernameSchema,
 })
 
-const TeamRemoveUserParamsSchema = v.object({
+/** @internal */
+export const TeamRemoveUserParamsSchema = v.object({
   scopeTeam: ScopeTeamSchema,
   user: UsernameSchema,
 })
@@ -223,17 +373,20 @@ export const AccessGrantParamsSchema = v.object({
   pkg: PackageNameSchema,
 })
 
-const AccessRevokeParamsSchema = v.object({
+/** @internal */
+export const AccessRevokeParamsSchema = v.object({
   scopeTeam: ScopeTeamSchema,
   pkg: PackageNameSchema,
 })
 
-const OwnerAddParamsSchema = v.object({
+/** @internal */
+export const OwnerAddParamsSchema = v.object({
   user: UsernameSchema,
   pkg: PackageNameSchema,
 })
 
-const OwnerRemoveParamsSchema = v.object({
+/** @internal */
+export const OwnerRemoveParamsSchema = v.object({
   user: UsernameSchema,
   pkg: PackageNameSchema,
 })
@@ -244,6 +397,74 @@ export const PackageInitParamsSchema = v.object({
   author: v.optional(UsernameSchema),
 })
 
+/**
+ * `name` and `version` are what the preview showed; publishing fails if package.json has changed since.
+ * @internal
+ */
+export const PackagePublishParamsSchema = v.object({
+  dir: PackageDirSchema,
+  name: PackageNameSchema,
+  version: VersionSchema,
+  tag: v.optional(DistTagSchema),
+  provenance: v.optional(v.picklist(['true'], 'Provenance must be "true" when set')),
+})
+
+/** @internal */
+export const DistTagAddParamsSchema = v.object({
+  pkg: PackageNameSchema,
+  version: VersionSchema,
+  tag: DistTagSchema,
+})
+
+/** @internal */
+export const DistTagRemoveParamsSchema = v.object({
+  pkg: PackageNameSchema,
+  tag: v.pipe(
+    DistTagSchema,
+    v.check(input => input !== 'latest', 'The latest tag cannot be removed'),
+  ),
+})
+
+/** @internal */
+export const DeprecateParamsSchema = v.object({
+  pkg: PackageNameSchema,
+  range: VersionRangeSchema,
+  message: DeprecationMessageSchema,
+})
+
+/** @internal */
+export const UndeprecateParamsSchema = v.object({
+  pkg: PackageNameSchema,
+  range: VersionRangeSchema,
+})
+
+/** @internal */
+export const TrustAddParamsSchema = v.object({
+  pkg: PackageNameSchema,
+  provider: TrustProviderSchema,
+  repository: TrustRepositorySchema,
+  file: TrustWorkflowFileSchema,
+  environment: v.optional(TrustEnvironmentSchema),
+})
+
+/** @internal */
+export const TrustRevokeParamsSchema = v.object({
+  pkg: PackageNameSchema,
+  id: TrustIdSchema,
+})
+
+/**
+ * Validates the `limit` query parameter of GET /history
+ * @internal
+ */
+export const HistoryLimitSchema = v.pipe(
+  v.string(),
+  v.regex(/^\d+$/, 'Limit must be a positive integer'),
+  v.transform(Number),
+  v.minValue(1, 'Limit must be at least 1'),
+  v.maxValue(1000, 'Limit must be at most 1000'),
+)
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -293,6 +514,27 @@ export function validateOperationParams(
     case 'package:init':
       v.parse(PackageInitParamsSchema, params)
       break
+    case 'package:publish':
+      v.parse(PackagePublishParamsSchema, params)
+      break
+    case 'dist-tag:add':
+      v.parse(DistTagAddParamsSchema, params)
+      break
+    case 'dist-tag:rm':
+      v.parse(DistTagRemoveParamsSchema, params)
+      break
+    case 'package:deprecate':
+      v.parse(DeprecateParamsSchema, params)
+      break
+    case 'package:undeprecate':
+      v.parse(UndeprecateParamsSchema, params)
+      break
+    case 'trust:add':
+      v.parse(TrustAddParamsSchema, params)
+      break
+    case 'trust:revoke':
+      v.parse(TrustRevokeParamsSchema, params)
+      break
   }
 }
 
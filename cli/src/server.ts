@@ -4,11 +4,14 @@ import type { CorsOptions } from 'h3-next'
 import * as v from 'valibot'
 
 import type {
+  AuditLogEntry,
+  BrowserSession,
   ConnectorState,
   PendingOperation,
   ApiResponse,
   ConnectorEndpoints,
   AssertEndpointsImplemented,
+  SessionScope,
 } from './types.ts'
 
 // Endpoint completeness check — errors if this list diverges from ConnectorEndpoints.
@@ -22,16 +25,26 @@ const _endpointCheck: AssertEndpointsImplemented<
   | 'POST /approve'
   | 'POST /approve-all'
   | 'POST /retry'
+  | 'POST /dry-run'
+  | 'POST /publish/preview'
   | 'POST /execute'
   | 'GET /org/:org/users'
   | 'GET /org/:org/teams'
   | 'GET /team/:scopeTeam/users'
   | 'GET /package/:pkg/collaborators'
+  | 'GET /package/:pkg/dist-tags'
+  | 'GET /package/:pkg/trusted-publishers'
   | 'GET /user/packages'
   | 'GET /user/orgs'
+  | 'GET /history'
+  | 'GET /sessions'
+  | 'DELETE /sessions'
 > = true
 void _endpointCheck
 import { logDebug, logError } from './logger.ts'
+import { appendAuditLogEntry, getDefaultAuditLogPath, readAuditLog } from './audit-log.ts'
+import { dryRunOperations, type DryRunReader } from './dry-run.ts'
+import { getOperationRegistry } from './registries.ts'
 import {
   getNpmUser,
   getNpmAvatar,
@@ -50,7 +63,23 @@ import {
   ownerAdd,
   ownerRemove,
   packageInit,
+  packagePublish,
+  packDryRun,
+  parsePackDryRun,
+  readPublishPackageJson,
+  distTagAdd,
+  distTagRemove,
+  distTagList,
+  parseDistTagList,
+  packageDeprecate,
+  packageUndeprecate,
+  trustAdd,
+  trustRevoke,
+  trustList,
+  parseTrustList,
   listUserPackages,
+  listUserPackagesAcrossRegistries,
+  getScopeRegistries,
   extractUrls,
   type ExecNpmOptions,
   type NpmExecResult,
@@ -58,12 +87,15 @@ import {
 import {
   ConnectBodySchema,
   ExecuteBodySchema,
+  PublishPreviewBodySchema,
   CreateOperationBodySchema,
   BatchOperationsBodySchema,
   OrgNameSchema,
   ScopeTeamSchema,
   PackageNameSchema,
   OperationIdSchema,
+  HistoryLimitSchema,
+  SessionIdSchema,
   safeParse,
   validateOperationParams,
 } from './schemas.ts'
@@ -81,13 +113,54 @@ function generateOperationId(): string {
   return crypto.randomBytes(8).toString('hex')
 }
 
+function generateSessionId(): string {
+  return crypto.randomBytes(8).toString('hex')
+}
+
+/** Session tokens are only kept as hashes, so lookups do not compare secrets */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+const ALLOWED_ORIGINS = ['https://npmx.dev', /^http:\/\/localhost:\d+$/, /^http:\/\/127.0.0.1:\d+$/]
+
+function isAllowedOrigin(origin: string): boolean {
+  return ALLOWED_ORIGINS.some(allowed =>
+    typeof allowed === 'string' ? allowed === origin : allowed.test(origin),
+  )
+}
+
 const corsOptions: CorsOptions = {
-  origin: ['https://npmx.dev', /^http:\/\/localhost:\d+$/, /^http:\/\/127.0.0.1:\d+$/],
+  origin: ALLOWED_ORIGINS,
   methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
 }
 
-export function createConnectorApp(expectedToken: string): H3 {
+export interface ConnectorAppOptions {
+  /** Path of the audit log file (defaults to `~/.npmx-connector/history.jsonl`) */
+  historyFile?: string
+  /** How long browser sessions stay valid after connecting (defaults to 12 hours) */
+  sessionTtlMs?: number
+  /** Highest scope a browser session can get, `read` makes every session read-only (defaults to `write`) */
+  maxScope?: SessionScope
+  /** Accept pairing requests without an `Origin` header, e.g. from scripts (defaults to false) */
+  allowMissingOrigin?: boolean
+}
+
+const DEFAULT_HISTORY_LIMIT = 100
+export const DEFAULT_SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+/** Endpoints other than GET that read-only sessions may call */
+const READ_SCOPE_ENDPOINTS = new Set(['POST /dry-run'])
+
+export function createConnectorApp(expectedToken: string, options: ConnectorAppOptions = {}): H3 {
+  const historyFile = options.historyFile ?? getDefaultAuditLogPath()
+  const sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS
+  const maxScope = options.maxScope ?? 'write'
+
+  // Browser sessions, keyed by the hash of their token
+  const sessions = new Map<string, BrowserSession>()
+
   const state: ConnectorState = {
     session: {
       token: expectedToken,
@@ -108,10 +181,71 @@ export function createConnectorApp(expectedToken: string): H3 {
     }
   })
 
+  /** Returns the unexpired session for a bearer token, dropping it once expired */
+  function getSession(authHeader: string | null): BrowserSession | null {
+    if (!authHeader) return null
+    const key = hashToken(authHeader.replace('Bearer ', ''))
+    const session = sessions.get(key)
+    if (!session) return null
+    if (session.expiresAt <= Date.now()) {
+      sessions.delete(key)
+      return null
+    }
+    return session
+  }
+
   function validateToken(authHeader: string | null): boolean {
-    if (!authHeader) return false
-    const token = authHeader.replace('Bearer ', '')
-    return token === expectedToken
+    return getSession(authHeader) !== null
+  }
+
+  // Sessions only work from the origin they were created on, and read-only sessions cannot
+  // change anything. Requests without a valid session are rejected by each route.
+  app.use((event: H3Event) => {
+    const session = getSession(event.req.headers.get('authorization'))
+    if (!session) return
+
+    if ((event.req.headers.get('origin') ?? null) !== session.origin) {
+      throw new HTTPError({ statusCode: 403, message: 'Session is bound to another origin' })
+    }
+
+    const { pathname, searchParams } = new URL(event.req.url)
+    const endpoint = `${event.req.method} ${pathname}`
+    const isOwnSessionRevoke =
+      endpoint === 'DELETE /sessions' && searchParams.get('id') === session.id
+    if (
+      session.scope === 'read' &&
+      event.req.method !== 'GET' &&
+      !READ_SCOPE_ENDPOINTS.has(endpoint) &&
+      !isOwnSessionRevoke
+    ) {
+      throw new HTTPError({ statusCode: 403, message: 'This session is read-only' })
+    }
+
+    session.lastUsedAt = Date.now()
+  })
+
+  /**
+   * Records an operation in the audit log.
+   * A failed write is logged but does not fail the request, since the npm command may already have run.
+   */
+  async function recordAuditLogEntry(
+    op: PendingOperation,
+    entry: Pick<AuditLogEntry, 'event'> & Partial<AuditLogEntry>,
+  ): Promise<void> {
+    try {
+      await appendAuditLogEntry(historyFile, {
+        operationId: op.id,
+        type: op.type,
+        params: op.params,
+        description: op.description,
+        command: op.command,
+        npmUser: state.session.npmUser,
+        timestamp: Date.now(),
+        ...entry,
+      })
+    } catch (err) {
+      logError(`Failed to write audit log: ${err instanceof Error ? err.message : String(err)}`)
+    }
   }
 
   app.post('/connect', async (event: H3Event) => {
@@ -125,17 +259,42 @@ export function createConnectorApp(expectedToken: string): H3 {
       throw new HTTPError({ statusCode: 401, message: 'Invalid token' })
     }
 
+    // CORS only hides responses from other origins, so reject them before creating a session
+    const origin = event.req.headers.get('origin')
+    if (!origin) {
+      if (!options.allowMissingOrigin) {
+        throw new HTTPError({ statusCode: 403, message: 'Origin header required' })
+      }
+    } else if (!isAllowedOrigin(origin)) {
+      throw new HTTPError({ statusCode: 403, message: 'Origin not allowed' })
+    }
+
     const [npmUser, avatar] = await Promise.all([getNpmUser(), getNpmAvatar()])
     state.session.connectedAt = Date.now()
     state.session.npmUser = npmUser
     state.session.avatar = avatar
 
+    const sessionToken = generateToken()
+    const session: BrowserSession = {
+      id: generateSessionId(),
+      // The browser can ask for less than the connector allows, never more
+      scope: maxScope === 'read' ? 'read' : (parsed.data.scope ?? 'write'),
+      origin,
+      userAgent: event.req.headers.get('user-agent'),
+      createdAt: state.session.connectedAt,
+      expiresAt: state.session.connectedAt + sessionTtlMs,
+      lastUsedAt: state.session.connectedAt,
+    }
+    sessions.set(hashToken(sessionToken), session)
+
     return {
       success: true,
       data: {
         npmUser,
         avatar,
         connectedAt: state.session.connectedAt,
+        sessionToken,
+        session,
       },
     } satisfies ApiResponse<ConnectorEndpoints['POST /connect']['data']>
   })
@@ -168,7 +327,17 @@ export function createConnectorApp(expectedToken: string): H3 {
       throw new HTTPError({ statusCode: 400, message: parsed.error })
     }
 
-    const { type, params, description, command } = parsed.data
+    const { type, params, description, command, dependsOn } = parsed.data
+
+    if (parsed.data.dependsOnIndex !== undefined) {
+      throw new HTTPError({
+        statusCode: 400,
+        message: 'dependsOnIndex is only supported in batches',
+      })
+    }
+    if (dependsOn && !state.operations.some(op => op.id === dependsOn)) {
+      throw new HTTPError({ statusCode: 400, message: 'Dependency operation not found' })
+    }
 
     // Validate params based on operation type
     try {
@@ -186,6 +355,8 @@ export function createConnectorApp(expectedToken: string): H3 {
       command,
       status: 'pending',
       createdAt: Date.now(),
+      dependsOn,
+      registry: getOperationRegistry(getScopeRegistries(), params),
     }
 
     state.operations.push(operation)
@@ -221,6 +392,18 @@ export function createConnectorApp(expectedToken: string): H3 {
           message: `Operation ${i}: Invalid params: ${message}`,
         })
       }
+      if (op.dependsOnIndex !== undefined && op.dependsOnIndex >= i) {
+        throw new HTTPError({
+          statusCode: 400,
+          message: `Operation ${i}: dependsOnIndex must refer to an earlier operation`,
+        })
+      }
+      if (op.dependsOn && !state.operations.some(existing => existing.id === op.dependsOn)) {
+        throw new HTTPError({
+          statusCode: 400,
+          message: `Operation ${i}: Dependency operation not found`,
+        })
+      }
     }
 
     const created: PendingOperation[] = []
@@ -233,6 +416,8 @@ export function createConnectorApp(expectedToken: string): H3 {
         command: op.command,
         status: 'pending',
         createdAt: Date.now(),
+        dependsOn: op.dependsOnIndex !== undefined ? created[op.dependsOnIndex]?.id : op.dependsOn,
+        registry: getOperationRegistry(getScopeRegistries(), op.params),
       }
       state.operations.push(operation)
       created.push(operation)
@@ -244,7 +429,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     } satisfies ApiResponse<ConnectorEndpoints['POST /operations/batch']['data']>
   })
 
-  app.post('/approve', event => {
+  app.post('/approve', async event => {
     const auth = event.req.headers.get('authorization')
     if (!validateToken(auth)) {
       throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
@@ -271,6 +456,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     }
 
     operation.status = 'approved'
+    await recordAuditLogEntry(operation, { event: 'approved' })
 
     return {
       success: true,
@@ -278,7 +464,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     } satisfies ApiResponse<ConnectorEndpoints['POST /approve']['data']>
   })
 
-  app.post('/approve-all', event => {
+  app.post('/approve-all', async event => {
     const auth = event.req.headers.get('authorization')
     if (!validateToken(auth)) {
       throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
@@ -288,6 +474,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     for (const op of pendingOps) {
       op.status = 'approved'
     }
+    await Promise.all(pendingOps.map(op => recordAuditLogEntry(op, { event: 'approved' })))
 
     return {
       success: true,
@@ -295,7 +482,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     } satisfies ApiResponse<ConnectorEndpoints['POST /approve-all']['data']>
   })
 
-  app.post('/retry', event => {
+  app.post('/retry', async event => {
     const auth = event.req.headers.get('authorization')
     if (!validateToken(auth)) {
       throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
@@ -324,6 +511,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     // Reset the operation for retry
     operation.status = 'approved'
     operation.result = undefined
+    await recordAuditLogEntry(operation, { event: 'approved' })
 
     return {
       success: true,
@@ -331,6 +519,67 @@ export function createConnectorApp(expectedToken: string): H3 {
     } satisfies ApiResponse<ConnectorEndpoints['POST /retry']['data']>
   })
 
+  // Validates pending and approved operations without running them
+  app.post('/dry-run', async event => {
+    const auth = event.req.headers.get('authorization')
+    if (!validateToken(auth)) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const queuedOps = state.operations.filter(
+      op => op.status === 'pending' || op.status === 'approved',
+    )
+    const results = await dryRunOperations(queuedOps, createNpmDryRunReader(state.session.npmUser))
+
+    return {
+      success: true,
+      data: { results },
+    } satisfies ApiResponse<ConnectorEndpoints['POST /dry-run']['data']>
+  })
+
+  app.post('/publish/preview', async event => {
+    const auth = event.req.headers.get('authorization')
+    if (!validateToken(auth)) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const parsed = safeParse(PublishPreviewBodySchema, await event.req.json())
+    if (!parsed.success) {
+      throw new HTTPError({ statusCode: 400, message: parsed.error })
+    }
+    const { dir } = parsed.data
+
+    let packageJson
+    try {
+      packageJson = await readPublishPackageJson(dir)
+    } catch (err) {
+      throw new HTTPError({
+        statusCode: 400,
+        message: err instanceof Error ? err.message : 'Failed to read package.json',
+      })
+    }
+
+    const result = await packDryRun(dir, packageJson.name)
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: result.stderr || 'Failed to pack package',
+      } as ApiResponse
+    }
+
+    try {
+      return {
+        success: true,
+        data: { dir, packageJson, ...parsePackDryRun(result.stdout) },
+      } satisfies ApiResponse<ConnectorEndpoints['POST /publish/preview']['data']>
+    } catch {
+      return {
+        success: false,
+        error: 'Failed to parse npm pack output',
+      } as ApiResponse
+    }
+  })
+
   app.post('/execute', async event => {
     const auth = event.req.headers.get('authorization')
     if (!validateToken(auth)) {
@@ -402,10 +651,17 @@ export function createConnectorApp(expectedToken: string): H3 {
       // Execute ready operations in parallel
       const runningOps = readyOps.map(async op => {
         op.status = 'running'
+        const startedAt = Date.now()
         const result = await executeOperation(op, { otp, interactive, openUrls })
         op.result = result
         op.authUrl = undefined
         op.status = result.exitCode === 0 ? 'completed' : 'failed'
+        await recordAuditLogEntry(op, {
+          event: 'executed',
+          exitCode: result.exitCode,
+          startedAt,
+          finishedAt: Date.now(),
+        })
 
         if (result.exitCode === 0) {
           completedIds.add(op.id)
@@ -492,6 +748,81 @@ export function createConnectorApp(expectedToken: string): H3 {
     } satisfies ApiResponse<ConnectorEndpoints['DELETE /operations/all']['data']>
   })
 
+  app.get('/sessions', event => {
+    const auth = event.req.headers.get('authorization')
+    const current = getSession(auth)
+    if (!current) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const now = Date.now()
+    for (const [key, session] of sessions) {
+      if (session.expiresAt <= now) sessions.delete(key)
+    }
+
+    return {
+      success: true,
+      data: Array.from(sessions.values(), session => ({
+        ...session,
+        current: session.id === current.id,
+      })).sort((a, b) => b.lastUsedAt - a.lastUsedAt),
+    } satisfies ApiResponse<ConnectorEndpoints['GET /sessions']['data']>
+  })
+
+  app.delete('/sessions', event => {
+    const auth = event.req.headers.get('authorization')
+    if (!validateToken(auth)) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const url = new URL(event.req.url)
+    const idValidation = safeParse(SessionIdSchema, url.searchParams.get('id'))
+    if (!idValidation.success) {
+      throw new HTTPError({ statusCode: 400, message: idValidation.error })
+    }
+
+    const key = [...sessions].find(([, session]) => session.id === idValidation.data)?.[0]
+    if (!key) {
+      throw new HTTPError({ statusCode: 404, message: 'Session not found' })
+    }
+    sessions.delete(key)
+
+    return { success: true } satisfies ApiResponse<ConnectorEndpoints['DELETE /sessions']['data']>
+  })
+
+  app.get('/history', async event => {
+    const auth = event.req.headers.get('authorization')
+    if (!validateToken(auth)) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const url = new URL(event.req.url)
+    const limitRaw = url.searchParams.get('limit')
+
+    let limit = DEFAULT_HISTORY_LIMIT
+    if (limitRaw !== null) {
+      const limitValidation = safeParse(HistoryLimitSchema, limitRaw)
+      if (!limitValidation.success) {
+        throw new HTTPError({ statusCode: 400, message: limitValidation.error })
+      }
+      limit = limitValidation.data
+    }
+
+    try {
+      const entries = await readAuditLog(historyFile, limit)
+      return {
+        success: true,
+        data: entries,
+      } satisfies ApiResponse<ConnectorEndpoints['GET /history']['data']>
+    } catch (err) {
+      logError(`Failed to read audit log: ${err instanceof Error ? err.message : String(err)}`)
+      return {
+        success: false,
+        error: 'Failed to read operation history',
+      } as ApiResponse
+    }
+  })
+
   // List endpoints (read-only data fetching)
 
   app.get('/org/:org/users', async event => {
@@ -649,6 +980,79 @@ export function createConnectorApp(expectedToken: string): H3 {
     }
   })
 
+  app.get('/package/:pkg/dist-tags', async event => {
+    const auth = event.req.headers.get('authorization')
+    if (!validateToken(auth)) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const pkgRaw = event.context.params?.pkg
+    if (!pkgRaw) {
+      throw new HTTPError({ statusCode: 400, message: 'Package name required' })
+    }
+
+    // Decode the package name (handles scoped packages like @nuxt%2Fkit)
+    const decodedPkg = decodeURIComponent(pkgRaw)
+
+    const pkgValidation = safeParse(PackageNameSchema, decodedPkg)
+    if (!pkgValidation.success) {
+      throw new HTTPError({ statusCode: 400, message: pkgValidation.error })
+    }
+
+    const result = await distTagList(pkgValidation.data)
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: result.stderr || 'Failed to list dist-tags',
+      } as ApiResponse
+    }
+
+    return {
+      success: true,
+      data: parseDistTagList(result.stdout),
+    } satisfies ApiResponse<ConnectorEndpoints['GET /package/:pkg/dist-tags']['data']>
+  })
+
+  app.get('/package/:pkg/trusted-publishers', async event => {
+    const auth = event.req.headers.get('authorization')
+    if (!validateToken(auth)) {
+      throw new HTTPError({ statusCode: 401, message: 'Unauthorized' })
+    }
+
+    const pkgRaw = event.context.params?.pkg
+    if (!pkgRaw) {
+      throw new HTTPError({ statusCode: 400, message: 'Package name required' })
+    }
+
+    // Decode the package name (handles scoped packages like @nuxt%2Fkit)
+    const decodedPkg = decodeURIComponent(pkgRaw)
+
+    const pkgValidation = safeParse(PackageNameSchema, decodedPkg)
+    if (!pkgValidation.success) {
+      throw new HTTPError({ statusCode: 400, message: pkgValidation.error })
+    }
+
+    const result = await trustList(pkgValidation.data)
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: result.stderr || 'Failed to list trusted publishers',
+      } as ApiResponse
+    }
+
+    try {
+      return {
+        success: true,
+        data: parseTrustList(result.stdout),
+      } satisfies ApiResponse<ConnectorEndpoints['GET /package/:pkg/trusted-publishers']['data']>
+    } catch {
+      return {
+        success: false,
+        error: 'Failed to parse trusted publishers',
+      } as ApiResponse
+    }
+  })
+
   // User-specific endpoints
 
   app.get('/user/packages', async event => {
@@ -665,7 +1069,7 @@ export function createConnectorApp(expectedToken: string): H3 {
       } as ApiResponse
     }
 
-    const result = await listUserPackages(npmUser)
+    const result = await listUserPackagesAcrossRegistries(npmUser)
     if (result.exitCode !== 0) {
       return {
         success: false,
@@ -703,7 +1107,7 @@ export function createConnectorApp(expectedToken: string): H3 {
     }
 
     // Get user's packages and extract org names from scoped packages
-    const result = await listUserPackages(npmUser)
+    const result = await listUserPackagesAcrossRegistries(npmUser)
     if (result.exitCode !== 0) {
       return {
         success: false,
@@ -743,6 +1147,36 @@ export function createConnectorApp(expectedToken: string): H3 {
   return app
 }
 
+/** Parses JSON output of a read-only npm command, or returns null if it failed */
+function parseNpmJson<T>(result: NpmExecResult): T | null {
+  if (result.exitCode !== 0) return null
+  try {
+    return JSON.parse(result.stdout) as T
+  } catch {
+    return null
+  }
+}
+
+/** Reads the data needed by a dry run with read-only npm commands */
+function createNpmDryRunReader(npmUser: string | null): DryRunReader {
+  return {
+    npmUser,
+    getOrgUsers: async org => parseNpmJson(await orgListUsers(org)),
+    getOrgTeams: async org => {
+      // Teams come as "org:team" format
+      const teams = parseNpmJson<string[]>(await teamListTeams(org))
+      return teams?.map(team => team.replace(`${org}:`, '')) ?? null
+    },
+    getTeamUsers: async (org, team) => parseNpmJson(await teamListUsers(`@${org}:${team}`)),
+    getPackageCollaborators: async name => parseNpmJson(await accessListCollaborators(name)),
+    userExists: async user => {
+      const result = await listUserPackages(user)
+      if (result.exitCode === 0) return true
+      return /\bE404\b|404 Not Found/.test(result.stderr) ? false : null
+    },
+  }
+}
+
 async function executeOperation(
   op: PendingOperation,
   options: { otp?: string; interactive?: boolean; openUrls?: boolean } = {},
@@ -811,6 +1245,41 @@ async function executeOperation(
     case 'package:init':
       result = await packageInit(params.name, params.author, execOptions)
       break
+    case 'package:publish':
+      result = await packagePublish(
+        params.dir,
+        params.name,
+        params.version,
+        params.tag,
+        params.provenance === 'true',
+        execOptions,
+      )
+      break
+    case 'dist-tag:add':
+      result = await distTagAdd(params.pkg, params.version, params.tag, execOptions)
+      break
+    case 'dist-tag:rm':
+      result = await distTagRemove(params.pkg, params.tag, execOptions)
+      break
+    case 'package:deprecate':
+      result = await packageDeprecate(params.pkg, params.range, params.message, execOptions)
+      break
+    case 'package:undeprecate':
+      result = await packageUndeprecate(params.pkg, params.range, execOptions)
+      break
+    case 'trust:add':
+      result = await trustAdd(
+        params.pkg,
+        params.provider as 'github' | 'gitlab',
+        params.repository,
+        params.file,
+        params.environment,
+        execOptions,
+      )
+      break
+    case 'trust:revoke':
+      result = await trustRevoke(params.pkg, params.id, execOptions)
+      break
     default:
       return {
         stdout: '',
@@ -6,6 +6,7 @@ export interface ConnectorConfig {
 }
 
 export interface ConnectorSession {
+  /** Pairing token shown in the terminal, only accepted by POST /connect */
   token: string
   connectedAt: number
   npmUser: string | null
@@ -13,6 +14,27 @@ export interface ConnectorSession {
   avatar: string | null
 }
 
+/** `read` sessions can only read data; `write` sessions can also queue and run operations */
+export type SessionScope = 'read' | 'write'
+
+/** A browser session created by POST /connect */
+export interface BrowserSession {
+  id: string
+  scope: SessionScope
+  /** Origin the session is bound to, or null for clients that send no Origin header */
+  origin: string | null
+  userAgent: string | null
+  createdAt: number
+  expiresAt: number
+  lastUsedAt: number
+}
+
+/** GET /sessions item */
+export interface BrowserSessionInfo extends BrowserSession {
+  /** True for the session making the request */
+  current: boolean
+}
+
 export type OperationType =
   | 'org:add-user'
   | 'org:rm-user'
@@ -26,6 +48,13 @@ export type OperationType =
   | 'owner:add'
   | 'owner:rm'
   | 'package:init'
+  | 'package:publish'
+  | 'dist-tag:add'
+  | 'dist-tag:rm'
+  | 'package:deprecate'
+  | 'package:undeprecate'
+  | 'trust:add'
+  | 'trust:revoke'
 
 export type OperationStatus =
   | 'pending'
@@ -58,10 +87,34 @@ export interface PendingOperation {
   result?: OperationResult
   /** ID of operation this depends on (must complete successfully first) */
   dependsOn?: string
+  /** Registry URL the operation runs against */
+  registry?: string
   /** Auth URL detected during interactive execution (set while operation is still running) */
   authUrl?: string
 }
 
+export type AuditLogEvent = 'approved' | 'executed'
+
+/** One line of the connector's append-only audit log */
+export interface AuditLogEntry {
+  operationId: string
+  event: AuditLogEvent
+  type: OperationType
+  params: Record<string, string>
+  description: string
+  command: string
+  /** npm user the connector was authenticated as */
+  npmUser: string | null
+  /** When the entry was recorded */
+  timestamp: number
+  /** Set on `executed` entries */
+  exitCode?: number
+  /** Set on `executed` entries */
+  startedAt?: number
+  /** Set on `executed` entries */
+  finishedAt?: number
+}
+
 export interface ConnectorState {
   session: ConnectorSession
   operations: PendingOperation[]
@@ -79,11 +132,28 @@ export type OrgRole = 'developer' | 'admin' | 'owner'
 
 export type AccessPermission = 'read-only' | 'read-write'
 
+export type TrustedPublisherProvider = 'github' | 'gitlab'
+
+/** A CI workflow allowed to publish a package via OIDC */
+export interface TrustedPublisher {
+  id: string
+  provider: TrustedPublisherProvider
+  /** `owner/repo` on GitHub, `group/project` on GitLab */
+  repository: string
+  /** Workflow file name on GitHub, CI config path on GitLab */
+  file: string
+  /** Deployment environment the workflow must run in */
+  environment?: string
+}
+
 /** POST /connect response data */
 export interface ConnectResponseData {
   npmUser: string | null
   avatar: string | null
   connectedAt: number
+  /** Bearer token for all other endpoints, valid until `session.expiresAt` */
+  sessionToken: string
+  session: BrowserSession
 }
 
 /** GET /state response data */
@@ -111,13 +181,73 @@ export interface ClearOperationsResponseData {
   removed: number
 }
 
+export type DryRunCheckStatus = 'pass' | 'fail' | 'unknown'
+
+/** One precondition checked by a dry run (e.g. "team exists") */
+export interface DryRunCheck {
+  /** `unknown` when the data needed for the check could not be read */
+  status: DryRunCheckStatus
+  message: string
+}
+
+/** Dry-run outcome for one queued operation */
+export interface DryRunResult {
+  id: string
+  /** False if any check failed */
+  ok: boolean
+  checks: DryRunCheck[]
+  /** What the operation would change, or why it would change nothing */
+  change: string
+  willChange: boolean
+}
+
+/** POST /dry-run response data */
+export interface DryRunResponseData {
+  results: DryRunResult[]
+}
+
+/** A file that would be included in the published tarball */
+export interface PackFile {
+  /** Path relative to the package directory */
+  path: string
+  size: number
+}
+
+/** package.json fields checked before publishing */
+export interface PublishPackageJson {
+  name: string
+  version: string
+  private?: boolean
+  type?: 'module' | 'commonjs'
+  main?: string
+  module?: string
+  types?: string
+  typings?: string
+  exports?: unknown
+  files?: string[]
+}
+
+/** POST /publish/preview response data, from `npm pack --dry-run` */
+export interface PublishPreviewData {
+  /** Absolute path of the package directory */
+  dir: string
+  packageJson: PublishPackageJson
+  files: PackFile[]
+  /** Tarball size in bytes */
+  size: number
+  unpackedSize: number
+}
+
 /** Request body for POST /operations */
 export interface CreateOperationBody {
   type: OperationType
   params: Record<string, string>
   description: string
   command: string
+  /** ID of an existing operation that must complete successfully first */
   dependsOn?: string
+  /** Index of an earlier operation in the same batch that must complete successfully first (POST /operations/batch only) */
+  dependsOnIndex?: number
 }
 
 /**
@@ -125,7 +255,7 @@ export interface CreateOperationBody {
  * conform to these shapes, enforced via `satisfies` and `AssertEndpointsImplemented`.
  */
 export interface ConnectorEndpoints {
-  'POST /connect': { body: { token: string }; data: ConnectResponseData }
+  'POST /connect': { body: { token: string; scope?: SessionScope }; data: ConnectResponseData }
   'GET /state': { body: never; data: StateResponseData }
   'POST /operations': { body: CreateOperationBody; data: PendingOperation }
   'POST /operations/batch': { body: CreateOperationBody[]; data: PendingOperation[] }
@@ -134,6 +264,9 @@ export interface ConnectorEndpoints {
   'POST /approve': { body: never; data: PendingOperation }
   'POST /approve-all': { body: never; data: ApproveAllResponseData }
   'POST /retry': { body: never; data: PendingOperation }
+  'POST /dry-run': { body: never; data: DryRunResponseData }
+  /** Lists what publishing the package in `dir` would upload, without running package scripts */
+  'POST /publish/preview': { body: { dir: string }; data: PublishPreviewData }
   'POST /execute': {
     body: { otp?: string; interactive?: boolean; openUrls?: boolean }
     data: ExecuteResponseData
@@ -142,8 +275,16 @@ export interface ConnectorEndpoints {
   'GET /org/:org/teams': { body: never; data: string[] }
   'GET /team/:scopeTeam/users': { body: never; data: string[] }
   'GET /package/:pkg/collaborators': { body: never; data: Record<string, AccessPermission> }
+  /** Dist-tag name -> version, read fresh from the registry */
+  'GET /package/:pkg/dist-tags': { body: never; data: Record<string, string> }
+  'GET /package/:pkg/trusted-publishers': { body: never; data: TrustedPublisher[] }
   'GET /user/packages': { body: never; data: Record<string, AccessPermission> }
   'GET /user/orgs': { body: never; data: string[] }
+  /** Audit log entries, newest first. Accepts `?limit=` (default 100, max 1000) */
+  'GET /history': { body: never; data: AuditLogEntry[] }
+  'GET /sessions': { body: never; data: BrowserSessionInfo[] }
+  /** Revokes the session with `?id=` */
+  'DELETE /sessions': { body: never; data: void }
 }
 
 /** Compile-time check that a server implements exactly the ConnectorEndpoints keys. */
@@ -15,6 +15,10 @@ export const BADGE_TYPES = Object.freeze([
   'types',
   'maintainers',
   'deprecated',
+  'provenance',
+  'module-format',
+  'node-version',
+  'replacement',
   'name',
   'likes',
 ] as const)
@@ -207,6 +207,7 @@ export default defineNuxtConfig({
     '/200.html': { prerender: true },
     '/about': { prerender: true },
     '/accessibility': { prerender: true },
+    '/audit': { prerender: true },
     '/brand': { prerender: true },
     '/privacy': { prerender: true },
     '/search': { isr: false, cache: false }, // never cache
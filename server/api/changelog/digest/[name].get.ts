@@ -0,0 +1,90 @@
+import type { ExtendedPackageJson } from '#shared/utils/package-analysis'
+import type { ChangelogDigest } from '#shared/types/changelog'
+import { VersionSchema, PackageNameSchema } from '#shared/schemas/package'
+import {
+  ERROR_CHANGELOG_DIGEST_FAILED,
+  ERROR_CHANGELOG_DIGEST_RANGE,
+  ERROR_CHANGELOG_NOT_FOUND,
+  NPM_REGISTRY,
+} from '#shared/utils/constants'
+import { lt } from 'semver'
+import * as v from 'valibot'
+import { detectChangelog } from '~~/server/utils/changelog/detectChangelog'
+import { buildChangelogDigest } from '~~/server/utils/changelog/digest'
+import { fetchChangelogSections, getChangelogRenderer } from '~~/server/utils/changelog/entries'
+
+const DigestQuerySchema = v.object({
+  from: VersionSchema,
+  to: VersionSchema,
+})
+
+function getDigestPackageName(event: Parameters<typeof getRouterParam>[0]) {
+  const org = getRouterParam(event, 'org')
+  const name = getRouterParam(event, 'name')
+  return org ? `${org}/${name}` : name
+}
+
+/**
+ * Changes of a package between two versions, e.g. `?from=3.2.1&to=5.0.0`
+ */
+export default defineCachedEventHandler(
+  async event => {
+    try {
+      const packageName = v.parse(PackageNameSchema, getDigestPackageName(event))
+      const { from, to } = v.parse(DigestQuerySchema, getQuery(event))
+      if (!lt(from, to)) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: ERROR_CHANGELOG_DIGEST_RANGE,
+        })
+      }
+
+      // the changelog of the newest version is the most complete
+      const pkg = await $fetch<ExtendedPackageJson>(
+        `${NPM_REGISTRY}/${encodePackageName(packageName)}/${to}`,
+      )
+      const info = await detectChangelog(pkg)
+      if (info instanceof Error) {
+        throw info
+      }
+      if (!info) {
+        throw createError({
+          statusCode: 404,
+          statusMessage: ERROR_CHANGELOG_NOT_FOUND,
+        })
+      }
+
+      const sections = await fetchChangelogSections(info, packageName)
+      const { versions, groups } = buildChangelogDigest(sections, from, to)
+      const render = await getChangelogRenderer(info)
+
+      return {
+        from,
+        to,
+        versions,
+        groups: groups.map(group => ({
+          category: group.category,
+          entries: group.entries.map(entry => ({
+            version: entry.version,
+            html: render(entry.markdown, `${group.category}-${entry.version}`).html,
+          })),
+        })),
+        link: info.link,
+      } satisfies ChangelogDigest
+    } catch (error) {
+      handleApiError(error, {
+        statusCode: 502,
+        message: ERROR_CHANGELOG_DIGEST_FAILED,
+      })
+    }
+  },
+  {
+    maxAge: CACHE_MAX_AGE_ONE_HOUR * 2, // 2 hours
+    swr: true,
+    getKey: event => {
+      const packageName = getDigestPackageName(event) ?? ''
+      const { from, to } = getQuery(event)
+      return `changelogDigest:v1:${packageName.replaceAll('/', ':')}:${from}:${to}`
+    },
+  },
+)
@@ -1,8 +1,13 @@
 import type { ExtendedPackageJson } from '#shared/utils/package-analysis'
 import { VersionSchema, PackageNameSchema } from '#shared/schemas/package'
-import { ERROR_PACKAGE_DETECT_CHANGELOG, NPM_REGISTRY } from '#shared/utils/constants'
+import {
+  ERROR_CHANGELOG_ENTRY_NOT_FOUND,
+  ERROR_PACKAGE_DETECT_CHANGELOG,
+  NPM_REGISTRY,
+} from '#shared/utils/constants'
 import * as v from 'valibot'
 import { detectChangelog } from '~~/server/utils/changelog/detectChangelog'
+import { getChangelogVersionEntry } from '~~/server/utils/changelog/entries'
 
 function getChangelogRouteParams(event: Parameters<typeof getRouterParam>[0]) {
   const org = getRouterParam(event, 'org')
@@ -13,18 +18,26 @@ function getChangelogRouteParams(event: Parameters<typeof getRouterParam>[0]) {
   return { rawVersion, rawPackageName }
 }
 
+function isEntryRequested(event: Parameters<typeof getQuery>[0]) {
+  return getQuery(event).entry === 'true'
+}
+
 // setting cache options
 export const defaultChangelogCacheOptions: Parameters<typeof defineCachedEventHandler>[1] = {
   maxAge: CACHE_MAX_AGE_ONE_DAY, // 24 hours
   swr: true,
   getKey: event => {
     const { rawPackageName = '', rawVersion = 'latest' } = getChangelogRouteParams(event)
-    return `changelogInfo:v1:${rawPackageName.trim().replaceAll('/', ':')}:${rawVersion.trim()}`
+    const entrySuffix = isEntryRequested(event) ? ':entry' : ''
+    return `changelogInfo:v1:${rawPackageName.trim().replaceAll('/', ':')}:${rawVersion.trim()}${entrySuffix}`
   },
   shouldBypassCache: () => import.meta.dev,
 }
 
-// handler
+/**
+ * Detects the changelog of a package version.
+ * With `?entry=true`, only the changelog notes of the version itself are returned.
+ */
 export default defineCachedEventHandler(async event => {
   const { rawPackageName, rawVersion } = getChangelogRouteParams(event)
 
@@ -35,7 +48,24 @@ export default defineCachedEventHandler(async event => {
     const versionSuffix = version ? `/${version}` : '/latest'
     const pkg = await $fetch<ExtendedPackageJson>(`${NPM_REGISTRY}/${encodedName}${versionSuffix}`)
 
-    return await detectChangelog(pkg)
+    const info = await detectChangelog(pkg)
+    if (info instanceof Error) {
+      throw info
+    }
+    if (!isEntryRequested(event)) {
+      return info
+    }
+
+    const entryVersion = pkg.version ?? version
+    const entry =
+      info && entryVersion && (await getChangelogVersionEntry(info, packageName, entryVersion))
+    if (!entry) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: ERROR_CHANGELOG_ENTRY_NOT_FOUND,
+      })
+    }
+    return entry
   } catch (error) {
     handleApiError(error, {
       statusCode: 502,
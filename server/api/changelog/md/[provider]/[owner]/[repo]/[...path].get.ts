@@ -1,8 +1,8 @@
-import * as v from 'valibot'
 import {
   ERROR_CHANGELOG_FILE_FAILED,
   ERROR_THROW_INCOMPLETE_PARAM,
 } from '~~/shared/utils/constants'
+import { fetchChangelogFile } from '~~/server/utils/changelog/sources'
 
 export default defineCachedEventHandler(
   async event => {
@@ -50,9 +50,7 @@ export default defineCachedEventHandler(
 )
 
 async function getGithubMarkDown(owner: string, repo: string, path: string) {
-  const data = await $fetch(`https://ungh.cc/repos/${owner}/${repo}/files/HEAD/${path}`)
-
-  const markdown = v.parse(v.string(), data)
+  const markdown = await fetchChangelogFile({ provider: 'github', owner, repo }, path)
 
   return (
     await changelogRenderer({
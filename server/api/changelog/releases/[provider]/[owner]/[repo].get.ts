@@ -1,18 +1,19 @@
-import type { ProviderId } from '~~/shared/utils/git-providers'
+import type { ProviderId, RepoRef } from '~~/shared/utils/git-providers'
 import type { ReleaseData } from '~~/shared/types/changelog'
 import {
   ERROR_CHANGELOG_RELEASES_FAILED,
   ERROR_THROW_INCOMPLETE_PARAM,
 } from '~~/shared/utils/constants'
-import { GithubReleaseCollectionSchama } from '~~/shared/schemas/changelog/release'
-import { parse } from 'valibot'
+import { getProviderConfig } from '~~/shared/utils/git-providers'
 import { changelogRenderer } from '~~/server/utils/changelog/markdown'
+import { fetchReleases } from '~~/server/utils/changelog/sources'
 
 export default defineCachedEventHandler(
   async event => {
     const provider = getRouterParam(event, 'provider')
     const repo = getRouterParam(event, 'repo')
-    const owner = getRouterParam(event, 'owner')
+    // GitLab owners may be nested groups, sent as a single encoded segment
+    const owner = getRouterParam(event, 'owner', { decode: true })
 
     if (!repo || !provider || !owner) {
       throw createError({
@@ -21,17 +22,43 @@ export default defineCachedEventHandler(
       })
     }
 
-    try {
-      switch (provider as ProviderId) {
-        case 'github':
-          return await getReleasesFromGithub(owner, repo)
+    // the host of self-hosted providers has to be allowlisted, see getReleaseHost
+    const { host } = getQuery(event)
+    const ref: RepoRef = {
+      provider: provider as ProviderId,
+      owner,
+      repo,
+      host: typeof host === 'string' ? host.toLowerCase() : undefined,
+    }
 
-        default:
-          throw createError({
-            status: 404,
-            statusMessage: ERROR_CHANGELOG_NOT_FOUND,
-          })
+    try {
+      const releases = await fetchReleases(ref)
+      const config = getProviderConfig(ref.provider)
+      if (!releases || !config) {
+        throw createError({
+          status: 404,
+          statusMessage: ERROR_CHANGELOG_NOT_FOUND,
+        })
       }
+
+      const render = await changelogRenderer({
+        blobBaseUrl: config.getBlobBaseUrl(ref),
+        rawBaseUrl: config.getRawBaseUrl(ref),
+      })
+
+      return releases.map(r => {
+        const { html, toc } = render(r.markdown, r.id)
+        return {
+          id: r.id,
+          // replace single \n within <p> like with Vue's releases
+          html: ref.provider === 'github' ? (html?.replace(/(?<!>)\n/g, '<br>') ?? null) : html,
+          title: r.title,
+          draft: r.draft,
+          prerelease: r.prerelease,
+          toc,
+          publishedAt: r.publishedAt,
+        } satisfies ReleaseData
+      })
     } catch (error) {
       handleApiError(error, {
         statusCode: 502,
@@ -45,38 +72,9 @@ export default defineCachedEventHandler(
     getKey: event => {
       const provider = getRouterParam(event, 'provider')
       const repo = getRouterParam(event, 'repo')
-      const owner = getRouterParam(event, 'owner')
-      return `changelogRelease:v1:${provider}:${owner}:${repo}`
+      const owner = getRouterParam(event, 'owner', { decode: true })
+      const { host } = getQuery(event)
+      return `changelogRelease:v2:${provider}:${typeof host === 'string' ? host : ''}:${owner}:${repo}`
     },
   },
 )
-
-async function getReleasesFromGithub(owner: string, repo: string) {
-  const data = await $fetch(`https://ungh.cc/repos/${owner}/${repo}/releases`, {
-    headers: {
-      'Accept': '*/*',
-      'User-Agent': 'npmx.dev',
-    },
-  })
-
-  const { releases } = parse(GithubReleaseCollectionSchama, data)
-
-  const render = await changelogRenderer({
-    blobBaseUrl: `https://github.com/${owner}/${repo}/blob/HEAD`,
-    rawBaseUrl: `https://raw.githubusercontent.com/${owner}/${repo}/HEAD`,
-  })
-
-  return releases.map(r => {
-    const { html, toc } = render(r.markdown, r.id)
-    return {
-      id: r.id,
-      // replace single \n within <p> like with Vue's releases
-      html: html?.replace(/(?<!>)\n/g, '<br>') ?? null,
-      title: r.name || r.tag,
-      draft: r.draft,
-      prerelease: r.prerelease,
-      toc,
-      publishedAt: r.publishedAt,
-    } satisfies ReleaseData
-  })
-}
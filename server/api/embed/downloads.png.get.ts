@@ -0,0 +1,29 @@
+/**
+ * PNG variant of the downloads trends chart embed, for platforms that strip SVG images
+ * (chat unfurls, some wikis). Accepts the same query parameters as `downloads.svg`.
+ */
+import { hash } from 'ohash'
+import { createDownloadsPngResponse } from '~~/server/utils/embed-downloads-png'
+import { CACHE_MAX_AGE_ONE_HOUR } from '#shared/utils/constants'
+
+// Cached as base64 since cache storage serializes entries as JSON
+const getDownloadsPngBase64 = defineCachedFunction(
+  async (query: Record<string, unknown>) =>
+    (await createDownloadsPngResponse(query)).toString('base64'),
+  {
+    maxAge: CACHE_MAX_AGE_ONE_HOUR,
+    swr: true,
+    name: 'embed-package-downloads-png',
+    getKey: (query: Record<string, unknown>) => hash(query),
+  },
+)
+
+export default defineEventHandler(async event => {
+  const png = Buffer.from(await getDownloadsPngBase64(getQuery(event)), 'base64')
+
+  setHeader(event, 'Content-Type', 'image/png')
+  setHeader(event, 'Cache-Control', 'public, max-age=3600, s-maxage=86400')
+  setHeader(event, 'Access-Control-Allow-Origin', '*')
+
+  return png
+})
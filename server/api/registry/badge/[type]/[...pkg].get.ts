@@ -1,17 +1,25 @@
 import * as v from 'valibot'
 import { createCanvas, type SKRSContext2D } from '@napi-rs/canvas'
 import { hash } from 'ohash'
+import { all as moduleReplacements } from 'module-replacements'
+import { minVersion } from 'semver'
 import { createError, getRouterParam, getQuery, setHeader } from 'h3'
 import { PackageRouteParamsSchema } from '#shared/schemas/package'
 import { CACHE_MAX_AGE_ONE_HOUR, ERROR_NPM_FETCH_FAILED } from '#shared/utils/constants'
 import { fetchNpmPackage } from '#server/utils/npm'
 import { assertValidPackageName, normalizeLicense } from '#shared/utils/npm'
+import {
+  BADGE_FORMATS,
+  BADGE_STYLES,
+  type BadgeEndpointResponse,
+  type BadgeType,
+} from '#shared/utils/badges'
 import { fetchPackageWithTypesAndFiles } from '#server/utils/file-tree'
+import { detectModuleFormat, type ModuleFormat } from '#shared/utils/package-analysis'
 import { handleApiError } from '#server/utils/error-handler'
 
 const NPM_DOWNLOADS_API = 'https://api.npmjs.org/downloads/point'
 const OSV_QUERY_API = 'https://api.osv.dev/v1/query'
-const BUNDLEPHOBIA_API = 'https://bundlephobia.com/api/size'
 
 const SafeStringSchema = v.pipe(v.string(), v.regex(/^[^<>"&]*$/, 'Invalid characters'))
 const SafeColorSchema = v.pipe(
@@ -531,14 +539,55 @@ async function fetchVulnerabilities(packageName: string, version: string): Promi
 
 async function fetchInstallSize(packageName: string, version: string): Promise<number | null> {
   try {
-    const response = await fetch(`${BUNDLEPHOBIA_API}?package=${packageName}@${version}`)
-    const data = await response.json()
-    return data.size ?? null
+    const { totalSize } = await calculateInstallSize(packageName, version)
+    return totalSize
+  } catch {
+    return null
+  }
+}
+
+async function fetchProvenance(versionData: PackumentVersion): Promise<ProvenanceDetails | null> {
+  const attestationsUrl = versionData.dist?.attestations?.url
+  if (!attestationsUrl) return null
+
+  try {
+    const response = await fetch(attestationsUrl)
+    if (!response.ok) return null
+    return parseAttestationToProvenanceDetails((await response.json()) as NpmAttestationsResponse)
   } catch {
     return null
   }
 }
 
+const MODULE_FORMAT_BADGES: Record<ModuleFormat, { value: string; color: string }> = {
+  esm: { value: 'ESM', color: COLORS.green },
+  dual: { value: 'ESM + CJS', color: COLORS.blue },
+  cjs: { value: 'CJS', color: COLORS.yellow },
+  wasm: { value: 'WASM', color: COLORS.purple },
+  unknown: { value: 'unknown', color: COLORS.slate },
+}
+
+const REPLACEMENT_BADGES: Record<string, { value: string; color: string }> = {
+  native: { value: 'native', color: COLORS.orange },
+  simple: { value: 'simpler', color: COLORS.orange },
+  documented: { value: 'available', color: COLORS.orange },
+  removal: { value: 'removable', color: COLORS.orange },
+}
+
+/** Lowest Node.js version allowed by an `engines.node` range, e.g. `>=18.12` */
+function formatMinNodeVersion(range: string | undefined): string {
+  if (!range) return 'any'
+  try {
+    const min = minVersion(range)
+    if (!min || min.major === 0) return 'any'
+    return min.minor === 0 && min.patch === 0
+      ? `>=${min.major}`
+      : `>=${min.major}.${min.minor}${min.patch === 0 ? '' : `.${min.patch}`}`
+  } catch {
+    return range
+  }
+}
+
 const badgeStrategies = {
   'name': async (pkgData: globalThis.Packument) => {
     return { label: 'npm', value: pkgData.name, color: COLORS.slate }
@@ -685,16 +734,57 @@ const badgeStrategies = {
     }
   },
 
+  'provenance': async (pkgData: globalThis.Packument, requestedVersion?: string) => {
+    const targetVersion = requestedVersion ?? getLatestVersion(pkgData)
+    const versionData = targetVersion ? pkgData.versions?.[targetVersion] : undefined
+    const provenance = versionData ? await fetchProvenance(versionData) : null
+    return provenance
+      ? { label: 'provenance', value: 'verified', color: COLORS.green }
+      : { label: 'provenance', value: 'none', color: COLORS.slate }
+  },
+
+  'module-format': async (pkgData: globalThis.Packument, requestedVersion?: string) => {
+    const targetVersion = requestedVersion ?? getLatestVersion(pkgData)
+    const versionData = targetVersion ? pkgData.versions?.[targetVersion] : undefined
+    const format = versionData ? detectModuleFormat(versionData) : 'unknown'
+    return { label: 'module', ...MODULE_FORMAT_BADGES[format] }
+  },
+
+  'node-version': async (pkgData: globalThis.Packument, requestedVersion?: string) => {
+    const targetVersion = requestedVersion ?? getLatestVersion(pkgData)
+    const nodeRange = targetVersion ? pkgData.versions?.[targetVersion]?.engines?.node : undefined
+    return { label: 'node', value: formatMinNodeVersion(nodeRange), color: COLORS.yellow }
+  },
+
+  'replacement': async (pkgData: globalThis.Packument) => {
+    const mapping = Object.hasOwn(moduleReplacements.mappings, pkgData.name)
+      ? moduleReplacements.mappings[pkgData.name]
+      : undefined
+    const replacementId = mapping?.replacements[0]
+    const replacement = replacementId ? moduleReplacements.replacements[replacementId] : undefined
+    const badge = replacement ? REPLACEMENT_BADGES[replacement.type] : undefined
+    return badge
+      ? { label: 'replacement', ...badge }
+      : { label: 'replacement', value: 'none', color: COLORS.green }
+  },
+
   'likes': async (pkgData: globalThis.Packument) => {
     const likesUtil = new PackageLikesUtils()
     const { totalLikes } = await likesUtil.getLikes(pkgData.name)
 
     return { label: 'likes', value: String(totalLikes ?? 0), color: COLORS.red }
   },
-}
+} satisfies Record<
+  BadgeType,
+  (
+    pkgData: globalThis.Packument,
+    requestedVersion?: string,
+  ) => Promise<{ label: string; value: string; color: string }>
+>
 
 const BadgeTypeSchema = v.picklist(Object.keys(badgeStrategies) as [string, ...string[]])
-const BadgeStyleSchema = v.picklist(['default', 'shieldsio', 'compact'])
+const BadgeStyleSchema = v.picklist(BADGE_STYLES)
+const BadgeFormatSchema = v.picklist(BADGE_FORMATS)
 
 const BADGE_RENDERERS = {
   default: renderDefaultBadgeSvg,
@@ -710,6 +800,8 @@ const COMPACT_LABEL_MAP: Record<string, string> = {
   'downloads/yr': 'dl/yr',
   'dependencies': 'deps',
   'maintainers': 'maint',
+  'provenance': 'prov',
+  'replacement': 'repl',
 }
 
 export default defineCachedEventHandler(
@@ -739,6 +831,8 @@ export default defineCachedEventHandler(
       const userValue = queryParams.success ? queryParams.output.value : undefined
       const badgeStyleResult = v.safeParse(BadgeStyleSchema, query.style)
       const badgeStyle = badgeStyleResult.success ? badgeStyleResult.output : 'default'
+      const badgeFormatResult = v.safeParse(BadgeFormatSchema, query.format)
+      const badgeFormat = badgeFormatResult.success ? badgeFormatResult.output : 'svg'
 
       const badgeTypeResult = v.safeParse(BadgeTypeSchema, typeParam)
       const strategyKey = badgeTypeResult.success ? badgeTypeResult.output : 'version'
@@ -759,6 +853,25 @@ export default defineCachedEventHandler(
       const rawColor = userColor ?? strategyResult.color
       const finalColor = rawColor?.startsWith('#') ? rawColor : `#${rawColor}`
 
+      setHeader(
+        event,
+        'Cache-Control',
+        `public, max-age=${CACHE_MAX_AGE_ONE_HOUR}, s-maxage=${CACHE_MAX_AGE_ONE_HOUR}`,
+      )
+
+      if (badgeFormat === 'json') {
+        setHeader(event, 'Content-Type', 'application/json')
+
+        const response: BadgeEndpointResponse = {
+          schemaVersion: 1,
+          label: finalLabel,
+          message: finalValue,
+          color: finalColor.slice(1),
+        }
+        if (labelColor) response.labelColor = labelColor.replace(/^#/, '')
+        return response
+      }
+
       const defaultLabelColor = badgeStyle === 'shieldsio' ? '#555' : '#0a0a0a'
       const rawLabelColor = labelColor ?? defaultLabelColor
       const finalLabelColor = rawLabelColor.startsWith('#') ? rawLabelColor : `#${rawLabelColor}`
@@ -777,11 +890,6 @@ export default defineCachedEventHandler(
       })
 
       setHeader(event, 'Content-Type', 'image/svg+xml')
-      setHeader(
-        event,
-        'Cache-Control',
-        `public, max-age=${CACHE_MAX_AGE_ONE_HOUR}, s-maxage=${CACHE_MAX_AGE_ONE_HOUR}`,
-      )
 
       return svg
     } catch (error: unknown) {
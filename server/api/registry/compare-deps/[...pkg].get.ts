@@ -0,0 +1,58 @@
+import * as v from 'valibot'
+import { PackageCompareQuerySchema, TargetPlatformQuerySchema } from '#shared/schemas/package'
+import { CACHE_MAX_AGE_ONE_HOUR, ERROR_DEPENDENCY_TREE_DIFF_FAILED } from '#shared/utils/constants'
+
+/**
+ * Compare the resolved dependency trees of two package versions.
+ * Accepts optional `os`, `cpu` and `libc` query parameters to resolve for another platform.
+ *
+ * URL patterns:
+ * - /api/registry/compare-deps/packageName/v/1.0.0...2.0.0
+ * - /api/registry/compare-deps/@scope/packageName/v/1.0.0...2.0.0
+ */
+export default defineCachedEventHandler(
+  async event => {
+    const pkgParamSegments = getRouterParam(event, 'pkg')?.split('/') ?? []
+    const { rawPackageName, rawVersion: rawVersionRange } = parsePackageParams(pkgParamSegments)
+
+    if (!rawVersionRange) {
+      throw createError({
+        statusCode: 400,
+        message: 'Version range is required (e.g., 1.0.0...2.0.0)',
+      })
+    }
+
+    const range = parseVersionRange(rawVersionRange)
+    if (!range) {
+      throw createError({
+        statusCode: 400,
+        message: 'Invalid version range format. Use from...to (e.g., 1.0.0...2.0.0)',
+      })
+    }
+
+    try {
+      const { packageName, fromVersion, toVersion } = v.parse(PackageCompareQuerySchema, {
+        packageName: decodeURIComponent(rawPackageName),
+        fromVersion: range.from,
+        toVersion: range.to,
+      })
+      const platform = v.parse(TargetPlatformQuerySchema, getQuery(event))
+
+      return await buildDependencyTreeDiff(packageName, fromVersion, toVersion, platform)
+    } catch (error: unknown) {
+      handleApiError(error, {
+        statusCode: 502,
+        message: ERROR_DEPENDENCY_TREE_DIFF_FAILED,
+      })
+    }
+  },
+  {
+    maxAge: CACHE_MAX_AGE_ONE_HOUR,
+    swr: true,
+    getKey: event => {
+      const pkg = getRouterParam(event, 'pkg') ?? ''
+      const { os, cpu, libc } = getQuery(event)
+      return `compare-deps:v1:${pkg.replace(/\/+$/, '').trim()}:${os ?? ''}-${cpu ?? ''}-${libc ?? ''}`
+    },
+  },
+)
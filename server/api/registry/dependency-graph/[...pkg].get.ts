@@ -0,0 +1,56 @@
+import * as v from 'valibot'
+import { PackageRouteParamsSchema, TargetPlatformQuerySchema } from '#shared/schemas/package'
+import { CACHE_MAX_AGE_ONE_HOUR, ERROR_DEPENDENCY_GRAPH_FAILED } from '#shared/utils/constants'
+
+/**
+ * GET /api/registry/dependency-graph/:name or /api/registry/dependency-graph/:name/v/:version
+ *
+ * Resolve the full dependency graph for a package, with one node per resolved `name@version`.
+ * Accepts optional `os`, `cpu` and `libc` query parameters to resolve for another platform.
+ */
+export default defineCachedEventHandler(
+  async event => {
+    // Parse package name and optional version from path segments
+    // Supports: /dependency-graph/lodash, /dependency-graph/lodash/v/4.17.21, /dependency-graph/@scope/name, /dependency-graph/@scope/name/v/1.0.0
+    const pkgParamSegments = getRouterParam(event, 'pkg')?.split('/') ?? []
+
+    const { rawPackageName, rawVersion } = parsePackageParams(pkgParamSegments)
+
+    try {
+      const { packageName, version: requestedVersion } = v.parse(PackageRouteParamsSchema, {
+        packageName: decodeURIComponent(rawPackageName),
+        version: rawVersion,
+      })
+      const platform = v.parse(TargetPlatformQuerySchema, getQuery(event))
+
+      // If no version specified, resolve to latest using fast-npm-meta (lightweight)
+      let version: string | undefined = requestedVersion
+      if (!version) {
+        const latestVersion = await fetchLatestVersionWithFallback(packageName)
+        if (!latestVersion) {
+          throw createError({
+            statusCode: 404,
+            message: 'No latest version found',
+          })
+        }
+        version = latestVersion
+      }
+
+      return await buildDependencyGraph(packageName, version, platform)
+    } catch (error: unknown) {
+      handleApiError(error, {
+        statusCode: 502,
+        message: ERROR_DEPENDENCY_GRAPH_FAILED,
+      })
+    }
+  },
+  {
+    maxAge: CACHE_MAX_AGE_ONE_HOUR,
+    swr: true,
+    getKey: event => {
+      const pkg = getRouterParam(event, 'pkg') ?? ''
+      const { os, cpu, libc } = getQuery(event)
+      return `dependency-graph:v1:${pkg.replace(/\/+$/, '').trim()}:${os ?? ''}-${cpu ?? ''}-${libc ?? ''}`
+    },
+  },
+)
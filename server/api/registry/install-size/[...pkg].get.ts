@@ -1,5 +1,5 @@
 import * as v from 'valibot'
-import { PackageRouteParamsSchema } from '#shared/schemas/package'
+import { PackageRouteParamsSchema, TargetPlatformQuerySchema } from '#shared/schemas/package'
 import { CACHE_MAX_AGE_ONE_HOUR, ERROR_CALC_INSTALL_SIZE_FAILED } from '#shared/utils/constants'
 
 /**
@@ -21,6 +21,7 @@ export default defineCachedEventHandler(
         packageName: decodeURIComponent(rawPackageName),
         version: rawVersion,
       })
+      const platform = v.parse(TargetPlatformQuerySchema, getQuery(event))
 
       // If no version specified, resolve to latest using fast-npm-meta (lightweight)
       let version: string | undefined = requestedVersion
@@ -35,7 +36,7 @@ export default defineCachedEventHandler(
         version = latestVersion
       }
 
-      return await calculateInstallSize(packageName, version)
+      return await calculateInstallSize(packageName, version, platform)
     } catch (error: unknown) {
       handleApiError(error, {
         statusCode: 502,
@@ -48,7 +49,8 @@ export default defineCachedEventHandler(
     swr: true,
     getKey: event => {
       const pkg = getRouterParam(event, 'pkg') ?? ''
-      return `install-size:v1:${pkg.replace(/\/+$/, '').trim()}`
+      const { os, cpu, libc } = getQuery(event)
+      return `install-size:v2:${pkg.replace(/\/+$/, '').trim()}:${os ?? ''}-${cpu ?? ''}-${libc ?? ''}`
     },
   },
 )
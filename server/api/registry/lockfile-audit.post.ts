@@ -0,0 +1,23 @@
+import * as v from 'valibot'
+import { LockfileAuditBodySchema } from '#shared/schemas/package'
+import { ERROR_LOCKFILE_AUDIT_FAILED } from '#shared/utils/constants'
+
+/**
+ * POST /api/registry/lockfile-audit
+ *
+ * Audit an exact set of installed packages (parsed client-side from a lockfile) for
+ * vulnerabilities, deprecations and install size. Unlike /vulnerabilities, nothing is
+ * re-resolved from a root package: the tree is taken as given.
+ */
+export default defineEventHandler(async event => {
+  try {
+    const { packages } = v.parse(LockfileAuditBodySchema, await readBody(event))
+
+    return await analyzePinnedPackages(packages)
+  } catch (error: unknown) {
+    handleApiError(error, {
+      statusCode: 502,
+      message: ERROR_LOCKFILE_AUDIT_FAILED,
+    })
+  }
+})
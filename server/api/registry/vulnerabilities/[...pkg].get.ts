@@ -1,5 +1,5 @@
 import * as v from 'valibot'
-import { PackageRouteParamsSchema } from '#shared/schemas/package'
+import { PackageRouteParamsSchema, TargetPlatformQuerySchema } from '#shared/schemas/package'
 import { CACHE_MAX_AGE_ONE_HOUR } from '#shared/utils/constants'
 
 /**
@@ -18,6 +18,7 @@ export default defineCachedEventHandler(
         packageName: decodeURIComponent(rawPackageName),
         version: rawVersion,
       })
+      const platform = v.parse(TargetPlatformQuerySchema, getQuery(event))
 
       // If no version specified, resolve to latest using fast-npm-meta (lightweight)
       let version: string | undefined = requestedVersion
@@ -32,7 +33,7 @@ export default defineCachedEventHandler(
         version = latestVersion
       }
 
-      return await analyzeDependencyTree(packageName, version)
+      return await analyzeDependencyTree(packageName, version, platform)
     } catch (error: unknown) {
       handleApiError(error, {
         statusCode: 502,
@@ -45,7 +46,8 @@ export default defineCachedEventHandler(
     swr: true,
     getKey: event => {
       const pkg = getRouterParam(event, 'pkg') ?? ''
-      return `vulnerabilities:v1:${pkg.replace(/\/+$/, '').trim()}`
+      const { os, cpu, libc } = getQuery(event)
+      return `vulnerabilities:v2:${pkg.replace(/\/+$/, '').trim()}:${os ?? ''}-${cpu ?? ''}-${libc ?? ''}`
     },
   },
 )
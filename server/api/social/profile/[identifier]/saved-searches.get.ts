@@ -0,0 +1,18 @@
+import { IdentityUtils } from '#server/utils/atproto/utils/identity'
+import { SavedSearchUtils } from '#server/utils/atproto/utils/saved-searches'
+
+export default defineEventHandler(async event => {
+  const identifier = getRouterParam(event, 'identifier')
+  if (!identifier) {
+    throw createError({
+      status: 400,
+      message: 'identifier not provided',
+    })
+  }
+
+  const utils = new IdentityUtils()
+  const minidoc = await utils.getMiniDoc(identifier)
+  const savedSearchUtils = new SavedSearchUtils()
+
+  return savedSearchUtils.getSavedSearches(minidoc)
+})
@@ -0,0 +1,63 @@
+import { createError, getRouterParam, setHeader } from 'h3'
+import type { NpmSearchResponse, NpmSearchResult } from '#shared/types/npm-registry'
+import { NPM_REGISTRY, NPMX_SITE } from '#shared/utils/constants'
+import { IdentityUtils } from '#server/utils/atproto/utils/identity'
+import { SavedSearchUtils } from '#server/utils/atproto/utils/saved-searches'
+import { handleApiError } from '#server/utils/error-handler'
+import {
+  buildSavedSearchFeed,
+  getRegistrySearchText,
+  SAVED_SEARCH_FEED_SEARCH_SIZE,
+  selectSavedSearchFeedPackages,
+} from '#server/utils/saved-search-feed'
+
+export default defineCachedEventHandler(
+  async event => {
+    const identifier = getRouterParam(event, 'identifier')
+    const rkey = getRouterParam(event, 'rkey')
+    if (!identifier || !rkey) {
+      throw createError({
+        status: 400,
+        message: 'identifier or rkey not provided',
+      })
+    }
+
+    try {
+      const minidoc = await new IdentityUtils().getMiniDoc(identifier)
+      const savedSearch = await new SavedSearchUtils().getSavedSearch(minidoc, rkey)
+
+      // Without terms the registry can search for, the feed stays empty
+      const text = getRegistrySearchText(savedSearch.query)
+      let packages: NpmSearchResult[] = []
+      if (text) {
+        // The registry sorts by relevance only, the feed is built from its top hits
+        const params = new URLSearchParams({ text, size: String(SAVED_SEARCH_FEED_SEARCH_SIZE) })
+        const response = await $fetch<NpmSearchResponse>(`${NPM_REGISTRY}/-/v1/search?${params}`)
+        packages = selectSavedSearchFeedPackages(response.objects, savedSearch)
+      }
+
+      setHeader(event, 'Content-Type', 'application/atom+xml; charset=utf-8')
+
+      return buildSavedSearchFeed({
+        savedSearch,
+        handle: minidoc.handle,
+        packages,
+        feedUrl: `${NPMX_SITE}/api/social/profile/${identifier}/saved-searches/${rkey}/feed.xml`,
+      })
+    } catch (error: unknown) {
+      handleApiError(error, {
+        statusCode: 502,
+        message: ERROR_SAVED_SEARCH_FEED_FAILED,
+      })
+    }
+  },
+  {
+    maxAge: CACHE_MAX_AGE_ONE_MINUTE * 15,
+    swr: true,
+    getKey: event => {
+      const identifier = getRouterParam(event, 'identifier') ?? ''
+      const rkey = getRouterParam(event, 'rkey') ?? ''
+      return `saved-search-feed:${identifier}:${rkey}`
+    },
+  },
+)
@@ -0,0 +1,54 @@
+import * as v from 'valibot'
+import { Client, toDatetimeString } from '@atproto/lex'
+import * as dev from '#shared/types/lexicons/dev'
+import type { SavedSearch } from '#shared/types/social'
+import { SAVED_SEARCHES_SCOPE } from '#shared/utils/constants'
+import { SavedSearchBodySchema } from '#shared/schemas/social'
+import { throwOnMissingOAuthScope } from '#server/utils/atproto/oauth'
+import { MAX_SAVED_SEARCHES } from '#server/utils/atproto/utils/saved-searches'
+
+export default eventHandlerWithOAuthSession(async (event, oAuthSession): Promise<SavedSearch> => {
+  const loggedInUsersDid = oAuthSession?.did.toString()
+
+  if (!oAuthSession || !loggedInUsersDid) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' })
+  }
+
+  //Checks if the user has a scope to save searches
+  await throwOnMissingOAuthScope(oAuthSession, SAVED_SEARCHES_SCOPE)
+
+  const body = v.parse(SavedSearchBodySchema, await readBody(event))
+
+  const client = new Client(oAuthSession)
+
+  // Saved searches are listed in a single page, more of them wouldn't show up
+  const existing = await client.list(dev.npmx.actor.savedSearch, {
+    limit: MAX_SAVED_SEARCHES,
+    repo: oAuthSession.did,
+  })
+  if (existing.records.length >= MAX_SAVED_SEARCHES) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Saved searches are limited to ${MAX_SAVED_SEARCHES}`,
+    })
+  }
+
+  const savedSearch = dev.npmx.actor.savedSearch.$build({
+    ...body,
+    createdAt: toDatetimeString(new Date()),
+  })
+
+  const result = await client.create(dev.npmx.actor.savedSearch, savedSearch)
+  if (!result) {
+    throw createError({
+      status: 500,
+      message: 'Failed to save the search',
+    })
+  }
+
+  return {
+    ...body,
+    rkey: result.uri.slice(result.uri.lastIndexOf('/') + 1),
+    createdAt: savedSearch.createdAt,
+  }
+})
@@ -0,0 +1,28 @@
+import { Client } from '@atproto/lex'
+import * as dev from '#shared/types/lexicons/dev'
+import { SAVED_SEARCHES_SCOPE } from '#shared/utils/constants'
+import { throwOnMissingOAuthScope } from '#server/utils/atproto/oauth'
+
+export default eventHandlerWithOAuthSession(async (event, oAuthSession) => {
+  const loggedInUsersDid = oAuthSession?.did.toString()
+
+  if (!oAuthSession || !loggedInUsersDid) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' })
+  }
+
+  const rkey = getRouterParam(event, 'rkey')
+  if (!rkey) {
+    throw createError({
+      status: 400,
+      message: 'rkey not provided',
+    })
+  }
+
+  //Checks if the user has a scope to delete saved searches
+  await throwOnMissingOAuthScope(oAuthSession, SAVED_SEARCHES_SCOPE)
+
+  const client = new Client(oAuthSession)
+  await client.delete(dev.npmx.actor.savedSearch, { rkey })
+
+  return { success: true }
+})
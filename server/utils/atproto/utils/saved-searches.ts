@@ -0,0 +1,84 @@
+import type * as blue from '#shared/types/lexicons/blue'
+import type { SavedSearch } from '#shared/types/social'
+import * as dev from '#shared/types/lexicons/dev'
+import { SavedSearchBodySchema } from '#shared/schemas/social'
+import { Client } from '@atproto/lex'
+import * as v from 'valibot'
+
+const HEADERS = { 'User-Agent': 'npmx' }
+
+// Records are listed in a single page, saving is limited to the same amount
+export const MAX_SAVED_SEARCHES = 100
+
+const SavedSearchRecordSchema = v.object({
+  ...SavedSearchBodySchema.entries,
+  createdAt: v.string(),
+})
+
+/**
+ * Converts a saved search record.
+ * Records written by other clients with unknown filters are skipped.
+ */
+function toSavedSearch(rkey: string, value: unknown): SavedSearch | null {
+  const result = v.safeParse(SavedSearchRecordSchema, value)
+  return result.success ? { rkey, ...result.output } : null
+}
+
+/**
+ * Logic to read the saved searches of a user from their PDS
+ */
+export class SavedSearchUtils {
+  private getClient(miniDoc: blue.microcosm.identity.resolveMiniDoc.$OutputBody) {
+    const pdsUrl = new URL(miniDoc.pds)
+    // Only fetch from HTTPS PDS endpoints to prevent SSRF
+    if (pdsUrl.protocol !== 'https:') {
+      throw createError({ statusCode: 502, statusMessage: ERROR_PDS_FETCH_FAILED })
+    }
+    return new Client(pdsUrl, { headers: HEADERS })
+  }
+
+  /**
+   * Gets the saved searches of a user, newest first
+   * @param miniDoc
+   * @returns
+   */
+  async getSavedSearches(
+    miniDoc: blue.microcosm.identity.resolveMiniDoc.$OutputBody,
+  ): Promise<SavedSearch[]> {
+    const client = this.getClient(miniDoc)
+    const result = await client.list(dev.npmx.actor.savedSearch, {
+      limit: MAX_SAVED_SEARCHES,
+      repo: miniDoc.did,
+    })
+
+    return result.records
+      .map(record => toSavedSearch(record.uri.slice(record.uri.lastIndexOf('/') + 1), record.value))
+      .filter((search): search is SavedSearch => search !== null)
+  }
+
+  /**
+   * Gets a single saved search of a user
+   * @param miniDoc
+   * @param rkey - Record key of the saved search
+   * @returns
+   */
+  async getSavedSearch(
+    miniDoc: blue.microcosm.identity.resolveMiniDoc.$OutputBody,
+    rkey: string,
+  ): Promise<SavedSearch> {
+    const client = this.getClient(miniDoc)
+
+    let savedSearch: SavedSearch | null = null
+    try {
+      const record = await client.get(dev.npmx.actor.savedSearch, { repo: miniDoc.did, rkey })
+      savedSearch = toSavedSearch(rkey, record.value)
+    } catch {
+      // the record doesn't exist, handled below
+    }
+
+    if (!savedSearch) {
+      throw createError({ statusCode: 404, statusMessage: ERROR_SAVED_SEARCH_NOT_FOUND })
+    }
+    return savedSearch
+  }
+}
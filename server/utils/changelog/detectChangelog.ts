@@ -7,7 +7,12 @@ import type { FetchError } from 'ofetch'
 import type { ExtendedPackageJson } from '~~/shared/utils/package-analysis'
 import { type RepoRef, parseRepoUrl } from '~~/shared/utils/git-providers'
 import { ERROR_CHANGELOG_NOT_FOUND, ERROR_UNGH_API_KEY_EXHAUSTED } from '~~/shared/utils/constants'
-import { GithubReleaseSchama } from '~~/shared/schemas/changelog/release'
+import {
+  GiteaReleaseCollectionSchema,
+  GithubReleaseSchama,
+  GitlabReleaseCollectionSchema,
+} from '~~/shared/schemas/changelog/release'
+import { getReleaseHost, getReleasesPageUrl } from './providers'
 import { resolveURL } from 'ufo'
 import * as v from 'valibot'
 
@@ -58,6 +63,12 @@ async function checkReleases(
     case 'github': {
       return checkLatestGithubRelease(ref, directory)
     }
+    case 'gitlab':
+    case 'codeberg':
+    case 'forgejo':
+    case 'gitea': {
+      return checkHasReleases(ref)
+    }
   }
 
   return false
@@ -114,6 +125,41 @@ function checkLatestGithubRelease(
     })
 }
 
+/**
+ * GitLab and Gitea-like providers don't link changelog files from releases,
+ * so releases are used as soon as the repository has any
+ */
+async function checkHasReleases(ref: RepoRef): Promise<ChangelogReleaseInfo | false> {
+  const host = getReleaseHost(ref.provider, ref.host)
+  const link = getReleasesPageUrl(ref)
+  if (!host || !link) {
+    return false
+  }
+
+  const hasReleases =
+    ref.provider === 'gitlab'
+      ? await $fetch(
+          `https://${host}/api/v4/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}/releases?per_page=1`,
+        )
+          .then(r => v.parse(GitlabReleaseCollectionSchema, r).length > 0)
+          .catch(() => false)
+      : await $fetch(`https://${host}/api/v1/repos/${ref.owner}/${ref.repo}/releases?limit=1`)
+          .then(r => v.parse(GiteaReleaseCollectionSchema, r).length > 0)
+          .catch(() => false)
+
+  if (!hasReleases) {
+    return false
+  }
+
+  return {
+    provider: ref.provider,
+    type: 'release',
+    repo: `${ref.owner}/${ref.repo}`,
+    host: ref.provider === 'codeberg' ? undefined : host,
+    link,
+  } satisfies ChangelogReleaseInfo
+}
+
 /// changelog markdown
 
 const EXTENSIONS = ['.md', ''] as const
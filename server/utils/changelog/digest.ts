@@ -0,0 +1,151 @@
+import type { ChangelogDigestCategory } from '~~/shared/types/changelog'
+import type { ChangelogSection } from './sections'
+import { parseMarkdownHeading } from './sections'
+import { compare, gt, lte } from 'semver'
+
+export interface DigestGroupSource {
+  category: ChangelogDigestCategory
+  entries: ChangelogSection[]
+}
+
+/** Breaking changes first, so they can't be missed when upgrading */
+export const DIGEST_CATEGORY_ORDER: readonly ChangelogDigestCategory[] = [
+  'breaking',
+  'features',
+  'fixes',
+  'other',
+]
+
+const LIST_ITEM_REGEX = /^[-*+]\s+/
+// e.g. "feat: ...", "**fix(core)!:** ..." or "feat(scope)!: ..."
+const CONVENTIONAL_COMMIT_REGEX = /^(?:\*\*)?([a-z]+)(?:\([^)]*\))?(!)?:/i
+
+/** Maps a heading such as "Breaking Changes", "Features" or "Patch Changes" to a category */
+export function getHeadingCategory(heading: string): ChangelogDigestCategory | null {
+  if (/breaking|major changes/i.test(heading)) return 'breaking'
+  if (/\bfeat(?:ures?)?\b|added|new\b|enhancements?|minor changes/i.test(heading)) return 'features'
+  if (/fix|bugs?\b|patch changes/i.test(heading)) return 'fixes'
+  return null
+}
+
+/** Maps a conventional commit type to a category */
+function getCommitCategory(item: string): ChangelogDigestCategory | null {
+  if (/BREAKING[ -]CHANGE/.test(item)) return 'breaking'
+
+  const match = item.match(CONVENTIONAL_COMMIT_REGEX)
+  if (!match) return null
+  if (match[2]) return 'breaking'
+
+  switch (match[1]!.toLowerCase()) {
+    case 'feat':
+      return 'features'
+    case 'fix':
+    case 'perf':
+      return 'fixes'
+    case 'build':
+    case 'chore':
+    case 'ci':
+    case 'docs':
+    case 'refactor':
+    case 'revert':
+    case 'style':
+    case 'test':
+      return 'other'
+  }
+  // e.g. "**core:** ..." scopes listed under a heading
+  return null
+}
+
+/**
+ * Groups the notes of a version by category.
+ * List items are categorized by their conventional commit prefix and fall back to the
+ * heading they're listed under, other content always follows its heading.
+ */
+export function categorizeChanges(
+  markdown: string,
+): Partial<Record<ChangelogDigestCategory, string>> {
+  const blocks: Partial<Record<ChangelogDigestCategory, string[]>> = {}
+  let headingCategory: ChangelogDigestCategory = 'other'
+  let block: { category: ChangelogDigestCategory; lines: string[] } | null = null
+  let inCodeBlock = false
+
+  const flush = () => {
+    if (block && block.lines.some(line => line.trim())) {
+      ;(blocks[block.category] ??= []).push(block.lines.join('\n').trim())
+    }
+    block = null
+  }
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock
+    }
+    const heading = inCodeBlock ? null : parseMarkdownHeading(line)
+    if (heading) {
+      flush()
+      headingCategory = getHeadingCategory(heading.text) ?? 'other'
+      continue
+    }
+
+    if (!inCodeBlock && LIST_ITEM_REGEX.test(line)) {
+      flush()
+      const item = line.replace(LIST_ITEM_REGEX, '')
+      block = { category: getCommitCategory(item) ?? headingCategory, lines: [line] }
+      continue
+    }
+
+    // a paragraph after a list item starts a new block
+    if (block && !inCodeBlock && line.trim() && !/^\s/.test(line) && !block.lines.at(-1)?.trim()) {
+      flush()
+    }
+    block ??= { category: headingCategory, lines: [] }
+    block.lines.push(line)
+  }
+  flush()
+
+  return Object.fromEntries(
+    Object.entries(blocks).map(([category, items]) => [category, items.join('\n\n')]),
+  )
+}
+
+/**
+ * Gathers the changes of all versions after `from` up to and including `to`,
+ * grouped by category with the newest version first.
+ */
+export function buildChangelogDigest(
+  changelogs: ChangelogSection[],
+  from: string,
+  to: string,
+): { versions: string[]; groups: DigestGroupSource[] } {
+  const inRange = new Map<string, ChangelogSection>()
+  for (const changelog of changelogs) {
+    // keep the first entry when a version is listed twice
+    if (gt(changelog.version, from) && lte(changelog.version, to)) {
+      if (!inRange.has(changelog.version)) {
+        inRange.set(changelog.version, changelog)
+      }
+    }
+  }
+  const sorted = [...inRange.values()].sort((a, b) => compare(b.version, a.version))
+
+  const groups = new Map<ChangelogDigestCategory, ChangelogSection[]>()
+  for (const changelog of sorted) {
+    const changes = categorizeChanges(changelog.markdown)
+    for (const category of DIGEST_CATEGORY_ORDER) {
+      const markdown = changes[category]
+      if (markdown) {
+        const entries = groups.get(category) ?? []
+        entries.push({ version: changelog.version, markdown })
+        groups.set(category, entries)
+      }
+    }
+  }
+
+  return {
+    versions: sorted.map(changelog => changelog.version),
+    groups: DIGEST_CATEGORY_ORDER.filter(category => groups.has(category)).map(category => ({
+      category,
+      entries: groups.get(category)!,
+    })),
+  }
+}
@@ -0,0 +1,85 @@
+import type { ChangelogInfo, ChangelogVersionEntry } from '~~/shared/types/changelog'
+import type { RepoRef } from '~~/shared/utils/git-providers'
+import { getProviderConfig } from '~~/shared/utils/git-providers'
+import { changelogRenderer } from './markdown'
+import { type ChangelogSection, getReleaseVersion, parseChangelogSections } from './sections'
+import { fetchChangelogFile, fetchReleases } from './sources'
+
+/** Repository of a detected changelog */
+export function getChangelogRepoRef(info: ChangelogInfo): RepoRef {
+  const separator = info.repo.lastIndexOf('/')
+  return {
+    provider: info.provider,
+    owner: info.repo.slice(0, separator),
+    repo: info.repo.slice(separator + 1),
+    host: info.type === 'release' ? info.host : undefined,
+  }
+}
+
+/**
+ * Changelog notes of every version, from the changelog file or the releases.
+ * Drafts and releases of other packages in the same repository are skipped.
+ */
+export async function fetchChangelogSections(
+  info: ChangelogInfo,
+  packageName: string,
+): Promise<ChangelogSection[]> {
+  const ref = getChangelogRepoRef(info)
+
+  if (info.type === 'md') {
+    const markdown = await fetchChangelogFile(ref, info.path)
+    return markdown ? parseChangelogSections(markdown) : []
+  }
+
+  const releases = (await fetchReleases(ref)) ?? []
+  return releases.flatMap(release => {
+    const version = getReleaseVersion(release.tag, packageName)
+    if (!version || !release.markdown || release.draft) {
+      return []
+    }
+    return [
+      {
+        version,
+        ...(release.publishedAt && { date: release.publishedAt.slice(0, 10) }),
+        markdown: release.markdown,
+      },
+    ]
+  })
+}
+
+/** Renderer for markdown of a detected changelog, with links relative to its repository */
+export async function getChangelogRenderer(info: ChangelogInfo) {
+  const ref = getChangelogRepoRef(info)
+  const config = getProviderConfig(ref.provider)!
+  return changelogRenderer({
+    blobBaseUrl: config.getBlobBaseUrl(ref),
+    rawBaseUrl: config.getRawBaseUrl(ref),
+    ...(info.type === 'md' && { path: info.path }),
+  })
+}
+
+/**
+ * Rendered changelog notes of a single version
+ * @returns null if the changelog doesn't list the version
+ */
+export async function getChangelogVersionEntry(
+  info: ChangelogInfo,
+  packageName: string,
+  version: string,
+): Promise<ChangelogVersionEntry | null> {
+  const sections = await fetchChangelogSections(info, packageName)
+  const section = sections.find(s => s.version === version)
+  if (!section) {
+    return null
+  }
+
+  const render = await getChangelogRenderer(info)
+  const { html, toc } = render(section.markdown, `v${section.version}`)
+  return {
+    version: section.version,
+    date: section.date,
+    html,
+    toc,
+    link: info.link,
+  }
+}
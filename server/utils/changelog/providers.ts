@@ -0,0 +1,37 @@
+import type { ProviderId, RepoRef } from '~~/shared/utils/git-providers'
+import { FORGEJO_HOSTS, GITEA_HOSTS, GITLAB_HOSTS } from '~~/shared/utils/git-providers'
+
+/**
+ * Resolves the host to fetch releases from.
+ * Only allowlisted hosts are returned, since the host comes from package metadata or the request.
+ * @returns null for providers without release support or hosts that are not allowed
+ */
+export function getReleaseHost(provider: ProviderId, host?: string): string | null {
+  switch (provider) {
+    case 'github':
+      return 'github.com'
+    case 'gitlab': {
+      const gitlabHost = host ?? 'gitlab.com'
+      return GITLAB_HOSTS.includes(gitlabHost) ? gitlabHost : null
+    }
+    case 'codeberg':
+      return 'codeberg.org'
+    case 'forgejo':
+      return host && FORGEJO_HOSTS.includes(host) ? host : null
+    case 'gitea': {
+      const giteaHost = host ?? 'gitea.com'
+      return GITEA_HOSTS.includes(giteaHost) ? giteaHost : null
+    }
+  }
+  return null
+}
+
+/** URL of the releases page of a repository */
+export function getReleasesPageUrl(ref: RepoRef): string | null {
+  const host = getReleaseHost(ref.provider, ref.host)
+  if (!host) return null
+
+  return ref.provider === 'gitlab'
+    ? `https://${host}/${ref.owner}/${ref.repo}/-/releases`
+    : `https://${host}/${ref.owner}/${ref.repo}/releases`
+}
@@ -0,0 +1,99 @@
+import { valid } from 'semver'
+
+/** Changelog notes of a single version, as markdown */
+export interface ChangelogSection {
+  version: string
+  /** Release date when the changelog lists one, as `YYYY-MM-DD` */
+  date?: string
+  markdown: string
+}
+
+const HEADING_REGEX = /^(#{1,6})[ \t]+(\S.*)$/
+// Headings starting with a version, e.g. "1.0.0", "v1.0.0", "[1.0.0] - 2024-01-01",
+// "[1.0.0](https://github.com/o/r/compare/v0.9.0...v1.0.0) (2024-01-01)" or "@scope/pkg@1.0.0"
+const VERSION_HEADING_REGEX =
+  /^(?:version\s+)?\[?(?:@?[^\s\]@]+@)?v?(\d+\.\d+\.\d+(?:-[\w.-]+)?(?:\+[\w.-]+)?)(?![\w.-])/i
+const DATE_REGEX = /\b(\d{4}-\d{2}-\d{2})\b/
+
+/**
+ * Parses an ATX heading into its depth and text.
+ * The optional closing `#`s are stripped in code rather than in HEADING_REGEX,
+ * where they made the pattern backtrack on lines with long trailing whitespace.
+ */
+export function parseMarkdownHeading(line: string): { depth: number; text: string } | null {
+  const match = line.match(HEADING_REGEX)
+  if (!match) return null
+
+  const text = match[2]!.trimEnd()
+  const withoutClosing = text.replace(/#+$/, '')
+  return {
+    depth: match[1]!.length,
+    text: withoutClosing !== text && /\s$/.test(withoutClosing) ? withoutClosing.trimEnd() : text,
+  }
+}
+
+/**
+ * Extracts the version of a release from its tag.
+ * Monorepo tags like `@scope/pkg@1.0.0` only match when they belong to the package.
+ */
+export function getReleaseVersion(tag: string, packageName: string): string | null {
+  const separator = tag.lastIndexOf('@')
+  if (separator > 0) {
+    return tag.slice(0, separator) === packageName ? valid(tag.slice(separator + 1)) : null
+  }
+  return valid(tag.replace(/^v/i, ''))
+}
+
+/** The version a changelog heading is about, if any */
+export function getHeadingVersion(heading: string): string | null {
+  return valid(heading.match(VERSION_HEADING_REGEX)?.[1] ?? null)
+}
+
+/**
+ * Parses a CHANGELOG.md into the sections of each version.
+ * Supports Keep a Changelog, changesets and standard-version, which lists patch releases
+ * one heading level lower than other releases.
+ *
+ * A section runs until the next version heading or a heading of a higher level,
+ * content before the first version (e.g. "Unreleased") is skipped.
+ */
+export function parseChangelogSections(markdown: string): ChangelogSection[] {
+  const sections: ChangelogSection[] = []
+  let current: { version: string; date?: string; depth: number; lines: string[] } | null = null
+  let inCodeBlock = false
+
+  const close = () => {
+    if (current) {
+      sections.push({
+        version: current.version,
+        ...(current.date && { date: current.date }),
+        markdown: current.lines.join('\n').trim(),
+      })
+      current = null
+    }
+  }
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock
+    }
+    const heading = inCodeBlock ? null : parseMarkdownHeading(line)
+    if (heading) {
+      const { depth, text } = heading
+      const version = getHeadingVersion(text)
+      if (version) {
+        close()
+        current = { version, date: text.match(DATE_REGEX)?.[1], depth, lines: [] }
+        continue
+      }
+      if (current && depth < current.depth) {
+        close()
+        continue
+      }
+    }
+    current?.lines.push(line)
+  }
+  close()
+
+  return sections
+}
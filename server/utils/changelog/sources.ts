@@ -0,0 +1,144 @@
+import type { RepoRef } from '~~/shared/utils/git-providers'
+import {
+  GiteaReleaseCollectionSchema,
+  GithubReleaseCollectionSchama,
+  GitlabReleaseCollectionSchema,
+} from '~~/shared/schemas/changelog/release'
+import * as v from 'valibot'
+import { getReleaseHost } from './providers'
+
+/** A release as published on the git provider, before rendering */
+export interface RawRelease {
+  id: string | number
+  tag: string
+  title: string
+  markdown: string | null
+  draft?: boolean
+  prerelease?: boolean
+  publishedAt?: string
+}
+
+const FETCH_HEADERS = {
+  'Accept': 'application/json',
+  'User-Agent': 'npmx.dev',
+}
+
+/** Upper bound on release pages fetched from paginated APIs */
+const MAX_RELEASE_PAGES = 10
+
+/** The `rel="next"` URL of a `Link` header, if any */
+function getNextPageUrl(link: string | null): string | null {
+  for (const part of link?.split(',') ?? []) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/)
+    if (match) return match[1]!
+  }
+  return null
+}
+
+/**
+ * Fetches every page of a paginated list endpoint by following its `Link` headers,
+ * up to MAX_RELEASE_PAGES. Only pages on the same host as the first one are followed.
+ */
+async function fetchAllPages(url: string): Promise<unknown[]> {
+  const { host } = new URL(url)
+  const items: unknown[] = []
+  let next: string | null = url
+
+  for (let page = 0; next && page < MAX_RELEASE_PAGES; page++) {
+    const response = await $fetch.raw(next, { headers: FETCH_HEADERS })
+    const data: unknown = response._data
+    if (!Array.isArray(data)) break
+    items.push(...data)
+
+    const link = getNextPageUrl(response.headers.get('link'))
+    const nextUrl = link ? new URL(link, url) : null
+    next = nextUrl?.host === host ? nextUrl.toString() : null
+  }
+
+  return items
+}
+
+/**
+ * Fetches the releases of a repository
+ * @returns null if the provider or host doesn't support releases
+ */
+export async function fetchReleases(ref: RepoRef): Promise<RawRelease[] | null> {
+  const host = getReleaseHost(ref.provider, ref.host)
+  if (!host) {
+    return null
+  }
+
+  switch (ref.provider) {
+    case 'github': {
+      const data = await $fetch(`https://ungh.cc/repos/${ref.owner}/${ref.repo}/releases`, {
+        headers: {
+          'Accept': '*/*',
+          'User-Agent': 'npmx.dev',
+        },
+      })
+      const { releases } = v.parse(GithubReleaseCollectionSchama, data)
+      return releases.map(r => ({
+        id: r.id,
+        tag: r.tag,
+        title: r.name || r.tag,
+        markdown: r.markdown,
+        draft: r.draft,
+        prerelease: r.prerelease,
+        publishedAt: r.publishedAt,
+      }))
+    }
+
+    case 'gitlab': {
+      // GitLab identifies projects by their URL-encoded path
+      const projectId = encodeURIComponent(`${ref.owner}/${ref.repo}`)
+      const data = await fetchAllPages(
+        `https://${host}/api/v4/projects/${projectId}/releases?per_page=100`,
+      )
+      return v
+        .parse(GitlabReleaseCollectionSchema, data)
+        .filter(r => !r.upcoming_release)
+        .map(r => ({
+          id: r.tag_name,
+          tag: r.tag_name,
+          title: r.name || r.tag_name,
+          markdown: r.description ?? null,
+          publishedAt: r.released_at ?? undefined,
+        }))
+    }
+
+    case 'codeberg':
+    case 'forgejo':
+    case 'gitea': {
+      // Gitea caps page sizes at 50 by default
+      const data = await fetchAllPages(
+        `https://${host}/api/v1/repos/${ref.owner}/${ref.repo}/releases?limit=50`,
+      )
+      return v.parse(GiteaReleaseCollectionSchema, data).map(r => ({
+        id: r.id,
+        tag: r.tag_name,
+        title: r.name || r.tag_name,
+        markdown: r.body ?? null,
+        draft: r.draft,
+        prerelease: r.prerelease,
+        publishedAt: r.published_at ?? undefined,
+      }))
+    }
+  }
+
+  return null
+}
+
+/**
+ * Fetches a markdown file from a repository
+ * @returns null if the provider isn't supported
+ */
+export async function fetchChangelogFile(ref: RepoRef, path: string): Promise<string | null> {
+  switch (ref.provider) {
+    case 'github': {
+      const data = await $fetch(`https://ungh.cc/repos/${ref.owner}/${ref.repo}/files/HEAD/${path}`)
+      return v.parse(v.string(), data)
+    }
+  }
+
+  return null
+}
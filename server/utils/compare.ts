@@ -135,6 +135,23 @@ export function compareFileTrees(
   return { added, removed, modified, truncated }
 }
 
+/** Best-effort semver diff type between two versions */
+function getSemverDiffType(from: string, to: string): DependencyChange['semverDiff'] {
+  try {
+    const diffResult = semverDiff(from, to)
+    if (!diffResult) return null
+    if (diffResult === 'premajor' || diffResult === 'preminor' || diffResult === 'prepatch') {
+      return 'prerelease'
+    }
+    if (['major', 'minor', 'patch', 'prerelease'].includes(diffResult)) {
+      return diffResult as 'major' | 'minor' | 'patch' | 'prerelease'
+    }
+  } catch {
+    // Invalid semver, ignore
+  }
+  return null
+}
+
 /** Compare dependencies between two package.json files */
 export function compareDependencies(
   fromPkg: Record<string, unknown> | null,
@@ -165,29 +182,14 @@ export function compareDependencies(
       else if (!toVersion) type = 'removed'
       else type = 'updated'
 
-      let semverDiffType: DependencyChange['semverDiff'] = null
-      if (type === 'updated' && fromVersion && toVersion) {
-        // Try to compute semver diff
-        try {
-          // Strip ^ ~ >= etc for comparison
-          const cleanFrom = fromVersion.replace(/^[\^~>=<]+/, '')
-          const cleanTo = toVersion.replace(/^[\^~>=<]+/, '')
-          const diffResult = semverDiff(cleanFrom, cleanTo)
-          if (diffResult) {
-            if (
-              diffResult === 'premajor' ||
-              diffResult === 'preminor' ||
-              diffResult === 'prepatch'
-            ) {
-              semverDiffType = 'prerelease'
-            } else if (['major', 'minor', 'patch', 'prerelease'].includes(diffResult)) {
-              semverDiffType = diffResult as 'major' | 'minor' | 'patch' | 'prerelease'
-            }
-          }
-        } catch {
-          // Invalid semver, ignore
-        }
-      }
+      const semverDiffType =
+        type === 'updated' && fromVersion && toVersion
+          ? getSemverDiffType(
+              // Strip ^ ~ >= etc for comparison
+              fromVersion.replace(/^[\^~>=<]+/, ''),
+              toVersion.replace(/^[\^~>=<]+/, ''),
+            )
+          : null
 
       changes.push({
         name,
@@ -211,6 +213,71 @@ export function compareDependencies(
   return changes
 }
 
+/**
+ * Compare the resolved dependency trees of two versions.
+ * Trees hold one version per package name, so a package is either added, removed or updated.
+ */
+export function compareDependencyTrees(
+  fromDeps: DependencySize[],
+  toDeps: DependencySize[],
+): DependencyTreeChange[] {
+  const fromByName = new Map(fromDeps.map(dep => [dep.name, dep]))
+  const toByName = new Map(toDeps.map(dep => [dep.name, dep]))
+  const allNames = new Set([...fromByName.keys(), ...toByName.keys()])
+
+  const changes: DependencyTreeChange[] = []
+  for (const name of allNames) {
+    const fromDep = fromByName.get(name)
+    const toDep = toByName.get(name)
+
+    if (fromDep && toDep && fromDep.version === toDep.version) continue
+
+    changes.push({
+      name,
+      from: fromDep?.version ?? null,
+      to: toDep?.version ?? null,
+      type: !fromDep ? 'added' : !toDep ? 'removed' : 'updated',
+      semverDiff:
+        fromDep && toDep ? (getSemverDiffType(fromDep.version, toDep.version) ?? null) : null,
+      sizeDelta: (toDep?.size ?? 0) - (fromDep?.size ?? 0),
+    })
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Find vulnerabilities reported for the "to" tree that were not reported for the same
+ * package in the "from" tree. Upgrading a package that stays vulnerable to the same
+ * advisory does not count as introducing it.
+ */
+export function getNewVulnerabilities(
+  fromPackages: PackageVulnerabilityInfo[],
+  toPackages: PackageVulnerabilityInfo[],
+): PackageVulnerabilityInfo[] {
+  const knownIds = new Map<string, Set<string>>()
+  for (const pkg of fromPackages) {
+    const ids = knownIds.get(pkg.name) ?? new Set<string>()
+    for (const vuln of pkg.vulnerabilities) ids.add(vuln.id)
+    knownIds.set(pkg.name, ids)
+  }
+
+  const result: PackageVulnerabilityInfo[] = []
+  for (const pkg of toPackages) {
+    const known = knownIds.get(pkg.name)
+    const vulnerabilities = pkg.vulnerabilities.filter(vuln => !known?.has(vuln.id))
+    if (vulnerabilities.length === 0) continue
+
+    const counts = { total: vulnerabilities.length, critical: 0, high: 0, moderate: 0, low: 0 }
+    for (const vuln of vulnerabilities) {
+      if (vuln.severity !== 'unknown') counts[vuln.severity]++
+    }
+    result.push({ ...pkg, vulnerabilities, counts })
+  }
+
+  return result
+}
+
 /** Count total files in a tree */
 export function countFiles(tree: PackageFileTree[]): number {
   let count = 0
@@ -10,14 +10,28 @@ import type {
   DeprecatedPackageInfo,
   OsvAffected,
   OsvRange,
+  LockfileAuditResult,
 } from '#shared/types/dependency-analysis'
+import type { DependencySize } from '#shared/types/install-size'
 import { mapWithConcurrency } from '#shared/utils/async'
-import { resolveDependencyTree } from './dependency-resolver'
+import { getDuplicatesReport } from '#shared/utils/dependency-graph'
+import { hash } from 'ohash'
+import type { PinnedPackage, ResolvedPackage } from './dependency-resolver'
+import { DEFAULT_TARGET_PLATFORM, getTargetPlatformKey } from '#shared/utils/target-platform'
+import type { TargetPlatform } from '#shared/utils/target-platform'
+import {
+  resolveDependencyGraph,
+  resolveDependencyTree,
+  resolvePinnedPackages,
+} from './dependency-resolver'
 import * as semver from 'semver'
 
 /** Maximum concurrent requests for fetching vulnerability details */
 const OSV_DETAIL_CONCURRENCY = 25
 
+/** Maximum number of queries accepted by a single OSV batch request */
+const OSV_BATCH_SIZE = 1000
+
 /** Package info needed for OSV queries */
 interface PackageQueryInfo {
   name: string
@@ -29,6 +43,7 @@ interface PackageQueryInfo {
 /**
  * Query OSV batch API to find which packages have vulnerabilities.
  * Returns indices of packages that have vulnerabilities (for follow-up detailed queries).
+ * Large package lists are split into chunks to stay within the API's per-request limit.
  * @see https://google.github.io/osv.dev/post-v1-querybatch/
  */
 async function queryOsvBatch(
@@ -37,31 +52,36 @@ async function queryOsvBatch(
   if (packages.length === 0) return { vulnerableIndices: [], failed: false }
 
   try {
-    const response = await $fetch<OsvBatchResponse>('https://api.osv.dev/v1/querybatch', {
-      method: 'POST',
-      body: {
-        queries: packages.map(pkg => ({
-          package: { name: pkg.name, ecosystem: 'npm' },
-          version: pkg.version,
-        })),
-      },
-    })
-
     // Find indices of packages that have vulnerabilities
     const vulnerableIndices: number[] = []
-    for (let i = 0; i < response.results.length; i++) {
-      const result = response.results[i]
-      if (result?.vulns && result.vulns.length > 0) {
-        vulnerableIndices.push(i)
-      }
-      // Warn if pagination token present (>1000 vulns for single query or >3000 total)
-      // This is extremely unlikely for npm packages but log for visibility
-      if (result?.next_page_token) {
-        // oxlint-disable-next-line no-console -- warn about paginated results
-        console.warn(
-          `[dep-analysis] OSV batch result has pagination token for package index ${i} ` +
-            `(${packages[i]?.name}@${packages[i]?.version}) - some vulnerabilities may be missing`,
-        )
+
+    for (let offset = 0; offset < packages.length; offset += OSV_BATCH_SIZE) {
+      const chunk = packages.slice(offset, offset + OSV_BATCH_SIZE)
+      const response = await $fetch<OsvBatchResponse>('https://api.osv.dev/v1/querybatch', {
+        method: 'POST',
+        body: {
+          queries: chunk.map(pkg => ({
+            package: { name: pkg.name, ecosystem: 'npm' },
+            version: pkg.version,
+          })),
+        },
+      })
+
+      for (let i = 0; i < response.results.length; i++) {
+        const result = response.results[i]
+        const index = offset + i
+        if (result?.vulns && result.vulns.length > 0) {
+          vulnerableIndices.push(index)
+        }
+        // Warn if pagination token present (>1000 vulns for single query or >3000 total)
+        // This is extremely unlikely for npm packages but log for visibility
+        if (result?.next_page_token) {
+          // oxlint-disable-next-line no-console -- warn about paginated results
+          console.warn(
+            `[dep-analysis] OSV batch result has pagination token for package index ${index} ` +
+              `(${packages[index]?.name}@${packages[index]?.version}) - some vulnerabilities may be missing`,
+          )
+        }
       }
     }
 
@@ -255,107 +275,190 @@ function getSeverityLevel(vuln: OsvVulnerability): OsvSeverityLevel {
   return 'unknown'
 }
 
+/** Sort order for dependency depth (root → direct → transitive) */
+const DEPTH_ORDER: Record<DependencyDepth, number> = { root: 0, direct: 1, transitive: 2 }
+
+/** Result of scanning a set of resolved packages, without the root package identity */
+type ResolvedPackagesScan = Omit<VulnerabilityTreeResult, 'package' | 'version' | 'duplicates'> & {
+  /** True if the OSV batch query failed entirely */
+  batchFailed: boolean
+}
+
 /**
- * Analyze entire dependency tree for vulnerabilities and deprecated packages.
+ * Scan an already-resolved set of packages for vulnerabilities and deprecations.
  * Uses OSV batch API for efficient vulnerability discovery, then fetches
  * full details only for packages with known vulnerabilities.
  */
-export const analyzeDependencyTree = defineCachedFunction(
-  async (name: string, version: string): Promise<VulnerabilityTreeResult> => {
-    // Resolve all packages in the tree with depth tracking
-    const resolved = await resolveDependencyTree(name, version, { trackDepth: true })
-
-    // Convert to array with query info
-    const packages: PackageQueryInfo[] = Array.from(resolved.values(), pkg => ({
+async function scanResolvedPackages(
+  resolved: Map<string, ResolvedPackage>,
+): Promise<ResolvedPackagesScan> {
+  // Convert to array with query info
+  const packages: PackageQueryInfo[] = Array.from(resolved.values(), pkg => ({
+    name: pkg.name,
+    version: pkg.version,
+    depth: pkg.depth!,
+    path: pkg.path || [],
+  }))
+
+  // Collect deprecated packages (no API call needed - already in packument data)
+  const deprecatedPackages: DeprecatedPackageInfo[] = [...resolved.values()]
+    .filter(pkg => pkg.deprecated)
+    .map(pkg => ({
       name: pkg.name,
       version: pkg.version,
       depth: pkg.depth!,
       path: pkg.path || [],
+      message: pkg.deprecated!,
     }))
+    // Sort by depth (root → direct → transitive)
+    .sort((a, b) => DEPTH_ORDER[a.depth] - DEPTH_ORDER[b.depth])
+
+  // Step 1: Use batch API to find which packages have vulnerabilities
+  // This is much faster than individual queries - one request for all packages
+  const { vulnerableIndices, failed: batchFailed } = await queryOsvBatch(packages)
+
+  let vulnerablePackages: PackageVulnerabilityInfo[] = []
+  let failedQueries = batchFailed ? packages.length : 0
+
+  if (!batchFailed && vulnerableIndices.length > 0) {
+    // Step 2: Fetch full vulnerability details only for packages with vulns
+    // This is typically a small fraction of total packages
+    const detailResults = await mapWithConcurrency(
+      vulnerableIndices,
+      i => queryOsvDetails(packages[i]!),
+      OSV_DETAIL_CONCURRENCY,
+    )
 
-    // Collect deprecated packages (no API call needed - already in packument data)
-    const deprecatedPackages: DeprecatedPackageInfo[] = [...resolved.values()]
-      .filter(pkg => pkg.deprecated)
-      .map(pkg => ({
-        name: pkg.name,
-        version: pkg.version,
-        depth: pkg.depth!,
-        path: pkg.path || [],
-        message: pkg.deprecated!,
-      }))
-      .sort((a, b) => {
-        // Sort by depth (root → direct → transitive)
-        const depthOrder: Record<DependencyDepth, number> = { root: 0, direct: 1, transitive: 2 }
-        return depthOrder[a.depth] - depthOrder[b.depth]
-      })
-
-    // Step 1: Use batch API to find which packages have vulnerabilities
-    // This is much faster than individual queries - one request for all packages
-    const { vulnerableIndices, failed: batchFailed } = await queryOsvBatch(packages)
-
-    let vulnerablePackages: PackageVulnerabilityInfo[] = []
-    let failedQueries = batchFailed ? packages.length : 0
-
-    if (!batchFailed && vulnerableIndices.length > 0) {
-      // Step 2: Fetch full vulnerability details only for packages with vulns
-      // This is typically a small fraction of total packages
-      const detailResults = await mapWithConcurrency(
-        vulnerableIndices,
-        i => queryOsvDetails(packages[i]!),
-        OSV_DETAIL_CONCURRENCY,
-      )
-
-      for (const result of detailResults) {
-        if (result) {
-          vulnerablePackages.push(result)
-        } else {
-          failedQueries++
-        }
+    for (const result of detailResults) {
+      if (result) {
+        vulnerablePackages.push(result)
+      } else {
+        failedQueries++
       }
     }
+  }
 
-    // Sort by depth (root → direct → transitive), then by severity
-    const depthOrder: Record<DependencyDepth, number> = { root: 0, direct: 1, transitive: 2 }
-    vulnerablePackages.sort((a, b) => {
-      if (a.depth !== b.depth) return depthOrder[a.depth] - depthOrder[b.depth]
-      if (a.counts.critical !== b.counts.critical) return b.counts.critical - a.counts.critical
-      if (a.counts.high !== b.counts.high) return b.counts.high - a.counts.high
-      if (a.counts.moderate !== b.counts.moderate) return b.counts.moderate - a.counts.moderate
-      return b.counts.total - a.counts.total
-    })
+  // Sort by depth (root → direct → transitive), then by severity
+  vulnerablePackages.sort((a, b) => {
+    if (a.depth !== b.depth) return DEPTH_ORDER[a.depth] - DEPTH_ORDER[b.depth]
+    if (a.counts.critical !== b.counts.critical) return b.counts.critical - a.counts.critical
+    if (a.counts.high !== b.counts.high) return b.counts.high - a.counts.high
+    if (a.counts.moderate !== b.counts.moderate) return b.counts.moderate - a.counts.moderate
+    return b.counts.total - a.counts.total
+  })
+
+  // Aggregate total counts
+  const totalCounts = { total: 0, critical: 0, high: 0, moderate: 0, low: 0 }
+  for (const pkg of vulnerablePackages) {
+    totalCounts.total += pkg.counts.total
+    totalCounts.critical += pkg.counts.critical
+    totalCounts.high += pkg.counts.high
+    totalCounts.moderate += pkg.counts.moderate
+    totalCounts.low += pkg.counts.low
+  }
 
-    // Aggregate total counts
-    const totalCounts = { total: 0, critical: 0, high: 0, moderate: 0, low: 0 }
-    for (const pkg of vulnerablePackages) {
-      totalCounts.total += pkg.counts.total
-      totalCounts.critical += pkg.counts.critical
-      totalCounts.high += pkg.counts.high
-      totalCounts.moderate += pkg.counts.moderate
-      totalCounts.low += pkg.counts.low
-    }
+  return {
+    vulnerablePackages,
+    deprecatedPackages,
+    totalPackages: packages.length,
+    failedQueries,
+    totalCounts,
+    batchFailed,
+  }
+}
+
+/**
+ * Analyze entire dependency tree for vulnerabilities, deprecated and duplicated packages.
+ * Resolves the tree from the root package for the given platform, then scans every
+ * resolved package. Duplicates come from the full graph, which keeps every resolved
+ * version of a package rather than one per name. The graph is capped at a number of
+ * nodes, so it is only used for the duplicates report, never for the scan.
+ */
+export const analyzeDependencyTree = defineCachedFunction(
+  async (
+    name: string,
+    version: string,
+    platform: TargetPlatform = DEFAULT_TARGET_PLATFORM,
+  ): Promise<VulnerabilityTreeResult> => {
+    // Resolve all packages in the tree with depth tracking
+    const [resolved, graph] = await Promise.all([
+      resolveDependencyTree(name, version, { trackDepth: true, platform }),
+      resolveDependencyGraph(name, version, { platform }),
+    ])
+
+    const { batchFailed, ...scan } = await scanResolvedPackages(resolved)
 
     // Log if batch query failed entirely
     if (batchFailed) {
       // oxlint-disable-next-line no-console -- critical error logging
       console.error(
-        `[dep-analysis] Critical: OSV batch query failed for ${name}@${version} (${packages.length} packages)`,
+        `[dep-analysis] Critical: OSV batch query failed for ${name}@${version} (${scan.totalPackages} packages)`,
       )
     }
 
     return {
       package: name,
       version,
-      vulnerablePackages,
-      deprecatedPackages,
-      totalPackages: packages.length,
-      failedQueries,
-      totalCounts,
+      ...scan,
+      duplicates: getDuplicatesReport({ nodes: Object.fromEntries(graph.nodes) }),
     }
   },
   {
     maxAge: 60 * 60,
     swr: true,
     name: 'dependency-analysis',
-    getKey: (name: string, version: string) => `v2:${name}@${version}`,
+    getKey: (name: string, version: string, platform: TargetPlatform = DEFAULT_TARGET_PLATFORM) =>
+      `v6:${name}@${version}:${getTargetPlatformKey(platform)}`,
+  },
+)
+
+/**
+ * Analyze an exact, already-resolved package list (e.g. parsed from a lockfile).
+ * Produces the same vulnerability and deprecation report as `analyzeDependencyTree`,
+ * plus install size, without re-resolving anything from a root package.
+ */
+export const analyzePinnedPackages = defineCachedFunction(
+  async (packages: PinnedPackage[]): Promise<LockfileAuditResult> => {
+    const resolved = await resolvePinnedPackages(packages)
+
+    const { batchFailed, ...scan } = await scanResolvedPackages(resolved)
+
+    if (batchFailed) {
+      // oxlint-disable-next-line no-console -- critical error logging
+      console.error(
+        `[dep-analysis] Critical: OSV batch query failed for lockfile audit (${scan.totalPackages} packages)`,
+      )
+    }
+
+    const dependencies: DependencySize[] = []
+    let totalSize = 0
+    for (const pkg of resolved.values()) {
+      dependencies.push({
+        name: pkg.name,
+        version: pkg.version,
+        size: pkg.size,
+        tarballUrl: pkg.tarballUrl,
+      })
+      totalSize += pkg.size
+    }
+    // Sort by size descending
+    dependencies.sort((a, b) => b.size - a.size)
+
+    const missingPackages = packages
+      .map(pkg => `${pkg.name}@${pkg.version}`)
+      .filter(key => !resolved.has(key))
+
+    return {
+      ...scan,
+      totalSize,
+      dependencies,
+      missingPackages,
+    }
+  },
+  {
+    maxAge: 60 * 60,
+    swr: true,
+    name: 'lockfile-audit',
+    getKey: (packages: PinnedPackage[]) => `v1:${hash(packages)}`,
   },
 )
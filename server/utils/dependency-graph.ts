@@ -0,0 +1,46 @@
+import type { TargetPlatform } from '#shared/utils/target-platform'
+
+/**
+ * Build the resolved dependency graph for a package version.
+ *
+ * Every declared range is resolved independently, so packages that are required at
+ * several versions show up once per version, as they would in a non-deduplicated install.
+ */
+export const buildDependencyGraph = defineCachedFunction(
+  async (
+    name: string,
+    version: string,
+    platform: TargetPlatform = TARGET_PLATFORM,
+  ): Promise<DependencyGraphResult> => {
+    const { root, nodes, truncated } = await resolveDependencyGraph(name, version, { platform })
+    if (!root) {
+      throw createError({
+        statusCode: 404,
+        message: `Package ${name}@${version} not found`,
+      })
+    }
+
+    let totalSize = 0
+    for (const node of nodes.values()) {
+      totalSize += node.size
+    }
+
+    return {
+      package: name,
+      version,
+      platform: getTargetPlatformKey(platform),
+      root,
+      nodes: Object.fromEntries(nodes),
+      totalSize,
+      truncated,
+    }
+  },
+  {
+    // Cache for 1 hour - dependency resolutions can change with new releases
+    maxAge: 60 * 60,
+    swr: true,
+    name: 'dependency-graph',
+    getKey: (name: string, version: string, platform: TargetPlatform = TARGET_PLATFORM) =>
+      `v2:${name}@${version}:${getTargetPlatformKey(platform)}`,
+  },
+)
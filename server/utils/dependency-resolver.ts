@@ -1,18 +1,17 @@
 import { mapWithConcurrency } from '#shared/utils/async'
+import { normalizeLicense } from '#shared/utils/npm'
+import type { TargetPlatform } from '#shared/utils/target-platform'
+import { DEFAULT_TARGET_PLATFORM } from '#shared/utils/target-platform'
 import { maxSatisfying } from 'semver'
 
 /** Concurrency limit for fetching packuments during dependency resolution */
 const PACKUMENT_FETCH_CONCURRENCY = 20
 
 /**
- * Target platform for dependency resolution.
- * We resolve for linux-x64 with glibc as a representative platform.
+ * Default target platform for dependency resolution.
+ * We resolve for linux-x64 with glibc as a representative platform unless another is requested.
  */
-export const TARGET_PLATFORM = {
-  os: 'linux',
-  cpu: 'x64',
-  libc: 'glibc',
-}
+export const TARGET_PLATFORM: Readonly<TargetPlatform> = DEFAULT_TARGET_PLATFORM
 
 /**
  * Fetch packument with caching (returns null on error for tree traversal).
@@ -32,21 +31,24 @@ async function fetchPackument(name: string): Promise<Packument | null> {
 
 /**
  * Check if a package version matches the target platform.
- * Returns false if the package explicitly excludes our target platform.
+ * Returns false if the package explicitly excludes the platform.
  */
-export function matchesPlatform(version: PackumentVersion): boolean {
+export function matchesPlatform(
+  version: PackumentVersion,
+  platform: TargetPlatform = TARGET_PLATFORM,
+): boolean {
   if (version.os && Array.isArray(version.os) && version.os.length > 0) {
     const osMatch = version.os.some(os => {
-      if (os.startsWith('!')) return os.slice(1) !== TARGET_PLATFORM.os
-      return os === TARGET_PLATFORM.os
+      if (os.startsWith('!')) return os.slice(1) !== platform.os
+      return os === platform.os
     })
     if (!osMatch) return false
   }
 
   if (version.cpu && Array.isArray(version.cpu) && version.cpu.length > 0) {
     const cpuMatch = version.cpu.some(cpu => {
-      if (cpu.startsWith('!')) return cpu.slice(1) !== TARGET_PLATFORM.cpu
-      return cpu === TARGET_PLATFORM.cpu
+      if (cpu.startsWith('!')) return cpu.slice(1) !== platform.cpu
+      return cpu === platform.cpu
     })
     if (!cpuMatch) return false
   }
@@ -54,8 +56,8 @@ export function matchesPlatform(version: PackumentVersion): boolean {
   const libc = (version as { libc?: string[] }).libc
   if (libc && Array.isArray(libc) && libc.length > 0) {
     const libcMatch = libc.some(l => {
-      if (l.startsWith('!')) return l.slice(1) !== TARGET_PLATFORM.libc
-      return l === TARGET_PLATFORM.libc
+      if (l.startsWith('!')) return l.slice(1) !== platform.libc
+      return l === platform.libc
     })
     if (!libcMatch) return false
   }
@@ -115,8 +117,9 @@ export interface ResolvedPackage {
 export async function resolveDependencyTree(
   rootName: string,
   rootVersion: string,
-  options: { trackDepth?: boolean } = {},
+  options: { trackDepth?: boolean; platform?: TargetPlatform } = {},
 ): Promise<Map<string, ResolvedPackage>> {
+  const platform = options.platform ?? TARGET_PLATFORM
   const resolved = new Map<string, ResolvedPackage>()
   const seen = new Set<string>()
 
@@ -150,7 +153,7 @@ export async function resolveDependencyTree(
         const versionData = packument.versions[version]
         if (!versionData) return
 
-        if (!matchesPlatform(versionData)) return
+        if (!matchesPlatform(versionData, platform)) return
 
         const size = (versionData.dist as { unpackedSize?: number })?.unpackedSize ?? 0
         const tarballUrl = versionData.dist?.tarball ?? ''
@@ -198,3 +201,201 @@ export async function resolveDependencyTree(
 
   return resolved
 }
+
+/** Upper bound on graph nodes, to keep pathological trees from exhausting memory */
+export const MAX_GRAPH_NODES = 5000
+
+/** Resolved dependency graph, keyed by `name@version` */
+export interface ResolvedDependencyGraph {
+  /** Key of the root node, or `null` if the root could not be resolved */
+  root: string | null
+  nodes: Map<string, DependencyGraphNode>
+  /** True if resolution stopped at MAX_GRAPH_NODES */
+  truncated: boolean
+}
+
+function createGraphNode(
+  name: string,
+  version: string,
+  data: PackumentVersion,
+): DependencyGraphNode {
+  const node: DependencyGraphNode = {
+    name,
+    version,
+    size: (data.dist as { unpackedSize?: number })?.unpackedSize ?? 0,
+    dependencies: [],
+  }
+  const license = normalizeLicense(data.license as PackumentLicense | undefined)
+  if (license) node.license = license
+  if (data.deprecated) node.deprecated = data.deprecated
+  return node
+}
+
+/**
+ * Resolve the full dependency graph for a package.
+ *
+ * Unlike resolveDependencyTree, which keeps a single version per package name, every
+ * declared range is resolved on its own. The same package can therefore appear at
+ * several versions, and every node records the edges to the nodes its ranges resolved to.
+ */
+export async function resolveDependencyGraph(
+  rootName: string,
+  rootVersion: string,
+  options: { platform?: TargetPlatform } = {},
+): Promise<ResolvedDependencyGraph> {
+  const platform = options.platform ?? TARGET_PLATFORM
+  const nodes = new Map<string, DependencyGraphNode>()
+  const graph: ResolvedDependencyGraph = { root: null, nodes, truncated: false }
+
+  const rootPackument = await fetchPackument(rootName)
+  const resolvedRootVersion =
+    rootPackument && resolveVersion(rootVersion, Object.keys(rootPackument.versions))
+  const rootData = resolvedRootVersion && rootPackument?.versions[resolvedRootVersion]
+  if (!resolvedRootVersion || !rootData) return graph
+
+  graph.root = `${rootName}@${resolvedRootVersion}`
+  nodes.set(graph.root, createGraphNode(rootName, resolvedRootVersion, rootData))
+
+  // Process level by level; each node's edges are resolved once, when it is first reached
+  let currentLevel: Array<{ key: string; data: PackumentVersion }> = [
+    { key: graph.root, data: rootData },
+  ]
+
+  while (currentLevel.length > 0) {
+    const edges: DependencyGraphEdge[] = []
+    for (const { key, data } of currentLevel) {
+      const parent = nodes.get(key)!
+      const declared = [
+        ...Object.entries(data.dependencies ?? {}).map(([name, range]) => ({
+          name,
+          range,
+          optional: false,
+        })),
+        ...Object.entries(data.optionalDependencies ?? {}).map(([name, range]) => ({
+          name,
+          range,
+          optional: true,
+        })),
+      ]
+      for (const dep of declared) {
+        const edge: DependencyGraphEdge = { ...dep, target: null }
+        parent.dependencies.push(edge)
+        edges.push(edge)
+      }
+    }
+
+    // Fetch each packument once per level
+    const names = [...new Set(edges.map(edge => edge.name))]
+    const packuments = new Map<string, Packument | null>()
+    await mapWithConcurrency(
+      names,
+      async name => {
+        packuments.set(name, await fetchPackument(name))
+      },
+      PACKUMENT_FETCH_CONCURRENCY,
+    )
+
+    const nextLevel: Array<{ key: string; data: PackumentVersion }> = []
+    for (const edge of edges) {
+      const packument = packuments.get(edge.name)
+      if (!packument) continue
+
+      const version = resolveVersion(edge.range, Object.keys(packument.versions))
+      const versionData = version ? packument.versions[version] : undefined
+      if (!version || !versionData || !matchesPlatform(versionData, platform)) continue
+
+      const key = `${edge.name}@${version}`
+      if (!nodes.has(key)) {
+        if (nodes.size >= MAX_GRAPH_NODES) {
+          graph.truncated = true
+          continue
+        }
+        nodes.set(key, createGraphNode(edge.name, version, versionData))
+        nextLevel.push({ key, data: versionData })
+      }
+      edge.target = key
+    }
+
+    for (const { key } of currentLevel) {
+      const parent = nodes.get(key)!
+      parent.dependencies = dedupeGraphEdges(parent.dependencies)
+    }
+
+    currentLevel = nextLevel
+  }
+
+  return graph
+}
+
+/**
+ * Keep one edge per target, e.g. for a package listed in both `dependencies` and
+ * `optionalDependencies`. A non-optional edge wins, as the dependency is then required.
+ */
+function dedupeGraphEdges(edges: DependencyGraphEdge[]): DependencyGraphEdge[] {
+  const byTarget = new Map<string, DependencyGraphEdge>()
+  for (const edge of edges) {
+    // Unresolved edges have no target, so they are told apart by their declaration
+    const key = edge.target ?? `${edge.name}@${edge.range}`
+    const existing = byTarget.get(key)
+    if (!existing || (existing.optional && !edge.optional)) byTarget.set(key, edge)
+  }
+  return [...byTarget.values()]
+}
+
+/** A package pinned to an exact version, e.g. from a lockfile */
+export interface PinnedPackage {
+  name: string
+  version: string
+  /** True if the package is a direct dependency of the project */
+  direct?: boolean
+}
+
+/**
+ * Resolve a flat list of exact `name@version` pairs without walking their dependencies.
+ * Used when the tree has already been resolved elsewhere (e.g. an uploaded lockfile).
+ * Packages that cannot be found on the registry are omitted from the result.
+ */
+export async function resolvePinnedPackages(
+  packages: PinnedPackage[],
+): Promise<Map<string, ResolvedPackage>> {
+  const resolved = new Map<string, ResolvedPackage>()
+
+  // Group by name so each packument is fetched once
+  const byName = new Map<string, PinnedPackage[]>()
+  for (const pkg of packages) {
+    const group = byName.get(pkg.name)
+    if (group) group.push(pkg)
+    else byName.set(pkg.name, [pkg])
+  }
+
+  await mapWithConcurrency(
+    [...byName.entries()],
+    async ([name, pinned]) => {
+      const packument = await fetchPackument(name)
+      if (!packument) return
+
+      for (const { version, direct } of pinned) {
+        const versionData = packument.versions[version]
+        if (!versionData) continue
+
+        const key = `${name}@${version}`
+        const pkg: ResolvedPackage = {
+          name,
+          version,
+          size: (versionData.dist as { unpackedSize?: number })?.unpackedSize ?? 0,
+          tarballUrl: versionData.dist?.tarball ?? '',
+          optional: false,
+          depth: direct ? 'direct' : 'transitive',
+          path: [key],
+        }
+        if (versionData.deprecated) {
+          pkg.deprecated = versionData.deprecated
+        }
+        resolved.set(key, pkg)
+      }
+    },
+    PACKUMENT_FETCH_CONCURRENCY,
+  )
+
+  return resolved
+}
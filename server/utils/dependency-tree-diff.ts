@@ -0,0 +1,61 @@
+import type { TargetPlatform } from '#shared/utils/target-platform'
+
+/**
+ * Compare the fully resolved dependency trees of two versions of a package.
+ *
+ * Unlike `compareDependencies`, which only looks at the declared direct dependencies,
+ * this reports every transitive package that was added, removed or changed version,
+ * along with the install size delta and vulnerabilities the upgrade introduces.
+ */
+export const buildDependencyTreeDiff = defineCachedFunction(
+  async (
+    name: string,
+    from: string,
+    to: string,
+    platform: TargetPlatform = TARGET_PLATFORM,
+  ): Promise<DependencyTreeDiffResponse> => {
+    const [fromSize, toSize, fromAnalysis, toAnalysis] = await Promise.all([
+      calculateInstallSize(name, from, platform),
+      calculateInstallSize(name, to, platform),
+      analyzeDependencyTree(name, from, platform),
+      analyzeDependencyTree(name, to, platform),
+    ])
+
+    const newVulnerabilities = getNewVulnerabilities(
+      fromAnalysis.vulnerablePackages,
+      toAnalysis.vulnerablePackages,
+    )
+    // Vulnerabilities only the "from" tree was affected by are the ones the upgrade fixes
+    const fixedVulnerabilities = getNewVulnerabilities(
+      toAnalysis.vulnerablePackages,
+      fromAnalysis.vulnerablePackages,
+    )
+
+    return {
+      package: name,
+      from,
+      to,
+      platform: getTargetPlatformKey(platform),
+      changes: compareDependencyTrees(fromSize.dependencies, toSize.dependencies),
+      installSize: {
+        from: fromSize.totalSize,
+        to: toSize.totalSize,
+        delta: toSize.totalSize - fromSize.totalSize,
+      },
+      dependencyCount: {
+        from: fromSize.dependencyCount,
+        to: toSize.dependencyCount,
+      },
+      newVulnerabilities,
+      fixedVulnerabilityCount: fixedVulnerabilities.reduce((sum, pkg) => sum + pkg.counts.total, 0),
+    }
+  },
+  {
+    // Cache for 1 hour - dependency resolutions can change with new releases
+    maxAge: 60 * 60,
+    swr: true,
+    name: 'dependency-tree-diff',
+    getKey: (name: string, from: string, to: string, platform: TargetPlatform = TARGET_PLATFORM) =>
+      `v1:${name}@${from}...${to}:${getTargetPlatformKey(platform)}`,
+  },
+)
@@ -0,0 +1,71 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas'
+import { oklchToHex } from '~/utils/colors'
+import {
+  clampNumber,
+  createDownloadsSvgResponse,
+  parseTheme,
+} from '~~/server/utils/embed-downloads-svg'
+
+type QueryParameters = Record<string, unknown>
+
+const OKLCH_COLOR_PATTERN =
+  /oklch\(\s*(none|(?:\d+(?:\.\d+)?|\.\d+)%?)\s+(none|(?:\d+(?:\.\d+)?|\.\d+)%?)\s+(none|-?(?:\d+(?:\.\d+)?|\.\d+))(deg|grad|rad|turn)?\s*(?:\/\s*(none|(?:\d+(?:\.\d+)?|\.\d+)%?)\s*)?\)/gi
+
+/** Degrees in one unit of each CSS angle unit */
+const HUE_UNIT_DEGREES: Record<string, number> = {
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+}
+
+/**
+ * Numeric value of an oklch component; `none` is zero and a percentage is relative
+ * to `percentReference` (1 for lightness and alpha, 0.4 for chroma).
+ */
+function parseComponent(value: string, percentReference = 1): number {
+  if (value.toLowerCase() === 'none') return 0
+  return value.endsWith('%') ? (Number(value.slice(0, -1)) / 100) * percentReference : Number(value)
+}
+
+/** Hue in degrees, normalized to [0, 360) */
+function parseHue(value: string, unit: string | undefined): number {
+  if (value.toLowerCase() === 'none') return 0
+  const degrees = Number(value) * (HUE_UNIT_DEGREES[unit?.toLowerCase() ?? 'deg'] ?? 1)
+  return ((degrees % 360) + 360) % 360
+}
+
+/**
+ * Skia's SVG renderer does not understand `oklch()` and paints those fills black,
+ * so colors are converted to hex (with an alpha byte when needed) before rasterizing.
+ */
+export function convertOklchColorsToHex(svg: string): string {
+  return svg.replace(OKLCH_COLOR_PATTERN, (color, lightness, chroma, hue, hueUnit, alpha) => {
+    // Fixed notation keeps tiny values out of exponent form, which oklchToHex rejects
+    const components = [
+      parseComponent(lightness),
+      parseComponent(chroma, 0.4),
+      parseHue(hue, hueUnit),
+    ].map(value => value.toFixed(6))
+    const hex = oklchToHex(`oklch(${components.join(' ')})`) ?? color
+    if (alpha === undefined) return hex
+
+    const alphaByte = Math.round(Math.min(Math.max(parseComponent(alpha), 0), 1) * 255)
+    return `${hex}${alphaByte.toString(16).padStart(2, '0')}`
+  })
+}
+
+export async function createDownloadsPngResponse(query: QueryParameters): Promise<Buffer> {
+  // A raster image cannot follow the viewer's color scheme, so `auto` falls back to light
+  const theme = parseTheme(query.theme ?? query.mode) === 'dark' ? 'dark' : 'light'
+  const width = clampNumber(query.width, 360, 1600, 900)
+  const height = clampNumber(query.height, 240, 900, 420)
+
+  const svg = await createDownloadsSvgResponse({ ...query, theme })
+  const image = await loadImage(Buffer.from(convertOklchColorsToHex(svg)))
+
+  const canvas = createCanvas(width, height)
+  canvas.getContext('2d').drawImage(image, 0, 0, width, height)
+
+  return await canvas.encode('png')
+}
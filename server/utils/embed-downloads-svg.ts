@@ -16,8 +16,24 @@ import { createLastDatapointLabelsSvg } from '#shared/utils/download-chart-last-
 type FetchGranularity = 'day' | 'week' | 'month' | 'year'
 type ChartGranularity = 'daily' | 'weekly' | 'monthly' | 'yearly'
 type Metric = 'downloads' | 'likes' | 'contributors'
+type Scale = 'linear' | 'log'
+type Theme = 'light' | 'dark' | 'auto'
 type QueryParameters = Record<string, unknown>
 
+interface ChartRenderOptions {
+  packageNames: string[]
+  metric: Metric
+  chartGranularity: ChartGranularity
+  evolutionsByPackage: Record<string, Awaited<ReturnType<typeof fetchDownloadsEvolution>>>
+  endDate: string | undefined
+  width: number
+  height: number
+  locale: string
+  accent: string
+  yLabel: string
+  scale: Scale
+}
+
 export function parsePackageNames(value: unknown): string[] {
   return String(value ?? '')
     .split(',')
@@ -113,6 +129,60 @@ export function clampNumber(
   return Math.min(maximum, Math.max(minimum, parsed))
 }
 
+/** `theme` takes precedence over the older `mode` parameter, which only knows about `dark` */
+export function parseTheme(value: unknown): Theme {
+  if (value === 'dark' || value === 'auto') return value
+  return 'light'
+}
+
+export function parseScale(value: unknown): Scale {
+  return value === 'log' ? 'log' : 'linear'
+}
+
+const RANGE_MONTHS: Record<string, number> = {
+  '1m': 1,
+  '3m': 3,
+  '6m': 6,
+  '1y': 12,
+  '2y': 24,
+  '5y': 60,
+}
+
+/**
+ * Resolves a `range` preset (e.g. `3m`, `1y`) to a start date counted back from `endDate`,
+ * or from yesterday when no end date is given.
+ */
+export function parseRangeStartDate(value: unknown, endDate?: string): string | undefined {
+  if (typeof value !== 'string') return undefined
+
+  const months = RANGE_MONTHS[value.trim().toLowerCase()]
+  if (!months) return undefined
+
+  const end = new Date(`${getEffectiveEndDateIso(endDate)}T00:00:00Z`)
+  // Clamp to the last day of the target month so e.g. 3 months before May 31st stays in February
+  const lastDayOfTargetMonth = new Date(
+    Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - months + 1, 0),
+  )
+  const start = new Date(
+    Date.UTC(
+      lastDayOfTargetMonth.getUTCFullYear(),
+      lastDayOfTargetMonth.getUTCMonth(),
+      Math.min(end.getUTCDate(), lastDayOfTargetMonth.getUTCDate()) + 1,
+    ),
+  )
+
+  return start.toISOString().slice(0, 10)
+}
+
+/** Log scale values are plotted as log10, with anything below 1 pinned to the baseline */
+function toLogValue(value: number): number {
+  return value > 1 ? Math.log10(value) : 0
+}
+
+function fromLogValue(value: number): number {
+  return Math.round(10 ** value)
+}
+
 export function parseMetric(value: unknown): Metric {
   if (value === 'likes') return 'likes'
   if (value === 'contributors') return 'contributors'
@@ -133,20 +203,23 @@ export async function createDownloadsSvgResponse(query: QueryParameters): Promis
   const fetchGranularity = parseFetchGranularity(query.granularity)
   const chartGranularity = toChartGranularity(fetchGranularity)
   const metric = parseMetric(query.metric)
-  const isDarkMode = query.mode === 'dark'
+  const theme = parseTheme(query.theme ?? query.mode)
   const width = clampNumber(query.width, 360, 1600, 900)
   const height = clampNumber(query.height, 240, 900, 420)
 
   const locale = parseLocale(query.locale)
   const accent = parseAccent(query.accent)
   const yLabel = parseSafeText(query.yLabel, '', 100)
+  const scale = parseScale(query.scale)
 
+  const endDate = parseDateQuery(query.endDate ?? query.end)
   const evolutionOptions = {
     granularity: fetchGranularity,
     weeks: clampNumber(query.weeks, 1, 260, 52),
     months: clampNumber(query.months, 1, 120, 12),
-    startDate: parseDateQuery(query.startDate ?? query.start),
-    endDate: parseDateQuery(query.endDate ?? query.end),
+    startDate:
+      parseDateQuery(query.startDate ?? query.start) ?? parseRangeStartDate(query.range, endDate),
+    endDate,
   }
 
   if (metric !== 'downloads') {
@@ -165,11 +238,89 @@ export async function createDownloadsSvgResponse(query: QueryParameters): Promis
     ),
   )
 
+  const renderOptions: ChartRenderOptions = {
+    packageNames,
+    metric,
+    chartGranularity,
+    evolutionsByPackage,
+    endDate,
+    width,
+    height,
+    locale,
+    accent,
+    yLabel,
+    scale,
+  }
+
+  if (theme === 'auto') {
+    const [lightSvg, darkSvg] = await Promise.all([
+      renderDownloadsChartSvg(renderOptions, false),
+      renderDownloadsChartSvg(renderOptions, true),
+    ])
+    return combineThemedSvgs(lightSvg, darkSvg, width, height)
+  }
+
+  return await renderDownloadsChartSvg(renderOptions, theme === 'dark')
+}
+
+/**
+ * Prefix every `id` in an SVG and the `url(#…)` and `href="#…"` references to it,
+ * so two renderings of the same chart can live in one document.
+ */
+function prefixSvgIds(svg: string, prefix: string): string {
+  return svg
+    .replace(/(\s)id="([^"]+)"/g, `$1id="${prefix}-$2"`)
+    .replace(/url\(\s*#([^)\s]+)\s*\)/g, `url(#${prefix}-$1)`)
+    .replace(/(\s(?:xlink:)?href=")#([^"]+)"/g, `$1#${prefix}-$2"`)
+}
+
+/**
+ * Wraps a light and a dark rendering of the same chart in one SVG,
+ * showing the one that matches the viewer's `prefers-color-scheme`.
+ * Ids are prefixed per theme, since both renderings use the same ones.
+ */
+export function combineThemedSvgs(
+  lightSvg: string,
+  darkSvg: string,
+  width: number,
+  height: number,
+): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <style>
+    .npmx-chart-dark { display: none; }
+    @media (prefers-color-scheme: dark) {
+      .npmx-chart-light { display: none; }
+      .npmx-chart-dark { display: inline; }
+    }
+  </style>
+  <g class="npmx-chart-light">${prefixSvgIds(lightSvg, 'light')}</g>
+  <g class="npmx-chart-dark">${prefixSvgIds(darkSvg, 'dark')}</g>
+</svg>`
+}
+
+async function renderDownloadsChartSvg(
+  {
+    packageNames,
+    metric,
+    chartGranularity,
+    evolutionsByPackage,
+    endDate,
+    width,
+    height,
+    locale,
+    accent,
+    yLabel,
+    scale,
+  }: ChartRenderOptions,
+  isDarkMode: boolean,
+): Promise<string> {
   const colors = resolveEmbedChartColors(isDarkMode ? 'dark' : 'light')
   const compactNumberFormatter = new Intl.NumberFormat(locale, {
     notation: 'compact',
     maximumFractionDigits: 1,
   })
+  const formatValue = (value: number) =>
+    compactNumberFormatter.format(scale === 'log' ? fromLogValue(value) : value)
 
   const chartFilter = {
     averageWindow: 1,
@@ -274,6 +425,10 @@ export async function createDownloadsSvgResponse(query: QueryParameters): Promis
             yAxis: {
               scaleLabelOffsetX: 0,
               crosshairSize: 6,
+              ...(scale === 'log' && {
+                formatter: ({ value }: { value: number }) =>
+                  formatValue(Number.isFinite(value) ? value : 0),
+              }),
             },
             xAxisLabels: {
               fontSize: 12,
@@ -285,7 +440,7 @@ export async function createDownloadsSvgResponse(query: QueryParameters): Promis
     },
   })
 
-  const effectiveEndDateIso = getEffectiveEndDateIso(evolutionOptions.endDate)
+  const effectiveEndDateIso = getEffectiveEndDateIso(endDate)
 
   const shouldDashLastPoint =
     (chartGranularity === 'monthly' && !isLastDayOfMonth(effectiveEndDateIso)) ||
@@ -299,7 +454,9 @@ export async function createDownloadsSvgResponse(query: QueryParameters): Promis
           )
         : datapoint.dashIndices
 
-      return Object.assign({}, datapoint, { dashIndices })
+      const series = scale === 'log' ? datapoint.series.map(toLogValue) : datapoint.series
+
+      return Object.assign({}, datapoint, { series, dashIndices })
     }),
     config,
     additionalSvgContent: ({ series, drawingArea }) => {
@@ -311,7 +468,7 @@ export async function createDownloadsSvgResponse(query: QueryParameters): Promis
           background: colors.bg,
           fallbackSerieColor: colors.fg,
         },
-        formatValue: value => compactNumberFormatter.format(value),
+        formatValue,
         isDarkMode,
       })
 
@@ -1,14 +1,21 @@
+import type { TargetPlatform } from '#shared/utils/target-platform'
+
 /**
  * Calculate the total install size for a package.
  *
  * Resolves dependencies by fetching packuments directly from the npm registry.
  * No filesystem operations - safe for serverless environments.
  *
- * Dependencies are resolved for linux-x64-glibc as a representative platform.
+ * Dependencies are resolved for linux-x64-glibc as a representative platform,
+ * unless another target platform is requested.
  */
 export const calculateInstallSize = defineCachedFunction(
-  async (name: string, version: string): Promise<InstallSizeResult> => {
-    const resolved = await resolveDependencyTree(name, version)
+  async (
+    name: string,
+    version: string,
+    platform: TargetPlatform = TARGET_PLATFORM,
+  ): Promise<InstallSizeResult> => {
+    const resolved = await resolveDependencyTree(name, version, { platform })
 
     // Separate self from dependencies
     const selfKey = `${name}@${version}`
@@ -44,6 +51,7 @@ export const calculateInstallSize = defineCachedFunction(
       totalSize,
       dependencyCount,
       dependencies,
+      platform: getTargetPlatformKey(platform),
     }
   },
   {
@@ -51,6 +59,7 @@ export const calculateInstallSize = defineCachedFunction(
     maxAge: 60 * 60,
     swr: true,
     name: 'install-size',
-    getKey: (name: string, version: string) => `${name}@${version}`,
+    getKey: (name: string, version: string, platform: TargetPlatform = TARGET_PLATFORM) =>
+      `${name}@${version}:${getTargetPlatformKey(platform)}`,
   },
 )
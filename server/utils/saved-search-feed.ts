@@ -0,0 +1,151 @@
+import type { NpmSearchResult } from '#shared/types/npm-registry'
+import type { StructuredFilters } from '#shared/types/preferences'
+import type { SavedSearch } from '#shared/types/social'
+import { NPMX_SITE } from '#shared/utils/constants'
+import type { SearchExpressionNode } from '#shared/utils/search-query'
+import { parseSearchExpression, stringifySearchExpression } from '#shared/utils/search-query'
+import { createStructuredFiltersPredicate } from '#shared/utils/structured-filters'
+
+/** Number of registry results the feed filters, the top hits by relevance */
+export const SAVED_SEARCH_FEED_SEARCH_SIZE = 250
+
+/** Number of entries in a feed */
+export const SAVED_SEARCH_FEED_MAX_ENTRIES = 50
+
+/** Fields the npm registry search understands as qualifiers */
+const REGISTRY_QUALIFIERS = {
+  keywords: 'keywords',
+  author: 'author',
+  maintainer: 'maintainer',
+} as const
+
+function isRegistryTerm(node: SearchExpressionNode): boolean {
+  if (node.negated) return false
+  if (node.type === 'text') return true
+  // a comma-separated field means any of the values, which the registry can't express
+  return node.type === 'field' && node.field in REGISTRY_QUALIFIERS && node.values.length === 1
+}
+
+function toRegistryTerm(node: SearchExpressionNode): string {
+  if (node.type === 'text') return node.value
+  if (node.type === 'field') {
+    return `${REGISTRY_QUALIFIERS[node.field as keyof typeof REGISTRY_QUALIFIERS]}:${node.values[0]}`
+  }
+  return ''
+}
+
+/**
+ * Builds the npm registry search text of a saved search query.
+ * Only positive plain text and single-value `kw:`, `author:` and `maintainer:` terms are sent,
+ * the other terms are applied to the results by {@link selectSavedSearchFeedPackages}.
+ */
+export function getRegistrySearchText(query: string): string {
+  return parseSearchExpression(query).nodes.filter(isRegistryTerm).map(toRegistryTerm).join(' ')
+}
+
+/**
+ * Filters of a saved search as applied to registry results.
+ * Plain text terms were already matched by the registry, which also matches
+ * stemmed words, so only the structured terms of the query are checked again.
+ */
+export function getSavedSearchFeedFilters(savedSearch: SavedSearch): StructuredFilters {
+  const structured = parseSearchExpression(savedSearch.query).nodes.filter(
+    node => node.type !== 'text' || node.negated,
+  )
+  return {
+    ...savedSearch.filters,
+    text: stringifySearchExpression(structured),
+    searchScope: 'all',
+  }
+}
+
+/**
+ * Picks the feed entries from registry results: matching packages, most recently published first.
+ * The results are the top {@link SAVED_SEARCH_FEED_SEARCH_SIZE} registry hits by relevance,
+ * so for broad searches a new package only shows up once it ranks among them.
+ */
+export function selectSavedSearchFeedPackages(
+  results: NpmSearchResult[],
+  savedSearch: SavedSearch,
+  now: number = Date.now(),
+): NpmSearchResult[] {
+  const predicate = createStructuredFiltersPredicate(getSavedSearchFeedFilters(savedSearch), now)
+  return results
+    .filter(predicate)
+    .sort((a, b) => Date.parse(b.package.date) - Date.parse(a.package.date))
+    .slice(0, SAVED_SEARCH_FEED_MAX_ENTRIES)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function toIsoDate(date: string, fallback: string): string {
+  const time = Date.parse(date)
+  return Number.isNaN(time) ? fallback : new Date(time).toISOString()
+}
+
+export interface SavedSearchFeedOptions {
+  savedSearch: SavedSearch
+  /** Handle of the profile the search is saved to */
+  handle: string
+  packages: NpmSearchResult[]
+  /** URL the feed is served from */
+  feedUrl: string
+  now?: number
+}
+
+/**
+ * Renders an Atom feed of the packages matching a saved search.
+ * Entries are keyed by package version, so a new release shows up as a new entry.
+ */
+export function buildSavedSearchFeed({
+  savedSearch,
+  handle,
+  packages,
+  feedUrl,
+  now = Date.now(),
+}: SavedSearchFeedOptions): string {
+  const params = new URLSearchParams({ q: savedSearch.query, sort: savedSearch.sort })
+  const searchUrl = `${NPMX_SITE}/search?${params}`
+  const fallbackDate = new Date(now).toISOString()
+  const updated = packages[0]
+    ? toIsoDate(packages[0].package.date, fallbackDate)
+    : toIsoDate(savedSearch.createdAt, fallbackDate)
+
+  const entries = packages.map(({ package: pkg }) => {
+    const url = `${NPMX_SITE}/package/${pkg.name}/v/${pkg.version}`
+    const lines = [
+      '  <entry>',
+      `    <id>${escapeXml(url)}</id>`,
+      `    <title>${escapeXml(`${pkg.name}@${pkg.version}`)}</title>`,
+      `    <link href="${escapeXml(url)}"/>`,
+      `    <updated>${toIsoDate(pkg.date, fallbackDate)}</updated>`,
+    ]
+    if (pkg.description) {
+      lines.push(`    <summary>${escapeXml(pkg.description)}</summary>`)
+    }
+    lines.push('  </entry>')
+    return lines.join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(`${savedSearch.name} · npmx`)}</title>`,
+    `  <subtitle>${escapeXml(savedSearch.query)}</subtitle>`,
+    `  <link rel="self" href="${escapeXml(feedUrl)}"/>`,
+    `  <link href="${escapeXml(searchUrl)}"/>`,
+    `  <author><name>${escapeXml(handle)}</name></author>`,
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
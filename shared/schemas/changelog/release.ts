@@ -14,6 +14,36 @@ export const GithubReleaseCollectionSchama = v.object({
   releases: v.array(GithubReleaseSchama),
 })
 
+/**
+ * Release from the GitLab REST API (`/api/v4/projects/:id/releases`).
+ * GitLab releases have no numeric id, the tag identifies them.
+ */
+export const GitlabReleaseSchema = v.object({
+  name: v.nullish(v.string()),
+  tag_name: v.string(),
+  description: v.nullish(v.string()),
+  upcoming_release: v.optional(v.boolean()),
+  released_at: v.nullish(v.pipe(v.string(), v.isoTimestamp())),
+})
+
+export const GitlabReleaseCollectionSchema = v.array(GitlabReleaseSchema)
+
+/**
+ * Release from the Gitea REST API (`/api/v1/repos/:owner/:repo/releases`),
+ * which Forgejo and Codeberg share.
+ */
+export const GiteaReleaseSchema = v.object({
+  id: v.pipe(v.number(), v.integer()),
+  name: v.nullish(v.string()),
+  tag_name: v.string(),
+  body: v.nullish(v.string()),
+  draft: v.boolean(),
+  prerelease: v.boolean(),
+  published_at: v.nullish(v.pipe(v.string(), v.isoTimestamp())),
+})
+
+export const GiteaReleaseCollectionSchema = v.array(GiteaReleaseSchema)
+
 // keeping this here in case it's needed
 // export type GithubRelease = v.InferOutput<typeof GithubReleaseSchama>
 // export type GithubReleaseCollection = v.InferOutput<typeof GithubReleaseCollectionSchama>
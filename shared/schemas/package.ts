@@ -1,5 +1,12 @@
 import * as v from 'valibot'
 import validateNpmPackageName from 'validate-npm-package-name'
+import type { TargetPlatform } from '#shared/utils/target-platform'
+import {
+  DEFAULT_TARGET_PLATFORM,
+  TARGET_CPU,
+  TARGET_LIBC,
+  TARGET_OS,
+} from '#shared/utils/target-platform'
 
 /**
  * Enforces only valid NPM package names
@@ -88,6 +95,45 @@ export const PackageFileDiffQuerySchema = v.object({
   toVersion: VersionSchema,
   filePath: FilePathSchema,
 })
+
+/**
+ * Schema for the optional `os`/`cpu`/`libc` query used by dependency resolution endpoints.
+ * Missing values fall back to the default platform; `libc` is dropped outside Linux.
+ */
+export const TargetPlatformQuerySchema = v.pipe(
+  v.object({
+    os: v.optional(v.picklist(TARGET_OS, 'Unsupported os'), DEFAULT_TARGET_PLATFORM.os),
+    cpu: v.optional(v.picklist(TARGET_CPU, 'Unsupported cpu'), DEFAULT_TARGET_PLATFORM.cpu),
+    libc: v.optional(v.picklist(TARGET_LIBC, 'Unsupported libc'), DEFAULT_TARGET_PLATFORM.libc),
+  }),
+  v.transform(
+    ({ os, cpu, libc }): TargetPlatform => (os === 'linux' ? { os, cpu, libc } : { os, cpu }),
+  ),
+)
+
+/**
+ * Maximum number of packages accepted in a single lockfile audit.
+ * The endpoint is unauthenticated and fetches a packument per package name.
+ */
+export const LOCKFILE_AUDIT_MAX_PACKAGES = 1000
+
+/**
+ * Schema for the lockfile audit request body (a flat list of exact versions)
+ */
+export const LockfileAuditBodySchema = v.object({
+  packages: v.pipe(
+    v.array(
+      v.object({
+        name: PackageNameSchema,
+        version: VersionSchema,
+        direct: v.optional(v.boolean()),
+      }),
+    ),
+    v.nonEmpty('At least one package is required'),
+    v.maxLength(LOCKFILE_AUDIT_MAX_PACKAGES, 'Too many packages in lockfile'),
+  ),
+})
+
 /** @public */
 export type PackageCompareQuery = v.InferOutput<typeof PackageCompareQuerySchema>
 /** @public */
@@ -1,4 +1,12 @@
 import * as v from 'valibot'
+import {
+  buildSortOption,
+  DOWNLOAD_RANGES,
+  SEARCH_SCOPE_VALUES,
+  SECURITY_FILTER_VALUES,
+  SORT_KEYS,
+  UPDATED_WITHIN_OPTIONS,
+} from '#shared/types/preferences'
 import { PackageNameSchema } from './package'
 
 /**
@@ -26,3 +34,27 @@ export const ProfileEditBodySchema = v.object({
   ),
   description: v.optional(v.pipe(v.string(), v.maxLength(2560))),
 })
+
+/**
+ * Schema for the filters of a saved search, matching `StructuredFilters`
+ */
+export const StructuredFiltersSchema = v.object({
+  text: v.pipe(v.string(), v.maxLength(1000)),
+  searchScope: v.picklist(SEARCH_SCOPE_VALUES),
+  downloadRange: v.picklist(DOWNLOAD_RANGES.map(range => range.value)),
+  keywords: v.pipe(v.array(v.pipe(v.string(), v.maxLength(214))), v.maxLength(50)),
+  security: v.picklist(SECURITY_FILTER_VALUES),
+  updatedWithin: v.picklist(UPDATED_WITHIN_OPTIONS.map(option => option.value)),
+})
+
+/**
+ * Schema for saving a search to the profile
+ */
+export const SavedSearchBodySchema = v.object({
+  name: v.pipe(v.string(), v.trim(), v.nonEmpty('Name is required'), v.maxLength(640)),
+  query: v.pipe(v.string(), v.trim(), v.maxLength(1000)),
+  filters: StructuredFiltersSchema,
+  sort: v.picklist(
+    SORT_KEYS.flatMap(({ key }) => [buildSortOption(key, 'desc'), buildSortOption(key, 'asc')]),
+  ),
+})
@@ -5,6 +5,10 @@ export interface ChangelogReleaseInfo {
   type: 'release'
   provider: ProviderId
   repo: `${string}/${string}`
+  /**
+   * host of self-hosted providers, e.g. a GitLab instance
+   */
+  host?: string
   link: string
 }
 
@@ -33,3 +37,55 @@ export interface ReleaseData {
   publishedAt?: string
   toc?: TocItem[]
 }
+
+export type ChangelogDigestCategory = 'breaking' | 'features' | 'fixes' | 'other'
+
+export interface ChangelogDigestEntry {
+  version: string
+  html: string | null
+}
+
+export interface ChangelogDigestGroup {
+  category: ChangelogDigestCategory
+  /**
+   * newest version first
+   */
+  entries: ChangelogDigestEntry[]
+}
+
+/**
+ * changes between two versions, gathered from releases or the changelog file
+ */
+export interface ChangelogDigest {
+  from: string
+  to: string
+  /**
+   * versions with changelog notes within the range, newest first
+   */
+  versions: string[]
+  /**
+   * breaking changes first
+   */
+  groups: ChangelogDigestGroup[]
+  /**
+   * link to the changelog on the git provider
+   */
+  link: string
+}
+
+/**
+ * changelog notes of a single version
+ */
+export interface ChangelogVersionEntry {
+  version: string
+  /**
+   * release date as YYYY-MM-DD, when known
+   */
+  date?: string
+  html: string | null
+  toc?: TocItem[]
+  /**
+   * link to the changelog on the git provider
+   */
+  link: string
+}
@@ -1,3 +1,5 @@
+import type { PackageVulnerabilityInfo } from './dependency-analysis'
+
 /** A change in a dependency between versions */
 export interface DependencyChange {
   /** Package name */
@@ -14,6 +16,51 @@ export interface DependencyChange {
   semverDiff?: 'major' | 'minor' | 'patch' | 'prerelease' | null
 }
 
+/** A package whose resolved version differs across the whole dependency tree of two versions */
+export interface DependencyTreeChange {
+  /** Package name */
+  name: string
+  /** Resolved version in the "from" tree (null if newly added) */
+  from: string | null
+  /** Resolved version in the "to" tree (null if removed) */
+  to: string | null
+  /** Type of change */
+  type: 'added' | 'removed' | 'updated'
+  /** Best-effort semver diff type */
+  semverDiff: 'major' | 'minor' | 'patch' | 'prerelease' | null
+  /** Change in unpacked size in bytes (positive when the tree grows) */
+  sizeDelta: number
+}
+
+/** Transitive dependency comparison response from the API */
+export interface DependencyTreeDiffResponse {
+  /** Package name */
+  package: string
+  /** Source version */
+  from: string
+  /** Target version */
+  to: string
+  /** Platform both trees were resolved for (e.g. `linux-x64-glibc`) */
+  platform: string
+  /** Packages added, removed or updated anywhere in the tree, sorted by name */
+  changes: DependencyTreeChange[]
+  /** Install size of both versions, including the package itself */
+  installSize: {
+    from: number
+    to: number
+    delta: number
+  }
+  /** Number of packages in each tree, excluding the package itself */
+  dependencyCount: {
+    from: number
+    to: number
+  }
+  /** Vulnerabilities in the "to" tree that the "from" tree was not affected by */
+  newVulnerabilities: PackageVulnerabilityInfo[]
+  /** Number of vulnerabilities in the "from" tree that no longer apply */
+  fixedVulnerabilityCount: number
+}
+
 /** File change info in the comparison */
 export interface FileChange {
   /** File path */
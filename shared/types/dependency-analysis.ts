@@ -5,6 +5,9 @@
  * @see https://google.github.io/osv.dev/api/
  */
 
+import type { DuplicatePackage } from './dependency-graph'
+import type { DependencySize } from './install-size'
+
 /**
  * Severity levels in priority order (highest first)
  */
@@ -192,6 +195,8 @@ export interface VulnerabilityTreeResult {
   vulnerablePackages: PackageVulnerabilityInfo[]
   /** All deprecated packages in the tree */
   deprecatedPackages: DeprecatedPackageInfo[]
+  /** Packages resolved at more than one version, largest savings first */
+  duplicates: DuplicatePackage[]
   /** Total packages analyzed */
   totalPackages: number
   /** Number of packages that could not be checked (OSV query failed) */
@@ -205,3 +210,19 @@ export interface VulnerabilityTreeResult {
     low: number
   }
 }
+
+/**
+ * Result of auditing an uploaded lockfile.
+ * Contains the same report as a dependency tree analysis, without a root package.
+ */
+export interface LockfileAuditResult extends Omit<
+  VulnerabilityTreeResult,
+  'package' | 'version' | 'duplicates'
+> {
+  /** Total unpacked size of every package found on the registry (bytes) */
+  totalSize: number
+  /** Breakdown of package sizes, largest first */
+  dependencies: DependencySize[]
+  /** `name@version` entries from the lockfile that were not found on the registry */
+  missingPackages: string[]
+}
@@ -0,0 +1,92 @@
+/**
+ * Dependency Graph Types
+ * Types for the resolved dependency graph of a package version, where every
+ * `name@version` is a node and every declared dependency is an edge.
+ */
+
+/**
+ * A declared dependency of a graph node
+ */
+export interface DependencyGraphEdge {
+  /** Dependency name as declared by the parent */
+  name: string
+  /** Declared semver range */
+  range: string
+  /** True if declared in `optionalDependencies` */
+  optional: boolean
+  /**
+   * Key (`name@version`) of the node the range resolved to, or `null` if it could not be
+   * resolved, does not apply to the target platform, or the graph was truncated
+   */
+  target: string | null
+}
+
+/**
+ * A resolved package in the dependency graph
+ */
+export interface DependencyGraphNode {
+  name: string
+  version: string
+  /** Unpacked size in bytes */
+  size: number
+  /** License of this version, if declared */
+  license?: string
+  /** Deprecation message if the version is deprecated */
+  deprecated?: string
+  /** Outgoing edges, in declaration order */
+  dependencies: DependencyGraphEdge[]
+}
+
+/**
+ * Resolved dependency graph for a package version
+ */
+export interface DependencyGraphResult {
+  /** Root package name */
+  package: string
+  /** Root package version */
+  version: string
+  /** Platform the graph was resolved for (e.g. `linux-x64-glibc`) */
+  platform: string
+  /** Key of the root node */
+  root: string
+  /** All resolved nodes, keyed by `name@version` */
+  nodes: Record<string, DependencyGraphNode>
+  /** Total unpacked size of all nodes in bytes */
+  totalSize: number
+  /** True if resolution stopped early because the graph grew too large */
+  truncated: boolean
+}
+
+/**
+ * A package that depends on a duplicated package
+ */
+export interface DuplicateDependent {
+  name: string
+  version: string
+  /** Range the dependent declares */
+  range: string
+}
+
+/**
+ * One resolved version of a duplicated package
+ */
+export interface DuplicateVersion {
+  version: string
+  /** Unpacked size in bytes */
+  size: number
+  /** Packages whose declared range resolved to this version */
+  dependents: DuplicateDependent[]
+}
+
+/**
+ * A package resolved at more than one version in the same tree
+ */
+export interface DuplicatePackage {
+  name: string
+  /** Resolved versions, highest first */
+  versions: DuplicateVersion[]
+  /** Fewest resolved versions that still satisfy every declared range, highest first */
+  dedupedVersions: string[]
+  /** Bytes saved by installing only `dedupedVersions` (0 if nothing can be deduped) */
+  savings: number
+}
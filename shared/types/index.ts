@@ -11,3 +11,4 @@ export * from './skills'
 export * from './compare'
 export * from './version-downloads'
 export * from './install-size'
+export * from './dependency-graph'
@@ -20,4 +20,6 @@ export interface InstallSizeResult {
   dependencyCount: number
   /** Breakdown of dependency sizes */
   dependencies: DependencySize[]
+  /** Platform the dependencies were resolved for (e.g. `linux-x64-glibc`) */
+  platform: string
 }
@@ -249,4 +249,6 @@ export interface FilterChip {
   type: keyof StructuredFilters
   label: string
   value: string | string[]
+  /** Index of the text filter query term the chip stands for, when it isn't plain text */
+  term?: number
 }
@@ -1,3 +1,5 @@
+import type { SortOption, StructuredFilters } from './preferences'
+
 /**
  * Likes for a npm package on npmx
  */
@@ -49,3 +51,16 @@ export type NPMXProfile = {
   recordExists: boolean
   handle?: string
 }
+
+/**
+ * A search saved to an npmx profile
+ */
+export type SavedSearch = {
+  // Record key of the saved search, part of its feed URL
+  rkey: string
+  name: string
+  query: string
+  filters: StructuredFilters
+  sort: SortOption
+  createdAt: string
+}
@@ -0,0 +1,116 @@
+/**
+ * Badges served by `/api/registry/badge/:type/:pkg`, and the snippets used to embed them.
+ */
+
+/** Badge types, in the order they are offered in the badge builder */
+export const BADGE_TYPES = [
+  'version',
+  'license',
+  'size',
+  'downloads',
+  'downloads-day',
+  'downloads-week',
+  'downloads-month',
+  'downloads-year',
+  'vulnerabilities',
+  'dependencies',
+  'created',
+  'updated',
+  'engines',
+  'types',
+  'maintainers',
+  'deprecated',
+  'provenance',
+  'module-format',
+  'node-version',
+  'replacement',
+  'name',
+  'likes',
+] as const
+
+export type BadgeType = (typeof BADGE_TYPES)[number]
+
+export const BADGE_STYLES = ['default', 'shieldsio', 'compact'] as const
+
+export type BadgeStyle = (typeof BADGE_STYLES)[number]
+
+/** Output formats: an SVG image, or shields.io "endpoint" JSON */
+export const BADGE_FORMATS = ['svg', 'json'] as const
+
+export type BadgeFormat = (typeof BADGE_FORMATS)[number]
+
+/**
+ * Badge data in the shields.io endpoint schema.
+ * @see https://shields.io/badges/endpoint-badge
+ */
+export interface BadgeEndpointResponse {
+  schemaVersion: 1
+  label: string
+  message: string
+  /** Hex color without the `#` prefix */
+  color: string
+  labelColor?: string
+}
+
+export const BADGE_SNIPPET_FORMATS = ['markdown', 'html', 'rst', 'asciidoc'] as const
+
+export type BadgeSnippetFormat = (typeof BADGE_SNIPPET_FORMATS)[number]
+
+export interface BadgeOptions {
+  type: BadgeType
+  packageName: string
+  /** Pin the badge to a version instead of following `latest` */
+  version?: string
+  style?: BadgeStyle
+  format?: BadgeFormat
+  /** Use the package name as the label */
+  showName?: boolean
+  /** Custom label text (ignored when `showName` is set) */
+  label?: string
+  /** Custom value text */
+  value?: string
+  /** Value background color, as a hex string with or without `#` */
+  color?: string
+  /** Label background color, as a hex string with or without `#` */
+  labelColor?: string
+}
+
+/**
+ * Build the badge image URL for the given options.
+ * Options left at their defaults are omitted so the URL stays short.
+ */
+export function getBadgeUrl(origin: string, options: BadgeOptions): string {
+  const versionPath = options.version ? `/v/${options.version}` : ''
+  const url = new URL(
+    `/api/registry/badge/${options.type}/${options.packageName}${versionPath}`,
+    origin,
+  )
+
+  if (options.style && options.style !== 'default') url.searchParams.set('style', options.style)
+  if (options.format && options.format !== 'svg') url.searchParams.set('format', options.format)
+  if (options.showName) url.searchParams.set('name', 'true')
+  else if (options.label) url.searchParams.set('label', options.label)
+  if (options.value) url.searchParams.set('value', options.value)
+  if (options.color) url.searchParams.set('color', options.color.replace(/^#/, ''))
+  if (options.labelColor) url.searchParams.set('labelColor', options.labelColor.replace(/^#/, ''))
+
+  return url.toString()
+}
+
+/**
+ * Embed snippets for a badge image that links to `linkUrl`.
+ */
+export function getBadgeSnippets(
+  imageUrl: string,
+  linkUrl: string,
+  alt: string,
+): Record<BadgeSnippetFormat, string> {
+  const htmlAlt = alt.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+  return {
+    markdown: `[![${alt.replace(/[[\]]/g, '\\$&')}](${imageUrl})](${linkUrl})`,
+    html: `<a href="${linkUrl}"><img src="${imageUrl}" alt="${htmlAlt}"></a>`,
+    rst: `.. image:: ${imageUrl}\n   :alt: ${alt}\n   :target: ${linkUrl}`,
+    asciidoc: `image:${imageUrl}[${JSON.stringify(alt)},link="${linkUrl}"]`,
+  }
+}
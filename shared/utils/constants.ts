@@ -29,6 +29,9 @@ export const ERROR_BLUESKY_URL_FAILED =
   'Invalid Bluesky URL format. Expected: https://bsky.app/profile/HANDLE/post/POST_ID'
 export const ERROR_FILE_LIST_FETCH_FAILED = 'Failed to fetch file list.'
 export const ERROR_CALC_INSTALL_SIZE_FAILED = 'Failed to calculate install size.'
+export const ERROR_LOCKFILE_AUDIT_FAILED = 'Failed to audit lockfile.'
+export const ERROR_DEPENDENCY_GRAPH_FAILED = 'Failed to resolve dependency graph.'
+export const ERROR_DEPENDENCY_TREE_DIFF_FAILED = 'Failed to compare dependency trees.'
 export const NPM_MISSING_README_SENTINEL = 'ERROR: No README data found!'
 /** The npm registry truncates the packument readme field at 65,536 characters (2^16) */
 export const NPM_README_TRUNCATION_THRESHOLD = 64_000
@@ -44,11 +47,17 @@ export const ERROR_SKILL_FILE_NOT_FOUND = 'Skill file not found.'
 export const ERROR_GRAVATAR_FETCH_FAILED = 'Failed to fetch Gravatar profile.'
 export const ERROR_GRAVATAR_EMAIL_UNAVAILABLE = "User's email not accessible."
 export const ERROR_NEED_REAUTH = 'User needs to reauthenticate'
+export const ERROR_SAVED_SEARCH_NOT_FOUND = 'Saved search not found.'
+export const ERROR_SAVED_SEARCH_FEED_FAILED = 'Failed to build saved search feed.'
 
 export const ERROR_CHANGELOG_NOT_FOUND =
   'No releases or changelogs have been found for this package'
 export const ERROR_CHANGELOG_RELEASES_FAILED = 'Failed to get releases'
 export const ERROR_CHANGELOG_FILE_FAILED = 'Failed to get changelog markdown'
+export const ERROR_CHANGELOG_ENTRY_NOT_FOUND = 'No changelog notes have been found for this version'
+export const ERROR_CHANGELOG_DIGEST_FAILED = 'Failed to build changelog digest'
+export const ERROR_CHANGELOG_DIGEST_RANGE =
+  'The first version of the range has to be lower than the last'
 export const ERROR_THROW_INCOMPLETE_PARAM = "Couldn't do request due to incomplete parameters"
 // for ungh.cc when api keys are exhausted, name is broad in case more proxies are going to be used
 export const ERROR_UNGH_API_KEY_EXHAUSTED =
@@ -65,6 +74,7 @@ export const PACKAGE_SUBJECT_REF = (packageName: string) =>
 // OAuth scopes as we add new ones we need to check these on certain actions. If not redirect the user to login again to upgrade the scopes
 export const LIKES_SCOPE = `repo:${dev.npmx.feed.like.$nsid}`
 export const PROFILE_SCOPE = `repo:${dev.npmx.actor.profile.$nsid}`
+export const SAVED_SEARCHES_SCOPE = `repo:${dev.npmx.actor.savedSearch.$nsid}`
 export const NPMX_DEV_DID = 'did:plc:u5zp7npt5kpueado77kuihyz'
 export const TID_CLOCK_ID = 3
 
@@ -0,0 +1,129 @@
+import { compare, rcompare, satisfies } from 'semver'
+import type {
+  DependencyGraphResult,
+  DuplicateDependent,
+  DuplicatePackage,
+} from '#shared/types/dependency-graph'
+
+/**
+ * Find packages that are resolved at more than one version in the graph.
+ *
+ * @returns Map of package name to its resolved versions, sorted ascending
+ */
+export function getDuplicatedPackages(
+  graph: Pick<DependencyGraphResult, 'nodes'>,
+): Map<string, string[]> {
+  const versionsByName = new Map<string, string[]>()
+  for (const node of Object.values(graph.nodes)) {
+    const versions = versionsByName.get(node.name)
+    if (versions) versions.push(node.version)
+    else versionsByName.set(node.name, [node.version])
+  }
+
+  const duplicates = new Map<string, string[]>()
+  for (const [name, versions] of versionsByName) {
+    if (versions.length > 1) duplicates.set(name, versions.sort(compare))
+  }
+  return duplicates
+}
+
+/**
+ * Find the shortest path from the root to a node, answering "why is this installed?".
+ *
+ * @returns Node keys from the root to `target` (inclusive), or `null` if unreachable
+ */
+export function findDependencyPath(
+  graph: Pick<DependencyGraphResult, 'root' | 'nodes'>,
+  target: string,
+): string[] | null {
+  if (!graph.nodes[target]) return null
+
+  const parents = new Map<string, string | null>([[graph.root, null]])
+  const queue = [graph.root]
+  for (let i = 0; i < queue.length; i++) {
+    const key = queue[i]!
+    if (key === target) {
+      const path: string[] = []
+      for (let current: string | null = key; current; current = parents.get(current) ?? null) {
+        path.unshift(current)
+      }
+      return path
+    }
+    for (const edge of graph.nodes[key]?.dependencies ?? []) {
+      if (edge.target && !parents.has(edge.target)) {
+        parents.set(edge.target, key)
+        queue.push(edge.target)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * List the nodes that depend on `target`, along with the range each one declares.
+ */
+export function getDependents(
+  graph: Pick<DependencyGraphResult, 'nodes'>,
+  target: string,
+): Array<{ key: string; range: string }> {
+  const dependents: Array<{ key: string; range: string }> = []
+  for (const [key, node] of Object.entries(graph.nodes)) {
+    const edge = node.dependencies.find(dep => dep.target === target)
+    if (edge) dependents.push({ key, range: edge.range })
+  }
+  return dependents
+}
+
+/**
+ * Build the duplicates report for a graph: every package resolved at more than one
+ * version, which parents pin each version, and how much could be saved by deduping.
+ *
+ * Deduping only considers versions already in the tree, the way `npm dedupe` does:
+ * starting from the highest version, each one is kept if it satisfies a range no kept
+ * version covers yet. Only the package's own size counts towards the savings, since its
+ * dependencies may still be needed elsewhere.
+ *
+ * @returns Duplicated packages, largest savings first
+ */
+export function getDuplicatesReport(
+  graph: Pick<DependencyGraphResult, 'nodes'>,
+): DuplicatePackage[] {
+  const report: DuplicatePackage[] = []
+
+  for (const [name, versions] of getDuplicatedPackages(graph)) {
+    const entries = versions
+      .map(version => {
+        const key = `${name}@${version}`
+        const dependents = getDependents(graph, key).map(({ key: parentKey, range }) => {
+          const parent = graph.nodes[parentKey]!
+          return { name: parent.name, version: parent.version, range }
+        })
+        return { version, size: graph.nodes[key]!.size, dependents }
+      })
+      .sort((a, b) => rcompare(a.version, b.version))
+
+    // Versions nothing depends on (e.g. the root itself) can never be deduped away
+    const kept = new Set(entries.filter(entry => !entry.dependents.length).map(e => e.version))
+    let uncovered: DuplicateDependent[] = entries.flatMap(entry => entry.dependents)
+    for (const { version } of entries) {
+      const remaining = uncovered.filter(dep => !satisfies(version, dep.range))
+      if (remaining.length < uncovered.length) kept.add(version)
+      uncovered = remaining
+    }
+    // Ranges no resolved version satisfies (aliases, tags) keep the version they resolved to
+    for (const entry of entries) {
+      if (entry.dependents.some(dep => uncovered.includes(dep))) kept.add(entry.version)
+    }
+
+    report.push({
+      name,
+      versions: entries,
+      dedupedVersions: entries.filter(entry => kept.has(entry.version)).map(e => e.version),
+      savings: entries
+        .filter(entry => !kept.has(entry.version))
+        .reduce((total, entry) => total + entry.size, 0),
+    })
+  }
+
+  return report.sort((a, b) => b.savings - a.savings || a.name.localeCompare(b.name))
+}
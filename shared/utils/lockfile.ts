@@ -0,0 +1,366 @@
+import { valid } from 'semver'
+
+/**
+ * Lockfile parsing for the audit page.
+ *
+ * Lockfiles are parsed in the browser and reduced to a flat, deduplicated list of
+ * `name@version` pairs, which is all the server needs to audit the exact tree.
+ */
+
+export type LockfileFormat = 'npm' | 'pnpm' | 'yarn'
+
+export interface LockfilePackage {
+  name: string
+  version: string
+  /** True if the package is a direct dependency of a workspace root (when the lockfile records it) */
+  direct: boolean
+}
+
+export interface ParsedLockfile {
+  format: LockfileFormat
+  packages: LockfilePackage[]
+}
+
+/**
+ * Detect the lockfile format from its file name, falling back to sniffing the content.
+ */
+export function detectLockfileFormat(content: string, fileName?: string): LockfileFormat | null {
+  const baseName = fileName?.split(/[\\/]/).pop()
+  if (baseName === 'package-lock.json' || baseName === 'npm-shrinkwrap.json') return 'npm'
+  if (baseName === 'pnpm-lock.yaml') return 'pnpm'
+  if (baseName === 'yarn.lock') return 'yarn'
+
+  const trimmed = content.trimStart()
+  if (trimmed.startsWith('{')) return 'npm'
+  if (/^lockfileVersion:/m.test(content)) return 'pnpm'
+  if (/^# yarn lockfile v1/m.test(content) || /^__metadata:/m.test(content)) return 'yarn'
+  return null
+}
+
+/**
+ * Parse a package-lock.json, pnpm-lock.yaml or yarn.lock into a flat package list.
+ * Packages that are not installed from the registry (workspaces, links, git and file
+ * dependencies) are skipped, as are entries without a valid semver version.
+ *
+ * @returns The parsed lockfile, or `null` if the format is not recognised or malformed
+ */
+export function parseLockfile(content: string, fileName?: string): ParsedLockfile | null {
+  const format = detectLockfileFormat(content, fileName)
+  if (!format) return null
+
+  let entries: LockfilePackage[] | null
+  switch (format) {
+    case 'npm':
+      entries = parseNpmLockfile(content)
+      break
+    case 'pnpm':
+      entries = parsePnpmLockfile(content)
+      break
+    case 'yarn':
+      entries = parseYarnLockfile(content)
+      break
+  }
+  if (!entries) return null
+
+  return { format, packages: dedupePackages(entries) }
+}
+
+/**
+ * Deduplicate `name@version` pairs, keeping `direct` if any occurrence was direct.
+ * Output is sorted by name, then version, so results are stable across formats.
+ */
+function dedupePackages(entries: LockfilePackage[]): LockfilePackage[] {
+  const byKey = new Map<string, LockfilePackage>()
+  for (const entry of entries) {
+    if (!entry.name || !valid(entry.version)) continue
+    const key = `${entry.name}@${entry.version}`
+    const existing = byKey.get(key)
+    if (existing) {
+      existing.direct ||= entry.direct
+    } else {
+      byKey.set(key, { ...entry })
+    }
+  }
+  return [...byKey.values()].sort((a, b) =>
+    a.name === b.name ? a.version.localeCompare(b.version) : a.name.localeCompare(b.name),
+  )
+}
+
+interface NpmLockfileEntry {
+  name?: string
+  version?: string
+  link?: boolean
+  dependencies?: Record<string, string | NpmLockfileEntry>
+  devDependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+}
+
+interface NpmLockfile {
+  lockfileVersion?: number
+  packages?: Record<string, NpmLockfileEntry>
+  dependencies?: Record<string, NpmLockfileEntry>
+}
+
+/**
+ * package-lock.json / npm-shrinkwrap.json.
+ * v2 and v3 use the flat `packages` map keyed by install path; v1 only has the nested
+ * `dependencies` tree.
+ */
+function parseNpmLockfile(content: string): LockfilePackage[] | null {
+  let lockfile: NpmLockfile
+  try {
+    lockfile = JSON.parse(content)
+  } catch {
+    return null
+  }
+  if (!lockfile || typeof lockfile !== 'object') return null
+
+  const result: LockfilePackage[] = []
+
+  if (lockfile.packages) {
+    const root = lockfile.packages[''] ?? {}
+    const directNames = new Set([
+      ...Object.keys(root.dependencies ?? {}),
+      ...Object.keys(root.devDependencies ?? {}),
+      ...Object.keys(root.optionalDependencies ?? {}),
+    ])
+
+    for (const [path, entry] of Object.entries(lockfile.packages)) {
+      if (!path || entry.link || !entry.version) continue
+      const index = path.lastIndexOf('node_modules/')
+      // Workspace packages live outside node_modules
+      if (index === -1) continue
+      const installName = path.slice(index + 'node_modules/'.length)
+      // `name` is only set when it differs from the install path (npm: aliases)
+      const name = entry.name ?? installName
+      const direct = path === `node_modules/${installName}` && directNames.has(installName)
+      result.push({ name, version: entry.version, direct })
+    }
+    return result
+  }
+
+  if (lockfile.dependencies) {
+    const walk = (deps: Record<string, string | NpmLockfileEntry>, direct: boolean) => {
+      for (const [installName, entry] of Object.entries(deps)) {
+        if (typeof entry !== 'object' || !entry.version) continue
+        const alias = parseNpmAlias(entry.version)
+        result.push({
+          name: alias?.name ?? installName,
+          version: alias?.version ?? entry.version,
+          direct,
+        })
+        if (entry.dependencies) walk(entry.dependencies, false)
+      }
+    }
+    walk(lockfile.dependencies, true)
+    return result
+  }
+
+  return null
+}
+
+/** Parse an `npm:name@version` alias specifier. */
+function parseNpmAlias(spec: string): { name: string; version: string } | null {
+  if (!spec.startsWith('npm:')) return null
+  return splitNameAndVersion(spec.slice('npm:'.length))
+}
+
+/**
+ * Split `name@version` (or `@scope/name@version`) at the version separator.
+ */
+function splitNameAndVersion(spec: string): { name: string; version: string } | null {
+  const atIndex = spec.indexOf('@', 1)
+  if (atIndex === -1) return null
+  return { name: spec.slice(0, atIndex), version: spec.slice(atIndex + 1) }
+}
+
+/** Remove YAML quotes from a key or scalar value. */
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  if (
+    trimmed.length >= 2 &&
+    ((trimmed.startsWith("'") && trimmed.endsWith("'")) ||
+      (trimmed.startsWith('"') && trimmed.endsWith('"')))
+  ) {
+    return trimmed.slice(1, -1)
+  }
+  return trimmed
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+/**
+ * Parse a single pnpm `packages:` key into name and version.
+ *
+ * - v5: `/name/1.0.0` or `/@scope/name/1.0.0_peer@1.0.0`
+ * - v6: `/name@1.0.0` or `/@scope/name@1.0.0(peer@1.0.0)`
+ * - v9: `name@1.0.0` or `@scope/name@1.0.0`
+ */
+export function parsePnpmPackageKey(key: string): { name: string; version: string } | null {
+  let spec = unquote(key)
+  // Strip peer dependency suffixes: `(peer@1.0.0)` in v6+, `_peer@1.0.0` in v5
+  const parenIndex = spec.indexOf('(')
+  if (parenIndex !== -1) spec = spec.slice(0, parenIndex)
+
+  if (spec.startsWith('/')) {
+    spec = spec.slice(1)
+    // v5 separates name and version with a slash rather than `@`
+    const v5Match = spec.match(/^((?:@[^/]+\/)?[^/@]+)\/([^/_]+)/)
+    if (v5Match) return { name: v5Match[1]!, version: v5Match[2]! }
+  }
+
+  return splitNameAndVersion(spec)
+}
+
+/**
+ * pnpm-lock.yaml (lockfile v5, v6 and v9).
+ *
+ * Only two sections matter here, so rather than pulling in a YAML parser we read the
+ * keys by indentation: `packages:` for the installed set and `importers:` (or the v5
+ * root `dependencies:` sections) for direct dependencies. Direct dependencies are keyed
+ * by name and resolved version, since workspace importers can depend on different
+ * versions of the same package.
+ */
+function parsePnpmLockfile(content: string): LockfilePackage[] | null {
+  const lines = content.split(/\r?\n/)
+  if (!lines.some(line => line.startsWith('lockfileVersion:'))) return null
+
+  const directKeys = new Set<string>()
+  const packages: Array<{ name: string; version: string }> = []
+
+  let section: string | null = null
+  let depsIndent = -1
+  // v6+ importers put the resolved version on a nested `version:` line
+  let pendingDirectName: string | null = null
+
+  for (const line of lines) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue
+    const indent = getIndent(line)
+    const trimmed = line.trim()
+
+    if (indent === 0) {
+      section = trimmed.replace(/:.*$/, '')
+      depsIndent = -1
+      pendingDirectName = null
+      if (
+        section === 'dependencies' ||
+        section === 'devDependencies' ||
+        section === 'optionalDependencies'
+      ) {
+        depsIndent = 2
+      }
+      continue
+    }
+
+    if (section === 'packages' && indent === 2 && trimmed.endsWith(':')) {
+      const parsed = parsePnpmPackageKey(trimmed.slice(0, -1))
+      if (parsed) packages.push(parsed)
+      continue
+    }
+
+    if (section === 'importers') {
+      if (/^(?:dev|optional)?[dD]ependencies:$/.test(trimmed)) {
+        depsIndent = indent + 2
+        continue
+      }
+      if (indent < depsIndent) depsIndent = -1
+    }
+
+    if (depsIndent === -1) continue
+
+    if (pendingDirectName && indent === depsIndent + 2) {
+      const match = trimmed.match(/^version:\s*(\S.*)$/)
+      if (match) {
+        const key = getPnpmDirectKey(pendingDirectName, match[1]!)
+        if (key) directKeys.add(key)
+        pendingDirectName = null
+      }
+      continue
+    }
+
+    if (indent === depsIndent) {
+      pendingDirectName = null
+      const colonIndex = trimmed.indexOf(':', trimmed.startsWith('@') ? 1 : 0)
+      if (colonIndex <= 0) continue
+      const name = unquote(trimmed.slice(0, colonIndex))
+      const value = trimmed.slice(colonIndex + 1).trim()
+      if (value) {
+        // v5: `name: 1.0.0` or `name: 1.0.0_peer@1.0.0`
+        const key = getPnpmDirectKey(name, value)
+        if (key) directKeys.add(key)
+      } else {
+        pendingDirectName = name
+      }
+    }
+  }
+
+  return packages.map(({ name, version }) => ({
+    name,
+    version,
+    direct: directKeys.has(`${name}@${version}`),
+  }))
+}
+
+/**
+ * Build the `name@version` key of a pnpm importer dependency from its resolved version.
+ * Aliases (`npm:other@1.0.0`, `other@1.0.0`) resolve to the aliased package, and
+ * `link:`/`file:` dependencies are not installed from the registry, so they have no key.
+ */
+function getPnpmDirectKey(name: string, version: string): string | null {
+  let spec = unquote(version)
+  const parenIndex = spec.indexOf('(')
+  if (parenIndex !== -1) spec = spec.slice(0, parenIndex)
+  spec = spec.replace(/^npm:/, '')
+  if (/^[a-z]+:/.test(spec)) return null
+
+  if (spec.includes('@') || spec.startsWith('/')) {
+    const parsed = parsePnpmPackageKey(spec)
+    return parsed ? `${parsed.name}@${parsed.version.split('_')[0]}` : null
+  }
+  return `${name}@${spec.split('_')[0]}`
+}
+
+/**
+ * yarn.lock, both the classic v1 format and the YAML-based Berry (v2+) format.
+ * Neither records which packages are direct dependencies.
+ */
+function parseYarnLockfile(content: string): LockfilePackage[] | null {
+  const lines = content.split(/\r?\n/)
+  const result: LockfilePackage[] = []
+
+  let currentName: string | null = null
+
+  for (const line of lines) {
+    if (!line.trim() || line.startsWith('#')) continue
+    const indent = getIndent(line)
+    const trimmed = line.trim()
+
+    if (indent === 0) {
+      currentName = null
+      if (!trimmed.endsWith(':') || trimmed.startsWith('__metadata')) continue
+      // First descriptor of `"a@^1", "a@^1.2":` is enough to get the name
+      const firstDescriptor = trimmed.slice(0, -1).split(',')[0]!.trim().replace(/^"|"$/g, '')
+      const parsed = splitNameAndVersion(firstDescriptor)
+      if (!parsed) continue
+      // Berry descriptors carry a protocol; only registry packages are auditable
+      const protocol = parsed.version.match(/^([a-z][a-z+]*):/)?.[1]
+      if (protocol && protocol !== 'npm') continue
+      const alias = protocol === 'npm' ? parseNpmAlias(parsed.version) : null
+      currentName = alias?.name ?? parsed.name
+      continue
+    }
+
+    if (currentName && indent === 2) {
+      const match = trimmed.match(/^version:?\s+(\S.*)$/)
+      if (match) {
+        result.push({ name: currentName, version: unquote(match[1]!), direct: false })
+        currentName = null
+      }
+    }
+  }
+
+  return result
+}
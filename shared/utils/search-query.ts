@@ -0,0 +1,493 @@
+import type { NpmSearchResult } from '#shared/types/npm-registry'
+
+/**
+ * Query language for filtering package lists, e.g.
+ * `kw:vite-plugin -kw:deprecated license:MIT downloads:>10k (author:sindresorhus OR "css in js")`
+ *
+ * - Terms are combined with AND, `OR` binds tighter and parentheses group terms
+ * - `-` negates a term or group
+ * - Field values can be quoted (`desc:"build tool"`) or comma-separated (`kw:vue,react` means any of them)
+ * - `downloads:` compares weekly downloads, with optional `k`/`m` suffix: `downloads:>=1.5k`
+ * - `updated:` compares the whole days since the last publish: `updated:<90d`, `updated:>1y`
+ */
+
+/** Fields matching text values */
+export type SearchExpressionField =
+  | 'name'
+  | 'description'
+  | 'keywords'
+  | 'author'
+  | 'maintainer'
+  | 'license'
+
+/** Fields matching numeric ranges */
+export type SearchExpressionRangeField = 'downloads' | 'updated'
+
+export type SearchExpressionComparator = '>' | '>=' | '<' | '<=' | '='
+
+interface SearchExpressionNodeBase {
+  negated: boolean
+  /** Offsets of the term in the query */
+  start: number
+  end: number
+}
+
+export interface SearchExpressionTextNode extends SearchExpressionNodeBase {
+  type: 'text'
+  value: string
+  quoted: boolean
+}
+
+export interface SearchExpressionFieldNode extends SearchExpressionNodeBase {
+  type: 'field'
+  field: SearchExpressionField
+  /** Any of the values can match */
+  values: string[]
+  quoted: boolean
+}
+
+export interface SearchExpressionRangeNode extends SearchExpressionNodeBase {
+  type: 'range'
+  field: SearchExpressionRangeField
+  comparator: SearchExpressionComparator
+  /** Weekly downloads, or days since the last publish */
+  value: number
+  /** Value as written, e.g. `>10k` or `<3m` */
+  raw: string
+}
+
+export interface SearchExpressionGroupNode extends SearchExpressionNodeBase {
+  type: 'group'
+  operator: 'and' | 'or'
+  nodes: SearchExpressionNode[]
+}
+
+/** A term that failed to parse, kept so it isn't lost when the query is rewritten */
+export interface SearchExpressionInvalidNode extends SearchExpressionNodeBase {
+  type: 'invalid'
+  raw: string
+}
+
+export type SearchExpressionNode =
+  | SearchExpressionTextNode
+  | SearchExpressionFieldNode
+  | SearchExpressionRangeNode
+  | SearchExpressionGroupNode
+  | SearchExpressionInvalidNode
+
+export type SearchExpressionErrorCode =
+  | 'unknown_field'
+  | 'empty_value'
+  | 'invalid_number'
+  | 'invalid_duration'
+  | 'unclosed_quote'
+  | 'unclosed_group'
+  | 'unexpected_paren'
+  | 'dangling_or'
+
+export interface SearchExpressionError {
+  code: SearchExpressionErrorCode
+  /** Offsets of the offending text in the query */
+  start: number
+  end: number
+  text: string
+}
+
+export interface SearchExpression {
+  /** Top-level terms, which must all match */
+  nodes: SearchExpressionNode[]
+  errors: SearchExpressionError[]
+}
+
+const FIELD_ALIASES = new Map<string, SearchExpressionField | SearchExpressionRangeField>([
+  ['name', 'name'],
+  ['desc', 'description'],
+  ['description', 'description'],
+  ['kw', 'keywords'],
+  ['keyword', 'keywords'],
+  ['keywords', 'keywords'],
+  ['author', 'author'],
+  ['maintainer', 'maintainer'],
+  ['license', 'license'],
+  ['downloads', 'downloads'],
+  ['updated', 'updated'],
+])
+
+/** Operator written when serializing a field */
+const FIELD_OPERATORS: Record<SearchExpressionField | SearchExpressionRangeField, string> = {
+  name: 'name',
+  description: 'desc',
+  keywords: 'kw',
+  author: 'author',
+  maintainer: 'maintainer',
+  license: 'license',
+  downloads: 'downloads',
+  updated: 'updated',
+}
+
+const FIELD_PREFIX_REGEX = /^([a-z]+):/i
+const DOWNLOADS_REGEX = /^([<>]=?|=)?(\d+(?:\.\d+)?)([km])?$/i
+const DURATION_REGEX = /^([<>]=?|=)?(\d+)([dwmy])$/i
+
+const DOWNLOAD_MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 }
+const DURATION_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 }
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Token =
+  | { type: 'open'; negated: boolean; start: number; end: number }
+  | { type: 'close' | 'or'; start: number; end: number }
+  | {
+      type: 'term'
+      negated: boolean
+      /** Field as written, e.g. `KW` */
+      field?: string
+      value: string
+      quoted: boolean
+      start: number
+      end: number
+    }
+
+function createError(
+  code: SearchExpressionErrorCode,
+  input: string,
+  start: number,
+  end: number,
+): SearchExpressionError {
+  return { code, start, end, text: input.slice(start, end) }
+}
+
+function tokenize(input: string, errors: SearchExpressionError[]): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    if (/\s/.test(input[i]!)) {
+      i++
+      continue
+    }
+
+    const start = i
+    if (input[i] === ')') {
+      tokens.push({ type: 'close', start, end: ++i })
+      continue
+    }
+
+    // a lone "-" is a word, not a negation
+    const negated = input[i] === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1]!)
+    if (negated) i++
+
+    if (input[i] === '(') {
+      tokens.push({ type: 'open', negated, start, end: ++i })
+      continue
+    }
+
+    const prefix = input.slice(i).match(FIELD_PREFIX_REGEX)
+    if (prefix) i += prefix[0].length
+
+    let value: string
+    let quoted = false
+    if (input[i] === '"') {
+      quoted = true
+      const close = input.indexOf('"', i + 1)
+      if (close === -1) {
+        errors.push(createError('unclosed_quote', input, start, input.length))
+        value = input.slice(i + 1)
+        i = input.length
+      } else {
+        value = input.slice(i + 1, close)
+        i = close + 1
+      }
+    } else {
+      const valueStart = i
+      while (i < input.length && !/[\s()]/.test(input[i]!)) i++
+      value = input.slice(valueStart, i)
+    }
+
+    if (!negated && !prefix && !quoted && value === 'OR') {
+      tokens.push({ type: 'or', start, end: i })
+    } else {
+      tokens.push({ type: 'term', negated, field: prefix?.[1], value, quoted, start, end: i })
+    }
+  }
+
+  return tokens
+}
+
+function parseRange(
+  field: SearchExpressionRangeField,
+  raw: string,
+): Pick<SearchExpressionRangeNode, 'comparator' | 'value'> | null {
+  if (field === 'downloads') {
+    const match = raw.match(DOWNLOADS_REGEX)
+    if (!match) return null
+    const multiplier = match[3] ? DOWNLOAD_MULTIPLIERS[match[3].toLowerCase()]! : 1
+    return {
+      comparator: (match[1] as SearchExpressionComparator | undefined) ?? '>=',
+      value: Math.round(Number(match[2]) * multiplier),
+    }
+  }
+
+  const match = raw.match(DURATION_REGEX)
+  if (!match) return null
+  return {
+    comparator: (match[1] as SearchExpressionComparator | undefined) ?? '<=',
+    value: Number(match[2]) * DURATION_DAYS[match[3]!.toLowerCase()]!,
+  }
+}
+
+function createTermNode(
+  token: Extract<Token, { type: 'term' }>,
+  input: string,
+  errors: SearchExpressionError[],
+): SearchExpressionNode {
+  const { negated, value, quoted, start, end } = token
+  const raw = input.slice(start, end)
+
+  if (token.field === undefined) {
+    return { type: 'text', value, quoted, negated, start, end }
+  }
+
+  // "name: react" is plain text, the value may still be typed
+  if (!value && !quoted) {
+    return { type: 'text', value: `${token.field}:`, quoted: false, negated, start, end }
+  }
+
+  const field = FIELD_ALIASES.get(token.field.toLowerCase())
+  if (!field) {
+    errors.push(createError('unknown_field', input, start, end))
+    return { type: 'text', value: raw.slice(negated ? 1 : 0), quoted: false, negated, start, end }
+  }
+
+  if (field === 'downloads' || field === 'updated') {
+    const range = quoted ? null : parseRange(field, value)
+    if (!range) {
+      const code = field === 'downloads' ? 'invalid_number' : 'invalid_duration'
+      errors.push(createError(code, input, start, end))
+      return { type: 'invalid', raw, negated, start, end }
+    }
+    return { type: 'range', field, ...range, raw: value, negated, start, end }
+  }
+
+  const values = quoted
+    ? [value.trim()].filter(Boolean)
+    : value
+        .split(',')
+        .map(v => v.trim())
+        .filter(Boolean)
+  if (values.length === 0) {
+    errors.push(createError('empty_value', input, start, end))
+    return { type: 'invalid', raw, negated, start, end }
+  }
+  return { type: 'field', field, values, quoted, negated, start, end }
+}
+
+/**
+ * Parses a search query into an expression.
+ * Parsing never fails: problems are reported in `errors` and the rest of the query is kept.
+ */
+export function parseSearchExpression(input: string): SearchExpression {
+  const errors: SearchExpressionError[] = []
+  const tokens = tokenize(input, errors)
+  let pos = 0
+
+  function parseSequence(nested: boolean): SearchExpressionNode[] {
+    const nodes: SearchExpressionNode[] = []
+    while (pos < tokens.length) {
+      const token = tokens[pos]!
+      if (token.type === 'close') {
+        if (nested) return nodes
+        errors.push(createError('unexpected_paren', input, token.start, token.end))
+        pos++
+        continue
+      }
+      const node = parseAlternatives()
+      if (node) nodes.push(node)
+    }
+    return nodes
+  }
+
+  function parseAlternatives(): SearchExpressionNode | null {
+    const alternatives: SearchExpressionNode[] = []
+    const first = parseOperand()
+    if (first) alternatives.push(first)
+
+    while (tokens[pos]?.type === 'or') {
+      const or = tokens[pos++]!
+      const next = parseOperand()
+      if (alternatives.length === 0 || !next) {
+        errors.push(createError('dangling_or', input, or.start, or.end))
+      }
+      if (next) alternatives.push(next)
+    }
+
+    if (alternatives.length <= 1) return alternatives[0] ?? null
+    return {
+      type: 'group',
+      operator: 'or',
+      nodes: alternatives,
+      negated: false,
+      start: alternatives[0]!.start,
+      end: alternatives.at(-1)!.end,
+    }
+  }
+
+  function parseOperand(): SearchExpressionNode | null {
+    const token = tokens[pos]
+    if (!token || token.type === 'or' || token.type === 'close') return null
+    pos++
+
+    if (token.type === 'term') {
+      return createTermNode(token, input, errors)
+    }
+
+    const nodes = parseSequence(true)
+    const close = tokens[pos]
+    if (close?.type === 'close') {
+      pos++
+    } else {
+      errors.push(createError('unclosed_group', input, token.start, input.length))
+    }
+    if (nodes.length === 0) return null
+
+    // the span includes the parentheses, so removing the term removes them too
+    const span = { start: token.start, end: close?.type === 'close' ? close.end : input.length }
+    const node: SearchExpressionNode =
+      nodes.length === 1
+        ? { ...nodes[0]!, ...span }
+        : { type: 'group', operator: 'and', nodes, negated: false, ...span }
+    return token.type === 'open' && token.negated ? { ...node, negated: !node.negated } : node
+  }
+
+  return { nodes: parseSequence(false), errors }
+}
+
+function quote(value: string): string {
+  return `"${value.replaceAll('"', '')}"`
+}
+
+/** Serializes a single term back to query syntax */
+export function stringifySearchExpressionNode(node: SearchExpressionNode, nested = false): string {
+  const prefix = node.negated ? '-' : ''
+
+  switch (node.type) {
+    case 'text':
+      return `${prefix}${node.quoted || /\s/.test(node.value) ? quote(node.value) : node.value}`
+    case 'field': {
+      // quoted fields have a single value
+      const value = node.quoted ? quote(node.values[0]!) : node.values.join(',')
+      return `${prefix}${FIELD_OPERATORS[node.field]}:${value}`
+    }
+    case 'range':
+      return `${prefix}${FIELD_OPERATORS[node.field]}:${node.raw}`
+    case 'group': {
+      const joined = node.nodes
+        .map(child => stringifySearchExpressionNode(child, true))
+        .join(node.operator === 'or' ? ' OR ' : ' ')
+      return node.negated || nested || node.operator === 'and' ? `${prefix}(${joined})` : joined
+    }
+    case 'invalid':
+      return node.raw
+  }
+}
+
+/** Serializes an expression back to a query, e.g. for the URL */
+export function stringifySearchExpression(nodes: SearchExpressionNode[]): string {
+  return nodes.map(node => stringifySearchExpressionNode(node)).join(' ')
+}
+
+/**
+ * Removes terms from the query they were parsed from.
+ * The rest of the query is kept as written, so this is safe to use while the query is being typed.
+ */
+export function removeSearchExpressionNodes(input: string, nodes: SearchExpressionNode[]): string {
+  let result = input
+  for (const node of [...nodes].sort((a, b) => b.start - a.start)) {
+    result = `${result.slice(0, node.start).trimEnd()} ${result.slice(node.end).trimStart()}`
+  }
+  return result.trim()
+}
+
+function includesText(haystack: string | undefined, needle: string): boolean {
+  return !!haystack && haystack.toLowerCase().includes(needle.toLowerCase())
+}
+
+function compare(actual: number, comparator: SearchExpressionComparator, expected: number) {
+  switch (comparator) {
+    case '>':
+      return actual > expected
+    case '>=':
+      return actual >= expected
+    case '<':
+      return actual < expected
+    case '<=':
+      return actual <= expected
+    case '=':
+      return actual === expected
+  }
+}
+
+function matchesFieldValue(
+  pkg: NpmSearchResult,
+  field: SearchExpressionField,
+  value: string,
+): boolean {
+  const { name, description, keywords, author, maintainers, license } = pkg.package
+  switch (field) {
+    case 'name':
+      return includesText(name, value)
+    case 'description':
+      return includesText(description, value)
+    case 'keywords':
+      return (keywords ?? []).some(k => includesText(k, value))
+    case 'author':
+      return [author?.name, author?.username, author?.email].some(v => includesText(v, value))
+    case 'maintainer':
+      return (maintainers ?? []).some(m =>
+        [m.name, m.username, m.email].some(v => includesText(v, value)),
+      )
+    case 'license':
+      return license?.toLowerCase() === value.toLowerCase()
+  }
+}
+
+function matchesNode(pkg: NpmSearchResult, node: SearchExpressionNode, now: number): boolean {
+  switch (node.type) {
+    case 'text': {
+      const { name, description, keywords } = pkg.package
+      return (
+        includesText(name, node.value) ||
+        includesText(description, node.value) ||
+        (keywords ?? []).some(k => includesText(k, node.value))
+      )
+    }
+    case 'field':
+      return node.values.some(value => matchesFieldValue(pkg, node.field, value))
+    case 'range': {
+      if (node.field === 'downloads') {
+        return compare(pkg.downloads?.weekly ?? 0, node.comparator, node.value)
+      }
+      const published = Date.parse(pkg.package.date)
+      if (Number.isNaN(published)) return false
+      return compare(Math.floor((now - published) / DAY_MS), node.comparator, node.value)
+    }
+    case 'group':
+      return node.operator === 'or'
+        ? node.nodes.some(child => matchesSearchExpression(pkg, child, now))
+        : node.nodes.every(child => matchesSearchExpression(pkg, child, now))
+    case 'invalid':
+      return true
+  }
+}
+
+/**
+ * Check if a package matches a term of a search expression.
+ * Invalid terms match every package, so a typo doesn't hide all results.
+ */
+export function matchesSearchExpression(
+  pkg: NpmSearchResult,
+  node: SearchExpressionNode,
+  now: number = Date.now(),
+): boolean {
+  if (node.type === 'invalid') return true
+  return matchesNode(pkg, node, now) !== node.negated
+}
@@ -0,0 +1,90 @@
+/**
+ * Filter pipeline for package lists, shared by the package list pages and saved search feeds
+ */
+import type { NpmSearchResult } from '#shared/types/npm-registry'
+import type {
+  DownloadRange,
+  SearchScope,
+  SecurityFilter,
+  StructuredFilters,
+  UpdatedWithin,
+} from '#shared/types/preferences'
+import { DOWNLOAD_RANGES, UPDATED_WITHIN_OPTIONS } from '#shared/types/preferences'
+import type { SearchExpressionNode } from '#shared/utils/search-query'
+import { matchesSearchExpression, parseSearchExpression } from '#shared/utils/search-query'
+
+function matchesKeywords(pkg: NpmSearchResult, keywords: string[]): boolean {
+  if (keywords.length === 0) return true
+  const pkgKeywords = new Set((pkg.package.keywords ?? []).map(k => k.toLowerCase()))
+  // AND logic: package must have ALL selected keywords (case-insensitive)
+  return keywords.every(k => pkgKeywords.has(k.toLowerCase()))
+}
+
+function matchesSecurity(pkg: NpmSearchResult, security: SecurityFilter): boolean {
+  if (security === 'all') return true
+  const hasWarnings = (pkg.flags?.insecure ?? 0) > 0
+  if (security === 'secure') return !hasWarnings
+  if (security === 'warnings') return hasWarnings
+  return true
+}
+
+function matchesScopedText(pkg: NpmSearchResult, text: string, scope: SearchScope): boolean {
+  const lower = text.toLowerCase()
+  const pkgName = pkg.package.name.toLowerCase()
+  switch (scope) {
+    case 'description':
+      return (pkg.package.description ?? '').toLowerCase().includes(lower)
+    case 'keywords':
+      return (pkg.package.keywords ?? []).some(k => k.toLowerCase().includes(lower))
+    default:
+      return pkgName.includes(lower)
+  }
+}
+
+function matchesDownloadRange(pkg: NpmSearchResult, range: DownloadRange): boolean {
+  if (range === 'any') return true
+  const downloads = pkg.downloads?.weekly ?? 0
+  const config = DOWNLOAD_RANGES.find(r => r.value === range)
+  if (!config) return true
+  if (config.min !== undefined && downloads < config.min) return false
+  if (config.max !== undefined && downloads >= config.max) return false
+  return true
+}
+
+function matchesUpdatedWithin(pkg: NpmSearchResult, within: UpdatedWithin, now: number): boolean {
+  if (within === 'any') return true
+  const config = UPDATED_WITHIN_OPTIONS.find(o => o.value === within)
+  if (!config?.days) return true
+
+  const updatedDate = new Date(pkg.package.date)
+  const cutoff = new Date(now)
+  cutoff.setDate(cutoff.getDate() - config.days)
+  return updatedDate >= cutoff
+}
+
+/**
+ * Creates a predicate matching packages against all structured filters.
+ * With the 'all' scope the text is parsed once as a search expression, every term must match.
+ */
+export function createStructuredFiltersPredicate(
+  filters: StructuredFilters,
+  now: number = Date.now(),
+): (pkg: NpmSearchResult) => boolean {
+  const terms: SearchExpressionNode[] =
+    filters.searchScope === 'all' ? parseSearchExpression(filters.text).nodes : []
+
+  return pkg => {
+    if (filters.text) {
+      const matchesText =
+        filters.searchScope === 'all'
+          ? terms.every(node => matchesSearchExpression(pkg, node, now))
+          : matchesScopedText(pkg, filters.text, filters.searchScope)
+      if (!matchesText) return false
+    }
+    if (!matchesDownloadRange(pkg, filters.downloadRange)) return false
+    if (!matchesKeywords(pkg, filters.keywords)) return false
+    if (!matchesSecurity(pkg, filters.security)) return false
+    if (!matchesUpdatedWithin(pkg, filters.updatedWithin, now)) return false
+    return true
+  }
+}
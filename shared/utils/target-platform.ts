@@ -0,0 +1,70 @@
+/**
+ * Target platforms for dependency resolution.
+ *
+ * Optional native dependencies (e.g. `@esbuild/darwin-arm64`) declare `os`, `cpu` and
+ * `libc` constraints, so the resolved tree, install size and vulnerability report all
+ * depend on the platform the package is installed on.
+ */
+
+export const TARGET_OS = ['linux', 'darwin', 'win32'] as const
+export const TARGET_CPU = ['x64', 'arm64'] as const
+export const TARGET_LIBC = ['glibc', 'musl'] as const
+
+export type TargetOs = (typeof TARGET_OS)[number]
+export type TargetCpu = (typeof TARGET_CPU)[number]
+export type TargetLibc = (typeof TARGET_LIBC)[number]
+
+export interface TargetPlatform {
+  os: string
+  cpu: string
+  /** Only meaningful on Linux; packages that require a libc never match other platforms */
+  libc?: string
+}
+
+/** Representative platform used when none is requested */
+export const DEFAULT_TARGET_PLATFORM = {
+  os: 'linux',
+  cpu: 'x64',
+  libc: 'glibc',
+} as const satisfies { os: TargetOs; cpu: TargetCpu; libc: TargetLibc }
+
+/**
+ * Platforms offered in the UI, identified by their key (see `getTargetPlatformKey`).
+ */
+export const TARGET_PLATFORM_PRESETS: readonly TargetPlatform[] = [
+  { os: 'linux', cpu: 'x64', libc: 'glibc' },
+  { os: 'linux', cpu: 'x64', libc: 'musl' },
+  { os: 'linux', cpu: 'arm64', libc: 'glibc' },
+  { os: 'linux', cpu: 'arm64', libc: 'musl' },
+  { os: 'darwin', cpu: 'arm64' },
+  { os: 'darwin', cpu: 'x64' },
+  { os: 'win32', cpu: 'x64' },
+  { os: 'win32', cpu: 'arm64' },
+]
+
+/**
+ * Build a stable identifier for a platform, e.g. `linux-x64-musl` or `darwin-arm64`.
+ */
+export function getTargetPlatformKey(platform: TargetPlatform): string {
+  return [platform.os, platform.cpu, platform.os === 'linux' ? platform.libc : undefined]
+    .filter(Boolean)
+    .join('-')
+}
+
+/**
+ * Check whether a platform is the default one, so callers can omit it from URLs.
+ */
+export function isDefaultTargetPlatform(platform: TargetPlatform): boolean {
+  return getTargetPlatformKey(platform) === getTargetPlatformKey(DEFAULT_TARGET_PLATFORM)
+}
+
+/**
+ * Build the `os`/`cpu`/`libc` query for API requests.
+ * Returns an empty object for the default platform to keep URLs (and caches) unchanged.
+ */
+export function getTargetPlatformQuery(platform: TargetPlatform): Record<string, string> {
+  if (isDefaultTargetPlatform(platform)) return {}
+  const query: Record<string, string> = { os: platform.os, cpu: platform.cpu }
+  if (platform.os === 'linux' && platform.libc) query.libc = platform.libc
+  return query
+}
@@ -16,6 +16,8 @@ const TEST_PORT = DEFAULT_MOCK_CONFIG.port ?? 31415
 export class MockConnectorClient {
   private token: string
   private baseUrl: string
+  /** Session token returned by /connect, used for all other requests */
+  private sessionToken: string | null = null
 
   constructor(token: string, port: number) {
     this.token = token
@@ -27,7 +29,7 @@ export class MockConnectorClient {
       ...options,
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.token}`,
+        'Authorization': `Bearer ${this.sessionToken}`,
         ...options?.headers,
       },
     })
@@ -54,7 +56,16 @@ export class MockConnectorClient {
 
   async reset(): Promise<void> {
     await this.testEndpoint('/__test__/reset', {})
-    await this.testEndpoint('/connect', { token: this.token })
+    const response = await fetch(`${this.baseUrl}/connect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: this.token }),
+    })
+    if (!response.ok) {
+      throw new Error(`Mock connector connect failed: ${response.status} ${response.statusText}`)
+    }
+    const result = (await response.json()) as { data: { sessionToken: string } }
+    this.sessionToken = result.data.sessionToken
   }
 
   async setOrgData(
@@ -83,6 +94,18 @@ export class MockConnectorClient {
     await this.testEndpoint('/__test__/package', { package: pkg, ...data })
   }
 
+  async setLocalPackage(
+    dir: string,
+    data: {
+      packageJson: { name: string; version: string } & Record<string, unknown>
+      files?: Array<{ path: string; size: number }>
+      size?: number
+      unpackedSize?: number
+    },
+  ): Promise<void> {
+    await this.testEndpoint('/__test__/local-package', { dir, ...data })
+  }
+
   async addOperation(operation: {
     type: string
     params: Record<string, string>
@@ -172,6 +172,7 @@ import {
   LinkBase,
   CallToAction,
   ChangelogCard,
+  ChangelogDigestForm,
   ChangelogErrorMsg,
   CodeDirectoryListing,
   CodeFileTree,
@@ -190,6 +191,9 @@ import {
   ComparePackageSelector,
   CompareReplacementSuggestion,
   DateTime,
+  DependencyGraphDuplicates,
+  DependencyGraphNodeDetails,
+  DependencyGraphTreeItem,
   DependencyPathPopup,
   FilterChips,
   FilterPanel,
@@ -200,16 +204,28 @@ import {
   InputBase,
   LicenseDisplay,
   LoadingSpinner,
+  LockfileAuditReport,
   PackageProvenanceSection,
+  OrgAccessMatrix,
   OrgMembersPanel,
+  OrgMembersRoster,
+  OrgConnectorSessions,
+  OrgOperationPlans,
+  OrgOperationsHistory,
   OrgOperationsQueue,
   OrgTeamsPanel,
   PackageAccessControls,
   PackageCard,
+  PackageBadgeBuilderModal,
   PackageClaimPackageModal,
   PackageCompatibility,
   PackageDependencies,
   PackageDeprecatedTree,
+  PackageDeprecationEditor,
+  PackageDistTagEditor,
+  PackageTrustedPublishing,
+  PackagePublishWizard,
+  PackageDuplicateTree,
   PackageHeader,
   PackageInstallScripts,
   PackageKeywords,
@@ -220,6 +236,7 @@ import {
   PackageDownloadButton,
   PackageManagerSelect,
   PackageMetricsBadges,
+  PackagePlatformPicker,
   PackagePlaygrounds,
   PackageReplacement,
   PackageSidebar,
@@ -234,6 +251,7 @@ import {
   ProvenanceBadge,
   Readme,
   ReadmeTocDropdown,
+  SavedSearchCard,
   SearchProviderToggle,
   SearchSuggestionCard,
   SelectBase,
@@ -251,6 +269,7 @@ import {
   UserAvatar,
   VersionSelector,
   ViewModeToggle,
+  DiffDependencyTreeChanges,
   DiffFileTree,
   DiffHunk,
   DiffLine,
@@ -1086,6 +1105,40 @@ describe('component accessibility audits', () => {
     })
   })
 
+  describe('SavedSearchCard', () => {
+    const savedSearch = {
+      rkey: '3lbtr2ecxuk2y',
+      name: 'Vite plugins',
+      query: 'kw:vite-plugin license:MIT',
+      filters: {
+        text: 'license:MIT',
+        searchScope: 'name' as const,
+        downloadRange: 'any' as const,
+        keywords: ['vite-plugin'],
+        security: 'all' as const,
+        updatedWithin: 'any' as const,
+      },
+      sort: 'updated-desc' as const,
+      createdAt: '2024-01-15T12:00:00.000Z',
+    }
+
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(SavedSearchCard, {
+        props: { savedSearch, handle: 'npmx.dev' },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
+    it('should have no accessibility violations with delete button', async () => {
+      const component = await mountSuspended(SavedSearchCard, {
+        props: { savedSearch, handle: 'npmx.dev', canDelete: true },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
   describe('PackageHeader', () => {
     it('should have no accessibility violations', async () => {
       const component = await mountSuspended(PackageHeader, {
@@ -1819,6 +1872,19 @@ describe('component accessibility audits', () => {
     })
   })
 
+  describe('PackageBadgeBuilderModal', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(PackageBadgeBuilderModal, {
+        props: {
+          packageName: 'vue',
+          version: '3.5.0',
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
   describe('PackageClaimPackageModal', () => {
     it('should have no accessibility violations when closed', async () => {
       const component = await mountSuspended(PackageClaimPackageModal, {
@@ -1881,6 +1947,57 @@ describe('component accessibility audits', () => {
     })
   })
 
+  describe('OrgAccessMatrix', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(OrgAccessMatrix, {
+        props: {
+          orgName: 'nuxt',
+          packages: ['@nuxt/kit', '@nuxt/schema'],
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('OrgMembersRoster', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(OrgMembersRoster, {
+        props: {
+          orgName: 'nuxt',
+          members: { alice: 'owner', bob: 'developer' },
+          teamMembers: { developers: ['alice', 'bob'] },
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('OrgOperationsHistory', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(OrgOperationsHistory)
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('OrgConnectorSessions', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(OrgConnectorSessions)
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('OrgOperationPlans', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(OrgOperationPlans)
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
   describe('OrgOperationsQueue', () => {
     it('should have no accessibility violations', async () => {
       const component = await mountSuspended(OrgOperationsQueue)
@@ -1986,6 +2103,52 @@ describe('component accessibility audits', () => {
     })
   })
 
+  describe('PackageDeprecationEditor', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(PackageDeprecationEditor, {
+        props: {
+          packageName: 'request',
+          versions: ['2.88.0', '2.88.2'],
+          deprecated: { '2.88.0': 'request has been deprecated' },
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('PackageDistTagEditor', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(PackageDistTagEditor, {
+        props: {
+          packageName: 'vue',
+          distTags: { latest: '3.5.13', next: '3.6.0-beta.1' },
+          versions: ['3.5.13', '3.6.0-beta.1'],
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('PackageTrustedPublishing', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(PackageTrustedPublishing, {
+        props: { packageName: '@nuxt/kit' },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('PackagePublishWizard', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(PackagePublishWizard)
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
   describe('OrgMembersPanel', () => {
     it('should have no accessibility violations', async () => {
       const component = await mountSuspended(OrgMembersPanel, {
@@ -2062,6 +2225,19 @@ describe('component accessibility audits', () => {
       expect(results.violations).toEqual([])
     })
 
+    it('should have no accessibility violations with query errors', async () => {
+      const component = await mountSuspended(FilterChips, {
+        props: {
+          chips: [
+            { id: 'term-0', type: 'text', label: 'Downloads', value: '>10k', term: 0 },
+          ] satisfies FilterChip[],
+          errors: [{ code: 'invalid_duration', start: 15, end: 28, text: 'updated:<soon' }],
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
     it('should have no accessibility violations with empty chips', async () => {
       const component = await mountSuspended(FilterChips, {
         props: { chips: [] },
@@ -2367,6 +2543,188 @@ describe('component accessibility audits', () => {
     })
   })
 
+  describe('PackageDuplicateTree', () => {
+    it('should have no accessibility violations in idle state', async () => {
+      const component = await mountSuspended(PackageDuplicateTree, {
+        props: {
+          packageName: 'vue',
+          version: '3.5.0',
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('PackagePlatformPicker', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(PackagePlatformPicker, {
+        props: {
+          modelValue: { os: 'darwin', cpu: 'arm64' },
+          status: 'success',
+          installSize: {
+            package: 'esbuild',
+            version: '0.25.0',
+            selfSize: 100000,
+            totalSize: 10000000,
+            dependencyCount: 1,
+            dependencies: [
+              {
+                name: '@esbuild/darwin-arm64',
+                version: '0.25.0',
+                size: 9900000,
+                tarballUrl: '',
+                optional: true,
+              },
+            ],
+            platform: 'darwin-arm64',
+          },
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
+    it('should have no accessibility violations while loading', async () => {
+      const component = await mountSuspended(PackagePlatformPicker, {
+        props: {
+          modelValue: { os: 'linux', cpu: 'x64', libc: 'glibc' },
+          status: 'pending',
+          installSize: null,
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('LockfileAuditReport', () => {
+    it('should have no accessibility violations', async () => {
+      const component = await mountSuspended(LockfileAuditReport, {
+        props: {
+          result: {
+            vulnerablePackages: [
+              {
+                name: 'vuln-dep',
+                version: '1.0.0',
+                depth: 'direct',
+                path: ['vuln-dep@1.0.0'],
+                vulnerabilities: [
+                  {
+                    id: 'GHSA-xxxx-xxxx-xxxx',
+                    summary: 'Prototype pollution',
+                    severity: 'high',
+                    aliases: [],
+                    url: 'https://github.com/advisories/GHSA-xxxx-xxxx-xxxx',
+                    fixedIn: '1.0.1',
+                  },
+                ],
+                counts: { total: 1, critical: 0, high: 1, moderate: 0, low: 0 },
+              },
+            ],
+            deprecatedPackages: [
+              {
+                name: 'old-dep',
+                version: '0.1.0',
+                depth: 'transitive',
+                path: ['old-dep@0.1.0'],
+                message: 'No longer maintained',
+              },
+            ],
+            totalPackages: 3,
+            failedQueries: 0,
+            totalCounts: { total: 1, critical: 0, high: 1, moderate: 0, low: 0 },
+            totalSize: 123456,
+            dependencies: [
+              { name: 'vuln-dep', version: '1.0.0', size: 100000, tarballUrl: '' },
+              { name: 'old-dep', version: '0.1.0', size: 23456, tarballUrl: '' },
+            ],
+            missingPackages: ['private-dep@1.0.0'],
+          },
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
+  describe('DependencyGraph', () => {
+    const graph = {
+      package: 'root',
+      version: '1.0.0',
+      platform: 'linux-x64-glibc',
+      root: 'root@1.0.0',
+      totalSize: 3000,
+      truncated: false,
+      nodes: {
+        'root@1.0.0': {
+          name: 'root',
+          version: '1.0.0',
+          size: 1000,
+          license: 'MIT',
+          dependencies: [
+            { name: 'a', range: '^1.0.0', optional: false, target: 'a@1.0.0' },
+            { name: 'shared', range: '^2.0.0', optional: true, target: 'shared@2.0.0' },
+            { name: 'missing', range: '^1.0.0', optional: false, target: null },
+          ],
+        },
+        'a@1.0.0': {
+          name: 'a',
+          version: '1.0.0',
+          size: 1000,
+          dependencies: [
+            { name: 'shared', range: '^1.0.0', optional: false, target: 'shared@1.0.0' },
+          ],
+        },
+        'shared@1.0.0': {
+          name: 'shared',
+          version: '1.0.0',
+          size: 500,
+          deprecated: 'Upgrade to v2',
+          dependencies: [],
+        },
+        'shared@2.0.0': { name: 'shared', version: '2.0.0', size: 500, dependencies: [] },
+      },
+    }
+    const duplicates = new Map([['shared', ['1.0.0', '2.0.0']]])
+
+    it('TreeItem should have no accessibility violations', async () => {
+      const TreeFixture = defineComponent({
+        setup() {
+          return () =>
+            h('ul', [
+              h(DependencyGraphTreeItem, {
+                graph,
+                nodeKey: 'root@1.0.0',
+                ancestors: [],
+                duplicates,
+                selected: 'a@1.0.0',
+              }),
+            ])
+        },
+      })
+      const component = await mountSuspended(TreeFixture)
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
+    it('NodeDetails should have no accessibility violations', async () => {
+      const component = await mountSuspended(DependencyGraphNodeDetails, {
+        props: { graph, nodeKey: 'shared@1.0.0' },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
+    it('Duplicates should have no accessibility violations', async () => {
+      const component = await mountSuspended(DependencyGraphDuplicates, {
+        props: { graph, duplicates },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
   describe('DependencyPathPopup', () => {
     it('should have no accessibility violations with short path', async () => {
       const component = await mountSuspended(DependencyPathPopup, {
@@ -2746,6 +3104,22 @@ describe('component accessibility audits', () => {
       expect(results.violations).toEqual([])
     })
 
+    it('ChangelogDigestForm should have no accessibility violations', async () => {
+      const component = await mountSuspended(ChangelogDigestForm, {
+        props: { from: '3.2.1', to: '5.0.0' },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
+    it('ChangelogDigestForm should have no accessibility violations with an invalid range', async () => {
+      const component = await mountSuspended(ChangelogDigestForm, {
+        props: { from: '5.0.0', to: '3.2.1' },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+
     it('ChangelogErrorMsg should have no accessibility violations for warning variant', async () => {
       const component = await mountSuspended(ChangelogErrorMsg, {
         props: {
@@ -3575,6 +3949,20 @@ describe('component accessibility audits', () => {
   })
 
   // Diff components
+  describe('DiffDependencyTreeChanges', () => {
+    it('should have no accessibility violations in idle state', async () => {
+      const component = await mountSuspended(DiffDependencyTreeChanges, {
+        props: {
+          packageName: 'vue',
+          fromVersion: '3.4.0',
+          toVersion: '3.5.0',
+        },
+      })
+      const results = await runAxe(component)
+      expect(results.violations).toEqual([])
+    })
+  })
+
   describe('DiffFileTree', () => {
     const mockFiles = [
       { path: 'src/index.ts', type: 'modified' as const },
@@ -22,6 +22,9 @@ function createMockUseConnector() {
     state: readonly(mockState),
     isConnected: computed(() => mockState.value.connected),
     isConnecting: computed(() => mockState.value.connecting),
+    sessionScope: computed(() => 'write' as const),
+    sessionExpiresAt: computed(() => null),
+    isReadOnly: computed(() => false),
     npmUser: computed(() => mockState.value.npmUser),
     avatar: computed(() => mockState.value.avatar),
     error: computed(() => mockState.value.error),
@@ -74,6 +77,8 @@ function createMockUseConnector() {
     reconnect: vi.fn().mockResolvedValue(true),
     disconnect: vi.fn(),
     refreshState: vi.fn().mockResolvedValue(undefined),
+    listSessions: vi.fn().mockResolvedValue([]),
+    revokeSession: vi.fn().mockResolvedValue(true),
     addOperation: vi.fn().mockResolvedValue(null),
     addOperations: vi.fn().mockResolvedValue([]),
     removeOperation: vi.fn().mockResolvedValue(true),
@@ -81,11 +86,16 @@ function createMockUseConnector() {
     approveOperation: vi.fn().mockResolvedValue(true),
     retryOperation: vi.fn().mockResolvedValue(true),
     approveAll: vi.fn().mockResolvedValue(0),
+    dryRunOperations: vi.fn().mockResolvedValue(null),
+    previewPublish: vi.fn().mockResolvedValue(null),
     executeOperations: vi.fn().mockResolvedValue({ success: true }),
+    listHistory: vi.fn().mockResolvedValue([]),
     listOrgUsers: vi.fn().mockResolvedValue(null),
     listOrgTeams: vi.fn().mockResolvedValue(null),
     listTeamUsers: vi.fn().mockResolvedValue(null),
     listPackageCollaborators: vi.fn().mockResolvedValue(null),
+    listPackageDistTags: vi.fn().mockResolvedValue(null),
+    listPackageTrustedPublishers: vi.fn().mockResolvedValue(null),
     listUserPackages: vi.fn().mockResolvedValue(null),
     listUserOrgs: vi.fn().mockResolvedValue(null),
   }
@@ -26,6 +26,7 @@ function createInstallSize(
     totalSize: 5000,
     dependencyCount: 3,
     dependencies: [],
+    platform: 'linux-x64-glibc',
     ...overrides,
   }
 }
@@ -76,6 +76,48 @@ describe('parseSearchOperators', () => {
     })
   })
 
+  describe('extended operators', () => {
+    it('parses author:, maintainer: and license: operators', () => {
+      const result = parseSearchOperators('author:antfu maintainer:sxzz license:MIT,ISC')
+      expect(result).toEqual({
+        author: ['antfu'],
+        maintainer: ['sxzz'],
+        license: ['MIT', 'ISC'],
+      })
+    })
+
+    it('parses excluded keywords', () => {
+      const result = parseSearchOperators('kw:vite -kw:deprecated')
+      expect(result).toEqual({
+        keywords: ['vite'],
+        excludedKeywords: ['deprecated'],
+      })
+    })
+
+    it('parses quoted values', () => {
+      const result = parseSearchOperators('desc:"build tool" "css in js"')
+      expect(result).toEqual({
+        description: ['build tool'],
+        text: '"css in js"',
+      })
+    })
+
+    it('keeps ranges and OR groups as text', () => {
+      const result = parseSearchOperators('kw:vite downloads:>10k (author:a OR author:b)')
+      expect(result).toEqual({
+        keywords: ['vite'],
+        text: 'downloads:>10k author:a OR author:b',
+      })
+    })
+
+    it('reports errors', () => {
+      const result = parseSearchOperators('updated:<soon')
+      expect(result.errors).toEqual([
+        { code: 'invalid_duration', start: 0, end: 13, text: 'updated:<soon' },
+      ])
+    })
+  })
+
   describe('remaining text', () => {
     it('captures text without operators', () => {
       const result = parseSearchOperators('some search text')
@@ -185,6 +227,11 @@ describe('hasSearchOperators', () => {
     expect(hasSearchOperators({ name: ['react'], text: 'query' })).toBe(true)
   })
 
+  it('returns true when extended operators are present', () => {
+    expect(hasSearchOperators({ license: ['MIT'] })).toBe(true)
+    expect(hasSearchOperators({ excludedKeywords: ['deprecated'] })).toBe(true)
+  })
+
   it('returns false for empty arrays', () => {
     expect(hasSearchOperators({ name: [], keywords: [] })).toBe(false)
   })
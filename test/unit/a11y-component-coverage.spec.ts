@@ -58,8 +58,11 @@ const SKIPPED_COMPONENTS: Record<string, string> = {
   'Button/Group.vue': "Wrapper component, tests wouldn't make much sense here",
   'Changelog/Releases.vue': 'Requires API calls',
   'Changelog/Markdown.vue': 'Requires API call & only renders markdown html',
+  'Changelog/Digest.vue': 'Requires API calls',
+  'Changelog/VersionNotes.vue': 'Requires API calls',
   'Translation/StatusByFile.unused.vue': 'Unused component, might be needed in the future',
   'ColorScheme/Img.vue': 'Image component, basic ui',
+  'SavedSearch/SaveButton.vue': 'Requires a logged in user and API calls',
 }
 
 function normalizeComponentPath(filePath: string): string {
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  buildAccessMatrix,
+  buildAccessMatrixOperations,
+  getCollaboratorTeam,
+} from '~/utils/npm/access-matrix'
+
+describe('getCollaboratorTeam', () => {
+  it('extracts the team name for teams of the org', () => {
+    expect(getCollaboratorTeam('nuxt', 'nuxt:core')).toBe('core')
+    expect(getCollaboratorTeam('nuxt', '@nuxt:core')).toBe('core')
+    expect(getCollaboratorTeam('@Nuxt', 'nuxt:core')).toBe('core')
+  })
+
+  it('ignores users and teams of other orgs', () => {
+    expect(getCollaboratorTeam('nuxt', 'alice')).toBeNull()
+    expect(getCollaboratorTeam('nuxt', 'vue:core')).toBeNull()
+  })
+})
+
+describe('buildAccessMatrix', () => {
+  const teams = ['core', 'docs']
+
+  it('lists the access of every team, with null for teams without access', () => {
+    const rows = buildAccessMatrix('nuxt', ['@nuxt/kit', '@nuxt/schema'], teams, {
+      '@nuxt/kit': { 'nuxt:core': 'read-write', 'nuxt:docs': 'read-only', 'alice': 'read-write' },
+    })
+
+    expect(rows).toEqual([
+      {
+        pkg: '@nuxt/kit',
+        access: { core: 'read-write', docs: 'read-only' },
+        publishable: true,
+      },
+      {
+        pkg: '@nuxt/schema',
+        access: { core: null, docs: null },
+        publishable: false,
+      },
+    ])
+  })
+
+  it('reports packages only writable by empty teams as unpublishable', () => {
+    const collaborators = { '@nuxt/kit': { 'nuxt:docs': 'read-write' as const } }
+
+    expect(
+      buildAccessMatrix('nuxt', ['@nuxt/kit'], teams, collaborators, { docs: [] })[0]?.publishable,
+    ).toBe(false)
+    expect(
+      buildAccessMatrix('nuxt', ['@nuxt/kit'], teams, collaborators, { docs: ['alice'] })[0]
+        ?.publishable,
+    ).toBe(true)
+    // Unknown membership is not reported
+    expect(buildAccessMatrix('nuxt', ['@nuxt/kit'], teams, collaborators)[0]?.publishable).toBe(
+      true,
+    )
+  })
+})
+
+describe('buildAccessMatrixOperations', () => {
+  const rows = buildAccessMatrix(
+    'nuxt',
+    ['@nuxt/kit', '@nuxt/schema', '@nuxt/test-utils'],
+    ['core'],
+    {
+      '@nuxt/kit': { 'nuxt:core': 'read-write' },
+      '@nuxt/schema': { 'nuxt:core': 'read-only' },
+    },
+  )
+
+  it('grants access to packages not already at that permission', () => {
+    const operations = buildAccessMatrixOperations('nuxt', 'core', 'read-write', rows)
+
+    expect(operations).toEqual([
+      {
+        type: 'access:grant',
+        params: { permission: 'read-write', scopeTeam: '@nuxt:core', pkg: '@nuxt/schema' },
+        description: 'Grant read-write access to @nuxt:core for @nuxt/schema',
+        command: 'npm access grant read-write @nuxt:core @nuxt/schema',
+      },
+      {
+        type: 'access:grant',
+        params: { permission: 'read-write', scopeTeam: '@nuxt:core', pkg: '@nuxt/test-utils' },
+        description: 'Grant read-write access to @nuxt:core for @nuxt/test-utils',
+        command: 'npm access grant read-write @nuxt:core @nuxt/test-utils',
+      },
+    ])
+  })
+
+  it('revokes access only from packages the team can access', () => {
+    const operations = buildAccessMatrixOperations('nuxt', 'core', 'revoke', rows)
+
+    expect(operations.map(op => op.type)).toEqual(['access:revoke', 'access:revoke'])
+    expect(operations.map(op => op.command)).toEqual([
+      'npm access revoke @nuxt:core @nuxt/kit',
+      'npm access revoke @nuxt:core @nuxt/schema',
+    ])
+  })
+})
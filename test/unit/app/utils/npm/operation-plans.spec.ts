@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import type { PendingOperation } from '#cli/types'
+
+import { buildOperationPlan } from '~/utils/npm/operation-plans'
+
+function op(id: string, dependsOn?: string): PendingOperation {
+  return {
+    id,
+    type: 'team:add-user',
+    params: { scopeTeam: '@nuxt:core', user: id },
+    description: `Add ${id}`,
+    command: `npm team add @nuxt:core ${id}`,
+    status: 'approved',
+    createdAt: 0,
+    ...(dependsOn && { dependsOn }),
+  }
+}
+
+describe('buildOperationPlan', () => {
+  it('keeps the operations without their queue state', () => {
+    const plan = buildOperationPlan('release', [op('a')], 1000)
+
+    expect(plan).toEqual({
+      name: 'release',
+      createdAt: 1000,
+      operations: [
+        {
+          type: 'team:add-user',
+          params: { scopeTeam: '@nuxt:core', user: 'a' },
+          description: 'Add a',
+          command: 'npm team add @nuxt:core a',
+        },
+      ],
+    })
+  })
+
+  it('converts dependencies within the plan to batch indices', () => {
+    const plan = buildOperationPlan('release', [op('a'), op('b', 'a'), op('c', 'missing')])
+
+    expect(plan.operations.map(o => o.dependsOnIndex)).toEqual([undefined, 0, undefined])
+    expect(plan.operations[2]).not.toHaveProperty('dependsOnIndex')
+  })
+})
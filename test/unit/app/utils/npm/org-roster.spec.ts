@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  buildOrgRoster,
+  buildOrgRosterOperations,
+  diffOrgRoster,
+  parseOrgRoster,
+  serializeOrgRosterCsv,
+  serializeOrgRosterJson,
+  type OrgRosterEntry,
+} from '~/utils/npm/org-roster'
+
+const roster: OrgRosterEntry[] = [
+  { user: 'alice', role: 'owner', teams: ['core', 'developers'] },
+  { user: 'bob', role: 'developer', teams: ['developers'] },
+]
+
+describe('buildOrgRoster', () => {
+  it('combines members and team memberships, sorted by username', () => {
+    expect(
+      buildOrgRoster(
+        { bob: 'developer', alice: 'owner' },
+        { developers: ['alice', 'bob'], core: ['alice'] },
+      ),
+    ).toEqual(roster)
+  })
+})
+
+describe('serialization', () => {
+  it('round-trips through JSON', () => {
+    expect(parseOrgRoster(serializeOrgRosterJson(roster))).toEqual({ entries: roster, errors: [] })
+  })
+
+  it('round-trips through CSV', () => {
+    const csv = serializeOrgRosterCsv(roster)
+    expect(csv).toBe('user,role,teams\nalice,owner,core;developers\nbob,developer,developers\n')
+    expect(parseOrgRoster(csv)).toEqual({ entries: roster, errors: [] })
+  })
+})
+
+describe('parseOrgRoster', () => {
+  it('accepts quoted CSV fields, reordered columns and a missing role', () => {
+    const { entries, errors } = parseOrgRoster('teams,user\r\n"core;qa",~carol\r\n,dave\r\n')
+    expect(errors).toEqual([])
+    expect(entries).toEqual([
+      { user: 'carol', role: 'developer', teams: ['core', 'qa'] },
+      { user: 'dave', role: 'developer', teams: [] },
+    ])
+  })
+
+  it('accepts CSV without a header', () => {
+    expect(parseOrgRoster('alice,admin').entries).toEqual([
+      { user: 'alice', role: 'admin', teams: [] },
+    ])
+  })
+
+  it('reports invalid and duplicate rows and skips them', () => {
+    const { entries, errors } = parseOrgRoster(
+      'user,role\nalice,admin\nbad user,developer\nbob,maintainer\nALICE,owner\n',
+    )
+    expect(entries).toEqual([{ user: 'alice', role: 'admin', teams: [] }])
+    expect(errors).toEqual([
+      'Line 3: invalid username "bad user"',
+      'Line 4: invalid role "maintainer" for bob',
+      'Line 5: duplicate entry for ALICE',
+    ])
+  })
+
+  it('reports malformed JSON', () => {
+    expect(parseOrgRoster('[{"user": ').errors).toEqual(['Invalid JSON'])
+  })
+})
+
+describe('diffOrgRoster', () => {
+  it('lists additions, role changes and team additions', () => {
+    const desired: OrgRosterEntry[] = [
+      { user: 'alice', role: 'admin', teams: ['core', 'developers'] },
+      { user: 'bob', role: 'developer', teams: ['developers', 'qa'] },
+      { user: 'carol', role: 'developer', teams: ['developers'] },
+    ]
+
+    expect(diffOrgRoster(roster, desired)).toEqual([
+      { type: 'set-role', user: 'alice', from: 'owner', to: 'admin' },
+      { type: 'add-to-team', user: 'bob', team: 'qa' },
+      { type: 'add', user: 'carol', role: 'developer' },
+      { type: 'add-to-team', user: 'carol', team: 'developers' },
+    ])
+  })
+
+  it('only removes members missing from the roster when asked to', () => {
+    const desired = roster.slice(0, 1)
+
+    expect(diffOrgRoster(roster, desired)).toEqual([])
+    expect(diffOrgRoster(roster, desired, { removeMissing: true })).toEqual([
+      { type: 'remove', user: 'bob' },
+    ])
+  })
+})
+
+describe('buildOrgRosterOperations', () => {
+  it('makes team additions for new members depend on the org addition', () => {
+    const operations = buildOrgRosterOperations('nuxt', [
+      { type: 'add-to-team', user: 'bob', team: 'qa' },
+      { type: 'add', user: 'carol', role: 'developer' },
+      { type: 'add-to-team', user: 'carol', team: 'developers' },
+      { type: 'set-role', user: 'alice', from: 'owner', to: 'admin' },
+      { type: 'remove', user: 'dave' },
+    ])
+
+    expect(operations.map(op => [op.type, op.dependsOnIndex])).toEqual([
+      ['team:add-user', undefined],
+      ['org:add-user', undefined],
+      ['team:add-user', 1],
+      ['org:set-role', undefined],
+      ['org:rm-user', undefined],
+    ])
+    expect(operations[2]).toMatchObject({
+      params: { scopeTeam: '@nuxt:developers', user: 'carol' },
+      command: 'npm team add @nuxt:developers carol',
+    })
+    expect(operations[3]!.params).toEqual({ org: 'nuxt', user: 'alice', role: 'admin' })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+
+import type { PublishPreviewData } from '#cli/types'
+import { buildPackFileTree, buildPublishOperation, getPublishWarnings } from '~/utils/npm/publish'
+
+function createPreview(overrides: Partial<PublishPreviewData> = {}): PublishPreviewData {
+  return {
+    dir: '/home/me/my-pkg',
+    packageJson: {
+      name: 'my-pkg',
+      version: '1.2.0',
+      files: ['dist'],
+      exports: { '.': { types: './dist/index.d.mts', import: './dist/index.mjs' } },
+    },
+    files: [
+      { path: 'package.json', size: 400 },
+      { path: 'dist/index.mjs', size: 1000 },
+      { path: 'dist/index.d.mts', size: 200 },
+    ],
+    size: 800,
+    unpackedSize: 1600,
+    ...overrides,
+  }
+}
+
+describe('buildPackFileTree', () => {
+  it('nests files into directories with total sizes', () => {
+    const tree = buildPackFileTree([
+      { path: 'package.json', size: 400 },
+      { path: 'dist/index.mjs', size: 1000 },
+      { path: 'dist/chunks/a.mjs', size: 50 },
+    ])
+
+    expect(tree).toEqual([
+      {
+        name: 'dist',
+        path: 'dist',
+        type: 'directory',
+        size: 1050,
+        children: [
+          {
+            name: 'chunks',
+            path: 'dist/chunks',
+            type: 'directory',
+            size: 50,
+            children: [{ name: 'a.mjs', path: 'dist/chunks/a.mjs', type: 'file', size: 50 }],
+          },
+          { name: 'index.mjs', path: 'dist/index.mjs', type: 'file', size: 1000 },
+        ],
+      },
+      { name: 'package.json', path: 'package.json', type: 'file', size: 400 },
+    ])
+  })
+})
+
+describe('getPublishWarnings', () => {
+  it('does not warn for a well-formed package', () => {
+    expect(getPublishWarnings(createPreview())).toEqual([])
+  })
+
+  it('warns about missing files, exports and types', () => {
+    const preview = createPreview({
+      packageJson: { name: 'my-pkg', version: '1.2.0', main: 'index.js' },
+      files: [
+        { path: 'package.json', size: 400 },
+        { path: 'index.js', size: 1000 },
+      ],
+    })
+
+    expect(getPublishWarnings(preview)).toEqual(['no-files', 'no-exports', 'no-types'])
+  })
+
+  it('detects declaration files next to entry points', () => {
+    const preview = createPreview({
+      packageJson: { name: 'my-pkg', version: '1.2.0', files: ['dist'], main: 'dist/index.js' },
+      files: [
+        { path: 'dist/index.js', size: 1000 },
+        { path: 'dist/index.d.ts', size: 200 },
+      ],
+    })
+
+    expect(getPublishWarnings(preview)).toEqual(['no-exports'])
+  })
+
+  it('warns about private packages', () => {
+    const preview = createPreview()
+    preview.packageJson.private = true
+
+    expect(getPublishWarnings(preview)).toEqual(['private'])
+  })
+})
+
+describe('buildPublishOperation', () => {
+  it('publishes to latest by default', () => {
+    expect(buildPublishOperation(createPreview())).toEqual({
+      type: 'package:publish',
+      params: { dir: '/home/me/my-pkg', name: 'my-pkg', version: '1.2.0' },
+      description: 'Publish my-pkg@1.2.0',
+      command: 'npm publish (in /home/me/my-pkg)',
+    })
+  })
+
+  it('passes the tag and provenance flags', () => {
+    const operation = buildPublishOperation(createPreview(), { tag: ' next ', provenance: true })
+
+    expect(operation.params).toEqual({
+      dir: '/home/me/my-pkg',
+      name: 'my-pkg',
+      version: '1.2.0',
+      tag: 'next',
+      provenance: 'true',
+    })
+    expect(operation.description).toBe('Publish my-pkg@1.2.0 with tag next')
+    expect(operation.command).toBe('npm publish --tag next --provenance (in /home/me/my-pkg)')
+  })
+})
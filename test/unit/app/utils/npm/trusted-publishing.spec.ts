@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+
+import type { TrustedPublisher } from '#cli/types'
+import {
+  buildTrustAddOperation,
+  buildTrustRevokeOperation,
+  getTrustedPublishingWarnings,
+} from '~/utils/npm/trusted-publishing'
+
+const publisher: TrustedPublisher = {
+  id: 'abc-123',
+  provider: 'github',
+  repository: 'nuxt/nuxt',
+  file: 'release.yml',
+}
+
+describe('getTrustedPublishingWarnings', () => {
+  it('warns when versions have provenance but no trusted publisher is configured', () => {
+    expect(
+      getTrustedPublishingWarnings(
+        [],
+        [
+          { version: '1.1.0', hasProvenance: true },
+          { version: '1.0.0', hasProvenance: undefined },
+        ],
+      ),
+    ).toEqual([{ type: 'no-trusted-publisher' }])
+  })
+
+  it('does not warn for packages without provenance or trusted publishers', () => {
+    expect(getTrustedPublishingWarnings([], [{ version: '1.0.0' }])).toEqual([])
+  })
+
+  it('lists recent versions without attestations when a trusted publisher is configured', () => {
+    expect(
+      getTrustedPublishingWarnings(
+        [publisher],
+        [
+          { version: '1.2.0', hasProvenance: undefined },
+          { version: '1.1.0', hasProvenance: true },
+          { version: '1.0.0', hasProvenance: undefined },
+        ],
+      ),
+    ).toEqual([{ type: 'missing-attestations', versions: ['1.2.0', '1.0.0'] }])
+
+    expect(
+      getTrustedPublishingWarnings([publisher], [{ version: '1.2.0', hasProvenance: true }]),
+    ).toEqual([])
+  })
+})
+
+describe('buildTrustAddOperation', () => {
+  it('uses --repository for GitHub and --project for GitLab', () => {
+    expect(buildTrustAddOperation('@nuxt/kit', publisher)).toMatchObject({
+      type: 'trust:add',
+      params: {
+        pkg: '@nuxt/kit',
+        provider: 'github',
+        repository: 'nuxt/nuxt',
+        file: 'release.yml',
+      },
+      command:
+        'npm trust github @nuxt/kit --file release.yml --repository nuxt/nuxt --allow-publish --yes',
+    })
+
+    const gitlab = buildTrustAddOperation('@nuxt/kit', {
+      provider: 'gitlab',
+      repository: 'group/project',
+      file: '.gitlab-ci.yml',
+      environment: 'npm',
+    })
+    expect(gitlab.params).toEqual({
+      pkg: '@nuxt/kit',
+      provider: 'gitlab',
+      repository: 'group/project',
+      file: '.gitlab-ci.yml',
+      environment: 'npm',
+    })
+    expect(gitlab.command).toBe(
+      'npm trust gitlab @nuxt/kit --file .gitlab-ci.yml --project group/project --environment npm --allow-publish --yes',
+    )
+  })
+})
+
+describe('buildTrustRevokeOperation', () => {
+  it('revokes the trusted publisher by ID', () => {
+    expect(buildTrustRevokeOperation('@nuxt/kit', publisher)).toMatchObject({
+      type: 'trust:revoke',
+      params: { pkg: '@nuxt/kit', id: 'abc-123' },
+      command: 'npm trust revoke @nuxt/kit --id abc-123',
+    })
+  })
+})
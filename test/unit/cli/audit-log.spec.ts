@@ -0,0 +1,73 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { appendAuditLogEntry, readAuditLog } from '../../../cli/src/audit-log.ts'
+import type { AuditLogEntry } from '../../../cli/src/types.ts'
+
+function createEntry(overrides: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    operationId: 'abc123',
+    event: 'approved',
+    type: 'owner:add',
+    params: { user: 'alice', pkg: 'my-pkg' },
+    description: 'Add @alice as owner of my-pkg',
+    command: 'npm owner add alice my-pkg',
+    npmUser: 'testuser',
+    timestamp: 1_700_000_000_000,
+    ...overrides,
+  }
+}
+
+describe('audit log', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'npmx-audit-'))
+    file = join(dir, 'nested', 'history.jsonl')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('returns no entries when the log does not exist yet', async () => {
+    expect(await readAuditLog(file, 100)).toEqual([])
+  })
+
+  it('appends entries as JSON lines and creates the directory', async () => {
+    await appendAuditLogEntry(file, createEntry())
+    await appendAuditLogEntry(file, createEntry({ event: 'executed', exitCode: 0 }))
+
+    const lines = (await readFile(file, 'utf8')).trim().split('\n')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[1]!)).toMatchObject({ event: 'executed', exitCode: 0 })
+  })
+
+  it.skipIf(process.platform === 'win32')(
+    'creates the log readable by the owner only',
+    async () => {
+      await appendAuditLogEntry(file, createEntry())
+
+      expect((await stat(file)).mode & 0o777).toBe(0o600)
+    },
+  )
+
+  it('reads the most recent entries first, up to the limit', async () => {
+    for (let i = 1; i <= 3; i++) {
+      await appendAuditLogEntry(file, createEntry({ operationId: `op-${i}` }))
+    }
+
+    const entries = await readAuditLog(file, 2)
+    expect(entries.map(entry => entry.operationId)).toEqual(['op-3', 'op-2'])
+  })
+
+  it('skips malformed lines', async () => {
+    await appendAuditLogEntry(file, createEntry({ operationId: 'op-1' }))
+    await writeFile(file, '{"operationId": "op-2", "eve', { flag: 'a' })
+
+    const entries = await readAuditLog(file, 100)
+    expect(entries.map(entry => entry.operationId)).toEqual(['op-1'])
+  })
+})
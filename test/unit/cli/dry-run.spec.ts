@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import { dryRunOperations, type DryRunReader } from '../../../cli/src/dry-run.ts'
+import type { PendingOperation } from '../../../cli/src/types.ts'
+
+function createReader(overrides: Partial<DryRunReader> = {}): DryRunReader {
+  return {
+    npmUser: 'alice',
+    getOrgUsers: async () => ({ alice: 'owner', bob: 'developer' }),
+    getOrgTeams: async () => ['developers'],
+    getTeamUsers: async () => ['bob'],
+    getPackageCollaborators: async () => ({
+      'alice': 'read-write',
+      'myorg:developers': 'read-only',
+    }),
+    userExists: async user => user !== 'ghost',
+    ...overrides,
+  }
+}
+
+function op(
+  id: string,
+  type: PendingOperation['type'],
+  params: Record<string, string>,
+  dependsOn?: string,
+): PendingOperation {
+  return {
+    id,
+    type,
+    params,
+    description: `${type} ${id}`,
+    command: `npm ${type}`,
+    status: 'pending',
+    createdAt: 0,
+    ...(dependsOn && { dependsOn }),
+  }
+}
+
+describe('dryRunOperations', () => {
+  it('passes operations the caller is allowed to run', async () => {
+    const [result] = await dryRunOperations(
+      [op('1', 'org:add-user', { org: 'myorg', user: 'carol', role: 'developer' })],
+      createReader(),
+    )
+
+    expect(result).toEqual({
+      id: '1',
+      ok: true,
+      checks: [
+        { status: 'pass', message: 'You are a owner of @myorg' },
+        { status: 'pass', message: 'User ~carol exists' },
+      ],
+      change: 'Add ~carol to @myorg as developer',
+      willChange: true,
+    })
+  })
+
+  it('fails when the caller lacks the required org role', async () => {
+    const [result] = await dryRunOperations(
+      [op('1', 'team:create', { scopeTeam: '@myorg:docs' })],
+      createReader({ npmUser: 'bob' }),
+    )
+
+    expect(result?.ok).toBe(false)
+    expect(result?.checks[0]).toEqual({
+      status: 'fail',
+      message: 'You must be admin or owner of @myorg',
+    })
+  })
+
+  it('fails for unknown users and missing teams', async () => {
+    const results = await dryRunOperations(
+      [
+        op('1', 'org:add-user', { org: 'myorg', user: 'ghost', role: 'developer' }),
+        op('2', 'team:add-user', { scopeTeam: '@myorg:docs', user: 'bob' }),
+      ],
+      createReader(),
+    )
+
+    expect(results.map(result => result.ok)).toEqual([false, false])
+    expect(results[0]?.checks).toContainEqual({
+      status: 'fail',
+      message: 'User ~ghost does not exist',
+    })
+    expect(results[1]?.checks).toContainEqual({
+      status: 'fail',
+      message: 'Team @myorg:docs does not exist',
+    })
+  })
+
+  it('checks later operations against the effects of earlier ones', async () => {
+    const results = await dryRunOperations(
+      [
+        op('1', 'team:create', { scopeTeam: '@myorg:docs' }),
+        op('2', 'org:add-user', { org: 'myorg', user: 'carol', role: 'developer' }),
+        op('3', 'team:add-user', { scopeTeam: '@myorg:docs', user: 'carol' }, '2'),
+      ],
+      createReader(),
+    )
+
+    expect(results.map(result => result.ok)).toEqual([true, true, true])
+    expect(results[2]?.change).toBe('Add ~carol to @myorg:docs')
+  })
+
+  it('fails operations that depend on a failing operation', async () => {
+    const results = await dryRunOperations(
+      [
+        op('1', 'org:add-user', { org: 'myorg', user: 'ghost', role: 'developer' }),
+        op('2', 'team:add-user', { scopeTeam: '@myorg:developers', user: 'ghost' }, '1'),
+      ],
+      createReader(),
+    )
+
+    expect(results[1]?.ok).toBe(false)
+    expect(results[1]?.checks).toContainEqual({
+      status: 'fail',
+      message: 'Depends on an operation that would fail',
+    })
+  })
+
+  it('reports operations that would change nothing', async () => {
+    const [result] = await dryRunOperations(
+      [
+        op('1', 'access:grant', {
+          scopeTeam: '@myorg:developers',
+          pkg: '@myorg/lib',
+          permission: 'read-only',
+        }),
+      ],
+      createReader(),
+    )
+
+    expect(result).toMatchObject({
+      ok: true,
+      willChange: false,
+      change: '@myorg:developers already has read-only access to @myorg/lib',
+    })
+  })
+
+  it('reports checks as unknown when data cannot be read', async () => {
+    const [result] = await dryRunOperations(
+      [op('1', 'org:rm-user', { org: 'myorg', user: 'bob' })],
+      createReader({ getOrgUsers: async () => null }),
+    )
+
+    expect(result?.ok).toBe(true)
+    expect(result?.checks).toEqual([
+      { status: 'unknown', message: 'Could not read your role in @myorg' },
+    ])
+  })
+
+  it('fails operations with invalid params', async () => {
+    const [result] = await dryRunOperations(
+      [op('1', 'org:add-user', { org: 'myorg', user: 'carol', role: 'maintainer' })],
+      createReader(),
+    )
+
+    expect(result?.ok).toBe(false)
+    expect(result?.checks).toEqual([
+      {
+        status: 'fail',
+        message: 'Invalid params: Invalid role. Must be developer, admin, or owner',
+      },
+    ])
+  })
+
+  it('fails publish operations without a package name', async () => {
+    const [result] = await dryRunOperations(
+      [op('1', 'package:publish', { dir: '/tmp/pkg', version: '1.0.0' })],
+      createReader(),
+    )
+
+    expect(result).toMatchObject({ ok: false, willChange: false })
+  })
+})
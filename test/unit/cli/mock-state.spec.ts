@@ -159,4 +159,249 @@ describe('MockConnectorStateManager: executeOperations', () => {
     expect(result.authFailure).toBe(true)
     expect(result.urls).toEqual(['https://npmjs.com/login'])
   })
+
+  it('applies dist-tag operations to package data', () => {
+    manager.setPackageData('vue', {
+      collaborators: {},
+      distTags: { latest: '3.5.0', beta: '3.6.0-beta.1' },
+    })
+
+    const add = manager.addOperation({
+      type: 'dist-tag:add',
+      params: { pkg: 'vue', version: '3.6.0-rc.1', tag: 'next' },
+      description: 'Tag vue@3.6.0-rc.1 as next',
+      command: 'npm dist-tag add vue@3.6.0-rc.1 next',
+    })
+    const rm = manager.addOperation({
+      type: 'dist-tag:rm',
+      params: { pkg: 'vue', tag: 'beta' },
+      description: 'Remove the beta tag from vue',
+      command: 'npm dist-tag rm vue beta',
+    })
+    manager.approveAll()
+
+    manager.executeOperations()
+
+    expect(manager.getOperation(add.id)?.status).toBe('completed')
+    expect(manager.getOperation(rm.id)?.status).toBe('completed')
+    expect(manager.getPackageDistTags('vue')).toEqual({ latest: '3.5.0', next: '3.6.0-rc.1' })
+  })
+
+  it('records deprecations and removes them on undeprecate', () => {
+    manager.addOperation({
+      type: 'package:deprecate',
+      params: { pkg: 'request', range: '<3.0.0', message: 'No longer maintained' },
+      description: 'Deprecate request@<3.0.0',
+      command: 'npm deprecate request@<3.0.0 "No longer maintained"',
+    })
+    manager.approveAll()
+    manager.executeOperations()
+
+    expect(manager.getPackageDeprecations('request')).toEqual({ '<3.0.0': 'No longer maintained' })
+
+    manager.addOperation({
+      type: 'package:undeprecate',
+      params: { pkg: 'request', range: '<3.0.0' },
+      description: 'Undeprecate request@<3.0.0',
+      command: 'npm deprecate request@<3.0.0 ""',
+    })
+    manager.approveAll()
+    manager.executeOperations()
+
+    expect(manager.getPackageDeprecations('request')).toEqual({})
+  })
+
+  it('adds and revokes trusted publishers', () => {
+    manager.addOperation({
+      type: 'trust:add',
+      params: { pkg: 'vue', provider: 'github', repository: 'vuejs/core', file: 'release.yml' },
+      description: 'Trust GitHub workflow vuejs/core/release.yml to publish vue',
+      command:
+        'npm trust github vue --file release.yml --repository vuejs/core --allow-publish --yes',
+    })
+    manager.approveAll()
+    manager.executeOperations()
+
+    const publishers = manager.getPackageTrustedPublishers('vue')
+    expect(publishers).toEqual([
+      { id: 'trust-1', provider: 'github', repository: 'vuejs/core', file: 'release.yml' },
+    ])
+
+    manager.addOperation({
+      type: 'trust:revoke',
+      params: { pkg: 'vue', id: 'trust-1' },
+      description: 'Revoke trusted publisher vuejs/core/release.yml for vue',
+      command: 'npm trust revoke vue --id trust-1',
+    })
+    manager.approveAll()
+    manager.executeOperations()
+
+    expect(manager.getPackageTrustedPublishers('vue')).toEqual([])
+  })
+
+  it('records approved and executed operations in the history, newest first', () => {
+    const op = manager.addOperation({
+      type: 'owner:add',
+      params: { user: 'alice', pkg: 'my-pkg' },
+      description: 'Add @alice as owner of my-pkg',
+      command: 'npm owner add alice my-pkg',
+    })
+    manager.approveOperation(op.id)
+    manager.executeOperations()
+    manager.clearOperations()
+
+    const history = manager.getHistory()
+    expect(history.map(entry => entry.event)).toEqual(['executed', 'approved'])
+    expect(history[0]).toMatchObject({
+      operationId: op.id,
+      command: 'npm owner add alice my-pkg',
+      npmUser: 'testuser',
+      exitCode: 0,
+    })
+  })
+
+  it('dry-runs queued operations without applying them', async () => {
+    manager.setOrgData('testorg', { users: { testuser: 'owner' }, teams: ['developers'] })
+    manager.addOperation({
+      type: 'team:create',
+      params: { scopeTeam: '@testorg:docs' },
+      description: 'Create team @testorg:docs',
+      command: 'npm team create @testorg:docs',
+    })
+
+    const results = await manager.dryRun()
+    expect(results).toHaveLength(1)
+    expect(results[0]?.ok).toBe(true)
+    expect(results[0]?.change).toBe('Create team @testorg:docs')
+    expect(manager.getOperations()[0]?.status).toBe('pending')
+  })
+
+  it('records the registry each operation runs against', () => {
+    const data = createMockConnectorState({
+      token: 'test-token',
+      npmUser: 'testuser',
+      scopeRegistries: { internal: 'https://npm.pkg.github.com/' },
+    })
+    const scoped = new MockConnectorStateManager(data)
+
+    const [internalOp, publicOp] = scoped.addOperations([
+      {
+        type: 'team:create',
+        params: { scopeTeam: '@internal:core' },
+        description: 'Create team @internal:core',
+        command: 'npm team create @internal:core',
+      },
+      {
+        type: 'owner:add',
+        params: { user: 'alice', pkg: 'my-pkg' },
+        description: 'Add @alice as owner of my-pkg',
+        command: 'npm owner add alice my-pkg',
+      },
+    ])
+
+    expect(internalOp?.registry).toBe('https://npm.pkg.github.com/')
+    expect(publicOp?.registry).toBe('https://registry.npmjs.org/')
+  })
+
+  it('resolves dependsOnIndex within a batch', () => {
+    const [orgOp, teamOp] = manager.addOperations([
+      {
+        type: 'org:add-user',
+        params: { org: 'myorg', user: 'carol', role: 'developer' },
+        description: 'Add carol',
+        command: 'npm org set myorg carol developer',
+      },
+      {
+        type: 'team:add-user',
+        params: { scopeTeam: '@myorg:developers', user: 'carol' },
+        description: 'Add carol to developers',
+        command: 'npm team add @myorg:developers carol',
+        dependsOnIndex: 0,
+      },
+    ])
+
+    expect(teamOp!.dependsOn).toBe(orgOp!.id)
+  })
+})
+
+describe('MockConnectorStateManager: sessions', () => {
+  let manager: MockConnectorStateManager
+
+  beforeEach(() => {
+    manager = createManager()
+  })
+
+  it('creates sessions that can be looked up by token', () => {
+    const { sessionToken, session } = manager.createSession('read', 'http://localhost:3000', null)
+
+    expect(session.scope).toBe('read')
+    expect(session.expiresAt).toBeGreaterThan(session.createdAt)
+    expect(manager.getSession(sessionToken)?.id).toBe(session.id)
+    expect(manager.getSession('unknown')).toBeNull()
+  })
+
+  it('marks the current session when listing', () => {
+    const first = manager.createSession()
+    const second = manager.createSession('read')
+
+    const sessions = manager.listSessions(second.session.id)
+
+    expect(sessions).toHaveLength(2)
+    expect(sessions.find(s => s.id === first.session.id)?.current).toBe(false)
+    expect(sessions.find(s => s.id === second.session.id)?.current).toBe(true)
+    expect(sessions[0]).not.toHaveProperty('token')
+  })
+
+  it('revokes sessions', () => {
+    const { sessionToken, session } = manager.createSession()
+
+    expect(manager.revokeSession(session.id)).toBe(true)
+    expect(manager.revokeSession(session.id)).toBe(false)
+    expect(manager.getSession(sessionToken)).toBeNull()
+  })
+
+  it('clears sessions on disconnect', () => {
+    const { sessionToken } = manager.createSession()
+
+    manager.disconnect()
+
+    expect(manager.getSession(sessionToken)).toBeNull()
+  })
+})
+
+describe('MockConnectorStateManager: publishing', () => {
+  let manager: MockConnectorStateManager
+
+  beforeEach(() => {
+    manager = createManager()
+    manager.connect('test-token')
+  })
+
+  it('previews configured local packages', () => {
+    manager.setLocalPackage('/home/me/my-pkg', {
+      packageJson: { name: 'my-pkg', version: '1.0.0' },
+      files: [{ path: 'package.json', size: 100 }],
+      size: 80,
+      unpackedSize: 100,
+    })
+
+    expect(manager.getPublishPreview('/home/me/my-pkg')?.dir).toBe('/home/me/my-pkg')
+    expect(manager.getPublishPreview('/home/me/other')).toBeNull()
+  })
+
+  it('publishes to the given dist-tag', () => {
+    const op = manager.addOperation({
+      type: 'package:publish',
+      params: { dir: '/home/me/my-pkg', name: 'my-pkg', version: '2.0.0-beta.1', tag: 'next' },
+      description: 'Publish my-pkg@2.0.0-beta.1 with tag next',
+      command: 'npm publish --tag next (in /home/me/my-pkg)',
+    })
+    manager.approveOperation(op.id)
+
+    manager.executeOperations()
+
+    expect(manager.getPackageDistTags('my-pkg')).toEqual({ next: '2.0.0-beta.1' })
+    expect(manager.getPackageCollaborators('my-pkg')).toEqual({ testuser: 'read-write' })
+    expect(manager.getUserPackages()['my-pkg']).toBe('read-write')
+  })
 })
@@ -1,10 +1,23 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { describe, expect, it } from 'vitest'
 import {
   validateUsername,
   validateOrgName,
   validateScopeTeam,
   validatePackageName,
+  validateDistTag,
+  validateVersion,
+  validateVersionRange,
+  validateDeprecationMessage,
   extractUrls,
+  parseDistTagList,
+  parseTrustList,
+  parsePackDryRun,
+  validateTrustedPublisherConfig,
+  validatePackageDir,
+  packagePublish,
 } from '../../../cli/src/npm-client'
 
 describe('validateUsername', () => {
@@ -132,6 +145,220 @@ describe('validatePackageName', () => {
   })
 })
 
+describe('validateDistTag', () => {
+  it('accepts valid tags', () => {
+    expect(() => validateDistTag('next')).not.toThrow()
+    expect(() => validateDistTag('beta')).not.toThrow()
+  })
+
+  it('rejects invalid tags', () => {
+    expect(() => validateDistTag('1.0.0')).toThrow('Invalid dist-tag')
+    expect(() => validateDistTag('next && rm -rf /')).toThrow('Invalid dist-tag')
+  })
+})
+
+describe('validateVersion', () => {
+  it('accepts exact versions', () => {
+    expect(() => validateVersion('1.2.3')).not.toThrow()
+    expect(() => validateVersion('1.2.3-beta.0')).not.toThrow()
+  })
+
+  it('rejects ranges', () => {
+    expect(() => validateVersion('^1.2.3')).toThrow('Invalid version')
+  })
+})
+
+describe('validateVersionRange', () => {
+  it('accepts semver ranges', () => {
+    expect(() => validateVersionRange('<2.0.0')).not.toThrow()
+    expect(() => validateVersionRange('1.x || 2.x')).not.toThrow()
+  })
+
+  it('rejects invalid ranges', () => {
+    expect(() => validateVersionRange('1.0.0; rm -rf /')).toThrow('Invalid version range')
+  })
+})
+
+describe('validateDeprecationMessage', () => {
+  it('accepts a message', () => {
+    expect(() => validateDeprecationMessage('Use v2 instead')).not.toThrow()
+  })
+
+  it('rejects empty messages', () => {
+    expect(() => validateDeprecationMessage('')).toThrow('Invalid deprecation message')
+  })
+
+  it('rejects messages npm would parse as options', () => {
+    expect(() => validateDeprecationMessage('--registry=https://evil.example')).toThrow(
+      'Invalid deprecation message: Deprecation message must not start with "-"',
+    )
+    expect(() => validateDeprecationMessage('--otp=123456')).toThrow(
+      'Invalid deprecation message: Deprecation message must not start with "-"',
+    )
+  })
+})
+
+describe('parseDistTagList', () => {
+  it('parses npm dist-tag ls output', () => {
+    expect(parseDistTagList('beta: 4.0.0-beta.2\nlatest: 3.5.13\nnext: 4.0.0-rc.1\n')).toEqual({
+      beta: '4.0.0-beta.2',
+      latest: '3.5.13',
+      next: '4.0.0-rc.1',
+    })
+  })
+
+  it('ignores blank and malformed lines', () => {
+    expect(parseDistTagList('\nnpm warn something\nlatest: 1.0.0\n')).toEqual({
+      latest: '1.0.0',
+    })
+  })
+})
+
+describe('validateTrustedPublisherConfig', () => {
+  it('accepts a valid configuration', () => {
+    expect(() => validateTrustedPublisherConfig('nuxt/nuxt', 'release.yml')).not.toThrow()
+    expect(() => validateTrustedPublisherConfig('nuxt/nuxt', 'release.yml', 'npm')).not.toThrow()
+  })
+
+  it('rejects invalid values', () => {
+    expect(() => validateTrustedPublisherConfig('nuxt', 'release.yml')).toThrow(
+      'Invalid repository',
+    )
+    expect(() => validateTrustedPublisherConfig('nuxt/nuxt', 'release')).toThrow(
+      'Invalid workflow file',
+    )
+    expect(() => validateTrustedPublisherConfig('nuxt/nuxt', 'release.yml', '--yes x')).toThrow(
+      'Invalid environment',
+    )
+  })
+})
+
+describe('parseTrustList', () => {
+  // Captured from `npm trust list --json`, which prints one object per configuration
+  const npmOutput = [
+    '',
+    '{',
+    '  "id": "a1b2c3d4-0000-4000-8000-000000000001",',
+    '  "type": "github",',
+    '  "file": "release.yml",',
+    '  "repository": "nuxt/nuxt",',
+    '  "environment": "npm",',
+    '  "permissions": [',
+    '    "createPackage"',
+    '  ]',
+    '}',
+    '',
+    '{',
+    '  "id": "a1b2c3d4-0000-4000-8000-000000000002",',
+    '  "type": "gitlab",',
+    '  "file": ".gitlab-ci.yml",',
+    '  "project": "group/project",',
+    '  "permissions": [',
+    '    "createPackage",',
+    '    "createStagedPackage"',
+    '  ]',
+    '}',
+    '',
+  ].join('\n')
+
+  it('parses GitHub and GitLab trusted publishers', () => {
+    expect(parseTrustList(npmOutput)).toEqual([
+      {
+        id: 'a1b2c3d4-0000-4000-8000-000000000001',
+        provider: 'github',
+        repository: 'nuxt/nuxt',
+        file: 'release.yml',
+        environment: 'npm',
+      },
+      {
+        id: 'a1b2c3d4-0000-4000-8000-000000000002',
+        provider: 'gitlab',
+        repository: 'group/project',
+        file: '.gitlab-ci.yml',
+      },
+    ])
+  })
+
+  it('parses a single configuration', () => {
+    const single = npmOutput.slice(0, npmOutput.indexOf('}') + 1)
+
+    expect(parseTrustList(single)).toEqual([
+      {
+        id: 'a1b2c3d4-0000-4000-8000-000000000001',
+        provider: 'github',
+        repository: 'nuxt/nuxt',
+        file: 'release.yml',
+        environment: 'npm',
+      },
+    ])
+  })
+
+  it('skips unsupported providers and handles empty output', () => {
+    const circleci = JSON.stringify(
+      { id: 'x', type: 'circleci', orgId: 'org', projectId: 'project' },
+      null,
+      2,
+    )
+    expect(parseTrustList(circleci)).toEqual([])
+    expect(parseTrustList('')).toEqual([])
+  })
+})
+
+describe('validatePackageDir', () => {
+  it('accepts absolute paths', () => {
+    expect(() => validatePackageDir('/home/me/my-pkg')).not.toThrow()
+    expect(() => validatePackageDir('C:\\code\\my-pkg')).not.toThrow()
+  })
+
+  it('rejects relative paths', () => {
+    expect(() => validatePackageDir('my-pkg')).toThrow('Invalid package directory')
+    expect(() => validatePackageDir('../my-pkg')).toThrow('Invalid package directory')
+  })
+})
+
+describe('parsePackDryRun', () => {
+  it('parses npm pack --dry-run --json output', () => {
+    const stdout = JSON.stringify([
+      {
+        id: 'my-pkg@1.0.0',
+        name: 'my-pkg',
+        version: '1.0.0',
+        size: 512,
+        unpackedSize: 1400,
+        files: [
+          { path: 'package.json', size: 400, mode: 420 },
+          { path: 'dist/index.mjs', size: 1000, mode: 420 },
+        ],
+        entryCount: 2,
+      },
+    ])
+
+    expect(parsePackDryRun(stdout)).toEqual({
+      files: [
+        { path: 'package.json', size: 400 },
+        { path: 'dist/index.mjs', size: 1000 },
+      ],
+      size: 512,
+      unpackedSize: 1400,
+    })
+  })
+})
+
+describe('packagePublish', () => {
+  it('fails without throwing when the directory has no package.json', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'npmx-publish-'))
+    try {
+      expect(await packagePublish(dir, 'my-pkg', '1.0.0')).toEqual({
+        stdout: '',
+        stderr: `No valid package.json found in ${dir}`,
+        exitCode: 1,
+      })
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
 describe('extractUrls', () => {
   it('extracts HTTP URLs from text', () => {
     const text = 'Visit http://example.com for more info'
@@ -0,0 +1,108 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  getOperationRegistry,
+  listRegistries,
+  loadScopeRegistries,
+  NPM_REGISTRY_URL,
+  parseNpmrcScopeRegistries,
+} from '../../../cli/src/registries.ts'
+
+describe('parseNpmrcScopeRegistries', () => {
+  it('reads scope registries and ignores other settings', () => {
+    const npmrc = [
+      '# comment',
+      'registry=https://registry.example.com/',
+      '@MyOrg:registry=https://npm.pkg.github.com',
+      '; @other:registry=https://ignored.example.com/',
+      '//npm.pkg.github.com/:_authToken=${GITHUB_TOKEN}',
+      '@internal:registry = "http://localhost:4873/"',
+    ].join('\n')
+
+    expect(parseNpmrcScopeRegistries(npmrc, {})).toEqual({
+      myorg: 'https://npm.pkg.github.com/',
+      internal: 'http://localhost:4873/',
+    })
+  })
+
+  it('expands environment variables and skips invalid URLs', () => {
+    const npmrc = ['@a:registry=${REGISTRY}', '@b:registry=not a url', '@c:registry=ftp://x/'].join(
+      '\n',
+    )
+
+    expect(parseNpmrcScopeRegistries(npmrc, { REGISTRY: 'https://verdaccio.local/npm' })).toEqual({
+      a: 'https://verdaccio.local/npm/',
+    })
+  })
+})
+
+describe('loadScopeRegistries', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'npmx-npmrc-'))
+    vi.stubEnv('npm_config_userconfig', join(dir, 'user.npmrc'))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('returns no registries when there is no .npmrc', async () => {
+    expect(await loadScopeRegistries(dir)).toEqual({})
+  })
+
+  it('lets the project .npmrc override the user .npmrc', async () => {
+    await writeFile(
+      join(dir, 'user.npmrc'),
+      '@a:registry=https://user.example.com/\n@b:registry=https://b.example.com/\n',
+    )
+    await writeFile(join(dir, '.npmrc'), '@a:registry=https://project.example.com/\n')
+
+    expect(await loadScopeRegistries(dir)).toEqual({
+      a: 'https://project.example.com/',
+      b: 'https://b.example.com/',
+    })
+  })
+})
+
+describe('getOperationRegistry', () => {
+  const registries = { myorg: 'https://npm.pkg.github.com/' }
+
+  it('uses the registry of the org or package scope', () => {
+    expect(getOperationRegistry(registries, { org: 'MyOrg', user: 'alice' })).toBe(
+      'https://npm.pkg.github.com/',
+    )
+    expect(getOperationRegistry(registries, { scopeTeam: '@myorg:core', pkg: 'vue' })).toBe(
+      'https://npm.pkg.github.com/',
+    )
+    expect(getOperationRegistry(registries, { pkg: '@myorg/utils', tag: 'next' })).toBe(
+      'https://npm.pkg.github.com/',
+    )
+    expect(getOperationRegistry(registries, { name: '@myorg/new-pkg' })).toBe(
+      'https://npm.pkg.github.com/',
+    )
+  })
+
+  it('falls back to the public registry', () => {
+    expect(getOperationRegistry(registries, { pkg: 'vue', user: 'alice' })).toBe(NPM_REGISTRY_URL)
+    expect(getOperationRegistry(registries, { pkg: '@vue/core', tag: 'next' })).toBe(
+      NPM_REGISTRY_URL,
+    )
+  })
+})
+
+describe('listRegistries', () => {
+  it('lists the public registry first, without duplicates', () => {
+    expect(
+      listRegistries({
+        a: 'https://npm.pkg.github.com/',
+        b: 'https://npm.pkg.github.com/',
+        c: NPM_REGISTRY_URL,
+      }),
+    ).toEqual([NPM_REGISTRY_URL, 'https://npm.pkg.github.com/'])
+  })
+})
@@ -12,6 +12,7 @@ import {
   OtpSchema,
   HexTokenSchema,
   OperationIdSchema,
+  SessionIdSchema,
   ConnectBodySchema,
   ExecuteBodySchema,
   CreateOperationBodySchema,
@@ -19,6 +20,14 @@ import {
   OrgAddUserParamsSchema,
   AccessGrantParamsSchema,
   PackageInitParamsSchema,
+  DistTagSchema,
+  VersionSchema,
+  DistTagRemoveParamsSchema,
+  VersionRangeSchema,
+  DeprecationMessageSchema,
+  TrustRepositorySchema,
+  TrustWorkflowFileSchema,
+  TrustEnvironmentSchema,
   safeParse,
   validateOperationParams,
 } from '../../../cli/src/schemas'
@@ -128,6 +137,127 @@ describe('ScopeTeamSchema', () => {
   })
 })
 
+describe('DistTagSchema', () => {
+  it('accepts valid tags', () => {
+    expect(v.safeParse(DistTagSchema, 'next').success).toBe(true)
+    expect(v.safeParse(DistTagSchema, 'beta').success).toBe(true)
+    expect(v.safeParse(DistTagSchema, 'release-1.x').success).toBe(true)
+    expect(v.safeParse(DistTagSchema, 'vue_2').success).toBe(true)
+  })
+
+  it('rejects tags that look like versions or ranges', () => {
+    expect(v.safeParse(DistTagSchema, '1.0.0').success).toBe(false)
+    expect(v.safeParse(DistTagSchema, 'v2').success).toBe(false)
+    expect(v.safeParse(DistTagSchema, 'x').success).toBe(false)
+    expect(v.safeParse(DistTagSchema, '^1').success).toBe(false)
+  })
+
+  it('rejects tags with shell injection characters', () => {
+    expect(v.safeParse(DistTagSchema, 'next;rm').success).toBe(false)
+    expect(v.safeParse(DistTagSchema, 'next $(whoami)').success).toBe(false)
+    expect(v.safeParse(DistTagSchema, '').success).toBe(false)
+  })
+})
+
+describe('VersionSchema', () => {
+  it('accepts exact versions', () => {
+    expect(v.safeParse(VersionSchema, '1.2.3').success).toBe(true)
+    expect(v.safeParse(VersionSchema, '2.0.0-beta.1').success).toBe(true)
+    expect(v.safeParse(VersionSchema, '1.0.0+build.5').success).toBe(true)
+  })
+
+  it('rejects ranges and partial versions', () => {
+    expect(v.safeParse(VersionSchema, '^1.2.3').success).toBe(false)
+    expect(v.safeParse(VersionSchema, '1.2').success).toBe(false)
+    expect(v.safeParse(VersionSchema, 'latest').success).toBe(false)
+  })
+})
+
+describe('DistTagRemoveParamsSchema', () => {
+  it('rejects removing the latest tag', () => {
+    expect(v.safeParse(DistTagRemoveParamsSchema, { pkg: 'vue', tag: 'next' }).success).toBe(true)
+    expect(v.safeParse(DistTagRemoveParamsSchema, { pkg: 'vue', tag: 'latest' }).success).toBe(
+      false,
+    )
+  })
+})
+
+describe('VersionRangeSchema', () => {
+  it('accepts semver ranges', () => {
+    expect(v.safeParse(VersionRangeSchema, '<2.0.0').success).toBe(true)
+    expect(v.safeParse(VersionRangeSchema, '^1.2.3').success).toBe(true)
+    expect(v.safeParse(VersionRangeSchema, '1.x || 2.x').success).toBe(true)
+    expect(v.safeParse(VersionRangeSchema, '>=1.0.0 <1.5.0-beta.0').success).toBe(true)
+    expect(v.safeParse(VersionRangeSchema, '*').success).toBe(true)
+  })
+
+  it('rejects ranges with shell injection characters', () => {
+    expect(v.safeParse(VersionRangeSchema, '1.0.0; rm -rf /').success).toBe(false)
+    expect(v.safeParse(VersionRangeSchema, '$(whoami)').success).toBe(false)
+    expect(v.safeParse(VersionRangeSchema, '1.0.0 & calc').success).toBe(false)
+    expect(v.safeParse(VersionRangeSchema, '').success).toBe(false)
+  })
+})
+
+describe('DeprecationMessageSchema', () => {
+  it('accepts single line messages', () => {
+    expect(
+      v.safeParse(DeprecationMessageSchema, 'Use v2 instead: https://example.com/migrate').success,
+    ).toBe(true)
+  })
+
+  it('rejects empty and multi-line messages', () => {
+    expect(v.safeParse(DeprecationMessageSchema, '').success).toBe(false)
+    expect(v.safeParse(DeprecationMessageSchema, 'line one\nline two').success).toBe(false)
+  })
+
+  it('rejects messages npm would parse as options', () => {
+    for (const message of ['--registry=https://evil.example', '--otp=123456']) {
+      const result = v.safeParse(DeprecationMessageSchema, message)
+      expect(result.success).toBe(false)
+      expect(result.issues?.[0]?.message).toBe('Deprecation message must not start with "-"')
+    }
+  })
+})
+
+describe('TrustRepositorySchema', () => {
+  it('accepts GitHub and GitLab repository paths', () => {
+    expect(v.safeParse(TrustRepositorySchema, 'nuxt/nuxt').success).toBe(true)
+    expect(v.safeParse(TrustRepositorySchema, 'group/subgroup/project').success).toBe(true)
+  })
+
+  it('rejects invalid repository paths', () => {
+    expect(v.safeParse(TrustRepositorySchema, 'nuxt').success).toBe(false)
+    expect(v.safeParse(TrustRepositorySchema, 'nuxt/../other').success).toBe(false)
+    expect(v.safeParse(TrustRepositorySchema, 'nuxt/nuxt --yes').success).toBe(false)
+  })
+})
+
+describe('TrustWorkflowFileSchema', () => {
+  it('accepts YAML workflow files', () => {
+    expect(v.safeParse(TrustWorkflowFileSchema, 'release.yml').success).toBe(true)
+    expect(v.safeParse(TrustWorkflowFileSchema, '.gitlab-ci.yml').success).toBe(true)
+    expect(v.safeParse(TrustWorkflowFileSchema, 'ci/publish.yaml').success).toBe(true)
+  })
+
+  it('rejects other files and path traversal', () => {
+    expect(v.safeParse(TrustWorkflowFileSchema, 'release.sh').success).toBe(false)
+    expect(v.safeParse(TrustWorkflowFileSchema, '../release.yml').success).toBe(false)
+    expect(v.safeParse(TrustWorkflowFileSchema, '/etc/release.yml').success).toBe(false)
+  })
+})
+
+describe('TrustEnvironmentSchema', () => {
+  it('accepts environment names', () => {
+    expect(v.safeParse(TrustEnvironmentSchema, 'npm-publish').success).toBe(true)
+  })
+
+  it('rejects empty names and whitespace', () => {
+    expect(v.safeParse(TrustEnvironmentSchema, '').success).toBe(false)
+    expect(v.safeParse(TrustEnvironmentSchema, 'prod env').success).toBe(false)
+  })
+})
+
 describe('OrgRoleSchema', () => {
   it('accepts valid roles', () => {
     expect(v.safeParse(OrgRoleSchema, 'developer').success).toBe(true)
@@ -161,6 +291,13 @@ describe('OperationTypeSchema', () => {
     expect(v.safeParse(OperationTypeSchema, 'access:grant').success).toBe(true)
     expect(v.safeParse(OperationTypeSchema, 'owner:add').success).toBe(true)
     expect(v.safeParse(OperationTypeSchema, 'package:init').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'package:publish').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'dist-tag:add').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'dist-tag:rm').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'package:deprecate').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'package:undeprecate').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'trust:add').success).toBe(true)
+    expect(v.safeParse(OperationTypeSchema, 'trust:revoke').success).toBe(true)
   })
 
   it('rejects invalid operation types', () => {
@@ -218,12 +355,32 @@ describe('OperationIdSchema', () => {
   })
 })
 
+describe('SessionIdSchema', () => {
+  it('accepts valid 16-char hex session IDs', () => {
+    expect(v.safeParse(SessionIdSchema, '0123456789abcdef').success).toBe(true)
+  })
+
+  it('rejects invalid session IDs', () => {
+    expect(v.safeParse(SessionIdSchema, '').success).toBe(false)
+    expect(v.safeParse(SessionIdSchema, 'abcd1234').success).toBe(false)
+    expect(v.safeParse(SessionIdSchema, 'session-1').success).toBe(false)
+  })
+})
+
 describe('ConnectBodySchema', () => {
   it('accepts valid connect body', () => {
     const result = v.safeParse(ConnectBodySchema, { token: 'abcd1234' })
     expect(result.success).toBe(true)
   })
 
+  it('accepts a session scope', () => {
+    expect(v.safeParse(ConnectBodySchema, { token: 'abcd1234', scope: 'read' }).success).toBe(true)
+    expect(v.safeParse(ConnectBodySchema, { token: 'abcd1234', scope: 'write' }).success).toBe(true)
+    expect(v.safeParse(ConnectBodySchema, { token: 'abcd1234', scope: 'admin' }).success).toBe(
+      false,
+    )
+  })
+
   it('rejects invalid connect body', () => {
     expect(v.safeParse(ConnectBodySchema, {}).success).toBe(false)
     expect(v.safeParse(ConnectBodySchema, { token: '' }).success).toBe(false)
@@ -317,6 +474,39 @@ describe('CreateOperationBodySchema', () => {
       }).success,
     ).toBe(false)
   })
+
+  it('accepts dependencies on existing operations and on batch indexes', () => {
+    const body = {
+      type: 'team:add-user',
+      params: { scopeTeam: '@myorg:developers', user: 'carol' },
+      description: 'Add carol to developers',
+      command: 'npm team add @myorg:developers carol',
+    }
+    expect(
+      v.safeParse(CreateOperationBodySchema, { ...body, dependsOn: 'a1b2c3d4e5f60718' }).success,
+    ).toBe(true)
+    expect(v.safeParse(CreateOperationBodySchema, { ...body, dependsOnIndex: 0 }).success).toBe(
+      true,
+    )
+  })
+
+  it('rejects invalid dependencies', () => {
+    const body = {
+      type: 'team:add-user',
+      params: { scopeTeam: '@myorg:developers', user: 'carol' },
+      description: 'Add carol to developers',
+      command: 'npm team add @myorg:developers carol',
+    }
+    expect(v.safeParse(CreateOperationBodySchema, { ...body, dependsOn: 'nope' }).success).toBe(
+      false,
+    )
+    expect(v.safeParse(CreateOperationBodySchema, { ...body, dependsOnIndex: -1 }).success).toBe(
+      false,
+    )
+    expect(v.safeParse(CreateOperationBodySchema, { ...body, dependsOnIndex: 0.5 }).success).toBe(
+      false,
+    )
+  })
 })
 
 describe('BatchOperationsBodySchema', () => {
@@ -471,4 +661,108 @@ describe('validateOperationParams', () => {
       }),
     ).not.toThrow()
   })
+
+  it('validates package:publish params', () => {
+    expect(() =>
+      validateOperationParams('package:publish', {
+        dir: '/home/me/my-package',
+        name: 'my-package',
+        version: '1.0.0',
+      }),
+    ).not.toThrow()
+
+    expect(() =>
+      validateOperationParams('package:publish', {
+        dir: 'C:\\code\\my-package',
+        name: 'my-package',
+        version: '1.0.0-beta.1',
+        tag: 'next',
+        provenance: 'true',
+      }),
+    ).not.toThrow()
+
+    // Relative directory
+    expect(() =>
+      validateOperationParams('package:publish', {
+        dir: 'my-package',
+        name: 'my-package',
+        version: '1.0.0',
+      }),
+    ).toThrow('Directory must be an absolute path')
+
+    // Tag that looks like a version
+    expect(() =>
+      validateOperationParams('package:publish', {
+        dir: '/home/me/my-package',
+        name: 'my-package',
+        version: '1.0.0',
+        tag: 'v2',
+      }),
+    ).toThrow('Tag must not look like a version or range')
+  })
+
+  it('validates dist-tag params', () => {
+    expect(() =>
+      validateOperationParams('dist-tag:add', {
+        pkg: '@nuxt/kit',
+        version: '4.0.0-rc.1',
+        tag: 'next',
+      }),
+    ).not.toThrow()
+
+    expect(() =>
+      validateOperationParams('dist-tag:add', {
+        pkg: '@nuxt/kit',
+        version: 'latest',
+        tag: 'next',
+      }),
+    ).toThrow('Invalid version format')
+
+    expect(() => validateOperationParams('dist-tag:rm', { pkg: 'vue', tag: 'beta' })).not.toThrow()
+  })
+
+  it('validates deprecation params', () => {
+    expect(() =>
+      validateOperationParams('package:deprecate', {
+        pkg: 'request',
+        range: '<3.0.0',
+        message: 'No longer maintained',
+      }),
+    ).not.toThrow()
+
+    expect(() =>
+      validateOperationParams('package:deprecate', { pkg: 'request', range: '<3.0.0' }),
+    ).toThrow('Invalid key: Expected "message" but received undefined')
+
+    expect(() =>
+      validateOperationParams('package:undeprecate', { pkg: 'request', range: '2.x' }),
+    ).not.toThrow()
+  })
+
+  it('validates trusted publisher params', () => {
+    expect(() =>
+      validateOperationParams('trust:add', {
+        pkg: '@nuxt/kit',
+        provider: 'github',
+        repository: 'nuxt/nuxt',
+        file: 'release.yml',
+      }),
+    ).not.toThrow()
+
+    expect(() =>
+      validateOperationParams('trust:add', {
+        pkg: '@nuxt/kit',
+        provider: 'circleci',
+        repository: 'nuxt/nuxt',
+        file: 'release.yml',
+      }),
+    ).toThrow('Invalid provider. Must be github or gitlab')
+
+    expect(() =>
+      validateOperationParams('trust:revoke', { pkg: '@nuxt/kit', id: 'a1b2-c3d4' }),
+    ).not.toThrow()
+    expect(() =>
+      validateOperationParams('trust:revoke', { pkg: '@nuxt/kit', id: '1; rm -rf /' }),
+    ).toThrow('Invalid trusted publisher ID')
+  })
 })
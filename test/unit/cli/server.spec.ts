@@ -1,22 +1,53 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { describe, expect, it, vi } from 'vitest'
+import type * as NpmClient from '../../../cli/src/npm-client'
 import { createConnectorApp } from '../../../cli/src/server'
 
-const TEST_TOKEN = 'test-token-123'
+const TEST_TOKEN = 'abc123def456'
 vi.mock('../../../cli/src/logger.ts', () => {
   return {
     logError: () => {},
     logDebug: () => {},
   }
 })
+vi.mock('../../../cli/src/npm-client.ts', async importOriginal => {
+  return {
+    ...(await importOriginal<typeof NpmClient>()),
+    getNpmUser: async () => 'testuser',
+    getNpmAvatar: async () => null,
+  }
+})
+
+type ConnectorApp = ReturnType<typeof createConnectorApp>
+
+/** Pairs with the connector and returns the session token */
+async function connect(
+  app: ConnectorApp,
+  body: Record<string, unknown> = {},
+  headers: Record<string, string> = {},
+): Promise<string> {
+  const response = await app.fetch(
+    new Request('http://localhost/connect', {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: TEST_TOKEN, ...body }),
+    }),
+  )
+  const { data } = await response.json()
+  return data.sessionToken
+}
 
 describe('connector server', () => {
   describe('GET /team/:scopeTeam/users', () => {
     it('returns 400 for invalid scope:team format (missing @ prefix)', async () => {
-      const app = createConnectorApp(TEST_TOKEN)
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+      const sessionToken = await connect(app)
 
       const response = await app.fetch(
         new Request('http://localhost/team/netlify%3Adevelopers/users', {
-          headers: { Authorization: `Bearer ${TEST_TOKEN}` },
+          headers: { Authorization: `Bearer ${sessionToken}` },
         }),
       )
 
@@ -79,4 +110,274 @@ describe('connector server', () => {
       expect(response.status).toBe(401)
     })
   })
+
+  describe('GET /package/:pkg/dist-tags', () => {
+    it('returns 401 without auth token', async () => {
+      const app = createConnectorApp(TEST_TOKEN)
+
+      const response = await app.fetch(new Request('http://localhost/package/vue/dist-tags'))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('returns 400 for an invalid package name', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+      const sessionToken = await connect(app)
+
+      const response = await app.fetch(
+        new Request('http://localhost/package/..%2Fetc/dist-tags', {
+          headers: { Authorization: `Bearer ${sessionToken}` },
+        }),
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('GET /history', () => {
+    it('returns 401 without auth token', async () => {
+      const app = createConnectorApp(TEST_TOKEN)
+
+      const response = await app.fetch(new Request('http://localhost/history'))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('returns 400 for an invalid limit', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+      const sessionToken = await connect(app)
+
+      const response = await app.fetch(
+        new Request('http://localhost/history?limit=0', {
+          headers: { Authorization: `Bearer ${sessionToken}` },
+        }),
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('records approved operations in the audit log', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'npmx-history-'))
+      try {
+        const app = createConnectorApp(TEST_TOKEN, {
+          allowMissingOrigin: true,
+          historyFile: join(dir, 'history.jsonl'),
+        })
+        const headers = { Authorization: `Bearer ${await connect(app)}` }
+
+        const created = await app.fetch(
+          new Request('http://localhost/operations', {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              type: 'owner:add',
+              params: { user: 'alice', pkg: 'my-pkg' },
+              description: 'Add @alice as owner of my-pkg',
+              command: 'npm owner add alice my-pkg',
+            }),
+          }),
+        )
+        const { data: operation } = await created.json()
+
+        await app.fetch(
+          new Request(`http://localhost/approve?id=${operation.id}`, { method: 'POST', headers }),
+        )
+
+        const response = await app.fetch(new Request('http://localhost/history', { headers }))
+        const body = await response.json()
+
+        expect(body.success).toBe(true)
+        expect(body.data).toHaveLength(1)
+        expect(body.data[0]).toMatchObject({
+          operationId: operation.id,
+          event: 'approved',
+          command: 'npm owner add alice my-pkg',
+        })
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('POST /operations/batch', () => {
+    async function jsonHeaders(app: ConnectorApp) {
+      return {
+        'Authorization': `Bearer ${await connect(app)}`,
+        'Content-Type': 'application/json',
+      }
+    }
+    const addUser = {
+      type: 'org:add-user',
+      params: { org: 'myorg', user: 'carol', role: 'developer' },
+      description: 'Add carol',
+      command: 'npm org set myorg carol developer',
+    }
+    const addToTeam = {
+      type: 'team:add-user',
+      params: { scopeTeam: '@myorg:developers', user: 'carol' },
+      description: 'Add carol to developers',
+      command: 'npm team add @myorg:developers carol',
+    }
+
+    it('links operations to earlier operations in the batch', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+
+      const response = await app.fetch(
+        new Request('http://localhost/operations/batch', {
+          method: 'POST',
+          headers: await jsonHeaders(app),
+          body: JSON.stringify([addUser, { ...addToTeam, dependsOnIndex: 0 }]),
+        }),
+      )
+
+      const body = await response.json()
+      expect(body.data[1].dependsOn).toBe(body.data[0].id)
+    })
+
+    it('rejects dependsOnIndex pointing at a later operation', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+
+      const response = await app.fetch(
+        new Request('http://localhost/operations/batch', {
+          method: 'POST',
+          headers: await jsonHeaders(app),
+          body: JSON.stringify([{ ...addToTeam, dependsOnIndex: 1 }, addUser]),
+        }),
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('sessions', () => {
+    it('does not accept the pairing token as a session token', async () => {
+      const app = createConnectorApp(TEST_TOKEN)
+
+      const response = await app.fetch(
+        new Request('http://localhost/state', {
+          headers: { Authorization: `Bearer ${TEST_TOKEN}` },
+        }),
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects expired sessions', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true, sessionTtlMs: -1 })
+      const sessionToken = await connect(app)
+
+      const response = await app.fetch(
+        new Request('http://localhost/state', {
+          headers: { Authorization: `Bearer ${sessionToken}` },
+        }),
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects requests from a different origin than the session was created from', async () => {
+      const app = createConnectorApp(TEST_TOKEN)
+      const sessionToken = await connect(app, {}, { Origin: 'http://localhost:3000' })
+
+      const response = await app.fetch(
+        new Request('http://localhost/state', {
+          headers: { Authorization: `Bearer ${sessionToken}`, Origin: 'https://npmx.dev' },
+        }),
+      )
+
+      expect(response.status).toBe(403)
+    })
+
+    it('rejects pairing from origins that are not allowed', async () => {
+      const app = createConnectorApp(TEST_TOKEN)
+
+      const response = await app.fetch(
+        new Request('http://localhost/connect', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Origin': 'https://example.com' },
+          body: JSON.stringify({ token: TEST_TOKEN }),
+        }),
+      )
+
+      expect(response.status).toBe(403)
+    })
+
+    it('rejects pairing without an origin unless allowed', async () => {
+      const pair = (app: ConnectorApp) =>
+        app.fetch(
+          new Request('http://localhost/connect', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token: TEST_TOKEN }),
+          }),
+        )
+
+      expect((await pair(createConnectorApp(TEST_TOKEN))).status).toBe(403)
+      expect(
+        (await pair(createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true }))).status,
+      ).toBe(200)
+    })
+
+    it('only allows read-only sessions to read', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+      const sessionToken = await connect(app, { scope: 'read' })
+      const headers = { Authorization: `Bearer ${sessionToken}` }
+
+      const state = await app.fetch(new Request('http://localhost/state', { headers }))
+      expect(state.status).toBe(200)
+
+      const created = await app.fetch(
+        new Request('http://localhost/operations', {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            type: 'owner:add',
+            params: { user: 'alice', pkg: 'my-pkg' },
+            description: 'Add @alice as owner of my-pkg',
+            command: 'npm owner add alice my-pkg',
+          }),
+        }),
+      )
+      expect(created.status).toBe(403)
+    })
+
+    it('ignores the requested scope when the connector is read-only', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true, maxScope: 'read' })
+      const response = await app.fetch(
+        new Request('http://localhost/connect', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: TEST_TOKEN, scope: 'write' }),
+        }),
+      )
+
+      const { data } = await response.json()
+      expect(data.session.scope).toBe('read')
+    })
+
+    it('lists and revokes sessions', async () => {
+      const app = createConnectorApp(TEST_TOKEN, { allowMissingOrigin: true })
+      const first = await connect(app)
+      const second = await connect(app, { scope: 'read' })
+      const headers = { Authorization: `Bearer ${first}` }
+
+      const listed = await app.fetch(new Request('http://localhost/sessions', { headers }))
+      const { data: sessions } = await listed.json()
+      expect(sessions).toHaveLength(2)
+      const other = sessions.find((s: { current: boolean }) => !s.current)
+      expect(other.scope).toBe('read')
+
+      const revoked = await app.fetch(
+        new Request(`http://localhost/sessions?id=${other.id}`, { method: 'DELETE', headers }),
+      )
+      expect(revoked.status).toBe(200)
+
+      const response = await app.fetch(
+        new Request('http://localhost/state', {
+          headers: { Authorization: `Bearer ${second}` },
+        }),
+      )
+      expect(response.status).toBe(401)
+    })
+  })
 })
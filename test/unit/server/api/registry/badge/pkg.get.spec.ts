@@ -7,6 +7,8 @@ const fetchNpmPackageMock = vi.hoisted(() => vi.fn())
 const getRouterParamMock = vi.hoisted(() => vi.fn())
 const getQueryMock = vi.hoisted(() => vi.fn())
 const setHeaderMock = vi.hoisted(() => vi.fn())
+const fetchMock = vi.hoisted(() => vi.fn())
+const parseAttestationMock = vi.hoisted(() => vi.fn())
 
 vi.mock('#server/utils/npm', () => ({
   fetchNpmPackage: fetchNpmPackageMock,
@@ -21,11 +23,38 @@ vi.mock('h3', () => ({
 
 vi.stubGlobal('defineCachedEventHandler', (fn: Function) => fn)
 vi.stubGlobal('parsePackageParams', parsePackageParams)
+vi.stubGlobal('fetch', fetchMock)
+vi.stubGlobal('parseAttestationToProvenanceDetails', parseAttestationMock)
 
 const handler = (await import('#server/api/registry/badge/[type]/[...pkg].get')).default
 
 const fakeEvent = {} as H3Event
 
+function mockPackage(name: string, versionData: Record<string, unknown>) {
+  fetchNpmPackageMock.mockResolvedValue({
+    '_id': name,
+    '_rev': '1',
+    name,
+    'dist-tags': { latest: '1.0.0' },
+    'versions': {
+      '1.0.0': { name, version: '1.0.0', ...versionData },
+    },
+    'time': {},
+  } as unknown as Packument)
+}
+
+/** Render a badge as shields.io JSON and return its message */
+async function getBadgeMessage(type: string, pkg = 'my-pkg'): Promise<string> {
+  getQueryMock.mockReturnValue({ format: 'json' })
+  getRouterParamMock.mockImplementation((_event: unknown, name: string) => {
+    if (name === 'type') return type
+    if (name === 'pkg') return pkg
+    return undefined
+  })
+  const response = (await handler(fakeEvent)) as { message: string }
+  return response.message
+}
+
 afterAll(() => {
   vi.unstubAllGlobals()
 })
@@ -58,4 +87,106 @@ describe('badge API', () => {
     expect(svg).toContain('>MIT<')
     expect(svg).not.toContain('[object Object]')
   })
+
+  it('returns shields.io endpoint JSON when format=json', async () => {
+    getQueryMock.mockReturnValue({ format: 'json', labelColor: '000000' })
+    fetchNpmPackageMock.mockResolvedValue({
+      '_id': 'my-pkg',
+      '_rev': '1',
+      'name': 'my-pkg',
+      'dist-tags': { latest: '1.0.0' },
+      'versions': {
+        '1.0.0': { version: '1.0.0', license: 'MIT' },
+      },
+      'time': {},
+    } as unknown as Packument)
+
+    const response = await handler(fakeEvent)
+
+    expect(response).toEqual({
+      schemaVersion: 1,
+      label: 'license',
+      message: 'MIT',
+      color: '22c55e',
+      labelColor: '000000',
+    })
+    expect(setHeaderMock).toHaveBeenCalledWith(fakeEvent, 'Content-Type', 'application/json')
+  })
+
+  describe('node-version badge', () => {
+    it('shows the lowest version of a range with gaps', async () => {
+      mockPackage('my-pkg', { engines: { node: '>=18 <20 || >=22' } })
+
+      expect(await getBadgeMessage('node-version')).toBe('>=18')
+    })
+
+    it('keeps minor and patch versions when set', async () => {
+      mockPackage('my-pkg', { engines: { node: '^18.12.0 || >=20.0.1' } })
+
+      expect(await getBadgeMessage('node-version')).toBe('>=18.12')
+    })
+
+    it('shows any when engines is missing', async () => {
+      mockPackage('my-pkg', {})
+
+      expect(await getBadgeMessage('node-version')).toBe('any')
+    })
+
+    it('shows the raw range when it is not valid semver', async () => {
+      mockPackage('my-pkg', { engines: { node: 'lts' } })
+
+      expect(await getBadgeMessage('node-version')).toBe('lts')
+    })
+  })
+
+  describe('module-format badge', () => {
+    it.each([
+      ['ESM', { type: 'module', exports: { '.': { import: './index.js' } } }],
+      ['CJS', { main: './index.js' }],
+      ['ESM + CJS', { exports: { '.': { import: './index.mjs', require: './index.cjs' } } }],
+    ])('shows %s', async (expected, versionData) => {
+      mockPackage('my-pkg', versionData)
+
+      expect(await getBadgeMessage('module-format')).toBe(expected)
+    })
+  })
+
+  describe('provenance badge', () => {
+    it('shows verified when the attestations parse to provenance details', async () => {
+      mockPackage('my-pkg', { dist: { attestations: { url: 'https://example.com/att' } } })
+      fetchMock.mockResolvedValue({ ok: true, json: async () => ({ attestations: [] }) })
+      parseAttestationMock.mockReturnValue({ provider: 'github' })
+
+      expect(await getBadgeMessage('provenance')).toBe('verified')
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/att')
+    })
+
+    it('shows none without attestations', async () => {
+      mockPackage('my-pkg', { dist: {} })
+
+      expect(await getBadgeMessage('provenance')).toBe('none')
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('shows none when the attestations request fails', async () => {
+      mockPackage('my-pkg', { dist: { attestations: { url: 'https://example.com/att' } } })
+      fetchMock.mockResolvedValue({ ok: false })
+
+      expect(await getBadgeMessage('provenance')).toBe('none')
+    })
+  })
+
+  describe('replacement badge', () => {
+    it('shows the kind of replacement for a replaceable module', async () => {
+      mockPackage('is-number', {})
+
+      expect(await getBadgeMessage('replacement', 'is-number')).toBe('simpler')
+    })
+
+    it('shows none when there is no replacement', async () => {
+      mockPackage('my-pkg', {})
+
+      expect(await getBadgeMessage('replacement')).toBe('none')
+    })
+  })
 })
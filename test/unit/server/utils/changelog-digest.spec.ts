@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildChangelogDigest,
+  categorizeChanges,
+  getHeadingCategory,
+} from '#server/utils/changelog/digest'
+import { parseChangelogSections } from '#server/utils/changelog/sections'
+
+const CHANGELOG = `# Changelog
+
+## [5.0.0](https://github.com/o/r/compare/v4.1.0...v5.0.0) (2024-05-01)
+
+### ⚠ BREAKING CHANGES
+
+* drop support for Node 16
+
+### Features
+
+* **core:** add streaming API
+
+## 4.1.0
+
+### Bug Fixes
+
+* handle empty input
+
+\`\`\`md
+## 9.9.9
+\`\`\`
+
+## v4.0.0
+
+- feat!: rename \`load\` to \`read\`
+- fix: typo in error message
+- chore: update dependencies
+
+## 3.2.1
+
+- fix: old fix
+`
+
+describe('getHeadingCategory', () => {
+  it.each([
+    ['⚠ BREAKING CHANGES', 'breaking'],
+    ['Major Changes', 'breaking'],
+    ['Features', 'features'],
+    ['✨ New Feature', 'features'],
+    ['Minor Changes', 'features'],
+    ['Bug Fixes', 'fixes'],
+    ['Patch Changes', 'fixes'],
+    ['Contributors', null],
+  ])('categorizes %s', (heading, category) => {
+    expect(getHeadingCategory(heading)).toBe(category)
+  })
+})
+
+describe('categorizeChanges', () => {
+  it('uses conventional commit prefixes before headings', () => {
+    const changes = categorizeChanges(`## What's Changed
+* feat(api)!: remove legacy options
+* feat: add option
+* fix: crash on startup
+* docs: update readme`)
+
+    expect(changes).toEqual({
+      breaking: '* feat(api)!: remove legacy options',
+      features: '* feat: add option',
+      fixes: '* fix: crash on startup',
+      other: '* docs: update readme',
+    })
+  })
+
+  it('keeps paragraphs with their heading', () => {
+    const changes = categorizeChanges(`### Breaking Changes
+
+The default export has been removed.
+
+* update imports`)
+
+    expect(changes).toEqual({
+      breaking: 'The default export has been removed.\n\n* update imports',
+    })
+  })
+})
+
+describe('buildChangelogDigest', () => {
+  it('groups the changes within the range with breaking changes first', () => {
+    const digest = buildChangelogDigest(parseChangelogSections(CHANGELOG), '3.2.1', '5.0.0')
+
+    expect(digest.versions).toEqual(['5.0.0', '4.1.0', '4.0.0'])
+    expect(digest.groups.map(group => group.category)).toEqual([
+      'breaking',
+      'features',
+      'fixes',
+      'other',
+    ])
+    expect(digest.groups[0]!.entries.map(entry => entry.version)).toEqual(['5.0.0', '4.0.0'])
+    expect(digest.groups[2]!.entries.map(entry => entry.version)).toEqual(['4.1.0', '4.0.0'])
+  })
+
+  it('excludes the version upgraded from', () => {
+    const digest = buildChangelogDigest(parseChangelogSections(CHANGELOG), '4.1.0', '5.0.0')
+
+    expect(digest.versions).toEqual(['5.0.0'])
+  })
+})
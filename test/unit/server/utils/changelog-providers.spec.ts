@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { getReleaseHost, getReleasesPageUrl } from '#server/utils/changelog/providers'
+
+describe('getReleaseHost', () => {
+  it('defaults to the public instance of a provider', () => {
+    expect(getReleaseHost('gitlab')).toBe('gitlab.com')
+    expect(getReleaseHost('codeberg')).toBe('codeberg.org')
+    expect(getReleaseHost('gitea')).toBe('gitea.com')
+  })
+
+  it('allows known self-hosted instances', () => {
+    expect(getReleaseHost('gitlab', 'gitlab.gnome.org')).toBe('gitlab.gnome.org')
+    expect(getReleaseHost('forgejo', 'next.forgejo.org')).toBe('next.forgejo.org')
+  })
+
+  it('rejects hosts that are not allowlisted', () => {
+    expect(getReleaseHost('gitlab', 'localhost')).toBeNull()
+    expect(getReleaseHost('gitea', '169.254.169.254')).toBeNull()
+    expect(getReleaseHost('forgejo')).toBeNull()
+  })
+
+  it('ignores the requested host for codeberg', () => {
+    expect(getReleaseHost('codeberg', 'localhost')).toBe('codeberg.org')
+  })
+
+  it('returns null for providers without releases support', () => {
+    expect(getReleaseHost('bitbucket')).toBeNull()
+  })
+})
+
+describe('getReleasesPageUrl', () => {
+  it('links to the GitLab releases page of nested groups', () => {
+    expect(
+      getReleasesPageUrl({ provider: 'gitlab', owner: 'group/subgroup', repo: 'project' }),
+    ).toBe('https://gitlab.com/group/subgroup/project/-/releases')
+  })
+
+  it('links to the releases page of Gitea-like providers', () => {
+    expect(getReleasesPageUrl({ provider: 'codeberg', owner: 'owner', repo: 'repo' })).toBe(
+      'https://codeberg.org/owner/repo/releases',
+    )
+  })
+})
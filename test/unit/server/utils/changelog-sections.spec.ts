@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getHeadingVersion,
+  getReleaseVersion,
+  parseChangelogSections,
+  parseMarkdownHeading,
+} from '#server/utils/changelog/sections'
+
+describe('getReleaseVersion', () => {
+  it('strips the v prefix of tags', () => {
+    expect(getReleaseVersion('v1.2.3', 'pkg')).toBe('1.2.3')
+    expect(getReleaseVersion('1.2.3-beta.1', 'pkg')).toBe('1.2.3-beta.1')
+  })
+
+  it('only matches monorepo tags of the package', () => {
+    expect(getReleaseVersion('@scope/pkg@2.0.0', '@scope/pkg')).toBe('2.0.0')
+    expect(getReleaseVersion('@scope/other@2.0.0', '@scope/pkg')).toBeNull()
+  })
+
+  it('ignores tags without a version', () => {
+    expect(getReleaseVersion('nightly', 'pkg')).toBeNull()
+  })
+})
+
+describe('getHeadingVersion', () => {
+  it.each([
+    ['1.0.0', '1.0.0'],
+    ['v1.0.0', '1.0.0'],
+    ['[1.0.0] - 2024-01-01', '1.0.0'],
+    ['[1.0.0](https://github.com/o/r/compare/v0.9.0...v1.0.0) (2024-01-01)', '1.0.0'],
+    ['@scope/pkg@2.0.0-beta.1', '2.0.0-beta.1'],
+    ['Version 3.1.4', '3.1.4'],
+    ['[Unreleased]', null],
+    ['Patch Changes', null],
+    ['Upgrade to 2.0.0', null],
+  ])('reads the version of %s', (heading, version) => {
+    expect(getHeadingVersion(heading)).toBe(version)
+  })
+})
+
+describe('parseMarkdownHeading', () => {
+  it.each([
+    ['## 1.0.0', { depth: 2, text: '1.0.0' }],
+    ['### Bug Fixes ###   ', { depth: 3, text: 'Bug Fixes' }],
+    ['# C#', { depth: 1, text: 'C#' }],
+    [`## Features${' '.repeat(10_000)}`, { depth: 2, text: 'Features' }],
+    ['#hashtag', null],
+    ['####### too deep', null],
+  ])('parses %j', (line, heading) => {
+    expect(parseMarkdownHeading(line)).toEqual(heading)
+  })
+})
+
+describe('parseChangelogSections', () => {
+  it('parses Keep a Changelog', () => {
+    const sections = parseChangelogSections(`# Changelog
+
+## [Unreleased]
+
+- Work in progress
+
+## [1.1.0] - 2024-02-01
+
+### Added
+
+- New option
+
+## [1.0.0] - 2024-01-01
+
+### Fixed
+
+- Crash
+
+[1.1.0]: https://github.com/o/r/compare/v1.0.0...v1.1.0
+`)
+
+    expect(sections).toEqual([
+      { version: '1.1.0', date: '2024-02-01', markdown: '### Added\n\n- New option' },
+      {
+        version: '1.0.0',
+        date: '2024-01-01',
+        markdown: '### Fixed\n\n- Crash\n\n[1.1.0]: https://github.com/o/r/compare/v1.0.0...v1.1.0',
+      },
+    ])
+  })
+
+  it('parses changesets', () => {
+    const sections = parseChangelogSections(`# @scope/pkg
+
+## 2.0.0
+
+### Major Changes
+
+- abc1234: Drop Node 18
+
+### Patch Changes
+
+- Updated dependencies
+  - @scope/core@2.0.0
+
+## 1.0.1
+
+### Patch Changes
+
+- def5678: Fix types
+`)
+
+    expect(sections.map(section => section.version)).toEqual(['2.0.0', '1.0.1'])
+    expect(sections[0]!.markdown).toContain('### Patch Changes')
+    expect(sections[0]!.markdown).toContain('@scope/core@2.0.0')
+  })
+
+  it('parses standard-version with patch releases one level lower', () => {
+    const sections = parseChangelogSections(`# Changelog
+
+### [1.1.1](https://github.com/o/r/compare/v1.1.0...v1.1.1) (2024-03-02)
+
+### Bug Fixes
+
+* **core:** handle empty input
+
+## [1.1.0](https://github.com/o/r/compare/v1.0.0...v1.1.0) (2024-03-01)
+
+### Features
+
+* add streaming API
+`)
+
+    expect(sections).toEqual([
+      {
+        version: '1.1.1',
+        date: '2024-03-02',
+        markdown: '### Bug Fixes\n\n* **core:** handle empty input',
+      },
+      { version: '1.1.0', date: '2024-03-01', markdown: '### Features\n\n* add streaming API' },
+    ])
+  })
+
+  it('strips closing hashes from headings', () => {
+    const sections = parseChangelogSections('## 1.0.0 ##   \n\n- initial release\n')
+
+    expect(sections).toEqual([{ version: '1.0.0', markdown: '- initial release' }])
+  })
+
+  it('ignores headings within code blocks', () => {
+    const sections = parseChangelogSections('## 1.0.0\n\n```md\n## 0.9.0\n```\n')
+
+    expect(sections).toEqual([{ version: '1.0.0', markdown: '```md\n## 0.9.0\n```' }])
+  })
+})
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const fetchRawMock = vi.fn<(url: string) => Promise<{ _data: unknown; headers: Headers }>>()
+vi.stubGlobal('$fetch', Object.assign(vi.fn(), { raw: fetchRawMock }))
+
+const { fetchReleases } = await import('#server/utils/changelog/sources')
+
+function page(data: unknown[], link?: string) {
+  return { _data: data, headers: new Headers(link ? { link } : {}) }
+}
+
+function gitlabRelease(tag: string) {
+  return { tag_name: tag, name: tag, description: `Notes for ${tag}` }
+}
+
+describe('fetchReleases', () => {
+  beforeEach(() => {
+    fetchRawMock.mockReset()
+  })
+
+  it('follows Link headers across GitLab release pages', async () => {
+    fetchRawMock
+      .mockResolvedValueOnce(
+        page(
+          [gitlabRelease('v2.0.0')],
+          '<https://gitlab.com/api/v4/projects/a%2Fb/releases?page=2&per_page=100>; rel="next", <https://gitlab.com/api/v4/projects/a%2Fb/releases?page=2&per_page=100>; rel="last"',
+        ),
+      )
+      .mockResolvedValueOnce(page([gitlabRelease('v1.0.0')]))
+
+    const releases = await fetchReleases({ provider: 'gitlab', owner: 'a', repo: 'b' })
+
+    expect(releases?.map(r => r.tag)).toEqual(['v2.0.0', 'v1.0.0'])
+    expect(fetchRawMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://gitlab.com/api/v4/projects/a%2Fb/releases?per_page=100',
+      'https://gitlab.com/api/v4/projects/a%2Fb/releases?page=2&per_page=100',
+    ])
+  })
+
+  it('requests large pages from Gitea-compatible hosts', async () => {
+    fetchRawMock.mockResolvedValueOnce(
+      page([{ id: 1, tag_name: 'v1.0.0', draft: false, prerelease: false }]),
+    )
+
+    const releases = await fetchReleases({ provider: 'codeberg', owner: 'a', repo: 'b' })
+
+    expect(releases).toHaveLength(1)
+    expect(fetchRawMock).toHaveBeenCalledWith(
+      'https://codeberg.org/api/v1/repos/a/b/releases?limit=50',
+      expect.anything(),
+    )
+  })
+
+  it('does not follow next pages on another host', async () => {
+    fetchRawMock.mockResolvedValueOnce(
+      page([gitlabRelease('v1.0.0')], '<https://evil.example/releases?page=2>; rel="next"'),
+    )
+
+    const releases = await fetchReleases({ provider: 'gitlab', owner: 'a', repo: 'b' })
+
+    expect(releases).toHaveLength(1)
+    expect(fetchRawMock).toHaveBeenCalledTimes(1)
+  })
+})
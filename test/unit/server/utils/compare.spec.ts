@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import type { DependencySize, PackageVulnerabilityInfo, VulnerabilitySummary } from '#shared/types'
+import {
+  compareDependencies,
+  compareDependencyTrees,
+  getNewVulnerabilities,
+} from '#server/utils/compare'
+
+function dep(name: string, version: string, size = 100): DependencySize {
+  return { name, version, size, tarballUrl: '' }
+}
+
+function vuln(
+  id: string,
+  severity: VulnerabilitySummary['severity'] = 'high',
+): VulnerabilitySummary {
+  return { id, summary: id, severity, aliases: [], url: `https://osv.dev/vulnerability/${id}` }
+}
+
+function vulnerable(
+  name: string,
+  version: string,
+  vulnerabilities: VulnerabilitySummary[],
+): PackageVulnerabilityInfo {
+  return {
+    name,
+    version,
+    depth: 'transitive',
+    path: [`${name}@${version}`],
+    vulnerabilities,
+    counts: { total: vulnerabilities.length, critical: 0, high: 0, moderate: 0, low: 0 },
+  }
+}
+
+describe('compareDependencies', () => {
+  it('reports direct dependency range changes with a semver diff', () => {
+    const changes = compareDependencies(
+      { dependencies: { a: '^1.0.0', b: '^1.0.0' } },
+      { dependencies: { a: '^2.0.0', c: '^1.0.0' } },
+    )
+
+    expect(changes).toEqual([
+      {
+        name: 'a',
+        section: 'dependencies',
+        from: '^1.0.0',
+        to: '^2.0.0',
+        type: 'updated',
+        semverDiff: 'major',
+      },
+      {
+        name: 'b',
+        section: 'dependencies',
+        from: '^1.0.0',
+        to: null,
+        type: 'removed',
+        semverDiff: null,
+      },
+      {
+        name: 'c',
+        section: 'dependencies',
+        from: null,
+        to: '^1.0.0',
+        type: 'added',
+        semverDiff: null,
+      },
+    ])
+  })
+})
+
+describe('compareDependencyTrees', () => {
+  it('reports added, removed and updated packages across the tree', () => {
+    const changes = compareDependencyTrees(
+      [dep('same', '1.0.0'), dep('removed', '1.0.0', 300), dep('updated', '1.2.0', 100)],
+      [dep('same', '1.0.0'), dep('updated', '1.3.0', 150), dep('added', '0.1.0', 50)],
+    )
+
+    expect(changes).toEqual([
+      { name: 'added', from: null, to: '0.1.0', type: 'added', semverDiff: null, sizeDelta: 50 },
+      {
+        name: 'removed',
+        from: '1.0.0',
+        to: null,
+        type: 'removed',
+        semverDiff: null,
+        sizeDelta: -300,
+      },
+      {
+        name: 'updated',
+        from: '1.2.0',
+        to: '1.3.0',
+        type: 'updated',
+        semverDiff: 'minor',
+        sizeDelta: 50,
+      },
+    ])
+  })
+
+  it('returns no changes for identical trees', () => {
+    const tree = [dep('a', '1.0.0'), dep('b', '2.0.0')]
+    expect(compareDependencyTrees(tree, tree)).toEqual([])
+  })
+})
+
+describe('getNewVulnerabilities', () => {
+  it('keeps only advisories the package was not already affected by', () => {
+    const result = getNewVulnerabilities(
+      [vulnerable('a', '1.0.0', [vuln('GHSA-old')])],
+      [
+        vulnerable('a', '1.1.0', [vuln('GHSA-old'), vuln('GHSA-new', 'critical')]),
+        vulnerable('b', '2.0.0', [vuln('GHSA-b', 'moderate')]),
+      ],
+    )
+
+    expect(result.map(pkg => [pkg.name, pkg.vulnerabilities.map(v => v.id)])).toEqual([
+      ['a', ['GHSA-new']],
+      ['b', ['GHSA-b']],
+    ])
+    expect(result[0]!.counts).toEqual({ total: 1, critical: 1, high: 0, moderate: 0, low: 0 })
+  })
+
+  it('returns nothing when the new tree has no new advisories', () => {
+    const from = [vulnerable('a', '1.0.0', [vuln('GHSA-old')])]
+    expect(getNewVulnerabilities(from, [vulnerable('a', '1.0.1', [vuln('GHSA-old')])])).toEqual([])
+  })
+})
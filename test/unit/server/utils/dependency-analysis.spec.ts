@@ -6,14 +6,18 @@ const $fetchMock = vi.fn()
 vi.stubGlobal('$fetch', $fetchMock)
 
 // Import module under test
-const { analyzeDependencyTree } = await import('#server/utils/dependency-analysis')
+const { analyzeDependencyTree, analyzePinnedPackages } =
+  await import('#server/utils/dependency-analysis')
 
 // Mock the dependency resolver
 vi.mock('#server/utils/dependency-resolver', () => ({
   resolveDependencyTree: vi.fn(),
+  resolveDependencyGraph: vi.fn(async () => ({ root: null, nodes: new Map(), truncated: false })),
+  resolvePinnedPackages: vi.fn(),
 }))
 
-const { resolveDependencyTree } = await import('#server/utils/dependency-resolver')
+const { resolveDependencyTree, resolveDependencyGraph, resolvePinnedPackages } =
+  await import('#server/utils/dependency-resolver')
 
 /**
  * Helper to create mock $fetch that handles the two-step OSV API pattern:
@@ -986,5 +990,196 @@ describe('dependency-analysis', () => {
       expect(result.deprecatedPackages[0]?.name).toBe('deprecated-pkg')
       expect(result.totalPackages).toBe(3)
     })
+
+    it('splits large package lists into multiple OSV batch requests', async () => {
+      const mockResolved = new Map(
+        Array.from({ length: 1500 }, (_, i) => [
+          `pkg-${i}@1.0.0`,
+          {
+            name: `pkg-${i}`,
+            version: '1.0.0',
+            size: 0,
+            optional: false,
+            depth: 'transitive' as const,
+            path: [`pkg-${i}@1.0.0`],
+            tarballUrl: '',
+          },
+        ]),
+      )
+      vi.mocked(resolveDependencyTree).mockResolvedValue(mockResolved)
+
+      const batchSizes: number[] = []
+      $fetchMock.mockImplementation(async (url: string, options?: { body?: unknown }) => {
+        if (url === 'https://api.osv.dev/v1/querybatch') {
+          const { queries } = options!.body as { queries: unknown[] }
+          batchSizes.push(queries.length)
+          // Only the last package in the second chunk is vulnerable
+          return {
+            results: queries.map((_, i) =>
+              batchSizes.length === 2 && i === queries.length - 1
+                ? { vulns: [{ id: 'GHSA-last', modified: '2024-01-01' }] }
+                : { vulns: [] },
+            ),
+          }
+        }
+        return { vulns: [{ id: 'GHSA-last', summary: 'Last' }] }
+      })
+
+      const result = await analyzeDependencyTree('pkg-0', '1.0.0')
+
+      expect(batchSizes).toEqual([1000, 500])
+      expect(result.vulnerablePackages).toHaveLength(1)
+      expect(result.vulnerablePackages[0]?.name).toBe('pkg-1499')
+    })
+
+    it('reports packages resolved at several versions', async () => {
+      vi.mocked(resolveDependencyTree).mockResolvedValue(new Map())
+      vi.mocked(resolveDependencyGraph).mockResolvedValueOnce({
+        root: 'root@1.0.0',
+        truncated: false,
+        nodes: new Map([
+          [
+            'root@1.0.0',
+            {
+              name: 'root',
+              version: '1.0.0',
+              size: 0,
+              dependencies: [
+                { name: 'dup', range: '^1.0.0', optional: false, target: 'dup@1.1.0' },
+                { name: 'a', range: '1.0.0', optional: false, target: 'a@1.0.0' },
+              ],
+            },
+          ],
+          [
+            'a@1.0.0',
+            {
+              name: 'a',
+              version: '1.0.0',
+              size: 0,
+              dependencies: [
+                { name: 'dup', range: '~1.0.0', optional: false, target: 'dup@1.0.5' },
+              ],
+            },
+          ],
+          ['dup@1.1.0', { name: 'dup', version: '1.1.0', size: 200, dependencies: [] }],
+          ['dup@1.0.5', { name: 'dup', version: '1.0.5', size: 100, dependencies: [] }],
+        ]),
+      })
+      mockOsvApi([])
+
+      const result = await analyzeDependencyTree('root', '1.0.0')
+
+      expect(result.duplicates).toEqual([
+        {
+          name: 'dup',
+          versions: [
+            {
+              version: '1.1.0',
+              size: 200,
+              dependents: [{ name: 'root', version: '1.0.0', range: '^1.0.0' }],
+            },
+            {
+              version: '1.0.5',
+              size: 100,
+              dependents: [{ name: 'a', version: '1.0.0', range: '~1.0.0' }],
+            },
+          ],
+          dedupedVersions: ['1.1.0', '1.0.5'],
+          savings: 0,
+        },
+      ])
+    })
+
+    it('scans the resolved tree even when the graph is truncated', async () => {
+      const mockResolved = new Map(
+        ['root', 'a', 'b'].map(name => [
+          `${name}@1.0.0`,
+          {
+            name,
+            version: '1.0.0',
+            size: 100,
+            optional: false,
+            depth: name === 'root' ? ('root' as const) : ('direct' as const),
+            path: [`${name}@1.0.0`],
+            tarballUrl: `https://example.com/${name}-1.0.0.tgz`,
+          },
+        ]),
+      )
+      vi.mocked(resolveDependencyTree).mockResolvedValue(mockResolved)
+      vi.mocked(resolveDependencyGraph).mockResolvedValueOnce({
+        root: 'root@1.0.0',
+        truncated: true,
+        nodes: new Map([
+          ['root@1.0.0', { name: 'root', version: '1.0.0', size: 100, dependencies: [] }],
+        ]),
+      })
+      mockOsvApi([{ vulns: [] }, { vulns: [] }, { vulns: [] }])
+
+      const result = await analyzeDependencyTree('root', '1.0.0')
+
+      expect(result.totalPackages).toBe(3)
+    })
+  })
+
+  describe('analyzePinnedPackages', () => {
+    it('audits exact packages and reports size and missing packages', async () => {
+      const mockResolved = new Map([
+        [
+          'a@1.0.0',
+          {
+            name: 'a',
+            version: '1.0.0',
+            size: 100,
+            optional: false,
+            depth: 'direct' as const,
+            path: ['a@1.0.0'],
+            tarballUrl: 'https://example.com/a-1.0.0.tgz',
+          },
+        ],
+        [
+          'b@2.0.0',
+          {
+            name: 'b',
+            version: '2.0.0',
+            size: 300,
+            optional: false,
+            depth: 'transitive' as const,
+            path: ['b@2.0.0'],
+            deprecated: 'No longer maintained',
+            tarballUrl: 'https://example.com/b-2.0.0.tgz',
+          },
+        ],
+      ])
+      vi.mocked(resolvePinnedPackages).mockResolvedValue(mockResolved)
+
+      mockOsvApi(
+        [{ vulns: [{ id: 'GHSA-a', modified: '2024-01-01' }] }, { vulns: [] }],
+        new Map([
+          [
+            'a@1.0.0',
+            { vulns: [{ id: 'GHSA-a', summary: 'Bad', database_specific: { severity: 'LOW' } }] },
+          ],
+        ]),
+      )
+
+      const packages = [
+        { name: 'a', version: '1.0.0', direct: true },
+        { name: 'b', version: '2.0.0' },
+        { name: 'gone', version: '1.0.0' },
+      ]
+      const result = await analyzePinnedPackages(packages)
+
+      expect(resolvePinnedPackages).toHaveBeenCalledWith(packages)
+      expect(result.totalPackages).toBe(2)
+      expect(result.totalSize).toBe(400)
+      expect(result.dependencies.map(d => d.name)).toEqual(['b', 'a'])
+      expect(result.missingPackages).toEqual(['gone@1.0.0'])
+      expect(result.vulnerablePackages[0]).toMatchObject({ name: 'a', depth: 'direct' })
+      expect(result.totalCounts.low).toBe(1)
+      expect(result.deprecatedPackages[0]).toMatchObject({
+        name: 'b',
+        message: 'No longer maintained',
+      })
+    })
   })
 })
@@ -8,8 +8,15 @@ vi.stubGlobal('$fetch', vi.fn())
 const mockFetchNpmPackage = vi.fn<(name: string) => Promise<Packument | null>>()
 vi.stubGlobal('fetchNpmPackage', mockFetchNpmPackage)
 
-const { TARGET_PLATFORM, matchesPlatform, resolveVersion, resolveDependencyTree } =
-  await import('#server/utils/dependency-resolver')
+const {
+  TARGET_PLATFORM,
+  matchesPlatform,
+  resolveVersion,
+  resolveDependencyTree,
+  resolveDependencyGraph,
+  resolvePinnedPackages,
+  MAX_GRAPH_NODES,
+} = await import('#server/utils/dependency-resolver')
 
 /**
  * Helper to build a minimal Packument for mocking.
@@ -25,6 +32,7 @@ function makePackument(
     libc?: string[]
     unpackedSize?: number
     deprecated?: string
+    license?: string
   }>,
 ): Packument {
   const versionsMap: Record<string, PackumentVersion> = {}
@@ -38,6 +46,7 @@ function makePackument(
       ...(v.libc ? { libc: v.libc } : {}),
       dist: { unpackedSize: v.unpackedSize },
       ...(v.deprecated ? { deprecated: v.deprecated } : {}),
+      ...(v.license ? { license: v.license } : {}),
     } as unknown as PackumentVersion
   }
   return { name, versions: versionsMap } as Packument
@@ -126,6 +135,32 @@ describe('dependency-resolver', () => {
       const version = { os: [], cpu: [], libc: [] } as unknown as PackumentVersion
       expect(matchesPlatform(version)).toBe(true)
     })
+
+    it('matches against an explicitly requested platform', () => {
+      const darwinArm64 = { os: 'darwin', cpu: 'arm64' }
+      expect(
+        matchesPlatform({ os: ['darwin'], cpu: ['arm64'] } as PackumentVersion, darwinArm64),
+      ).toBe(true)
+      expect(matchesPlatform({ os: ['linux'] } as PackumentVersion, darwinArm64)).toBe(false)
+    })
+
+    it('treats libc constraints as unmet on platforms without a libc', () => {
+      const darwinArm64 = { os: 'darwin', cpu: 'arm64' }
+      expect(matchesPlatform({ libc: ['glibc'] } as unknown as PackumentVersion, darwinArm64)).toBe(
+        false,
+      )
+      expect(matchesPlatform({ libc: ['!musl'] } as unknown as PackumentVersion, darwinArm64)).toBe(
+        true,
+      )
+    })
+
+    it('matches musl packages when resolving for musl', () => {
+      const alpine = { os: 'linux', cpu: 'x64', libc: 'musl' }
+      expect(matchesPlatform({ libc: ['musl'] } as unknown as PackumentVersion, alpine)).toBe(true)
+      expect(matchesPlatform({ libc: ['glibc'] } as unknown as PackumentVersion, alpine)).toBe(
+        false,
+      )
+    })
   })
 
   describe('resolveVersion', () => {
@@ -309,6 +344,30 @@ describe('dependency-resolver', () => {
       expect(result.has('linux-ok@1.0.0')).toBe(true)
     })
 
+    it('resolves optional native dependencies for the requested platform', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'root')
+          return makePackument('root', [
+            {
+              version: '1.0.0',
+              optionalDeps: { 'native-darwin-arm64': '1.0.0', 'native-linux-x64': '1.0.0' },
+            },
+          ])
+        if (name === 'native-darwin-arm64')
+          return makePackument(name, [{ version: '1.0.0', os: ['darwin'], cpu: ['arm64'] }])
+        if (name === 'native-linux-x64')
+          return makePackument(name, [{ version: '1.0.0', os: ['linux'], cpu: ['x64'] }])
+        return null
+      })
+
+      const result = await resolveDependencyTree('root', '1.0.0', {
+        platform: { os: 'darwin', cpu: 'arm64' },
+      })
+
+      expect(result.has('native-darwin-arm64@1.0.0')).toBe(true)
+      expect(result.has('native-linux-x64@1.0.0')).toBe(false)
+    })
+
     it('skips dependencies with unresolvable version ranges', async () => {
       mockFetchNpmPackage.mockImplementation(async (name: string) => {
         if (name === 'root')
@@ -416,4 +475,190 @@ describe('dependency-resolver', () => {
       expect(result.has('shared@1.0.0')).toBe(true)
     })
   })
+
+  describe('resolveDependencyGraph', () => {
+    beforeEach(() => {
+      mockFetchNpmPackage.mockReset()
+    })
+
+    it('keeps every resolved version of a package and records edges', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'root')
+          return makePackument('root', [
+            { version: '1.0.0', deps: { a: '^1.0.0', b: '^1.0.0' }, license: 'MIT' },
+          ])
+        if (name === 'a')
+          return makePackument('a', [{ version: '1.0.0', deps: { shared: '^1.0.0' } }])
+        if (name === 'b')
+          return makePackument('b', [{ version: '1.0.0', deps: { shared: '^2.0.0' } }])
+        if (name === 'shared')
+          return makePackument('shared', [
+            { version: '1.0.0', unpackedSize: 10 },
+            { version: '2.0.0', unpackedSize: 20, deprecated: 'Use v3' },
+          ])
+        return null
+      })
+
+      const graph = await resolveDependencyGraph('root', '1.0.0')
+
+      expect(graph.root).toBe('root@1.0.0')
+      expect(graph.truncated).toBe(false)
+      expect([...graph.nodes.keys()].sort()).toEqual([
+        'a@1.0.0',
+        'b@1.0.0',
+        'root@1.0.0',
+        'shared@1.0.0',
+        'shared@2.0.0',
+      ])
+      expect(graph.nodes.get('root@1.0.0')).toMatchObject({
+        license: 'MIT',
+        dependencies: [
+          { name: 'a', range: '^1.0.0', optional: false, target: 'a@1.0.0' },
+          { name: 'b', range: '^1.0.0', optional: false, target: 'b@1.0.0' },
+        ],
+      })
+      expect(graph.nodes.get('b@1.0.0')!.dependencies[0]!.target).toBe('shared@2.0.0')
+      expect(graph.nodes.get('shared@2.0.0')).toMatchObject({ size: 20, deprecated: 'Use v3' })
+      // Each packument is fetched once, even when reached through several parents
+      expect(mockFetchNpmPackage).toHaveBeenCalledTimes(4)
+    })
+
+    it('keeps a single non-optional edge for dependencies that are also optional', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'root')
+          return makePackument('root', [
+            {
+              version: '1.0.0',
+              deps: { a: '^1.0.0' },
+              optionalDeps: { a: '^1.0.0', b: '^1.0.0' },
+            },
+          ])
+        if (name === 'a') return makePackument('a', [{ version: '1.0.0' }])
+        if (name === 'b') return makePackument('b', [{ version: '1.0.0' }])
+        return null
+      })
+
+      const graph = await resolveDependencyGraph('root', '1.0.0')
+
+      expect(graph.nodes.get('root@1.0.0')!.dependencies).toEqual([
+        { name: 'a', range: '^1.0.0', optional: false, target: 'a@1.0.0' },
+        { name: 'b', range: '^1.0.0', optional: true, target: 'b@1.0.0' },
+      ])
+    })
+
+    it('records cycles as edges without revisiting nodes', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'a') return makePackument('a', [{ version: '1.0.0', deps: { b: '1.0.0' } }])
+        if (name === 'b') return makePackument('b', [{ version: '1.0.0', deps: { a: '1.0.0' } }])
+        return null
+      })
+
+      const graph = await resolveDependencyGraph('a', '1.0.0')
+
+      expect(graph.nodes.size).toBe(2)
+      expect(graph.nodes.get('b@1.0.0')!.dependencies[0]!.target).toBe('a@1.0.0')
+    })
+
+    it('leaves unresolvable and platform-excluded edges without a target', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'root')
+          return makePackument('root', [
+            {
+              version: '1.0.0',
+              deps: { missing: '^1.0.0', git: 'github:user/repo' },
+              optionalDeps: { 'native-darwin': '1.0.0' },
+            },
+          ])
+        if (name === 'native-darwin')
+          return makePackument('native-darwin', [{ version: '1.0.0', os: ['darwin'] }])
+        return null
+      })
+
+      const graph = await resolveDependencyGraph('root', '1.0.0')
+
+      expect(graph.nodes.size).toBe(1)
+      expect(graph.nodes.get('root@1.0.0')!.dependencies).toEqual([
+        { name: 'missing', range: '^1.0.0', optional: false, target: null },
+        { name: 'git', range: 'github:user/repo', optional: false, target: null },
+        { name: 'native-darwin', range: '1.0.0', optional: true, target: null },
+      ])
+
+      const darwin = await resolveDependencyGraph('root', '1.0.0', {
+        platform: { os: 'darwin', cpu: 'arm64' },
+      })
+      expect(darwin.nodes.has('native-darwin@1.0.0')).toBe(true)
+    })
+
+    it('returns a null root when the package cannot be resolved', async () => {
+      mockFetchNpmPackage.mockResolvedValue(null)
+
+      const graph = await resolveDependencyGraph('missing', '1.0.0')
+
+      expect(graph.root).toBeNull()
+      expect(graph.nodes.size).toBe(0)
+    })
+
+    it('stops adding nodes at MAX_GRAPH_NODES', async () => {
+      const deps = Object.fromEntries(
+        Array.from({ length: MAX_GRAPH_NODES + 10 }, (_, i) => [`dep-${i}`, '1.0.0']),
+      )
+      mockFetchNpmPackage.mockImplementation(async (name: string) =>
+        name === 'root'
+          ? makePackument('root', [{ version: '1.0.0', deps }])
+          : makePackument(name, [{ version: '1.0.0' }]),
+      )
+
+      const graph = await resolveDependencyGraph('root', '1.0.0')
+
+      expect(graph.truncated).toBe(true)
+      expect(graph.nodes.size).toBe(MAX_GRAPH_NODES)
+    })
+  })
+
+  describe('resolvePinnedPackages', () => {
+    beforeEach(() => {
+      mockFetchNpmPackage.mockReset()
+    })
+
+    it('resolves exact versions without walking dependencies', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'a')
+          return makePackument('a', [
+            { version: '1.0.0', deps: { b: '^1.0.0' }, unpackedSize: 100 },
+            { version: '2.0.0', unpackedSize: 200 },
+          ])
+        return null
+      })
+
+      const result = await resolvePinnedPackages([
+        { name: 'a', version: '1.0.0', direct: true },
+        { name: 'a', version: '2.0.0' },
+      ])
+
+      expect(mockFetchNpmPackage).toHaveBeenCalledTimes(1)
+      expect([...result.keys()]).toEqual(['a@1.0.0', 'a@2.0.0'])
+      expect(result.get('a@1.0.0')).toMatchObject({
+        size: 100,
+        depth: 'direct',
+        path: ['a@1.0.0'],
+      })
+      expect(result.get('a@2.0.0')!.depth).toBe('transitive')
+    })
+
+    it('omits packages and versions missing from the registry', async () => {
+      mockFetchNpmPackage.mockImplementation(async (name: string) => {
+        if (name === 'a') return makePackument('a', [{ version: '1.0.0', deprecated: 'old' }])
+        throw new Error('Not found')
+      })
+
+      const result = await resolvePinnedPackages([
+        { name: 'a', version: '1.0.0' },
+        { name: 'a', version: '9.9.9' },
+        { name: 'missing', version: '1.0.0' },
+      ])
+
+      expect([...result.keys()]).toEqual(['a@1.0.0'])
+      expect(result.get('a@1.0.0')!.deprecated).toBe('old')
+    })
+  })
 })
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { convertOklchColorsToHex } from '../../../../server/utils/embed-downloads-png'
+
+describe('convertOklchColorsToHex', () => {
+  it('converts oklch fills and strokes to hex', () => {
+    expect(convertOklchColorsToHex('<rect fill="oklch(1 0 0)" stroke="oklch(0 0 0)" />')).toBe(
+      '<rect fill="#ffffff" stroke="#000000" />',
+    )
+  })
+
+  it('keeps the alpha channel as a hex byte', () => {
+    expect(convertOklchColorsToHex('fill="oklch(1 0 0 / 0.5)"')).toBe('fill="#ffffff80"')
+    expect(convertOklchColorsToHex('fill="oklch(1 0 0 / 50%)"')).toBe('fill="#ffffff80"')
+  })
+
+  it('accepts percentage lightness and hue units', () => {
+    expect(convertOklchColorsToHex('oklch(100% 0 0deg)')).toBe('#ffffff')
+  })
+
+  it('accepts none components and other hue units', () => {
+    expect(convertOklchColorsToHex('oklch(1 none none)')).toBe('#ffffff')
+    expect(convertOklchColorsToHex('oklch(0.5 0.1 0.5turn)')).toBe(
+      convertOklchColorsToHex('oklch(0.5 0.1 180)'),
+    )
+    expect(convertOklchColorsToHex('oklch(0.5 0.1 -90deg)')).toBe(
+      convertOklchColorsToHex('oklch(0.5 0.1 270)'),
+    )
+    expect(convertOklchColorsToHex('oklch(1 0 0 / none)')).toBe('#ffffff00')
+  })
+
+  it('leaves other colors untouched', () => {
+    const svg = '<rect fill="#3b82f6" stroke="rgb(0, 0, 0)" />'
+    expect(convertOklchColorsToHex(svg)).toBe(svg)
+  })
+})
@@ -326,6 +326,85 @@ describe('downloads SVG embed response', () => {
     )
   })
 
+  it('resolves a range preset to a start date before the end date', async () => {
+    mocks.getEffectiveEndDateIso.mockReturnValue('2026-05-31')
+
+    await createDownloadsSvgResponse({
+      package: 'vue',
+      range: '3m',
+      endDate: '2026-05-31',
+    })
+
+    expect(mocks.getEffectiveEndDateIso).toHaveBeenCalledWith('2026-05-31')
+    expect(mocks.fetchDownloadsEvolution).toHaveBeenCalledWith(
+      'vue',
+      expect.objectContaining({
+        startDate: '2026-03-01',
+        endDate: '2026-05-31',
+      }),
+    )
+  })
+
+  it('prefers an explicit startDate over a range preset', async () => {
+    await createDownloadsSvgResponse({
+      package: 'vue',
+      range: '1y',
+      startDate: '2026-01-01',
+    })
+
+    expect(mocks.fetchDownloadsEvolution).toHaveBeenCalledWith(
+      'vue',
+      expect.objectContaining({
+        startDate: '2026-01-01',
+      }),
+    )
+  })
+
+  it('ignores unknown range presets', async () => {
+    await createDownloadsSvgResponse({
+      package: 'vue',
+      range: '10y',
+    })
+
+    expect(mocks.fetchDownloadsEvolution).toHaveBeenCalledWith(
+      'vue',
+      expect.objectContaining({
+        startDate: undefined,
+      }),
+    )
+  })
+
+  it('plots log10 values and formats labels back to downloads when scale is log', async () => {
+    mocks.buildNormalisedTrendsDataset.mockReturnValue(createDataset({ series: [0, 10, 1000] }))
+
+    await createDownloadsSvgResponse({
+      package: 'vue',
+      scale: 'log',
+    })
+
+    const options = mocks.createStaticVueUiXy.mock.calls[0]![0]
+    expect(options.dataset[0].series).toEqual([0, 1, 3])
+
+    const yAxis = options.config.userConfig.chart.grid.labels.yAxis
+    expect(yAxis.formatter({ value: 3 })).toBe('1K')
+
+    const content = options.additionalSvgContent({
+      drawingArea: { bottom: 300 },
+      series: [{ plots: [{ x: 10, y: 20, value: 6 }] }],
+    })
+    expect(content).toContain('1M')
+  })
+
+  it('keeps a linear scale by default', async () => {
+    await createDownloadsSvgResponse({
+      package: 'vue',
+    })
+
+    const options = mocks.createStaticVueUiXy.mock.calls[0]![0]
+    expect(options.dataset[0].series).toEqual([10, 20])
+    expect(options.config.userConfig.chart.grid.labels.yAxis.formatter).toBeUndefined()
+  })
+
   it('uses dark colors when mode is dark', async () => {
     await createDownloadsSvgResponse({
       package: 'vue',
@@ -343,6 +422,52 @@ describe('downloads SVG embed response', () => {
     expect(mocks.resolveEmbedChartColors).toHaveBeenCalledWith('light')
   })
 
+  it('uses the theme parameter over mode', async () => {
+    await createDownloadsSvgResponse({
+      package: 'vue',
+      mode: 'dark',
+      theme: 'light',
+    })
+
+    expect(mocks.resolveEmbedChartColors).toHaveBeenCalledWith('light')
+    expect(mocks.resolveEmbedChartColors).not.toHaveBeenCalledWith('dark')
+  })
+
+  it('renders both themes behind a prefers-color-scheme switch when theme is auto', async () => {
+    mocks.createStaticVueUiXy
+      .mockResolvedValueOnce('<svg id="light" />')
+      .mockResolvedValueOnce('<svg id="dark" />')
+
+    const result = await createDownloadsSvgResponse({
+      package: 'vue',
+      theme: 'auto',
+      width: 800,
+      height: 400,
+    })
+
+    expect(mocks.resolveEmbedChartColors).toHaveBeenCalledWith('light')
+    expect(mocks.resolveEmbedChartColors).toHaveBeenCalledWith('dark')
+    expect(result).toContain('viewBox="0 0 800 400"')
+    expect(result).toContain('@media (prefers-color-scheme: dark)')
+    expect(result).toContain('<g class="npmx-chart-light"><svg id="light-light" /></g>')
+    expect(result).toContain('<g class="npmx-chart-dark"><svg id="dark-dark" /></g>')
+  })
+
+  it('prefixes ids and their references per theme when theme is auto', async () => {
+    const chart =
+      '<svg><linearGradient id="grad" /><rect fill="url(#grad)" data-id="x" /><use href="#grad" /></svg>'
+    mocks.createStaticVueUiXy.mockResolvedValueOnce(chart).mockResolvedValueOnce(chart)
+
+    const result = await createDownloadsSvgResponse({ package: 'vue', theme: 'auto' })
+
+    expect(result).toContain(
+      '<svg><linearGradient id="light-grad" /><rect fill="url(#light-grad)" data-id="x" /><use href="#light-grad" /></svg>',
+    )
+    expect(result).toContain(
+      '<svg><linearGradient id="dark-grad" /><rect fill="url(#dark-grad)" data-id="x" /><use href="#dark-grad" /></svg>',
+    )
+  })
+
   it('uses a valid locale', async () => {
     await createDownloadsSvgResponse({
       package: 'vue',
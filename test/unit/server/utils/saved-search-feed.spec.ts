@@ -0,0 +1,135 @@
+import type { NpmSearchResult } from '#shared/types/npm-registry'
+import type { SavedSearch } from '#shared/types/social'
+import { DEFAULT_FILTERS } from '#shared/types/preferences'
+import { describe, expect, it } from 'vitest'
+import {
+  buildSavedSearchFeed,
+  getRegistrySearchText,
+  getSavedSearchFeedFilters,
+  SAVED_SEARCH_FEED_MAX_ENTRIES,
+  selectSavedSearchFeedPackages,
+} from '#server/utils/saved-search-feed'
+
+const NOW = Date.parse('2026-01-01T00:00:00Z')
+const FEED_URL =
+  'https://npmx.dev/api/social/profile/npmx.dev/saved-searches/3lbtr2ecxuk2y/feed.xml'
+
+function createSavedSearch(overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    rkey: '3lbtr2ecxuk2y',
+    name: 'Vite plugins',
+    query: 'vite kw:vite-plugin license:MIT',
+    filters: DEFAULT_FILTERS,
+    sort: 'updated-desc',
+    createdAt: '2025-06-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function createPackage(
+  name: string,
+  overrides: Partial<NpmSearchResult['package']> = {},
+): NpmSearchResult {
+  return {
+    package: {
+      name,
+      version: '1.0.0',
+      description: 'A Vite plugin',
+      keywords: ['vite-plugin'],
+      date: '2025-12-01T00:00:00.000Z',
+      links: {},
+      license: 'MIT',
+      ...overrides,
+    },
+    downloads: { weekly: 100 },
+  }
+}
+
+describe('getRegistrySearchText', () => {
+  it('keeps plain text and qualifiers the registry supports', () => {
+    expect(getRegistrySearchText('vite kw:vite-plugin author:antfu maintainer:sxzz')).toBe(
+      'vite keywords:vite-plugin author:antfu maintainer:sxzz',
+    )
+  })
+
+  it('drops terms the registry cannot express', () => {
+    expect(
+      getRegistrySearchText('vite -deprecated kw:vue,react license:MIT downloads:>1k (a OR b)'),
+    ).toBe('vite')
+  })
+
+  it('returns an empty string without searchable terms', () => {
+    expect(getRegistrySearchText('license:MIT')).toBe('')
+  })
+})
+
+describe('getSavedSearchFeedFilters', () => {
+  it('keeps the structured terms of the query as text', () => {
+    const filters = getSavedSearchFeedFilters(
+      createSavedSearch({ filters: { ...DEFAULT_FILTERS, downloadRange: 'gt100k' } }),
+    )
+    expect(filters).toMatchObject({
+      text: 'kw:vite-plugin license:MIT',
+      searchScope: 'all',
+      downloadRange: 'gt100k',
+    })
+  })
+})
+
+describe('selectSavedSearchFeedPackages', () => {
+  it('filters and orders packages by publish date', () => {
+    const packages = [
+      createPackage('older', { date: '2025-10-01T00:00:00.000Z' }),
+      createPackage('gpl', { license: 'GPL-3.0' }),
+      createPackage('newer', { date: '2025-12-20T00:00:00.000Z' }),
+    ]
+    const selected = selectSavedSearchFeedPackages(packages, createSavedSearch(), NOW)
+    expect(selected.map(result => result.package.name)).toEqual(['newer', 'older'])
+  })
+
+  it('caps the number of entries', () => {
+    const packages = Array.from({ length: SAVED_SEARCH_FEED_MAX_ENTRIES + 10 }, (_, i) =>
+      createPackage(`pkg-${i}`),
+    )
+    expect(selectSavedSearchFeedPackages(packages, createSavedSearch(), NOW)).toHaveLength(
+      SAVED_SEARCH_FEED_MAX_ENTRIES,
+    )
+  })
+})
+
+describe('buildSavedSearchFeed', () => {
+  it('renders an entry per package version', () => {
+    const xml = buildSavedSearchFeed({
+      savedSearch: createSavedSearch(),
+      handle: 'npmx.dev',
+      packages: [createPackage('@vitejs/plugin-vue', { version: '6.0.1' })],
+      feedUrl: FEED_URL,
+      now: NOW,
+    })
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(xml).toContain(`<id>${FEED_URL}</id>`)
+    expect(xml).toContain('<id>https://npmx.dev/package/@vitejs/plugin-vue/v/6.0.1</id>')
+    expect(xml).toContain('<title>@vitejs/plugin-vue@6.0.1</title>')
+    expect(xml).toContain('<updated>2025-12-01T00:00:00.000Z</updated>')
+    expect(xml).toContain(
+      '<link href="https://npmx.dev/search?q=vite+kw%3Avite-plugin+license%3AMIT&amp;sort=updated-desc"/>',
+    )
+  })
+
+  it('escapes user content', () => {
+    const xml = buildSavedSearchFeed({
+      savedSearch: createSavedSearch({ name: '<script>', query: '"a" & b' }),
+      handle: 'npmx.dev',
+      packages: [],
+      feedUrl: FEED_URL,
+      now: NOW,
+    })
+
+    expect(xml).toContain('<title>&lt;script&gt; · npmx</title>')
+    expect(xml).toContain('<subtitle>&quot;a&quot; &amp; b</subtitle>')
+    expect(xml).not.toContain('<entry>')
+    // falls back to the creation date without entries
+    expect(xml).toContain('<updated>2025-06-01T00:00:00.000Z</updated>')
+  })
+})
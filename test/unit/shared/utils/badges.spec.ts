@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { getBadgeSnippets, getBadgeUrl } from '#shared/utils/badges'
+
+describe('getBadgeUrl', () => {
+  it('omits default options', () => {
+    expect(getBadgeUrl('https://npmx.dev', { type: 'version', packageName: 'vue' })).toBe(
+      'https://npmx.dev/api/registry/badge/version/vue',
+    )
+  })
+
+  it('includes version, style, label and colors', () => {
+    const url = getBadgeUrl('https://npmx.dev', {
+      type: 'downloads',
+      packageName: '@nuxt/kit',
+      version: '3.0.0',
+      style: 'shieldsio',
+      label: 'installs',
+      color: '#ff69b4',
+      labelColor: '555',
+    })
+
+    expect(url).toBe(
+      'https://npmx.dev/api/registry/badge/downloads/@nuxt/kit/v/3.0.0?style=shieldsio&label=installs&color=ff69b4&labelColor=555',
+    )
+  })
+
+  it('prefers the package name over a custom label', () => {
+    const url = getBadgeUrl('https://npmx.dev', {
+      type: 'license',
+      packageName: 'vue',
+      showName: true,
+      label: 'ignored',
+    })
+
+    expect(url).toBe('https://npmx.dev/api/registry/badge/license/vue?name=true')
+  })
+
+  it('requests JSON output', () => {
+    expect(
+      getBadgeUrl('https://npmx.dev', { type: 'version', packageName: 'vue', format: 'json' }),
+    ).toBe('https://npmx.dev/api/registry/badge/version/vue?format=json')
+  })
+})
+
+describe('getBadgeSnippets', () => {
+  const image = 'https://npmx.dev/api/registry/badge/version/vue'
+  const link = 'https://npmx.dev/package/vue'
+
+  it('builds a snippet for every format', () => {
+    expect(getBadgeSnippets(image, link, 'vue on npmx.dev')).toEqual({
+      markdown: `[![vue on npmx.dev](${image})](${link})`,
+      html: `<a href="${link}"><img src="${image}" alt="vue on npmx.dev"></a>`,
+      rst: `.. image:: ${image}\n   :alt: vue on npmx.dev\n   :target: ${link}`,
+      asciidoc: `image:${image}["vue on npmx.dev",link="${link}"]`,
+    })
+  })
+
+  it('escapes alt text', () => {
+    const snippets = getBadgeSnippets(image, link, '[a] "b" <c>')
+
+    expect(snippets.markdown).toContain('[![\\[a\\] "b" <c>]')
+    expect(snippets.html).toContain('alt="[a] &quot;b&quot; &lt;c>"')
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+import type { DependencyGraphNode } from '#shared/types/dependency-graph'
+import {
+  findDependencyPath,
+  getDependents,
+  getDuplicatedPackages,
+  getDuplicatesReport,
+} from '#shared/utils/dependency-graph'
+
+function node(
+  key: string,
+  deps: Record<string, string | null> = {},
+  size = 0,
+): DependencyGraphNode {
+  const atIndex = key.lastIndexOf('@')
+  return {
+    name: key.slice(0, atIndex),
+    version: key.slice(atIndex + 1),
+    size,
+    dependencies: Object.entries(deps).map(([name, target]) => ({
+      name,
+      range: target ? `^${target.slice(target.lastIndexOf('@') + 1)}` : '*',
+      optional: false,
+      target,
+    })),
+  }
+}
+
+function withRanges(key: string, deps: Record<string, [string, string]>, size = 0) {
+  const base = node(key, {}, size)
+  base.dependencies = Object.entries(deps).map(([name, [range, target]]) => ({
+    name,
+    range,
+    optional: false,
+    target,
+  }))
+  return base
+}
+
+function toGraph(nodes: DependencyGraphNode[]) {
+  return { nodes: Object.fromEntries(nodes.map(n => [`${n.name}@${n.version}`, n])) }
+}
+
+// root → a → shared@1, root → b → shared@2 → a (cycle back to a)
+const graph = {
+  root: 'root@1.0.0',
+  nodes: Object.fromEntries(
+    [
+      node('root@1.0.0', { a: 'a@1.0.0', b: 'b@1.0.0', missing: null }),
+      node('a@1.0.0', { shared: 'shared@1.0.0' }),
+      node('b@1.0.0', { shared: 'shared@2.0.0' }),
+      node('shared@1.0.0'),
+      node('shared@2.0.0', { a: 'a@1.0.0' }),
+      node('orphan@1.0.0'),
+    ].map(n => [`${n.name}@${n.version}`, n]),
+  ),
+}
+
+describe('getDuplicatedPackages', () => {
+  it('lists packages resolved at several versions, sorted by semver', () => {
+    expect(getDuplicatedPackages(graph)).toEqual(new Map([['shared', ['1.0.0', '2.0.0']]]))
+  })
+
+  it('returns an empty map when every package has a single version', () => {
+    expect(getDuplicatedPackages({ nodes: { 'a@1.0.0': node('a@1.0.0') } }).size).toBe(0)
+  })
+})
+
+describe('findDependencyPath', () => {
+  it('returns the shortest path from the root', () => {
+    expect(findDependencyPath(graph, 'shared@2.0.0')).toEqual([
+      'root@1.0.0',
+      'b@1.0.0',
+      'shared@2.0.0',
+    ])
+    expect(findDependencyPath(graph, 'a@1.0.0')).toEqual(['root@1.0.0', 'a@1.0.0'])
+    expect(findDependencyPath(graph, 'root@1.0.0')).toEqual(['root@1.0.0'])
+  })
+
+  it('returns null for unknown or unreachable nodes', () => {
+    expect(findDependencyPath(graph, 'nope@1.0.0')).toBeNull()
+    expect(findDependencyPath(graph, 'orphan@1.0.0')).toBeNull()
+  })
+})
+
+describe('getDependents', () => {
+  it('lists every parent with its declared range', () => {
+    expect(getDependents(graph, 'a@1.0.0')).toEqual([
+      { key: 'root@1.0.0', range: '^1.0.0' },
+      { key: 'shared@2.0.0', range: '^1.0.0' },
+    ])
+    expect(getDependents(graph, 'root@1.0.0')).toEqual([])
+  })
+})
+
+describe('getDuplicatesReport', () => {
+  it('dedupes versions whose ranges a higher version also satisfies', () => {
+    const report = getDuplicatesReport(
+      toGraph([
+        withRanges('root@1.0.0', { a: ['1.0.0', 'a@1.0.0'], dup: ['^1.0.0', 'dup@1.2.0'] }),
+        withRanges('a@1.0.0', { dup: ['1.0.0 - 1.5.0', 'dup@1.1.0'] }),
+        node('dup@1.2.0', {}, 300),
+        node('dup@1.1.0', {}, 250),
+      ]),
+    )
+
+    expect(report).toEqual([
+      {
+        name: 'dup',
+        versions: [
+          {
+            version: '1.2.0',
+            size: 300,
+            dependents: [{ name: 'root', version: '1.0.0', range: '^1.0.0' }],
+          },
+          {
+            version: '1.1.0',
+            size: 250,
+            dependents: [{ name: 'a', version: '1.0.0', range: '1.0.0 - 1.5.0' }],
+          },
+        ],
+        dedupedVersions: ['1.2.0'],
+        savings: 250,
+      },
+    ])
+  })
+
+  it('keeps versions required by incompatible ranges', () => {
+    const [entry] = getDuplicatesReport(
+      toGraph([
+        withRanges('root@1.0.0', { dup: ['^2.0.0', 'dup@2.0.0'], a: ['1.0.0', 'a@1.0.0'] }),
+        withRanges('a@1.0.0', {
+          dup: ['^1.0.0', 'dup@1.0.0'],
+          alias: ['npm:dup@1.0.0', 'dup@1.0.0'],
+        }),
+        node('dup@2.0.0', {}, 10),
+        node('dup@1.0.0', {}, 10),
+      ]),
+    )
+
+    expect(entry?.dedupedVersions).toEqual(['2.0.0', '1.0.0'])
+    expect(entry?.savings).toBe(0)
+  })
+
+  it('sorts packages by savings, then name', () => {
+    const report = getDuplicatesReport(
+      toGraph([
+        withRanges('root@1.0.0', {
+          small: ['^1.0.0', 'small@1.1.0'],
+          big: ['^1.0.0', 'big@1.1.0'],
+          other: ['^1.0.0', 'other@1.1.0'],
+          a: ['1.0.0', 'a@1.0.0'],
+        }),
+        withRanges('a@1.0.0', {
+          small: ['1.0.0', 'small@1.0.0'],
+          big: ['^1.0.0', 'big@1.0.0'],
+          other: ['1.0.0', 'other@1.0.0'],
+        }),
+        node('small@1.1.0'),
+        node('small@1.0.0'),
+        node('big@1.1.0', {}, 100),
+        node('big@1.0.0', {}, 100),
+        node('other@1.1.0'),
+        node('other@1.0.0'),
+      ]),
+    )
+
+    expect(report.map(entry => entry.name)).toEqual(['big', 'other', 'small'])
+  })
+})
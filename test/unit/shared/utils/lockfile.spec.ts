@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest'
+import { detectLockfileFormat, parseLockfile, parsePnpmPackageKey } from '#shared/utils/lockfile'
+
+describe('detectLockfileFormat', () => {
+  it('detects the format from the file name', () => {
+    expect(detectLockfileFormat('', 'package-lock.json')).toBe('npm')
+    expect(detectLockfileFormat('', 'npm-shrinkwrap.json')).toBe('npm')
+    expect(detectLockfileFormat('', 'some/dir/pnpm-lock.yaml')).toBe('pnpm')
+    expect(detectLockfileFormat('', 'yarn.lock')).toBe('yarn')
+  })
+
+  it('falls back to sniffing the content', () => {
+    expect(detectLockfileFormat('{ "lockfileVersion": 3 }')).toBe('npm')
+    expect(detectLockfileFormat("lockfileVersion: '9.0'\n")).toBe('pnpm')
+    expect(detectLockfileFormat('# yarn lockfile v1\n')).toBe('yarn')
+    expect(detectLockfileFormat('__metadata:\n  version: 8\n')).toBe('yarn')
+    expect(detectLockfileFormat('hello world')).toBeNull()
+  })
+})
+
+describe('parseLockfile', () => {
+  describe('package-lock.json', () => {
+    it('parses v3 lockfiles with nested and aliased packages', () => {
+      const content = JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app', dependencies: { 'vue': '^3.0.0', 'string-width-cjs': '*' } },
+          'node_modules/vue': { version: '3.5.0' },
+          'node_modules/@vue/shared': { version: '3.5.0' },
+          'node_modules/string-width-cjs': { name: 'string-width', version: '4.2.3' },
+          'node_modules/foo/node_modules/vue': { version: '2.7.0' },
+          'node_modules/local': { link: true, resolved: 'packages/local' },
+          'packages/local': { version: '0.0.0' },
+        },
+      })
+
+      expect(parseLockfile(content, 'package-lock.json')).toEqual({
+        format: 'npm',
+        packages: [
+          { name: '@vue/shared', version: '3.5.0', direct: false },
+          { name: 'string-width', version: '4.2.3', direct: true },
+          { name: 'vue', version: '2.7.0', direct: false },
+          { name: 'vue', version: '3.5.0', direct: true },
+        ],
+      })
+    })
+
+    it('parses v1 lockfiles', () => {
+      const content = JSON.stringify({
+        lockfileVersion: 1,
+        dependencies: {
+          a: { version: '1.0.0', dependencies: { b: { version: '2.0.0' } } },
+          b: { version: '1.0.0' },
+          c: { version: 'git+https://github.com/x/c.git' },
+        },
+      })
+
+      expect(parseLockfile(content)?.packages).toEqual([
+        { name: 'a', version: '1.0.0', direct: true },
+        { name: 'b', version: '1.0.0', direct: true },
+        { name: 'b', version: '2.0.0', direct: false },
+      ])
+    })
+
+    it('returns null for invalid JSON', () => {
+      expect(parseLockfile('{ nope', 'package-lock.json')).toBeNull()
+    })
+  })
+
+  describe('pnpm-lock.yaml', () => {
+    it('parses v9 lockfiles', () => {
+      const content = [
+        "lockfileVersion: '9.0'",
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    dependencies:',
+        '      vue:',
+        '        specifier: ^3.5.0',
+        '        version: 3.5.0',
+        '    devDependencies:',
+        "      '@types/node':",
+        '        specifier: ^20.0.0',
+        '        version: 20.1.0',
+        '',
+        'packages:',
+        '',
+        "  '@types/node@20.1.0':",
+        '    resolution: {integrity: sha512-abc}',
+        '',
+        "  '@vue/shared@3.5.0':",
+        '    resolution: {integrity: sha512-def}',
+        '',
+        '  vue@3.5.0:',
+        '    resolution: {integrity: sha512-ghi}',
+        '',
+        'snapshots:',
+        '',
+        '  vue@3.5.0(typescript@5.0.0):',
+        '    dependencies:',
+        "      '@vue/shared': 3.5.0",
+      ].join('\n')
+
+      expect(parseLockfile(content, 'pnpm-lock.yaml')?.packages).toEqual([
+        { name: '@types/node', version: '20.1.0', direct: true },
+        { name: '@vue/shared', version: '3.5.0', direct: false },
+        { name: 'vue', version: '3.5.0', direct: true },
+      ])
+    })
+
+    it('matches direct dependencies of each importer by version', () => {
+      const content = [
+        "lockfileVersion: '9.0'",
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    dependencies:',
+        '      vue:',
+        '        specifier: ^3.5.0',
+        '        version: 3.5.0(typescript@5.0.0)',
+        '',
+        '  packages/legacy:',
+        '    dependencies:',
+        '      vue:',
+        '        specifier: ^2.7.0',
+        '        version: 2.7.0',
+        '      shared:',
+        '        specifier: workspace:*',
+        '        version: link:../shared',
+        '',
+        'packages:',
+        '',
+        '  vue@2.7.0:',
+        '    resolution: {integrity: sha512-abc}',
+        '',
+        '  vue@3.5.0:',
+        '    resolution: {integrity: sha512-def}',
+        '',
+        '  vue@3.4.0:',
+        '    resolution: {integrity: sha512-ghi}',
+      ].join('\n')
+
+      expect(parseLockfile(content, 'pnpm-lock.yaml')?.packages).toEqual([
+        { name: 'vue', version: '2.7.0', direct: true },
+        { name: 'vue', version: '3.4.0', direct: false },
+        { name: 'vue', version: '3.5.0', direct: true },
+      ])
+    })
+
+    it('parses v5 lockfiles with root dependencies', () => {
+      const content = [
+        'lockfileVersion: 5.4',
+        '',
+        'dependencies:',
+        '  react: 18.2.0',
+        '',
+        'packages:',
+        '',
+        '  /loose-envify/1.4.0:',
+        '    resolution: {integrity: sha512-abc}',
+        '',
+        '  /react/18.2.0:',
+        '    resolution: {integrity: sha512-def}',
+      ].join('\n')
+
+      expect(parseLockfile(content)?.packages).toEqual([
+        { name: 'loose-envify', version: '1.4.0', direct: false },
+        { name: 'react', version: '18.2.0', direct: true },
+      ])
+    })
+  })
+
+  describe('yarn.lock', () => {
+    it('parses classic v1 lockfiles', () => {
+      const content = [
+        '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+        '# yarn lockfile v1',
+        '',
+        '',
+        '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":',
+        '  version "7.12.13"',
+        '  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz"',
+        '',
+        'lodash@^4.17.21:',
+        '  version "4.17.21"',
+        '',
+        '"string-width-cjs@npm:string-width@^4.2.0":',
+        '  version "4.2.3"',
+      ].join('\n')
+
+      expect(parseLockfile(content, 'yarn.lock')?.packages).toEqual([
+        { name: '@babel/code-frame', version: '7.12.13', direct: false },
+        { name: 'lodash', version: '4.17.21', direct: false },
+        { name: 'string-width', version: '4.2.3', direct: false },
+      ])
+    })
+
+    it('skips git dependencies', () => {
+      const content = [
+        '# yarn lockfile v1',
+        '',
+        '"a@git+https://github.com/x/a.git":',
+        '  version "1.0.0"',
+        '',
+        '"b@git+ssh://git@github.com/x/b.git":',
+        '  version "1.0.0"',
+        '',
+        'c@^1.0.0:',
+        '  version "1.0.0"',
+      ].join('\n')
+
+      expect(parseLockfile(content, 'yarn.lock')?.packages).toEqual([
+        { name: 'c', version: '1.0.0', direct: false },
+      ])
+    })
+
+    it('parses berry lockfiles and skips workspaces and patches', () => {
+      const content = [
+        '__metadata:',
+        '  version: 8',
+        '',
+        '"app@workspace:.":',
+        '  version: 0.0.0-use.local',
+        '',
+        '"lodash@npm:^4.17.21":',
+        '  version: 4.17.21',
+        '',
+        '"resolve@patch:resolve@npm%3A^1.0.0#~builtin<compat/resolve>":',
+        '  version: 1.22.8',
+      ].join('\n')
+
+      expect(parseLockfile(content, 'yarn.lock')?.packages).toEqual([
+        { name: 'lodash', version: '4.17.21', direct: false },
+      ])
+    })
+  })
+})
+
+describe('parsePnpmPackageKey', () => {
+  it.each([
+    ['/vue/3.5.0', 'vue', '3.5.0'],
+    ['/@vue/shared/3.5.0', '@vue/shared', '3.5.0'],
+    ['/react-dom/18.2.0_react@18.2.0', 'react-dom', '18.2.0'],
+    ['/vue@3.5.0', 'vue', '3.5.0'],
+    ['/@vue/shared@3.5.0(typescript@5.0.0)', '@vue/shared', '3.5.0'],
+    ["'@vue/shared@3.5.0'", '@vue/shared', '3.5.0'],
+    ['vue@3.5.0', 'vue', '3.5.0'],
+  ])('parses %s', (key, name, version) => {
+    expect(parsePnpmPackageKey(key)).toEqual({ name, version })
+  })
+})
@@ -0,0 +1,283 @@
+import type { NpmSearchResult } from '#shared/types/npm-registry'
+import { describe, expect, it } from 'vitest'
+import {
+  matchesSearchExpression,
+  parseSearchExpression,
+  removeSearchExpressionNodes,
+  stringifySearchExpression,
+} from '#shared/utils/search-query'
+
+const NOW = Date.parse('2026-01-01T00:00:00Z')
+
+function createPackage(
+  overrides: Partial<NpmSearchResult['package']> = {},
+  weekly = 0,
+): NpmSearchResult {
+  return {
+    package: {
+      name: 'vite-plugin-inspect',
+      version: '1.0.0',
+      description: 'Inspect the intermediate state of Vite plugins',
+      keywords: ['vite', 'vite-plugin'],
+      date: '2025-12-01T00:00:00Z',
+      links: {},
+      author: { name: 'Anthony Fu', email: 'anthony@example.com' },
+      maintainers: [{ username: 'antfu', email: 'anthony@example.com' }],
+      license: 'MIT',
+      ...overrides,
+    },
+    downloads: { weekly },
+  }
+}
+
+function matches(query: string, pkg: NpmSearchResult): boolean {
+  return parseSearchExpression(query).nodes.every(node => matchesSearchExpression(pkg, node, NOW))
+}
+
+describe('parseSearchExpression', () => {
+  it('parses text and fields', () => {
+    const { nodes, errors } = parseSearchExpression('vite author:antfu kw:vue,react')
+    expect(errors).toEqual([])
+    expect(nodes).toEqual([
+      { type: 'text', value: 'vite', quoted: false, negated: false, start: 0, end: 4 },
+      {
+        type: 'field',
+        field: 'author',
+        values: ['antfu'],
+        quoted: false,
+        negated: false,
+        start: 5,
+        end: 17,
+      },
+      {
+        type: 'field',
+        field: 'keywords',
+        values: ['vue', 'react'],
+        quoted: false,
+        negated: false,
+        start: 18,
+        end: 30,
+      },
+    ])
+  })
+
+  it('parses quoted phrases and quoted field values', () => {
+    const { nodes } = parseSearchExpression('"css in js" desc:"build tool"')
+    expect(nodes).toMatchObject([
+      { type: 'text', value: 'css in js', quoted: true },
+      { type: 'field', field: 'description', values: ['build tool'], quoted: true },
+    ])
+  })
+
+  it('parses negated terms', () => {
+    const { nodes } = parseSearchExpression('-kw:deprecated -legacy')
+    expect(nodes).toMatchObject([
+      { type: 'field', field: 'keywords', values: ['deprecated'], negated: true },
+      { type: 'text', value: 'legacy', negated: true },
+    ])
+  })
+
+  it('parses download ranges with suffixes', () => {
+    const { nodes } = parseSearchExpression('downloads:>10000 downloads:<=1.5k downloads:2m')
+    expect(nodes).toMatchObject([
+      { type: 'range', field: 'downloads', comparator: '>', value: 10_000, raw: '>10000' },
+      { type: 'range', field: 'downloads', comparator: '<=', value: 1_500, raw: '<=1.5k' },
+      { type: 'range', field: 'downloads', comparator: '>=', value: 2_000_000, raw: '2m' },
+    ])
+  })
+
+  it('parses durations in days', () => {
+    const { nodes } = parseSearchExpression('updated:<90d updated:>2w updated:1y')
+    expect(nodes).toMatchObject([
+      { type: 'range', field: 'updated', comparator: '<', value: 90 },
+      { type: 'range', field: 'updated', comparator: '>', value: 14 },
+      { type: 'range', field: 'updated', comparator: '<=', value: 365 },
+    ])
+  })
+
+  it('binds OR tighter than AND', () => {
+    const { nodes } = parseSearchExpression('vite kw:vue OR kw:react')
+    expect(nodes).toMatchObject([
+      { type: 'text', value: 'vite' },
+      {
+        type: 'group',
+        operator: 'or',
+        nodes: [
+          { type: 'field', values: ['vue'] },
+          { type: 'field', values: ['react'] },
+        ],
+        start: 5,
+        end: 23,
+      },
+    ])
+  })
+
+  it('parses negated groups', () => {
+    const { nodes, errors } = parseSearchExpression('-(license:GPL-3.0 OR license:AGPL-3.0) vite')
+    expect(errors).toEqual([])
+    expect(nodes).toMatchObject([
+      { type: 'group', operator: 'or', negated: true, start: 0, end: 38 },
+      { type: 'text', value: 'vite' },
+    ])
+  })
+
+  it('parses nested AND groups', () => {
+    const { nodes } = parseSearchExpression('(kw:vue kw:plugin) OR kw:vite-plugin')
+    expect(nodes).toMatchObject([
+      {
+        type: 'group',
+        operator: 'or',
+        nodes: [{ type: 'group', operator: 'and', nodes: [{}, {}] }, { type: 'field' }],
+      },
+    ])
+  })
+
+  it('treats field prefixes without a value as text', () => {
+    const { nodes, errors } = parseSearchExpression('name: react')
+    expect(errors).toEqual([])
+    expect(nodes).toMatchObject([
+      { type: 'text', value: 'name:' },
+      { type: 'text', value: 'react' },
+    ])
+  })
+
+  it('keeps a lone dash as text', () => {
+    const { nodes } = parseSearchExpression('a - b')
+    expect(nodes).toMatchObject([{ value: 'a' }, { value: '-', negated: false }, { value: 'b' }])
+  })
+
+  describe('errors', () => {
+    it('reports unknown fields and keeps them as text', () => {
+      const { nodes, errors } = parseSearchExpression('vite colour:red')
+      expect(errors).toEqual([{ code: 'unknown_field', start: 5, end: 15, text: 'colour:red' }])
+      expect(nodes[1]).toMatchObject({ type: 'text', value: 'colour:red' })
+    })
+
+    it('does not treat object properties as fields', () => {
+      expect(parseSearchExpression('constructor:x').errors.map(e => e.code)).toEqual([
+        'unknown_field',
+      ])
+    })
+
+    it('reports invalid numbers and durations', () => {
+      const { nodes, errors } = parseSearchExpression('downloads:>lots updated:<soon')
+      expect(errors.map(e => e.code)).toEqual(['invalid_number', 'invalid_duration'])
+      expect(nodes).toMatchObject([
+        { type: 'invalid', raw: 'downloads:>lots' },
+        { type: 'invalid', raw: 'updated:<soon' },
+      ])
+    })
+
+    it('reports empty quoted values', () => {
+      const { errors } = parseSearchExpression('author:""')
+      expect(errors.map(e => e.code)).toEqual(['empty_value'])
+    })
+
+    it('reports unclosed quotes and keeps the phrase', () => {
+      const { nodes, errors } = parseSearchExpression('vite "css in')
+      expect(errors).toEqual([{ code: 'unclosed_quote', start: 5, end: 12, text: '"css in' }])
+      expect(nodes[1]).toMatchObject({ type: 'text', value: 'css in', quoted: true })
+    })
+
+    it('reports unclosed groups', () => {
+      const { nodes, errors } = parseSearchExpression('(kw:vue OR kw:react')
+      expect(errors.map(e => e.code)).toEqual(['unclosed_group'])
+      expect(nodes).toMatchObject([{ type: 'group', operator: 'or' }])
+    })
+
+    it('reports unexpected closing parentheses', () => {
+      const { nodes, errors } = parseSearchExpression('vite)')
+      expect(errors).toEqual([{ code: 'unexpected_paren', start: 4, end: 5, text: ')' }])
+      expect(nodes).toHaveLength(1)
+    })
+
+    it('reports dangling OR', () => {
+      expect(parseSearchExpression('OR vite').errors.map(e => e.code)).toEqual(['dangling_or'])
+      expect(parseSearchExpression('vite OR').errors.map(e => e.code)).toEqual(['dangling_or'])
+      expect(parseSearchExpression('vite OR OR vue').errors.map(e => e.code)).toEqual([
+        'dangling_or',
+      ])
+    })
+  })
+})
+
+describe('matchesSearchExpression', () => {
+  it('matches text against name, description and keywords', () => {
+    expect(matches('inspect', createPackage())).toBe(true)
+    expect(matches('intermediate', createPackage())).toBe(true)
+    expect(matches('webpack', createPackage())).toBe(false)
+  })
+
+  it('matches author and maintainer by name, username or email', () => {
+    expect(matches('author:anthony', createPackage())).toBe(true)
+    expect(matches('maintainer:antfu', createPackage())).toBe(true)
+    expect(matches('maintainer:sindre', createPackage())).toBe(false)
+  })
+
+  it('matches licenses exactly, ignoring case', () => {
+    expect(matches('license:mit', createPackage())).toBe(true)
+    expect(matches('license:MIT-0', createPackage())).toBe(false)
+    expect(matches('license:MIT,Apache-2.0', createPackage({ license: 'Apache-2.0' }))).toBe(true)
+  })
+
+  it('excludes negated terms', () => {
+    expect(matches('-kw:deprecated', createPackage())).toBe(true)
+    expect(matches('-kw:deprecated', createPackage({ keywords: ['deprecated'] }))).toBe(false)
+  })
+
+  it('compares weekly downloads', () => {
+    expect(matches('downloads:>10000', createPackage({}, 20_000))).toBe(true)
+    expect(matches('downloads:>10k', createPackage({}, 10_000))).toBe(false)
+    expect(matches('downloads:>=10k', createPackage({}, 10_000))).toBe(true)
+  })
+
+  it('compares the time since the last publish', () => {
+    expect(matches('updated:<90d', createPackage())).toBe(true)
+    expect(matches('updated:<1w', createPackage())).toBe(false)
+    expect(matches('updated:>1w', createPackage())).toBe(true)
+  })
+
+  it('compares whole days for exact publish ages', () => {
+    expect(matches('updated:=31d', createPackage())).toBe(true)
+    expect(matches('updated:=31d', createPackage({ date: '2025-11-30T12:00:00Z' }))).toBe(true)
+    expect(matches('updated:=30d', createPackage({ date: '2025-12-01T12:00:00Z' }))).toBe(true)
+    expect(matches('updated:=32d', createPackage())).toBe(false)
+  })
+
+  it('evaluates OR groups', () => {
+    expect(matches('kw:webpack OR kw:vite', createPackage())).toBe(true)
+    expect(matches('kw:webpack OR kw:rollup', createPackage())).toBe(false)
+    expect(matches('-(kw:webpack OR kw:vite)', createPackage())).toBe(false)
+  })
+
+  it('ignores invalid terms', () => {
+    expect(matches('vite downloads:>lots', createPackage())).toBe(true)
+  })
+})
+
+describe('stringifySearchExpression', () => {
+  it('round-trips a query', () => {
+    const query =
+      'vite -kw:deprecated desc:"build tool" downloads:>10k (author:antfu OR maintainer:sxzz) -(kw:a kw:b)'
+    const { nodes } = parseSearchExpression(query)
+    expect(stringifySearchExpression(nodes)).toBe(
+      'vite -kw:deprecated desc:"build tool" downloads:>10k author:antfu OR maintainer:sxzz -(kw:a kw:b)',
+    )
+  })
+
+  it('uses short field names', () => {
+    const { nodes } = parseSearchExpression('keyword:vue description:fast')
+    expect(stringifySearchExpression(nodes)).toBe('kw:vue desc:fast')
+  })
+})
+
+describe('removeSearchExpressionNodes', () => {
+  it('removes terms and keeps the rest as written', () => {
+    const query = 'vite  "css  in js" (kw:vue OR kw:react) downloads:>1k'
+    const { nodes } = parseSearchExpression(query)
+    expect(removeSearchExpressionNodes(query, [nodes[2]!])).toBe('vite  "css  in js" downloads:>1k')
+    expect(removeSearchExpressionNodes(query, [nodes[0]!, nodes[3]!])).toBe(
+      '"css  in js" (kw:vue OR kw:react)',
+    )
+  })
+})
@@ -0,0 +1,78 @@
+import type { NpmSearchResult } from '#shared/types/npm-registry'
+import type { StructuredFilters } from '#shared/types/preferences'
+import { DEFAULT_FILTERS } from '#shared/types/preferences'
+import { describe, expect, it } from 'vitest'
+import { createStructuredFiltersPredicate } from '#shared/utils/structured-filters'
+
+const NOW = Date.parse('2026-01-01T00:00:00Z')
+
+function createPackage(
+  overrides: Partial<NpmSearchResult['package']> = {},
+  extra: Partial<Omit<NpmSearchResult, 'package'>> = {},
+): NpmSearchResult {
+  return {
+    package: {
+      name: 'vite-plugin-inspect',
+      version: '1.0.0',
+      description: 'Inspect the intermediate state of Vite plugins',
+      keywords: ['vite', 'vite-plugin'],
+      date: '2025-12-28T00:00:00Z',
+      links: {},
+      license: 'MIT',
+      ...overrides,
+    },
+    downloads: { weekly: 5000 },
+    ...extra,
+  }
+}
+
+function matches(filters: Partial<StructuredFilters>, pkg: NpmSearchResult): boolean {
+  return createStructuredFiltersPredicate({ ...DEFAULT_FILTERS, ...filters }, NOW)(pkg)
+}
+
+describe('createStructuredFiltersPredicate', () => {
+  it('matches every package with the default filters', () => {
+    expect(matches({}, createPackage())).toBe(true)
+  })
+
+  it('matches text in the selected scope', () => {
+    const pkg = createPackage()
+    expect(matches({ text: 'inspect' }, pkg)).toBe(true)
+    expect(matches({ text: 'intermediate' }, pkg)).toBe(false)
+    expect(matches({ text: 'intermediate', searchScope: 'description' }, pkg)).toBe(true)
+    expect(matches({ text: 'vite-pl', searchScope: 'keywords' }, pkg)).toBe(true)
+  })
+
+  it('parses the text as a search expression with the all scope', () => {
+    const pkg = createPackage()
+    expect(matches({ text: 'vite license:MIT', searchScope: 'all' }, pkg)).toBe(true)
+    expect(matches({ text: 'vite -license:MIT', searchScope: 'all' }, pkg)).toBe(false)
+    expect(matches({ text: 'downloads:>10k', searchScope: 'all' }, pkg)).toBe(false)
+  })
+
+  it('requires all keywords', () => {
+    const pkg = createPackage()
+    expect(matches({ keywords: ['Vite', 'vite-plugin'] }, pkg)).toBe(true)
+    expect(matches({ keywords: ['vite', 'react'] }, pkg)).toBe(false)
+  })
+
+  it('matches download ranges on weekly downloads', () => {
+    const pkg = createPackage()
+    expect(matches({ downloadRange: '1k-10k' }, pkg)).toBe(true)
+    expect(matches({ downloadRange: 'gt100k' }, pkg)).toBe(false)
+  })
+
+  it('matches the security filter', () => {
+    const insecure = createPackage({}, { flags: { insecure: 1 } })
+    expect(matches({ security: 'warnings' }, insecure)).toBe(true)
+    expect(matches({ security: 'secure' }, insecure)).toBe(false)
+    expect(matches({ security: 'secure' }, createPackage())).toBe(true)
+  })
+
+  it('matches the last publish relative to now', () => {
+    expect(matches({ updatedWithin: 'week' }, createPackage())).toBe(true)
+    expect(
+      matches({ updatedWithin: 'week' }, createPackage({ date: '2025-11-01T00:00:00Z' })),
+    ).toBe(false)
+  })
+})
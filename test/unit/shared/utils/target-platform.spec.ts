@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import * as v from 'valibot'
+import { TargetPlatformQuerySchema } from '#shared/schemas/package'
+import {
+  DEFAULT_TARGET_PLATFORM,
+  TARGET_PLATFORM_PRESETS,
+  getTargetPlatformKey,
+  getTargetPlatformQuery,
+  isDefaultTargetPlatform,
+} from '#shared/utils/target-platform'
+
+describe('getTargetPlatformKey', () => {
+  it('includes libc on linux only', () => {
+    expect(getTargetPlatformKey({ os: 'linux', cpu: 'x64', libc: 'musl' })).toBe('linux-x64-musl')
+    expect(getTargetPlatformKey({ os: 'darwin', cpu: 'arm64', libc: 'glibc' })).toBe('darwin-arm64')
+  })
+
+  it('produces a unique key for every preset', () => {
+    const keys = TARGET_PLATFORM_PRESETS.map(getTargetPlatformKey)
+    expect(new Set(keys).size).toBe(keys.length)
+  })
+})
+
+describe('isDefaultTargetPlatform', () => {
+  it('detects the default platform', () => {
+    expect(isDefaultTargetPlatform({ ...DEFAULT_TARGET_PLATFORM })).toBe(true)
+    expect(isDefaultTargetPlatform({ os: 'linux', cpu: 'x64', libc: 'musl' })).toBe(false)
+  })
+})
+
+describe('getTargetPlatformQuery', () => {
+  it('omits the default platform', () => {
+    expect(getTargetPlatformQuery(DEFAULT_TARGET_PLATFORM)).toEqual({})
+  })
+
+  it('omits libc outside linux', () => {
+    expect(getTargetPlatformQuery({ os: 'win32', cpu: 'arm64' })).toEqual({
+      os: 'win32',
+      cpu: 'arm64',
+    })
+    expect(getTargetPlatformQuery({ os: 'linux', cpu: 'arm64', libc: 'musl' })).toEqual({
+      os: 'linux',
+      cpu: 'arm64',
+      libc: 'musl',
+    })
+  })
+})
+
+describe('TargetPlatformQuerySchema', () => {
+  it('falls back to the default platform', () => {
+    expect(v.parse(TargetPlatformQuerySchema, {})).toEqual(DEFAULT_TARGET_PLATFORM)
+  })
+
+  it('round-trips the query built by getTargetPlatformQuery', () => {
+    for (const preset of TARGET_PLATFORM_PRESETS) {
+      const parsed = v.parse(TargetPlatformQuerySchema, getTargetPlatformQuery(preset))
+      expect(getTargetPlatformKey(parsed)).toBe(getTargetPlatformKey(preset))
+    }
+  })
+
+  it('rejects unsupported values', () => {
+    expect(() => v.parse(TargetPlatformQuerySchema, { os: 'plan9' })).toThrow('Unsupported os')
+  })
+})